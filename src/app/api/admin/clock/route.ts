@@ -0,0 +1,95 @@
+/**
+ * GET /api/admin/clock - Hora actual de la biblioteca y estado de la simulación
+ *
+ * POST /api/admin/clock - Controlar el tiempo simulado
+ * { action: 'freeze', at? } - Congelar el reloj (por defecto en la hora actual)
+ * { action: 'advance', days } - Adelantar el reloj N días
+ * { action: 'resume' } - Dejar correr el tiempo desde la hora simulada
+ * { action: 'reset' } - Volver al tiempo real
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+const actions = ['freeze', 'advance', 'resume', 'reset'] as const;
+type ClockAction = (typeof actions)[number];
+
+export async function GET(request: NextRequest) {
+  try {
+    const clock = resolveLibraryContext(request).clock;
+
+    return NextResponse.json({ success: true, data: clock.getState() });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la hora',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+    const clock = context.clock;
+
+    const body = await request.json();
+    const { action } = body;
+
+    if (!actions.includes(action as ClockAction)) {
+      return NextResponse.json(
+        { success: false, error: `Acción no válida: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const before = clock.now();
+    let state;
+    try {
+      switch (action as ClockAction) {
+        case 'freeze':
+          state = clock.freeze(body.at ? new Date(body.at) : undefined);
+          break;
+        case 'advance':
+          state = clock.advance(Number(body.days));
+          break;
+        case 'resume':
+          state = clock.resume();
+          break;
+        case 'reset':
+          state = clock.reset();
+          break;
+      }
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Parámetros no válidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Al adelantar, las tareas atrasadas corren en el próximo tick;
+    // si el reloj retrocede, se reprograman para no quedar esperando
+    if (state.ahora < before) {
+      context.scheduler.recalculate();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: state,
+      message: state.simulado ? 'Tiempo simulado actualizado' : 'Reloj en tiempo real',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al controlar el reloj',
+      },
+      { status: 500 }
+    );
+  }
+}
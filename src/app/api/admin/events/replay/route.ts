@@ -0,0 +1,81 @@
+/**
+ * GET /api/admin/events/replay - Estado de la biblioteca en un momento dado
+ * ?until - Fecha límite (ISO 8601); sin ella se reproduce el registro completo
+ * ?section - Devolver solo una sección (books, users, loans, reservations, holds, graph)
+ *
+ * POST /api/admin/events/replay - Reconstruir todos los servicios desde el registro
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { LibraryState } from '@/types';
+
+const sections = ['books', 'users', 'loans', 'copies', 'reservations', 'holds', 'history', 'graph'] as const;
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+    const eventLogService = context.events;
+    const snapshotService = context.snapshots;
+
+    const { searchParams } = new URL(request.url);
+    const untilParam = searchParams.get('until');
+    const section = searchParams.get('section');
+
+    const until = untilParam ? new Date(untilParam) : undefined;
+    if (until && isNaN(until.getTime())) {
+      return NextResponse.json(
+        { success: false, error: `Fecha no válida: ${untilParam}` },
+        { status: 400 }
+      );
+    }
+
+    if (section && !sections.includes(section as keyof LibraryState)) {
+      return NextResponse.json(
+        { success: false, error: `Sección no válida: ${section}` },
+        { status: 400 }
+      );
+    }
+
+    const state = eventLogService.project(until);
+
+    return NextResponse.json({
+      success: true,
+      data: section ? state[section as keyof LibraryState] : state,
+      meta: {
+        until: until ?? null,
+        ...snapshotService.summarize(state),
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al reproducir eventos',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const snapshotService = resolveLibraryContext(request).snapshots;
+
+    const state = snapshotService.rebuildFromEventLog();
+
+    return NextResponse.json({
+      success: true,
+      data: snapshotService.summarize(state),
+      message: 'Servicios reconstruidos desde el registro de eventos',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al reconstruir desde eventos',
+      },
+      { status: 500 }
+    );
+  }
+}
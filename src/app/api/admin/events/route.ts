@@ -0,0 +1,55 @@
+/**
+ * GET /api/admin/events - Consultar el registro de eventos de dominio
+ * ?type - Filtrar por tipo de evento (BookAdded, LoanCreated, ...)
+ * ?after - Eventos posteriores a un número de secuencia
+ * ?since / ?until - Rango de fechas (ISO 8601)
+ * ?limit - Número máximo de eventos
+ * ?stats - Solo estadísticas del registro
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { DomainEventType } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const eventLogService = resolveLibraryContext(request).events;
+
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('stats') === 'true') {
+      return NextResponse.json({
+        success: true,
+        data: eventLogService.getStats(),
+      });
+    }
+
+    const type = searchParams.get('type');
+    const after = searchParams.get('after');
+    const since = searchParams.get('since');
+    const until = searchParams.get('until');
+    const limit = searchParams.get('limit');
+
+    const events = eventLogService.getEvents({
+      type: type ? (type as DomainEventType) : undefined,
+      afterSequence: after ? parseInt(after) : undefined,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: events,
+      count: events.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener eventos',
+      },
+      { status: 500 }
+    );
+  }
+}
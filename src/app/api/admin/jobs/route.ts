@@ -0,0 +1,137 @@
+/**
+ * GET /api/admin/jobs - Estado de las tareas programadas
+ * ?history=true - Devolver el historial de ejecuciones en lugar de las tareas
+ * ?jobId - Filtrar el historial por tarea
+ * ?limit - Máximo de ejecuciones a devolver
+ *
+ * POST /api/admin/jobs - Controlar una tarea
+ * { action: 'run' | 'pause' | 'resume' | 'schedule', jobId, schedule? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+const actions = ['run', 'pause', 'resume', 'schedule'] as const;
+type JobAction = (typeof actions)[number];
+
+export async function GET(request: NextRequest) {
+  try {
+    const schedulerService = resolveLibraryContext(request).scheduler;
+
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('history') === 'true') {
+      const jobId = searchParams.get('jobId') ?? undefined;
+      const limitParam = searchParams.get('limit');
+      const limit = limitParam ? parseInt(limitParam) : undefined;
+
+      if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+        return NextResponse.json(
+          { success: false, error: `Límite no válido: ${limitParam}` },
+          { status: 400 }
+        );
+      }
+
+      const runs = schedulerService.getRuns(jobId, limit);
+      return NextResponse.json({ success: true, data: runs, count: runs.length });
+    }
+
+    const jobs = schedulerService.getJobs();
+
+    return NextResponse.json({
+      success: true,
+      data: jobs,
+      count: jobs.length,
+      running: schedulerService.isRunning(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener tareas',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const schedulerService = resolveLibraryContext(request).scheduler;
+    const body = await request.json();
+    const { action, jobId, schedule } = body;
+
+    if (!actions.includes(action as JobAction)) {
+      return NextResponse.json(
+        { success: false, error: `Acción no válida: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    if (!jobId || !schedulerService.hasJob(jobId)) {
+      return NextResponse.json(
+        { success: false, error: `Tarea no encontrada: ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    switch (action as JobAction) {
+      case 'run': {
+        const run = schedulerService.runJob(jobId);
+        return NextResponse.json({
+          success: run.estado === 'exito',
+          data: run,
+          message: run.estado === 'exito' ? 'Tarea ejecutada exitosamente' : undefined,
+          error: run.error,
+        });
+      }
+
+      case 'pause':
+        return NextResponse.json({
+          success: true,
+          data: schedulerService.pauseJob(jobId),
+          message: 'Tarea pausada',
+        });
+
+      case 'resume':
+        return NextResponse.json({
+          success: true,
+          data: schedulerService.resumeJob(jobId),
+          message: 'Tarea reanudada',
+        });
+
+      case 'schedule': {
+        if (typeof schedule !== 'string') {
+          return NextResponse.json(
+            { success: false, error: 'Falta la expresión cron (schedule)' },
+            { status: 400 }
+          );
+        }
+
+        try {
+          return NextResponse.json({
+            success: true,
+            data: schedulerService.rescheduleJob(jobId, schedule),
+            message: 'Programación actualizada',
+          });
+        } catch (error) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : 'Expresión cron no válida',
+            },
+            { status: 400 }
+          );
+        }
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al controlar la tarea',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GET /api/admin/snapshot - Exportar el estado completo de la biblioteca
+ * POST /api/admin/snapshot - Restaurar la biblioteca desde un snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext, type SnapshotService } from '@/services';
+import { deserialize } from '@/lib/persistence';
+import type { LibrarySnapshot } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const snapshotService = resolveLibraryContext(request).snapshots;
+
+    const snapshot = snapshotService.exportSnapshot();
+    const fecha = snapshot.exportedAt.toISOString().slice(0, 10);
+
+    return NextResponse.json(snapshot, {
+      headers: {
+        'Content-Disposition': `attachment; filename="biblioteca-snapshot-${fecha}.json"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al exportar snapshot',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let snapshotService: SnapshotService;
+
+  try {
+    snapshotService = resolveLibraryContext(request).snapshots;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Biblioteca no válida',
+      },
+      { status: 400 }
+    );
+  }
+
+  let data: unknown;
+
+  try {
+    data = deserialize(await request.text());
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'El cuerpo de la petición no es JSON válido' },
+      { status: 400 }
+    );
+  }
+
+  let snapshot: LibrarySnapshot;
+
+  // Los archivos de versiones anteriores se migran (sobre una copia) y se validan una sola vez
+  try {
+    snapshot = snapshotService.upgradeSnapshot(data);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Snapshot no válido',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    snapshotService.importSnapshot(snapshot);
+
+    return NextResponse.json({
+      success: true,
+      data: snapshotService.summarize(snapshot),
+      message: 'Snapshot importado exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al importar snapshot',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * GET /api/books/[id]/citation - Descargar la cita de un libro (?format=bibtex|ris|dc)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { CITATION_FORMATS, exportCitations, parseCitationFormat } from '@/lib/citations';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const bookService = resolveLibraryContext(request).books;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = parseCitationFormat(searchParams.get('format'));
+
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `Formato no válido; use ${CITATION_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const book = bookService.findBookById(id);
+
+    if (!book) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const citation = exportCitations([book], format, `cita-${book.id}`);
+
+    return new NextResponse(citation.content, {
+      headers: {
+        'Content-Type': citation.contentType,
+        'Content-Disposition': `attachment; filename="${citation.filename}"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al generar la cita',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * GET /api/books/[id]/copies/[copyId] - Obtener un ejemplar
+ * PUT /api/books/[id]/copies/[copyId] - Actualizar código, condición, ubicación, estantería, estado o notas
+ * DELETE /api/books/[id]/copies/[copyId] - Eliminar un ejemplar que no esté en circulación
+ *   (no las plazas de un libro digital: se ajustan con su licencia)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext, type CopyService, type CopyUpdate } from '@/services';
+import { isDigital } from '@/lib/licenses';
+
+type CopyParams = { params: Promise<{ id: string; copyId: string }> };
+
+/**
+ * Busca el ejemplar y comprueba que pertenezca al libro de la ruta
+ */
+function findBookCopy(copyService: CopyService, bookId: string, copyId: string) {
+  const copy = copyService.findCopyById(copyId);
+  return copy && copy.libroId === bookId ? copy : null;
+}
+
+export async function GET(request: NextRequest, { params }: CopyParams) {
+  try {
+    const copyService = resolveLibraryContext(request).copies;
+
+    const { id, copyId } = await params;
+    const copy = findBookCopy(copyService, id, copyId);
+
+    if (!copy) {
+      return NextResponse.json(
+        { success: false, error: 'Ejemplar no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: copy,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener ejemplar',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: CopyParams) {
+  try {
+    const context = resolveLibraryContext(request);
+    const copyService = context.copies;
+
+    const { id, copyId } = await params;
+    const body: CopyUpdate = await request.json();
+
+    if (!findBookCopy(copyService, id, copyId)) {
+      return NextResponse.json(
+        { success: false, error: 'Ejemplar no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const shelfError = context.locations.checkShelf(body.estanteriaId);
+    if (shelfError) {
+      return NextResponse.json(
+        { success: false, error: shelfError },
+        { status: 400 }
+      );
+    }
+
+    const copy = copyService.updateCopy(copyId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: copy,
+      message: 'Ejemplar actualizado exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar ejemplar',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: CopyParams) {
+  try {
+    const context = resolveLibraryContext(request);
+    const copyService = context.copies;
+
+    const { id, copyId } = await params;
+
+    if (!findBookCopy(copyService, id, copyId)) {
+      return NextResponse.json(
+        { success: false, error: 'Ejemplar no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const book = context.books.findBookById(id);
+    if (book && isDigital(book)) {
+      return NextResponse.json(
+        { success: false, error: 'Las plazas de un libro digital se ajustan con los usuarios simultáneos de su licencia' },
+        { status: 400 }
+      );
+    }
+
+    copyService.removeCopy(copyId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Ejemplar eliminado exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al eliminar ejemplar',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * GET /api/books/[id]/copies - Obtener los ejemplares de un libro (?status=disponible)
+ * POST /api/books/[id]/copies - Agregar un ejemplar o varios ({ cantidad }), opcionalmente
+ *   en una estantería ({ estanteriaId })
+ *   Las plazas de un libro digital se ajustan con su licencia, no aquí
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { isDigital } from '@/lib/licenses';
+import type { CopyStatus, CreateCopyDTO } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as CopyStatus | null;
+
+    if (!context.books.findBookById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const copies = context.copies.getBookCopies(id, status ?? undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: copies,
+      count: copies.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener ejemplares',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const body: CreateCopyDTO & { cantidad?: number } = await request.json();
+
+    const book = context.books.findBookById(id);
+    if (!book) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    if (isDigital(book)) {
+      return NextResponse.json(
+        { success: false, error: 'Las plazas de un libro digital se ajustan con los usuarios simultáneos de su licencia' },
+        { status: 400 }
+      );
+    }
+
+    const shelfError = context.locations.checkShelf(body.estanteriaId);
+    if (shelfError) {
+      return NextResponse.json(
+        { success: false, error: shelfError },
+        { status: 400 }
+      );
+    }
+
+    if (body.cantidad !== undefined) {
+      const { cantidad, ...data } = body;
+
+      if (!Number.isInteger(cantidad) || cantidad < 1) {
+        return NextResponse.json(
+          { success: false, error: 'La cantidad debe ser un entero positivo' },
+          { status: 400 }
+        );
+      }
+
+      if (data.codigoBarras) {
+        return NextResponse.json(
+          { success: false, error: 'No se puede indicar un código de barras al agregar varios ejemplares' },
+          { status: 400 }
+        );
+      }
+
+      const copies = context.copies.addCopies(id, cantidad, data);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: copies,
+          count: copies.length,
+          message: `${copies.length} ejemplares agregados exitosamente`,
+        },
+        { status: 201 }
+      );
+    }
+
+    const copy = context.copies.addCopy(id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: copy,
+        message: 'Ejemplar agregado exitosamente',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al agregar ejemplar',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * GET /api/books/[id]/cover - Portada del libro en WebP (?size=small|medium|large, por defecto medium)
+ *   Con ?v igual a la versión actual se guarda en caché de forma permanente;
+ *   sin ella se revalida con ETag. La biblioteca puede indicarse con ?library
+ *   porque las etiquetas de imagen no envían la cabecera X-Library-Id; solo se
+ *   admiten las bibliotecas configuradas (LIBRARY_IDS)
+ * POST /api/books/[id]/cover - Subir la portada (campo "file" de un formulario o cuerpo de la petición)
+ * DELETE /api/books/[id]/cover - Quitar la portada
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibraryContext, resolveLibraryContext } from '@/services';
+import { COVER_MIME_TYPES, COVER_SIZES, DEFAULT_COVER_SIZE, isCoverSize } from '@/lib/covers';
+import { checkLibraryId } from '@/lib/libraries';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const library = searchParams.get('library');
+
+    const rejected = library ? checkLibraryId(library) : null;
+    if (rejected) {
+      return NextResponse.json(
+        { success: false, error: rejected.error },
+        { status: rejected.status }
+      );
+    }
+
+    const context = library ? getLibraryContext(library) : resolveLibraryContext(request);
+
+    const size = searchParams.get('size') ?? DEFAULT_COVER_SIZE;
+    if (!isCoverSize(size)) {
+      return NextResponse.json(
+        { success: false, error: `Tamaño no válido; use ${Object.keys(COVER_SIZES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const cover = context.covers.getCover(id, size);
+
+    if (!cover) {
+      return NextResponse.json(
+        { success: false, error: 'El libro no tiene portada' },
+        { status: 404 }
+      );
+    }
+
+    const etag = `"${cover.version}-${size}"`;
+    const headers = {
+      ETag: etag,
+      // La URL con la versión nunca cambia de contenido: una portada nueva tiene otra versión
+      'Cache-Control': searchParams.get('v') === cover.version
+        ? 'public, max-age=31536000, immutable'
+        : 'public, no-cache',
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(new Uint8Array(cover.data), {
+      headers: { ...headers, 'Content-Type': cover.contentType },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la portada',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const book = context.books.findBookById(id);
+
+    if (!book) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    let file: Blob;
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const field = (await request.formData()).get('file');
+
+      if (!(field instanceof Blob)) {
+        return NextResponse.json(
+          { success: false, error: 'Falta el archivo en el campo "file"' },
+          { status: 400 }
+        );
+      }
+
+      file = field;
+    } else {
+      file = await request.blob();
+    }
+
+    if (file.type && !COVER_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { success: false, error: 'Formato no admitido; use JPEG, PNG, WebP o GIF' },
+        { status: 400 }
+      );
+    }
+
+    const updatedBook = await context.covers.uploadCover(id, Buffer.from(await file.arrayBuffer()));
+
+    context.history.logEditBook(id, updatedBook.titulo);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedBook,
+      message: 'Portada actualizada',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al subir la portada',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const updatedBook = context.covers.removeCover(id);
+
+    if (!updatedBook) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    context.history.logEditBook(id, updatedBook.titulo);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedBook,
+      message: 'Portada eliminada',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al quitar la portada',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * GET /api/books/[id]/license - Licencia de un libro digital y su uso
+ * (estado, préstamos realizados y restantes, lectores actuales)
+ * data es null si el libro es impreso
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { id } = await params;
+
+    if (!context.books.findBookById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: context.loans.getLicenseUsage(id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la licencia',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * GET /api/books/[id]/location - Signatura del libro y sucursal, sala y
+ * estantería de cada ejemplar (los digitales no tienen ejemplares en estantes)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+
+    const location = locationService.getBookLocation(id);
+    if (!location) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la ubicación',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/books/[id]/merge - Fusiona un duplicado ({ sourceId }) en este libro
+ * El libro [id] se conserva; el duplicado se elimina tras mover ejemplares,
+ * préstamos, reservas y apartados
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const body: { sourceId?: string } = await request.json();
+
+    if (!context.books.findBookById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    if (!body.sourceId) {
+      return NextResponse.json(
+        { success: false, error: 'Falta el libro a fusionar (sourceId)' },
+        { status: 400 }
+      );
+    }
+
+    const source = context.books.findBookById(body.sourceId);
+    const result = context.duplicates.mergeBooks(id, body.sourceId);
+
+    // El libro conservado hereda la portada del duplicado si no tenía
+    if (source) {
+      result.libro = context.covers.inheritCover(source, id) ?? result.libro;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Libro fusionado: ${result.ejemplares} ejemplares, ${result.prestamos} préstamos y ${result.reservas} reservas en "${result.libro.titulo}"`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al fusionar libros',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * GET /api/books/[id]/next - Siguiente volumen de la serie del libro
+ * data es null si el libro no tiene serie o es el último volumen
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { id } = await params;
+
+    if (!context.books.findBookById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Libro no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: context.series.getNextVolume(id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener el siguiente volumen',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Pruebas de PUT /api/books/[id]: solo se aplican los campos editables
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getLibraryContext } from '@/services';
+import { formatETag } from '@/lib/etag';
+import { PUT } from './route';
+
+beforeAll(() => {
+  process.env.LIBRARY_SCHEDULER = 'off';
+});
+
+function put(id: string, version: number, body: unknown) {
+  const request = new NextRequest(`http://localhost/api/books/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'If-Match': formatETag(version) },
+    body: JSON.stringify(body),
+  });
+  return PUT(request, { params: Promise.resolve({ id }) });
+}
+
+describe('PUT /api/books/[id]', () => {
+  it('ignora id, fechaRegistro, version y portada del cuerpo', async () => {
+    const books = getLibraryContext().books;
+    const book = books.addBook({
+      titulo: 'El llano en llamas',
+      autor: 'Juan Rulfo',
+      isbn: '9788437604800',
+      categoria: '800',
+      anioPublicacion: 1953,
+      editorial: 'Cátedra',
+      numeroPaginas: 192,
+      copias: 1,
+    });
+    const { id, isbn, titulo, fechaRegistro, version, portada } = structuredClone(book);
+
+    const response = await put(id, version, {
+      id: 'LIBRO-FALSO',
+      fechaRegistro: '2000-01-01T00:00:00.000Z',
+      version: 99,
+      portada: '/otra-portada.webp',
+      descripcion: 'Descripción editada',
+    });
+
+    expect(response.status).toBe(200);
+    expect(books.findBookById('LIBRO-FALSO')).toBeNull();
+
+    const updated = books.findBookById(id)!;
+    expect(updated.id).toBe(id);
+    expect(updated.descripcion).toBe('Descripción editada');
+    expect(updated.fechaRegistro).toEqual(fechaRegistro);
+    expect(updated.version).toBe(version + 1);
+    expect(updated.portada).toBe(portada);
+    expect(books.searchByISBN(isbn)?.id).toBe(id);
+    expect(books.searchByTitle(titulo).map((found) => found.id)).toContain(id);
+  });
+});
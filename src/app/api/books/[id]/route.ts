@@ -1,20 +1,26 @@
 /**
- * GET /api/books/[id] - Obtener un libro por ID
- * PUT /api/books/[id] - Actualizar un libro
+ * GET /api/books/[id] - Obtener un libro por ID (con ETag = versión)
+ * PUT /api/books/[id] - Actualizar un libro (requiere If-Match)
  * DELETE /api/books/[id] - Eliminar un libro
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { BookService, HistoryService } from '@/services';
-
-const bookService = BookService.getInstance();
-const historyService = HistoryService.getInstance();
+import { resolveLibraryContext } from '@/services';
+import type { Book } from '@/types';
+import { checkIfMatch, formatETag } from '@/lib/etag';
+import { validateIsbn } from '@/lib/isbn';
+import { validateCallNumber } from '@/lib/callNumbers';
+import { validateMaterial } from '@/lib/licenses';
+import { validateTags } from '@/lib/tags';
+import { EDITABLE_BOOK_FIELDS, pickEditable } from '@/lib/editableFields';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const bookService = resolveLibraryContext(request).books;
+
     const { id } = await params;
     const book = bookService.findBookById(id);
 
@@ -25,10 +31,13 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: book,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        data: book,
+      },
+      { headers: { ETag: formatETag(book.version) } }
+    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -45,25 +54,117 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const context = resolveLibraryContext(request);
+    const bookService = context.books;
+    const historyService = context.history;
+
     const { id } = await params;
     const body = await request.json();
 
-    const updatedBook = bookService.updateBook(id, body);
+    const book = bookService.findBookById(id);
 
-    if (!updatedBook) {
+    if (!book) {
       return NextResponse.json(
         { success: false, error: 'Libro no encontrado' },
         { status: 404 }
       );
     }
 
+    // Concurrencia optimista: solo se actualiza la versión que el cliente leyó
+    const precondition = checkIfMatch(request.headers.get('if-match'), book.version);
+
+    if (precondition === 'missing') {
+      return NextResponse.json(
+        { success: false, error: 'Se requiere la cabecera If-Match con la versión del libro' },
+        { status: 428 }
+      );
+    }
+
+    if (precondition === 'mismatch') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'El libro fue modificado por otra persona',
+          data: book,
+        },
+        { status: 412, headers: { ETag: formatETag(book.version) } }
+      );
+    }
+
+    if (body.isbn !== undefined) {
+      const validation = validateIsbn(body.isbn);
+      if (!validation.valido) {
+        return NextResponse.json(
+          { success: false, error: validation.error },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.categoria !== undefined && !context.classification.resolve(String(body.categoria))) {
+      return NextResponse.json(
+        { success: false, error: `Clasificación no válida: ${body.categoria}` },
+        { status: 400 }
+      );
+    }
+
+    const tagsError = body.etiquetas !== undefined ? validateTags(body.etiquetas) : null;
+    if (tagsError) {
+      return NextResponse.json(
+        { success: false, error: tagsError },
+        { status: 400 }
+      );
+    }
+
+    const callNumberError = validateCallNumber(body.signatura);
+    if (callNumberError) {
+      return NextResponse.json(
+        { success: false, error: callNumberError },
+        { status: 400 }
+      );
+    }
+
+    // Se valida el material resultante: una licencia suelta se aplica al tipo actual
+    const materialError = body.tipo !== undefined || body.licencia !== undefined
+      ? validateMaterial(body.tipo ?? book.tipo, body.licencia !== undefined ? body.licencia : book.licencia)
+      : null;
+    if (materialError) {
+      return NextResponse.json(
+        { success: false, error: materialError },
+        { status: 400 }
+      );
+    }
+
+    const volumeError = body.serie
+      ? context.series.checkVolume(body.serie.serieId, body.serie.volumen, id)
+      : null;
+    if (volumeError) {
+      return NextResponse.json(
+        { success: false, error: volumeError },
+        { status: 400 }
+      );
+    }
+
+    if (body.obraId && !context.works.findWorkById(body.obraId)) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 400 }
+      );
+    }
+
+    // id, fechaRegistro, version y portada no se cambian desde el cliente
+    const updatedBook = bookService.updateBook(id, pickEditable<Book>(body, EDITABLE_BOOK_FIELDS))!;
+
     historyService.logEditBook(id, updatedBook.titulo);
 
-    return NextResponse.json({
-      success: true,
-      data: updatedBook,
-      message: 'Libro actualizado exitosamente',
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        data: updatedBook,
+        message: 'Libro actualizado exitosamente',
+      },
+      { headers: { ETag: formatETag(updatedBook.version) } }
+    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -80,6 +181,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const context = resolveLibraryContext(request);
+    const bookService = context.books;
+    const historyService = context.history;
+
     const { id } = await params;
     const book = bookService.findBookById(id);
 
@@ -93,6 +198,7 @@ export async function DELETE(
     const deleted = bookService.deleteBook(id);
 
     if (deleted) {
+      context.covers.discardCovers(id);
       historyService.logDeleteBook(id, book.titulo);
     }
 
@@ -0,0 +1,82 @@
+/**
+ * GET /api/books/citations - Descargar las citas de un conjunto de libros (?format=bibtex|ris|dc)
+ * ?search - Resultado de la búsqueda multi-criterio (como GET /api/books)
+ * ?category - Libros de una clase y sus subclases
+ * ?ids - Libros concretos, separados por comas
+ * Sin filtros se exporta el catálogo completo
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { CITATION_FORMATS, exportCitations, parseCitationFormat } from '@/lib/citations';
+import type { Book } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+    const bookService = context.books;
+
+    const { searchParams } = new URL(request.url);
+    const format = parseCitationFormat(searchParams.get('format'));
+    const search = searchParams.get('search');
+    const category = searchParams.get('category');
+    const ids = searchParams.get('ids');
+
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `Formato no válido; use ${CITATION_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let books: Book[];
+
+    if (ids) {
+      books = ids
+        .split(',')
+        .map(id => bookService.findBookById(id.trim()))
+        .filter((book): book is Book => Boolean(book));
+    }
+    else if (search) {
+      books = bookService.smartSearch(search);
+    }
+    else if (category) {
+      const codigo = context.classification.resolve(category);
+      if (!codigo) {
+        return NextResponse.json(
+          { success: false, error: `Clasificación no encontrada: ${category}` },
+          { status: 404 }
+        );
+      }
+      books = bookService.filterByCategory(codigo);
+    }
+    else {
+      books = bookService.getAllBooks();
+    }
+
+    if (books.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No hay libros que citar' },
+        { status: 404 }
+      );
+    }
+
+    const fecha = context.clock.now().toISOString().slice(0, 10);
+    const citation = exportCitations(books, format, `citas-${fecha}`);
+
+    return new NextResponse(citation.content, {
+      headers: {
+        'Content-Type': citation.contentType,
+        'Content-Disposition': `attachment; filename="${citation.filename}"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al generar las citas',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/books/duplicates - Pares de libros posiblemente duplicados
+ * ?minConfidence - Confianza mínima entre 0 y 1 (por defecto 0.7)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { searchParams } = new URL(request.url);
+    const minConfidence = searchParams.get('minConfidence');
+    const threshold = minConfidence === null ? undefined : Number(minConfidence);
+
+    if (threshold !== undefined && (Number.isNaN(threshold) || threshold < 0 || threshold > 1)) {
+      return NextResponse.json(
+        { success: false, error: 'La confianza mínima debe ser un número entre 0 y 1' },
+        { status: 400 }
+      );
+    }
+
+    const candidates = context.duplicates.findDuplicates(threshold);
+
+    return NextResponse.json({
+      success: true,
+      data: candidates,
+      count: candidates.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al buscar duplicados',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * POST /api/books/import - Importar libros desde CSV
+ * Cuerpo: { csv, mapping?: { campo: columna }, dryRun?: boolean }
+ * Con dryRun el informe indica qué pasaría con cada fila sin guardar nada
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CsvColumnMapping } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const csvImport = resolveLibraryContext(request).csvImport;
+
+    const body: { csv?: string; mapping?: CsvColumnMapping; dryRun?: boolean } = await request.json();
+
+    if (typeof body.csv !== 'string' || body.csv.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'Falta el contenido CSV' },
+        { status: 400 }
+      );
+    }
+
+    const report = csvImport.importBooks(body.csv, { mapping: body.mapping, dryRun: body.dryRun });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: report.simulacion
+        ? `Simulación: se crearían ${report.creados.length} de ${report.total} libros`
+        : `${report.creados.length} de ${report.total} libros importados`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al importar libros',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * GET /api/books/marc - Exportar el catálogo (?format=marc21|marcxml, por defecto marcxml)
+ * POST /api/books/marc - Importar registros MARC21 o MARCXML
+ *   Acepta el archivo en el campo "file" de un formulario o como cuerpo de la petición
+ *   El formato se detecta salvo que se indique ?format
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { MARC_FORMATS } from '@/lib/marc';
+import type { MarcFormat } from '@/types';
+
+const CONTENT_TYPES: Record<MarcFormat, string> = {
+  marc21: 'application/marc',
+  marcxml: 'application/marcxml+xml; charset=utf-8',
+};
+
+const EXTENSIONS: Record<MarcFormat, string> = {
+  marc21: 'mrc',
+  marcxml: 'xml',
+};
+
+function parseFormat(value: string | null): MarcFormat | null | undefined {
+  if (value === null) return undefined;
+  return MARC_FORMATS.includes(value as MarcFormat) ? (value as MarcFormat) : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { searchParams } = new URL(request.url);
+    const format = parseFormat(searchParams.get('format')) ?? 'marcxml';
+
+    if (format === null) {
+      return NextResponse.json(
+        { success: false, error: `Formato no válido; use ${MARC_FORMATS.join(' o ')}` },
+        { status: 400 }
+      );
+    }
+
+    const content = context.marc.exportCatalog(format);
+    const fecha = context.clock.now().toISOString().slice(0, 10);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="catalogo-${fecha}.${EXTENSIONS[format]}"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al exportar el catálogo',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { searchParams } = new URL(request.url);
+    const format = parseFormat(searchParams.get('format'));
+
+    if (format === null) {
+      return NextResponse.json(
+        { success: false, error: `Formato no válido; use ${MARC_FORMATS.join(' o ')}` },
+        { status: 400 }
+      );
+    }
+
+    let data: Uint8Array;
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const file = (await request.formData()).get('file');
+
+      if (!(file instanceof Blob)) {
+        return NextResponse.json(
+          { success: false, error: 'Falta el archivo en el campo "file"' },
+          { status: 400 }
+        );
+      }
+
+      data = new Uint8Array(await file.arrayBuffer());
+    } else {
+      data = new Uint8Array(await request.arrayBuffer());
+    }
+
+    if (data.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'El archivo está vacío' },
+        { status: 400 }
+      );
+    }
+
+    const report = context.marc.importCatalog(data, format);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: report,
+        message: `${report.importados.length} de ${report.total} registros importados`,
+      },
+      { status: report.importados.length > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al importar el catálogo',
+      },
+      { status: 400 }
+    );
+  }
+}
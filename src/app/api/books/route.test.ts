@@ -0,0 +1,48 @@
+/**
+ * Pruebas de GET /api/books: búsqueda por ISBN y filtro por etiquetas
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getLibraryContext } from '@/services';
+import { MAX_TAG_LENGTH } from '@/lib/tags';
+import { GET } from './route';
+
+beforeAll(() => {
+  process.env.LIBRARY_SCHEDULER = 'off';
+});
+
+function get(query: string) {
+  return GET(new NextRequest(`http://localhost/api/books?${query}`));
+}
+
+describe('GET /api/books', () => {
+  it('encuentra un ISBN con el dígito de control incorrecto si ya está en el catálogo', async () => {
+    const books = getLibraryContext().books;
+    const [sample] = books.getAllBooks();
+    const legacy = { ...structuredClone(sample), id: 'LIBRO-ANTIGUO', isbn: '978-84-376-0418-4' };
+    books.importState([...books.getAllBooks(), legacy]);
+
+    const response = await get('isbn=978-84-376-0418-4');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.map((book: { id: string }) => book.id)).toEqual(['LIBRO-ANTIGUO']);
+  });
+
+  it('responde 400 si el ISBN no es válido y no está en el catálogo', async () => {
+    const response = await get('isbn=978-84-376-0418-5');
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toContain('Dígito de control incorrecto');
+  });
+
+  it('responde 400 si una etiqueta del filtro supera el máximo', async () => {
+    const response = await get(`tags=clásicos,${'x'.repeat(MAX_TAG_LENGTH + 1)}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toContain(`supera los ${MAX_TAG_LENGTH} caracteres`);
+  });
+});
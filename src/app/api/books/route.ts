@@ -1,20 +1,29 @@
 /**
  * Books API V2 - Con Árboles
  * ?search - Búsqueda multi-criterio
- * ?isbn - Búsqueda por ISBN O(log n)
+ * ?isbn - Búsqueda por ISBN O(log n) (ISBN-10 o ISBN-13, con o sin guiones; también
+ *   los ISBN con dígito de control incorrecto que ya están en el catálogo)
  * ?titlePrefix - Búsqueda por prefijo
  * ?autocomplete - Autocompletado
- * ?sorted - Ordenados por ISBN
+ * ?category - Libros de una clase y sus subclases (código o etiqueta)
+ * ?sorted - Ordenados por ISBN (?sorted=shelf: por signatura, en orden de estantería)
+ * ?tags - Libros con todas las etiquetas (separadas por comas); se combina con los demás filtros
+ *   &match=any - Libros con alguna de las etiquetas
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { BookServiceV2 } from '@/services';
-import type { CreateBookDTO, BookCategory } from '@/types';
-
-const bookService = BookServiceV2.getInstance();
+import { resolveLibraryContext } from '@/services';
+import { toIsbnKey, validateIsbn } from '@/lib/isbn';
+import { validateCallNumber } from '@/lib/callNumbers';
+import { validateMaterial } from '@/lib/licenses';
+import { parseTags, validateTags } from '@/lib/tags';
+import type { CreateBookDTO, TagMatch } from '@/types';
 
 export async function GET(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+    const bookService = context.books;
+
     const { searchParams } = new URL(request.url);
     const search = searchParams.get('search');
     const isbn = searchParams.get('isbn');
@@ -23,11 +32,38 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get('category');
     const available = searchParams.get('available');
     const sorted = searchParams.get('sorted');
+    const match = searchParams.get('match') ?? 'all';
+
+    if (match !== 'all' && match !== 'any') {
+      return NextResponse.json(
+        { success: false, error: 'Valor de match no válido; use all o any' },
+        { status: 400 }
+      );
+    }
+
+    const tagsParam = searchParams.get('tags');
+    const tagsError = tagsParam ? validateTags(tagsParam.split(',')) : null;
+    if (tagsError) {
+      return NextResponse.json(
+        { success: false, error: tagsError },
+        { status: 400 }
+      );
+    }
 
     let books;
 
     if (isbn) {
-      const book = bookService.searchByISBN(isbn);
+      // Un ISBN con el dígito de control mal puede venir de datos anteriores,
+      // que se indexan sin guiones: solo es un 400 si tampoco así se encuentra
+      const validation = validateIsbn(isbn);
+      const book = bookService.searchByISBN(validation.normalizado ?? toIsbnKey(isbn));
+      if (!book && !validation.valido) {
+        return NextResponse.json(
+          { success: false, error: validation.error },
+          { status: 400 }
+        );
+      }
+
       books = book ? [book] : [];
     }
     else if (autocomplete) {
@@ -41,17 +77,33 @@ export async function GET(request: NextRequest) {
       books = bookService.smartSearch(search);
     }
     else if (category) {
-      books = bookService.filterByCategory(category as BookCategory);
+      const codigo = context.classification.resolve(category);
+      if (!codigo) {
+        return NextResponse.json(
+          { success: false, error: `Clasificación no encontrada: ${category}` },
+          { status: 404 }
+        );
+      }
+      books = bookService.filterByCategory(codigo);
     }
     else if (available === 'true') {
       books = bookService.getAvailableBooks();
     }
+    else if (sorted === 'shelf') {
+      books = bookService.getAllBooksSorted('signatura');
+    }
     else {
       books = sorted === 'true'
         ? bookService.getAllBooksSorted()
         : bookService.getAllBooks();
     }
 
+    const tags = parseTags(tagsParam);
+    if (tags.length > 0) {
+      const tagged = new Set(bookService.filterByTags(tags, match as TagMatch).map(book => book.id));
+      books = books.filter(book => tagged.has(book.id));
+    }
+
     return NextResponse.json({
       success: true,
       data: books,
@@ -73,13 +125,84 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+    const bookService = context.books;
+
     const body: CreateBookDTO = await request.json();
 
-    if (!body.titulo || !body.autor || !body.isbn) {
+    if (!body.titulo || !(body.autor || body.contribuyentes?.length) || !body.isbn) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Faltan campos requeridos: titulo, autor o contribuyentes, isbn',
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateIsbn(body.isbn);
+    if (!validation.valido) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    if (!body.categoria || !context.classification.resolve(String(body.categoria))) {
+      return NextResponse.json(
+        { success: false, error: `Clasificación no válida: ${body.categoria ?? 'ausente'}` },
+        { status: 400 }
+      );
+    }
+
+    const tagsError = body.etiquetas !== undefined ? validateTags(body.etiquetas) : null;
+    if (tagsError) {
+      return NextResponse.json(
+        { success: false, error: tagsError },
+        { status: 400 }
+      );
+    }
+
+    const callNumberError = validateCallNumber(body.signatura);
+    if (callNumberError) {
+      return NextResponse.json(
+        { success: false, error: callNumberError },
+        { status: 400 }
+      );
+    }
+
+    // Los libros digitales llevan su licencia
+    const materialError = validateMaterial(body.tipo, body.licencia);
+    if (materialError) {
+      return NextResponse.json(
+        { success: false, error: materialError },
+        { status: 400 }
+      );
+    }
+
+    const volumeError = body.serie
+      ? context.series.checkVolume(body.serie.serieId, body.serie.volumen)
+      : null;
+    if (volumeError) {
+      return NextResponse.json(
+        { success: false, error: volumeError },
+        { status: 400 }
+      );
+    }
+
+    if (body.obraId && !context.works.findWorkById(body.obraId)) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 400 }
+      );
+    }
+
+    const existing = bookService.searchByISBN(validation.normalizado!);
+    if (existing) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Faltan campos requeridos: titulo, autor, isbn',
+          error: `Ya existe un libro con el ISBN ${validation.normalizado}: ${existing.titulo}`,
         },
         { status: 400 }
       );
@@ -0,0 +1,125 @@
+/**
+ * GET /api/classification/[code] - Clase con su ruta, sus subclases y los libros de su subárbol
+ * PUT /api/classification/[code] - Cambiar la etiqueta o el padre
+ * DELETE /api/classification/[code] - Eliminar una clase sin subclases ni libros
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { ClassificationNode } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { code: codigo } = await params;
+
+    const node = context.classification.findNode(codigo);
+    if (!node) {
+      return NextResponse.json(
+        { success: false, error: 'Clase no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const libros = context.books.filterByCategory(codigo);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...node,
+        ruta: context.classification.getPath(codigo),
+        hijos: context.classification.getChildren(codigo),
+        libros,
+      },
+      count: libros.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la clase',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { code: codigo } = await params;
+    const body: Partial<Pick<ClassificationNode, 'etiqueta' | 'padre'>> = await request.json();
+
+    const node = context.classification.updateNode(codigo, {
+      etiqueta: body.etiqueta,
+      padre: body.padre,
+    });
+
+    if (!node) {
+      return NextResponse.json(
+        { success: false, error: 'Clase no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: node,
+      message: `Clase ${node.codigo} actualizada exitosamente`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar la clase',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { code: codigo } = await params;
+
+    if (!context.classification.findNode(codigo)) {
+      return NextResponse.json(
+        { success: false, error: 'Clase no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const enUso = context.books.getAllBooks().filter(book => book.categoria === codigo).length;
+    if (enUso > 0) {
+      return NextResponse.json(
+        { success: false, error: `La clase tiene ${enUso} libros asignados` },
+        { status: 400 }
+      );
+    }
+
+    context.classification.removeNode(codigo);
+
+    return NextResponse.json({
+      success: true,
+      message: `Clase ${codigo} eliminada exitosamente`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al eliminar la clase',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * GET /api/classification - Árbol de clasificación con el total de libros de cada subárbol
+ * POST /api/classification - Agregar una clase ({ codigo, etiqueta, padre })
+ * PUT /api/classification - Reemplazar el árbol completo ({ sistema, nodos }), por ejemplo por la CDU
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateClassification, resolveLibraryContext } from '@/services';
+import type { ClassificationNode, ClassificationScheme } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const counts: Record<string, number> = {};
+    context.books.getAllBooks().forEach(book => {
+      counts[book.categoria] = (counts[book.categoria] ?? 0) + 1;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sistema: context.classification.getSystem(),
+        nodos: context.classification.getNodes(),
+        arbol: context.classification.getTree(counts),
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener la clasificación',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+    const body: Partial<ClassificationNode> = await request.json();
+
+    if (!body.codigo || !body.etiqueta) {
+      return NextResponse.json(
+        { success: false, error: 'Faltan campos requeridos: codigo, etiqueta' },
+        { status: 400 }
+      );
+    }
+
+    const node = context.classification.addNode({
+      codigo: body.codigo,
+      etiqueta: body.etiqueta,
+      padre: body.padre ?? null,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: node,
+        message: `Clase ${node.codigo} creada exitosamente`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear la clase',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const context = resolveLibraryContext(request);
+    const body: Partial<ClassificationScheme> = await request.json();
+
+    if (!body.sistema || !Array.isArray(body.nodos)) {
+      return NextResponse.json(
+        { success: false, error: 'Faltan campos requeridos: sistema, nodos' },
+        { status: 400 }
+      );
+    }
+
+    const scheme = context.classification.replaceTree(body.sistema, body.nodos);
+
+    // Los libros de clases que ya no existen pasan a la más cercana del árbol nuevo
+    const migrados = migrateClassification({
+      bookService: context.books,
+      classification: context.classification,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: scheme,
+      message: `Clasificación ${scheme.sistema} guardada; ${migrados} libros reasignados`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al guardar la clasificación',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -4,10 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { RecommendationService, GraphService } from '@/services';
-
-const recommendationService = RecommendationService.getInstance();
-const graphService = GraphService.getInstance();
+import { resolveLibraryContext } from '@/services';
 
 /**
  * GET /api/graphs
@@ -21,6 +18,10 @@ const graphService = GraphService.getInstance();
  */
 export async function GET(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+    const recommendationService = context.recommendations;
+    const graphService = context.graph;
+
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action') ?? 'stats';
     const from = searchParams.get('from');
@@ -117,6 +118,8 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const graphService = resolveLibraryContext(request).graph;
+
     const body = await request.json();
     const { action, userId, bookId } = body;
 
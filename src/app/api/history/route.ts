@@ -3,13 +3,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { HistoryService } from '@/services';
+import { resolveLibraryContext } from '@/services';
 import type { OperationType } from '@/types';
 
-const historyService = HistoryService.getInstance();
-
 export async function GET(request: NextRequest) {
   try {
+    const historyService = resolveLibraryContext(request).history;
+
     const { searchParams } = new URL(request.url);
     const limit = searchParams.get('limit');
     const type = searchParams.get('type');
@@ -1,18 +1,19 @@
 /**
  * GET /api/loans/[id] - Obtener un préstamo por ID
- * PUT /api/loans/[id] - Procesar devolución
+ * PUT /api/loans/[id] - Procesar devolución ({ action: 'return', reparacion? })
+ *   Con reparacion (motivo) el ejemplar devuelto pasa directamente a reparación
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { LoanService } from '@/services';
-
-const loanService = LoanService.getInstance();
+import { resolveLibraryContext } from '@/services';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const loanService = resolveLibraryContext(request).loans;
+
     const { id } = await params;
     const loan = loanService.findLoanById(id);
 
@@ -43,16 +44,33 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const context = resolveLibraryContext(request);
+
     const { id } = await params;
     const body = await request.json();
 
+    if (body.action === 'return' && body.reparacion !== undefined) {
+      const { loan, ticket } = context.repairs.returnForRepair(id, body.reparacion);
+
+      return NextResponse.json({
+        success: true,
+        data: loan,
+        ticket,
+        message: loan.multa > 0
+          ? `Libro devuelto con multa de $${loan.multa}; el ejemplar pasa a reparación`
+          : 'Libro devuelto; el ejemplar pasa a reparación',
+      });
+    }
+
     if (body.action === 'return') {
-      const returnedLoan = loanService.returnBook(id);
+      const returnedLoan = context.loans.returnBook(id);
 
       return NextResponse.json({
         success: true,
         data: returnedLoan,
-        message: returnedLoan.multa > 0 
+        message: returnedLoan.digital
+          ? 'Préstamo digital finalizado'
+          : returnedLoan.multa > 0 
           ? `Libro devuelto con multa de $${returnedLoan.multa}`
           : 'Libro devuelto exitosamente',
       });
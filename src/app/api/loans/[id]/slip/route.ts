@@ -0,0 +1,38 @@
+/**
+ * GET /api/loans/[id]/slip - Papeleta del préstamo: lector, libro, signatura,
+ * ejemplar con su ubicación y fechas
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+
+    const slip = locationService.getLoanSlip(id);
+    if (!slip) {
+      return NextResponse.json(
+        { success: false, error: 'Préstamo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: slip,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al generar la papeleta',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,17 @@
 /**
  * GET /api/loans - Obtener todos los préstamos o filtrar
- * POST /api/loans - Crear un nuevo préstamo
+ * POST /api/loans - Crear un nuevo préstamo (admite Idempotency-Key)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { LoanService } from '@/services';
+import { resolveLibraryContext, type LoanService } from '@/services';
+import { withIdempotency } from '@/lib/idempotency';
 import type { CreateLoanDTO } from '@/types';
 
-const loanService = LoanService.getInstance();
-
 export async function GET(request: NextRequest) {
   try {
+    const loanService = resolveLibraryContext(request).loans;
+
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
     const bookId = searchParams.get('bookId');
@@ -51,8 +52,27 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+
     const body: CreateLoanDTO = await request.json();
 
+    // Un reintento con la misma Idempotency-Key recibe la respuesta original
+    return await withIdempotency(request, context.idempotency, 'POST /api/loans', body, () =>
+      createLoan(context.loans, body)
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear préstamo',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+function createLoan(loanService: LoanService, body: CreateLoanDTO): NextResponse {
+  try {
     if (!body.libroId || !body.usuarioId || !body.diasPrestamo) {
       return NextResponse.json(
         {
@@ -0,0 +1,40 @@
+/**
+ * GET /api/locations/[id]/books - Libros de una estantería en orden de signatura,
+ * con sus ejemplares en ella (lista para la lectura de estantes)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+
+    if (locationService.checkShelf(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Estantería no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const entries = locationService.getShelfEntries(id);
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      count: entries.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener los libros de la estantería',
+      },
+      { status: 500 }
+    );
+  }
+}
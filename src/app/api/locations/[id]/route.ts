@@ -0,0 +1,102 @@
+/**
+ * GET /api/locations/[id] - Obtener un lugar
+ * PUT /api/locations/[id] - Actualizar nombre o rango de clases ({ nombre?, desde?, hasta? })
+ * DELETE /api/locations/[id] - Eliminar un lugar sin lugares dentro ni ejemplares asignados
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext, type LocationUpdate } from '@/services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+
+    const location = locationService.findLocationById(id);
+    if (!location) {
+      return NextResponse.json(
+        { success: false, error: 'Ubicación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener ubicación',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+    const body: LocationUpdate = await request.json();
+
+    const location = locationService.updateLocation(id, body);
+    if (!location) {
+      return NextResponse.json(
+        { success: false, error: 'Ubicación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+      message: 'Ubicación actualizada exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar ubicación',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const { id } = await params;
+
+    if (!locationService.deleteLocation(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Ubicación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Ubicación eliminada exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al eliminar ubicación',
+      },
+      { status: 400 }
+    );
+  }
+}
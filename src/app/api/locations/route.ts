@@ -0,0 +1,56 @@
+/**
+ * GET /api/locations - Sucursales, salas y estanterías en orden de árbol
+ * POST /api/locations - Crear un lugar ({ nivel, nombre, padreId?, desde?, hasta? })
+ *   Las salas van en una sucursal y las estanterías en una sala; desde y hasta
+ *   son el rango de clases de una estantería
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CreateLocationDTO } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const locations = resolveLibraryContext(request).locations.getAllLocations();
+
+    return NextResponse.json({
+      success: true,
+      data: locations,
+      count: locations.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener ubicaciones',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const locationService = resolveLibraryContext(request).locations;
+    const body: CreateLocationDTO = await request.json();
+
+    const location = locationService.createLocation(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: location,
+        message: 'Ubicación creada exitosamente',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear ubicación',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -4,9 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { RecommendationService } from '@/services';
-
-const recommendationService = RecommendationService.getInstance();
+import { resolveLibraryContext } from '@/services';
 
 /**
  * GET /api/recommendations
@@ -20,6 +18,8 @@ const recommendationService = RecommendationService.getInstance();
  */
 export async function GET(request: NextRequest) {
   try {
+    const recommendationService = resolveLibraryContext(request).recommendations;
+
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
     const bookId = searchParams.get('bookId');
@@ -0,0 +1,109 @@
+/**
+ * GET /api/repairs/[id] - Orden de reparación con sus pasos
+ * PUT /api/repairs/[id] - Avanzar la orden
+ *   { action: 'start', nota? } - el ejemplar entra al taller
+ *   { action: 'close', resultado: 'reparado' | 'baja', condicion?, nota? } - vuelve a circular o se da de baja
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CloseRepairDTO } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const repairService = resolveLibraryContext(request).repairs;
+    const { id } = await params;
+
+    const ticket = repairService.findTicketById(id);
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: 'Orden de reparación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener reparación',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const repairService = resolveLibraryContext(request).repairs;
+    const { id } = await params;
+    const body: { action: string; nota?: string } & Partial<CloseRepairDTO> = await request.json();
+
+    if (body.action === 'start') {
+      const ticket = repairService.startRepair(id, body.nota);
+      if (!ticket) {
+        return NextResponse.json(
+          { success: false, error: 'Orden de reparación no encontrada' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: ticket,
+        message: 'Reparación iniciada',
+      });
+    }
+
+    if (body.action === 'close') {
+      const result = repairService.closeTicket(id, {
+        resultado: body.resultado!,
+        condicion: body.condicion,
+        nota: body.nota,
+      });
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: 'Orden de reparación no encontrada' },
+          { status: 404 }
+        );
+      }
+
+      let message = 'El ejemplar vuelve a estar disponible';
+      if (result.ticket.resultado === 'baja') {
+        message = 'El ejemplar se dio de baja';
+      } else if (result.hold) {
+        message = 'El ejemplar quedó apartado para la siguiente reserva';
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.ticket,
+        hold: result.hold,
+        message,
+      });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Acción no válida' },
+      { status: 400 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar reparación',
+      },
+      { status: 400 }
+    );
+  }
+}
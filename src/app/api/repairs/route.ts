@@ -0,0 +1,69 @@
+/**
+ * GET /api/repairs - Cola de mantenimiento (órdenes abiertas de la más antigua a la más reciente)
+ *   ?estado=pendiente|en_reparacion filtra por etapa; ?estado=cerrada lista las cerradas (&limit=N)
+ * POST /api/repairs - Enviar a reparación un ejemplar disponible ({ copyId, motivo })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function GET(request: NextRequest) {
+  try {
+    const repairService = resolveLibraryContext(request).repairs;
+    const searchParams = request.nextUrl.searchParams;
+    const estado = searchParams.get('estado');
+    const limit = searchParams.get('limit');
+
+    if (estado && !['pendiente', 'en_reparacion', 'cerrada'].includes(estado)) {
+      return NextResponse.json(
+        { success: false, error: `Estado de reparación no válido: ${estado}` },
+        { status: 400 }
+      );
+    }
+
+    const tickets = estado === 'cerrada'
+      ? repairService.getClosedTickets(limit ? parseInt(limit) : undefined)
+      : repairService.getQueue((estado as 'pendiente' | 'en_reparacion' | null) ?? undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: tickets,
+      count: tickets.length,
+      stats: repairService.getStats(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener reparaciones',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const repairService = resolveLibraryContext(request).repairs;
+    const body: { copyId: string; motivo: string } = await request.json();
+
+    const ticket = repairService.sendToRepair(body.copyId, body.motivo);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: ticket,
+        message: 'Ejemplar enviado a reparación',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al enviar a reparación',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -1,16 +1,17 @@
 /**
  * POST /api/reservations/cancel - Cancelar una reserva
+ * Con workId se cancela la reserva de cualquier edición de esa obra
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { ReservationService } from '@/services';
-
-const reservationService = ReservationService.getInstance();
+import { resolveLibraryContext } from '@/services';
 
 export async function POST(request: NextRequest) {
   try {
+    const reservationService = resolveLibraryContext(request).reservations;
+
     const body = await request.json();
-    const { bookId, userId } = body;
+    const { bookId, userId, workId } = body;
 
     if (!bookId || !userId) {
       return NextResponse.json(
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const cancelled = reservationService.cancelReservation(bookId, userId);
+    const cancelled = reservationService.cancelReservation(bookId, userId, workId);
 
     if (!cancelled) {
       return NextResponse.json(
@@ -1,21 +1,22 @@
 /**
- * GET /api/reservations - Obtener reservas
- * POST /api/reservations - Crear una nueva reserva
+ * GET /api/reservations - Obtener reservas (con bookId incluye los apartados del libro;
+ * con workId, la cola de cualquier edición de una obra)
+ * POST /api/reservations - Crear una nueva reserva (admite Idempotency-Key)
+ * Con anyEdition: true la reserva es de cualquier edición de la obra del libro
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { ReservationService, BookService, UserService, HistoryService } from '@/services';
-
-const reservationService = ReservationService.getInstance();
-const bookService = BookService.getInstance();
-const userService = UserService.getInstance();
-const historyService = HistoryService.getInstance();
+import { resolveLibraryContext, type LibraryContext } from '@/services';
+import { withIdempotency } from '@/lib/idempotency';
 
 export async function GET(request: NextRequest) {
   try {
+    const reservationService = resolveLibraryContext(request).reservations;
+
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
     const bookId = searchParams.get('bookId');
+    const workId = searchParams.get('workId');
 
     let reservations;
 
@@ -23,9 +24,11 @@ export async function GET(request: NextRequest) {
       reservations = reservationService.getUserReservations(userId);
     } else if (bookId) {
       reservations = reservationService.getBookReservations(bookId);
+    } else if (workId) {
+      reservations = reservationService.getWorkReservations(workId);
     } else {
       return NextResponse.json(
-        { success: false, error: 'Se requiere userId o bookId' },
+        { success: false, error: 'Se requiere userId, bookId o workId' },
         { status: 400 }
       );
     }
@@ -34,6 +37,7 @@ export async function GET(request: NextRequest) {
       success: true,
       data: reservations,
       count: reservations.length,
+      holds: bookId && !userId ? reservationService.getHolds(bookId) : undefined,
     });
   } catch (error) {
     return NextResponse.json(
@@ -48,7 +52,35 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+
     const body = await request.json();
+
+    // Un reintento con la misma Idempotency-Key recibe la respuesta original
+    return await withIdempotency(request, context.idempotency, 'POST /api/reservations', body, () =>
+      createReservation(context, body)
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear reserva',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+function createReservation(
+  context: LibraryContext,
+  body: { bookId?: string; userId?: string; anyEdition?: boolean }
+): NextResponse {
+  try {
+    const reservationService = context.reservations;
+    const bookService = context.books;
+    const userService = context.users;
+    const historyService = context.history;
+
     const { bookId, userId } = body;
 
     if (!bookId || !userId) {
@@ -79,15 +111,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newReservation = reservationService.addReservation(bookId, userId);
+    const anyEdition = body.anyEdition === true;
+    const conflict = context.works.checkReservation(bookId, userId, anyEdition);
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: conflict },
+        { status: 400 }
+      );
+    }
+
+    // Las reservas de cualquier edición esperan en la cola de la obra
+    const workId = anyEdition ? book.obraId! : undefined;
+    const newReservation = reservationService.addReservation(bookId, userId, workId);
 
-    const position = reservationService.getPositionInQueue(bookId, userId);
+    const position = reservationService.getPositionInQueue(workId ?? bookId, userId);
 
     historyService.logReservation(
       userId,
       bookId,
       `${user.nombre} ${user.apellido}`,
-      book.titulo
+      anyEdition ? `${book.titulo} (cualquier edición)` : book.titulo
     );
 
     return NextResponse.json(
@@ -0,0 +1,104 @@
+/**
+ * GET /api/series/[id] - Serie con sus libros en orden de volumen
+ * PUT /api/series/[id] - Actualizar título o descripción
+ * DELETE /api/series/[id] - Eliminar la serie (los libros se conservan sin serie)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CreateSeriesDTO } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+    const { id } = await params;
+
+    const serie = seriesService.getSeriesWithVolumes(id);
+    if (!serie) {
+      return NextResponse.json(
+        { success: false, error: 'Serie no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serie,
+      count: serie.libros.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener serie',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+    const { id } = await params;
+    const body: Partial<CreateSeriesDTO> = await request.json();
+
+    const serie = seriesService.updateSeries(id, body);
+    if (!serie) {
+      return NextResponse.json(
+        { success: false, error: 'Serie no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serie,
+      message: 'Serie actualizada exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar serie',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+    const { id } = await params;
+
+    if (!seriesService.deleteSeries(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Serie no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Serie eliminada exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al eliminar serie',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * DELETE /api/series/[id]/volumes/[bookId] - Quitar un libro de la serie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; bookId: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { id, bookId } = await params;
+
+    const book = context.books.findBookById(bookId);
+    if (!book || book.serie?.serieId !== id) {
+      return NextResponse.json(
+        { success: false, error: 'El libro no pertenece a esta serie' },
+        { status: 404 }
+      );
+    }
+
+    const updated = context.series.removeVolume(bookId);
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: `"${book.titulo}" quitado de la serie`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al quitar el volumen',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * POST /api/series/[id]/volumes - Asignar un libro a la serie ({ bookId, volumen? })
+ * Sin volumen se asigna el siguiente al último
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+    const { id } = await params;
+    const body: { bookId?: string; volumen?: number } = await request.json();
+
+    if (!seriesService.findSeriesById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Serie no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (!body.bookId) {
+      return NextResponse.json(
+        { success: false, error: 'Falta el libro (bookId)' },
+        { status: 400 }
+      );
+    }
+
+    const book = seriesService.addVolume(id, body.bookId, body.volumen);
+
+    return NextResponse.json({
+      success: true,
+      data: book,
+      message: `"${book.titulo}" asignado como volumen ${book.serie!.volumen}`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al asignar el volumen',
+      },
+      { status: 400 }
+    );
+  }
+}
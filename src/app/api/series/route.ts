@@ -0,0 +1,57 @@
+/**
+ * GET /api/series - Series con sus libros en orden de volumen
+ * POST /api/series - Crear una serie ({ titulo, descripcion? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CreateSeriesDTO } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+
+    const series = seriesService.getAllSeries()
+      .map(serie => seriesService.getSeriesWithVolumes(serie.id)!);
+
+    return NextResponse.json({
+      success: true,
+      data: series,
+      count: series.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener series',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const seriesService = resolveLibraryContext(request).series;
+    const body: CreateSeriesDTO = await request.json();
+
+    const serie = seriesService.createSeries(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serie,
+        message: 'Serie creada exitosamente',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear serie',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * GET /api/tags - Nube de etiquetas con el número de libros de cada una (&limit=N)
+ *   ?prefix - Autocompletado de etiquetas (Trie), las más usadas primero
+ * POST /api/tags - Etiquetar o desetiquetar libros en bloque
+ *   Cuerpo: { action: 'tag' | 'untag', bookIds, etiquetas }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { validateTags } from '@/lib/tags';
+import type { BulkTagAction } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tagService = resolveLibraryContext(request).tags;
+    const searchParams = request.nextUrl.searchParams;
+    const prefix = searchParams.get('prefix');
+    const limit = searchParams.get('limit');
+
+    const tags = prefix !== null
+      ? tagService.autocomplete(prefix, limit ? parseInt(limit) : undefined)
+      : tagService.getTagCloud(limit ? parseInt(limit) : undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: tags,
+      count: tags.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener etiquetas',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tagService = resolveLibraryContext(request).tags;
+
+    const body: { action?: BulkTagAction; bookIds?: string[]; etiquetas?: string[] } = await request.json();
+
+    if (body.action !== 'tag' && body.action !== 'untag') {
+      return NextResponse.json(
+        { success: false, error: 'Acción no válida; use tag o untag' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.bookIds)) {
+      return NextResponse.json(
+        { success: false, error: 'Faltan los libros (bookIds)' },
+        { status: 400 }
+      );
+    }
+
+    const tagsError = validateTags(body.etiquetas);
+    if (tagsError) {
+      return NextResponse.json(
+        { success: false, error: tagsError },
+        { status: 400 }
+      );
+    }
+
+    const result = body.action === 'tag'
+      ? tagService.tagBooks(body.bookIds, body.etiquetas!)
+      : tagService.untagBooks(body.bookIds, body.etiquetas!);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: body.action === 'tag'
+        ? `Etiquetas agregadas a ${result.modificados.length} libros`
+        : `Etiquetas quitadas de ${result.modificados.length} libros`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar etiquetas',
+      },
+      { status: 400 }
+    );
+  }
+}
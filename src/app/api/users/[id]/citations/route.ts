@@ -0,0 +1,72 @@
+/**
+ * GET /api/users/[id]/citations - Descargar las citas de los libros que un usuario
+ * tuvo en préstamo (?format=bibtex|ris|dc), del más reciente al más antiguo
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import { CITATION_FORMATS, exportCitations, parseCitationFormat } from '@/lib/citations';
+import type { Book } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = parseCitationFormat(searchParams.get('format'));
+
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `Formato no válido; use ${CITATION_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!context.users.findUserById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    // Un libro prestado varias veces se cita una sola vez; los eliminados se omiten
+    const books = new Map<string, Book>();
+    context.loans
+      .getUserLoans(id)
+      .sort((a, b) => new Date(b.fechaPrestamo).getTime() - new Date(a.fechaPrestamo).getTime())
+      .forEach(loan => {
+        const book = context.books.findBookById(loan.libroId);
+        if (book && !books.has(book.id)) {
+          books.set(book.id, book);
+        }
+      });
+
+    if (books.size === 0) {
+      return NextResponse.json(
+        { success: false, error: 'El usuario no tiene préstamos que citar' },
+        { status: 404 }
+      );
+    }
+
+    const citation = exportCitations(Array.from(books.values()), format, `prestamos-${id}`);
+
+    return new NextResponse(citation.content, {
+      headers: {
+        'Content-Type': citation.contentType,
+        'Content-Disposition': `attachment; filename="${citation.filename}"`,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al generar las citas',
+      },
+      { status: 500 }
+    );
+  }
+}
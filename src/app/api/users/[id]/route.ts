@@ -1,20 +1,22 @@
 /**
- * GET /api/users/[id] - Obtener un usuario por ID
- * PUT /api/users/[id] - Actualizar un usuario
+ * GET /api/users/[id] - Obtener un usuario por ID (con ETag = versión)
+ * PUT /api/users/[id] - Actualizar un usuario (requiere If-Match)
  * DELETE /api/users/[id] - Eliminar un usuario
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { UserService, HistoryService } from '@/services';
-
-const userService = UserService.getInstance();
-const historyService = HistoryService.getInstance();
+import { resolveLibraryContext } from '@/services';
+import { checkIfMatch, formatETag } from '@/lib/etag';
+import { EDITABLE_USER_FIELDS, pickEditable } from '@/lib/editableFields';
+import type { User } from '@/types';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userService = resolveLibraryContext(request).users;
+
     const { id } = await params;
     const user = userService.findUserById(id);
 
@@ -25,10 +27,13 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: user,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        data: user,
+      },
+      { headers: { ETag: formatETag(user.version) } }
+    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -45,23 +50,52 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userService = resolveLibraryContext(request).users;
+
     const { id } = await params;
     const body = await request.json();
 
-    const updatedUser = userService.updateUser(id, body);
+    const user = userService.findUserById(id);
 
-    if (!updatedUser) {
+    if (!user) {
       return NextResponse.json(
         { success: false, error: 'Usuario no encontrado' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: updatedUser,
-      message: 'Usuario actualizado exitosamente',
-    });
+    // Concurrencia optimista: solo se actualiza la versión que el cliente leyó
+    const precondition = checkIfMatch(request.headers.get('if-match'), user.version);
+
+    if (precondition === 'missing') {
+      return NextResponse.json(
+        { success: false, error: 'Se requiere la cabecera If-Match con la versión del usuario' },
+        { status: 428 }
+      );
+    }
+
+    if (precondition === 'mismatch') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'El usuario fue modificado por otra persona',
+          data: user,
+        },
+        { status: 412, headers: { ETag: formatETag(user.version) } }
+      );
+    }
+
+    // id, fechaRegistro, version y los contadores de préstamos no se cambian desde el cliente
+    const updatedUser = userService.updateUser(id, pickEditable<User>(body, EDITABLE_USER_FIELDS))!;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: updatedUser,
+        message: 'Usuario actualizado exitosamente',
+      },
+      { headers: { ETag: formatETag(updatedUser.version) } }
+    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -78,6 +112,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const context = resolveLibraryContext(request);
+    const userService = context.users;
+    const historyService = context.history;
+
     const { id } = await params;
     const user = userService.findUserById(id);
 
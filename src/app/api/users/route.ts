@@ -7,14 +7,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { UserServiceV2, HistoryService } from '@/services';
+import { resolveLibraryContext } from '@/services';
 import type { CreateUserDTO } from '@/types';
 
-const userService = UserServiceV2.getInstance();
-const historyService = HistoryService.getInstance();
-
 export async function GET(request: NextRequest) {
   try {
+    const userService = resolveLibraryContext(request).users;
+
     const { searchParams } = new URL(request.url);
     const search = searchParams.get('search');
     const email = searchParams.get('email');
@@ -69,6 +68,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const context = resolveLibraryContext(request);
+    const userService = context.users;
+    const historyService = context.history;
+
     const body: CreateUserDTO = await request.json();
 
     if (!body.nombre || !body.apellido || !body.email) {
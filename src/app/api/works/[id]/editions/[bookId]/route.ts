@@ -0,0 +1,40 @@
+/**
+ * DELETE /api/works/[id]/editions/[bookId] - Quitar una edición de la obra
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; bookId: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { id, bookId } = await params;
+
+    const book = context.books.findBookById(bookId);
+    if (!book || book.obraId !== id) {
+      return NextResponse.json(
+        { success: false, error: 'El libro no es una edición de esta obra' },
+        { status: 404 }
+      );
+    }
+
+    const updated = context.works.removeEdition(bookId);
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: `"${book.titulo}" quitado de la obra`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al quitar la edición',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * POST /api/works/[id]/editions - Agregar un libro como edición de la obra ({ bookId })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const workService = resolveLibraryContext(request).works;
+    const { id } = await params;
+    const body: { bookId?: string } = await request.json();
+
+    const obra = workService.findWorkById(id);
+    if (!obra) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (!body.bookId) {
+      return NextResponse.json(
+        { success: false, error: 'Falta el libro (bookId)' },
+        { status: 400 }
+      );
+    }
+
+    const book = workService.addEdition(id, body.bookId);
+
+    return NextResponse.json({
+      success: true,
+      data: book,
+      message: `"${book.titulo}" agregado como edición de "${obra.titulo}"`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al agregar la edición',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * GET /api/works/[id] - Obra con sus ediciones y su cola de reservas de cualquier edición
+ * PUT /api/works/[id] - Actualizar título, autor o descripción
+ * DELETE /api/works/[id] - Eliminar la obra (las ediciones se conservan como libros sueltos)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CreateWorkDTO } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = resolveLibraryContext(request);
+    const { id } = await params;
+
+    const obra = context.works.getWorkWithEditions(id);
+    if (!obra) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: obra,
+      count: obra.ediciones.length,
+      reservations: context.reservations.getWorkReservations(id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener obra',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const workService = resolveLibraryContext(request).works;
+    const { id } = await params;
+    const body: Partial<CreateWorkDTO> = await request.json();
+
+    const obra = workService.updateWork(id, body);
+    if (!obra) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: obra,
+      message: 'Obra actualizada exitosamente',
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al actualizar obra',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const workService = resolveLibraryContext(request).works;
+    const { id } = await params;
+
+    if (!workService.deleteWork(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Obra no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Obra eliminada exitosamente',
+    });
+  } catch (error) {
+    // La obra todavía tiene reservas de cualquier edición
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al eliminar obra',
+      },
+      { status: 400 }
+    );
+  }
+}
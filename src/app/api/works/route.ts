@@ -0,0 +1,57 @@
+/**
+ * GET /api/works - Obras con sus ediciones de la más antigua a la más reciente
+ * POST /api/works - Crear una obra ({ titulo, autor?, descripcion? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLibraryContext } from '@/services';
+import type { CreateWorkDTO } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const workService = resolveLibraryContext(request).works;
+
+    const works = workService.getAllWorks()
+      .map(obra => workService.getWorkWithEditions(obra.id)!);
+
+    return NextResponse.json({
+      success: true,
+      data: works,
+      count: works.length,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al obtener obras',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const workService = resolveLibraryContext(request).works;
+    const body: CreateWorkDTO = await request.json();
+
+    const obra = workService.createWork(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: obra,
+        message: 'Obra creada exitosamente',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error al crear obra',
+      },
+      { status: 400 }
+    );
+  }
+}
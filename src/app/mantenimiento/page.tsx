@@ -0,0 +1,10 @@
+import MainLayout from '@/components/layout/MainLayout';
+import RepairQueue from '@/components/repairs/RepairQueue';
+
+export default function MantenimientoPage() {
+  return (
+    <MainLayout>
+      <RepairQueue />
+    </MainLayout>
+  );
+}
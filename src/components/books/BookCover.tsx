@@ -0,0 +1,39 @@
+'use client';
+
+import { Avatar } from '@mui/material';
+import { MenuBook } from '@mui/icons-material';
+import { COVER_SIZES, coverUrl, type CoverSize } from '@/lib/covers';
+
+interface BookCoverProps {
+  portada?: string | null;
+  titulo: string;
+  size?: CoverSize;
+  width?: number; // ancho mostrado; por defecto el de la miniatura
+  src?: string; // imagen local aún no subida (vista previa)
+}
+
+/**
+ * Portada de un libro con proporción 2:3
+ * Sin portada, o si la imagen no carga, muestra un marcador con un icono
+ */
+export default function BookCover({ portada, titulo, size = 'small', width, src }: BookCoverProps) {
+  const { ancho, alto } = COVER_SIZES[size];
+  const displayWidth = width ?? ancho;
+
+  return (
+    <Avatar
+      variant="rounded"
+      src={src ?? (portada ? coverUrl(portada, size) : undefined)}
+      alt={`Portada de ${titulo}`}
+      sx={{
+        width: displayWidth,
+        height: (displayWidth * alto) / ancho,
+        bgcolor: 'grey.200',
+        color: 'grey.500',
+        flexShrink: 0,
+      }}
+    >
+      <MenuBook sx={{ fontSize: displayWidth / 2 }} />
+    </Avatar>
+  );
+}
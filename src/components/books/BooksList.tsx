@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
 import {
   Box,
   Typography,
@@ -24,27 +24,147 @@ import {
   Edit,
   Delete,
   Search,
+  Inventory2,
+  PersonAdd,
+  ImportExport,
+  UploadFile,
+  MergeType,
+  CollectionsBookmark,
+  AutoStories,
+  AddPhotoAlternate,
+  HideImage,
+  LocalOffer,
+  Place,
 } from '@mui/icons-material';
-import type { Book, BookCategory } from '@/types';
+import type {
+  Book,
+  BookLocation,
+  ClassificationNode,
+  Contributor,
+  ContributorRole,
+  LicenseUsage,
+  SeriesWithVolumes,
+  WorkWithEditions,
+} from '@/types';
+import {
+  CONTRIBUTOR_ROLES,
+  CONTRIBUTOR_ROLE_LABELS,
+  formatContributors,
+  parseContributors,
+} from '@/lib/contributors';
+import { formatIsbn, validateIsbn } from '@/lib/isbn';
+import { flattenClassification, formatClassificationPath } from '@/lib/classification';
+import { COVER_MIME_TYPES, MAX_COVER_BYTES } from '@/lib/covers';
+import { isDigital } from '@/lib/licenses';
+import { callNumberOf, generateCallNumber } from '@/lib/callNumbers';
+import { parseTags } from '@/lib/tags';
 import Notification from '../common/Notification';
+import MergeDialog from '../common/MergeDialog';
+import CsvImportDialog from '../common/CsvImportDialog';
+import CopiesDialog from './CopiesDialog';
+import MarcDialog from './MarcDialog';
+import DuplicatesDialog from './DuplicatesDialog';
+import SeriesDialog from './SeriesDialog';
+import WorksDialog from './WorksDialog';
+import CitationMenu from './CitationMenu';
+import BookCover from './BookCover';
+import TagInput from './TagInput';
+import TagsDialog from './TagsDialog';
+import LocationsDialog from './LocationsDialog';
 
-const categorias: BookCategory[] = [
-  'Ficción',
-  'Ciencia',
-  'Historia',
-  'Tecnología',
-  'Arte',
-  'Biografía',
-  'Filosofía',
-  'Otro',
+const mergeFields = [
+  { key: 'titulo', label: 'Título' },
+  { key: 'contribuyentes', label: 'Autores y colaboradores' },
+  { key: 'isbn', label: 'ISBN' },
+  { key: 'categoria', label: 'Clasificación' },
+  { key: 'signatura', label: 'Signatura' },
+  { key: 'anioPublicacion', label: 'Año de Publicación' },
+  { key: 'editorial', label: 'Editorial' },
+  { key: 'numeroPaginas', label: 'Páginas' },
+  { key: 'copias', label: 'Copias' },
+  { key: 'tipo', label: 'Tipo de material' },
+  { key: 'usuariosSimultaneos', label: 'Usuarios simultáneos' },
+  { key: 'prestamosTotales', label: 'Préstamos de la licencia' },
+  { key: 'fechaVencimiento', label: 'Vencimiento de la licencia' },
+  { key: 'descripcion', label: 'Descripción' },
+  { key: 'etiquetas', label: 'Etiquetas' },
 ];
 
+const toFormData = (book: Book) => ({
+  titulo: book.titulo,
+  contribuyentes: book.contribuyentes,
+  isbn: book.isbn,
+  categoria: book.categoria,
+  signatura: book.signatura ?? '', // vacía: se genera
+  anioPublicacion: book.anioPublicacion,
+  editorial: book.editorial,
+  numeroPaginas: book.numeroPaginas,
+  copias: book.copias,
+  descripcion: book.descripcion || '',
+  etiquetas: book.etiquetas ?? [],
+  // La licencia se edita en campos sueltos; vacíos, la licencia no tiene ese límite
+  tipo: book.tipo ?? 'impreso',
+  usuariosSimultaneos: book.licencia?.usuariosSimultaneos ?? 1,
+  prestamosTotales: book.licencia?.prestamosTotales ? String(book.licencia.prestamosTotales) : '',
+  fechaVencimiento: book.licencia?.fechaVencimiento
+    ? new Date(book.licencia.fechaVencimiento).toISOString().slice(0, 10)
+    : '',
+});
+
+type BookFormData = ReturnType<typeof toFormData>;
+
+// Cuerpo de la petición: los campos de la licencia se agrupan (solo los libros digitales la tienen)
+const toPayload = ({ usuariosSimultaneos, prestamosTotales, fechaVencimiento, ...form }: BookFormData) => ({
+  ...form,
+  licencia: form.tipo === 'digital'
+    ? {
+        usuariosSimultaneos,
+        prestamosTotales: prestamosTotales ? Number(prestamosTotales) : null,
+        fechaVencimiento: fechaVencimiento || null,
+      }
+    : null,
+});
+
+// El diálogo de fusión compara valores simples: los contribuyentes y las etiquetas se comparan como texto
+const toMergeValues = (form: BookFormData) => ({
+  ...form,
+  contribuyentes: formatContributors(form.contribuyentes),
+  etiquetas: form.etiquetas.join(', '),
+});
+
+const fromMergeValues = (values: ReturnType<typeof toMergeValues>): BookFormData => ({
+  ...values,
+  contribuyentes: parseContributors(values.contribuyentes),
+  etiquetas: parseTags(values.etiquetas),
+});
+
 export default function BooksList() {
   const [books, setBooks] = useState<Book[]>([]);
+  // Hora de la biblioteca (puede ser simulada); el vencimiento de las licencias se compara con ella
+  const [now, setNow] = useState(() => new Date());
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [clases, setClases] = useState<ClassificationNode[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [openDialog, setOpenDialog] = useState(false);
   const [editingBook, setEditingBook] = useState<Book | null>(null);
+  const [conflict, setConflict] = useState<Book | null>(null);
+  const [copiesBook, setCopiesBook] = useState<Book | null>(null);
+  const [licenseUsage, setLicenseUsage] = useState<LicenseUsage | null>(null);
+  const [bookLocation, setBookLocation] = useState<BookLocation | null>(null);
+  const [marcOpen, setMarcOpen] = useState(false);
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [series, setSeries] = useState<SeriesWithVolumes[]>([]);
+  const [seriesOpen, setSeriesOpen] = useState(false);
+  const [works, setWorks] = useState<WorkWithEditions[]>([]);
+  const [worksOpen, setWorksOpen] = useState(false);
+  const [tagsOpen, setTagsOpen] = useState(false);
+  const [locationsOpen, setLocationsOpen] = useState(false);
+  const [coverFile, setCoverFile] = useState<File | null>(null);
+  const [coverPreview, setCoverPreview] = useState<string | null>(null);
+  const [removeCover, setRemoveCover] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<{
     open: boolean;
@@ -56,75 +176,187 @@ export default function BooksList() {
     severity: 'success',
   });
 
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<BookFormData>({
     titulo: '',
-    autor: '',
+    contribuyentes: [{ nombre: '', rol: 'autor' }],
     isbn: '',
-    categoria: 'Ficción' as BookCategory,
+    categoria: '800',
+    signatura: '',
     anioPublicacion: new Date().getFullYear(),
     editorial: '',
     numeroPaginas: 0,
     copias: 1,
     descripcion: '',
+    etiquetas: [],
+    tipo: 'impreso',
+    usuariosSimultaneos: 1,
+    prestamosTotales: '',
+    fechaVencimiento: '',
   });
 
   const fetchBooks = useCallback(async () => {
     try {
-      const url = searchQuery 
-        ? `/api/books?search=${encodeURIComponent(searchQuery)}`
-        : '/api/books';
+      const params = new URLSearchParams();
+      if (searchQuery) {
+        params.set('search', searchQuery);
+      } else if (categoryFilter) {
+        params.set('category', categoryFilter);
+      }
+      // Las etiquetas se combinan con la búsqueda o la clasificación
+      if (tagFilter.length > 0) {
+        params.set('tags', tagFilter.join(','));
+      }
+      const url = params.size > 0 ? `/api/books?${params}` : '/api/books';
       
-      const response = await fetch(url);
+      const [response, clockRes] = await Promise.all([
+        fetch(url),
+        fetch('/api/admin/clock'),
+      ]);
       const data = await response.json();
+      const clockData = await clockRes.json();
 
       if (data.success) {
         setBooks(data.data);
       }
+      if (clockData.success) setNow(new Date(clockData.data.ahora));
     } catch (error) {
       console.error('Error al cargar libros:', error);
       setError('Error al cargar los libros');
     } finally {
       setLoading(false);
     }
-  }, [searchQuery]);
+  }, [searchQuery, categoryFilter, tagFilter]);
 
   useEffect(() => {
     fetchBooks();
   }, [fetchBooks]);
 
+  useEffect(() => {
+    const fetchClassification = async () => {
+      try {
+        const response = await fetch('/api/classification');
+        const data = await response.json();
+
+        if (data.success) {
+          setClases(data.data.nodos);
+        }
+      } catch (error) {
+        console.error('Error al cargar la clasificación:', error);
+      }
+    };
+
+    fetchClassification();
+  }, []);
+
+  const clasesOrdenadas = flattenClassification(clases);
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/series');
+      const data = await response.json();
+
+      if (data.success) {
+        setSeries(data.data);
+      }
+    } catch (error) {
+      console.error('Error al cargar series:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const fetchWorks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/works');
+      const data = await response.json();
+
+      if (data.success) {
+        setWorks(data.data);
+      }
+    } catch (error) {
+      console.error('Error al cargar obras:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorks();
+  }, [fetchWorks]);
+
+  // Serie del libro y su siguiente volumen, según el orden de la serie
+  const getSeriesInfo = (book: Book) => {
+    const serie = series.find((s) => s.id === book.serie?.serieId);
+    if (!serie) return null;
+
+    const index = serie.libros.findIndex((volume) => volume.id === book.id);
+    return { serie, siguiente: serie.libros[index + 1] };
+  };
+
+  // Se valida mientras se escribe; el servidor repite la validación
+  const isbnError = formData.isbn ? validateIsbn(formData.isbn).error : undefined;
+
   const handleSearch = () => {
     setLoading(true);
     fetchBooks();
   };
 
+  // Uso de la licencia del libro digital que se edita
+  const fetchLicenseUsage = async (bookId: string) => {
+    try {
+      const response = await fetch(`/api/books/${bookId}/license`);
+      const data = await response.json();
+
+      if (data.success) setLicenseUsage(data.data);
+    } catch (error) {
+      console.error('Error al cargar la licencia:', error);
+    }
+  };
+
+  // Signatura y ubicación de los ejemplares del libro impreso que se edita
+  const fetchBookLocation = async (bookId: string) => {
+    try {
+      const response = await fetch(`/api/books/${bookId}/location`);
+      const data = await response.json();
+
+      if (data.success) setBookLocation(data.data);
+    } catch (error) {
+      console.error('Error al cargar la ubicación:', error);
+    }
+  };
+
   const handleOpenDialog = (book?: Book) => {
+    setLicenseUsage(null);
+    setBookLocation(null);
     if (book) {
       setEditingBook(book);
-      setFormData({
-        titulo: book.titulo,
-        autor: book.autor,
-        isbn: book.isbn,
-        categoria: book.categoria,
-        anioPublicacion: book.anioPublicacion,
-        editorial: book.editorial,
-        numeroPaginas: book.numeroPaginas,
-        copias: book.copias,
-        descripcion: book.descripcion || '',
-      });
+      setFormData(toFormData(book));
+      if (isDigital(book)) {
+        fetchLicenseUsage(book.id);
+      } else {
+        fetchBookLocation(book.id);
+      }
     } else {
       setEditingBook(null);
       setFormData({
         titulo: '',
-        autor: '',
+        contribuyentes: [{ nombre: '', rol: 'autor' }],
         isbn: '',
-        categoria: 'Ficción',
+        categoria: '800',
+        signatura: '',
         anioPublicacion: new Date().getFullYear(),
         editorial: '',
         numeroPaginas: 0,
         copias: 1,
         descripcion: '',
+        etiquetas: [],
+        tipo: 'impreso',
+        usuariosSimultaneos: 1,
+        prestamosTotales: '',
+        fechaVencimiento: '',
       });
     }
+    resetCover();
     setOpenDialog(true);
   };
 
@@ -132,28 +364,89 @@ export default function BooksList() {
     setOpenDialog(false);
     setEditingBook(null);
     setError(null);
+    resetCover();
   };
 
-  const handleSubmit = async () => {
+  const resetCover = (file: File | null = null) => {
+    if (coverPreview) URL.revokeObjectURL(coverPreview);
+    setCoverFile(file);
+    setCoverPreview(file ? URL.createObjectURL(file) : null);
+    setRemoveCover(false);
+  };
+
+  const handleSelectCover = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_COVER_BYTES) {
+      setError(`La imagen supera el tamaño máximo de ${MAX_COVER_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setError(null);
+    resetCover(file);
+  };
+
+  const handleRemoveCover = () => {
+    resetCover();
+    setRemoveCover(Boolean(editingBook?.portada));
+  };
+
+  // La portada se envía aparte, una vez que el libro existe; retorna el error si falla
+  const saveCover = async (bookId: string): Promise<string | null> => {
+    if (!coverFile && !removeCover) return null;
+
     try {
-      const url = editingBook ? `/api/books/${editingBook.id}` : '/api/books';
-      const method = editingBook ? 'PUT' : 'POST';
+      let response;
+      if (coverFile) {
+        const body = new FormData();
+        body.append('file', coverFile);
+        response = await fetch(`/api/books/${bookId}/cover`, { method: 'POST', body });
+      } else {
+        response = await fetch(`/api/books/${bookId}/cover`, { method: 'DELETE' });
+      }
+
+      const data = await response.json();
+      return data.success ? null : data.error;
+    } catch (error) {
+      console.error('Error al guardar la portada:', error);
+      return 'Error al guardar la portada';
+    }
+  };
+
+  const handleSubmit = async (values = formData, target = editingBook) => {
+    try {
+      const url = target ? `/api/books/${target.id}` : '/api/books';
+      const method = target ? 'PUT' : 'POST';
 
       const response = await fetch(url, {
         method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        headers: {
+          'Content-Type': 'application/json',
+          // Versión editada: si cambió en el servidor responde 412 con la copia actual
+          ...(target ? { 'If-Match': `"${target.version}"` } : {}),
+        },
+        body: JSON.stringify(toPayload(values)),
       });
 
       const data = await response.json();
 
+      if (response.status === 412) {
+        setConflict(data.data);
+        return;
+      }
+
       if (data.success) {
+        const coverError = await saveCover(data.data.id);
         handleCloseDialog();
         fetchBooks();
         setNotification({
           open: true,
-          message: editingBook ? ' Libro actualizado exitosamente' : ' Libro creado exitosamente',
-          severity: 'success',
+          message: coverError
+            ? `Libro guardado, pero la portada no: ${coverError}`
+            : editingBook ? ' Libro actualizado exitosamente' : ' Libro creado exitosamente',
+          severity: coverError ? 'warning' : 'success',
         });
       } else {
         setError(data.error);
@@ -164,6 +457,38 @@ export default function BooksList() {
     }
   };
 
+  const updateContributor = (index: number, changes: Partial<Contributor>) => {
+    setFormData({
+      ...formData,
+      contribuyentes: formData.contribuyentes.map((contributor, i) =>
+        i === index ? { ...contributor, ...changes } : contributor
+      ),
+    });
+  };
+
+  const addContributor = () => {
+    setFormData({
+      ...formData,
+      contribuyentes: [...formData.contribuyentes, { nombre: '', rol: 'autor' }],
+    });
+  };
+
+  const removeContributor = (index: number) => {
+    setFormData({
+      ...formData,
+      contribuyentes: formData.contribuyentes.filter((_, i) => i !== index),
+    });
+  };
+
+  const handleResolveConflict = (values: ReturnType<typeof toMergeValues>) => {
+    const merged = fromMergeValues(values);
+    const current = conflict!;
+    setConflict(null);
+    setEditingBook(current);
+    setFormData(merged);
+    handleSubmit(merged, current);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('¿Estás seguro de eliminar este libro?')) return;
 
@@ -225,13 +550,64 @@ export default function BooksList() {
         <Typography variant="h4" fontWeight={700}>
           Gestión de Libros
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={() => handleOpenDialog()}
-        >
-          Agregar Libro
-        </Button>
+        <Box display="flex" gap={2}>
+          <Button
+            variant="outlined"
+            startIcon={<ImportExport />}
+            onClick={() => setMarcOpen(true)}
+          >
+            MARC
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={() => setCsvOpen(true)}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<MergeType />}
+            onClick={() => setDuplicatesOpen(true)}
+          >
+            Duplicados
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<CollectionsBookmark />}
+            onClick={() => setSeriesOpen(true)}
+          >
+            Series
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<AutoStories />}
+            onClick={() => setWorksOpen(true)}
+          >
+            Obras
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<LocalOffer />}
+            onClick={() => setTagsOpen(true)}
+          >
+            Etiquetas
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Place />}
+            onClick={() => setLocationsOpen(true)}
+          >
+            Ubicaciones
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => handleOpenDialog()}
+          >
+            Agregar Libro
+          </Button>
+        </Box>
       </Box>
 
       <Box display="flex" gap={2} mb={3}>
@@ -245,69 +621,186 @@ export default function BooksList() {
             startAdornment: <Search sx={{ mr: 1, color: 'text.secondary' }} />,
           }}
         />
+        <TextField
+          select
+          label="Clasificación"
+          value={categoryFilter}
+          onChange={(e) => {
+            setLoading(true);
+            setCategoryFilter(e.target.value);
+          }}
+          sx={{ minWidth: 240 }}
+        >
+          <MenuItem value="">Todas</MenuItem>
+          {clasesOrdenadas.map((clase) => (
+            <MenuItem key={clase.codigo} value={clase.codigo} sx={{ pl: 2 + clase.nivel * 2 }}>
+              {clase.codigo} {clase.etiqueta}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box minWidth={280}>
+          <TagInput
+            label="Etiquetas"
+            value={tagFilter}
+            freeSolo={false}
+            onChange={(etiquetas) => {
+              setLoading(true);
+              setTagFilter(etiquetas);
+            }}
+          />
+        </Box>
         <Button variant="outlined" onClick={handleSearch}>
           Buscar
         </Button>
+        <CitationMenu
+          label="Citar"
+          url={searchQuery
+            ? `/api/books/citations?search=${encodeURIComponent(searchQuery)}`
+            : categoryFilter
+            ? `/api/books/citations?category=${encodeURIComponent(categoryFilter)}`
+            : '/api/books/citations'}
+        />
       </Box>
 
       <Box display="flex" flexWrap="wrap" gap={3}>
-        {books.map((book) => (
-          <Card key={book.id} sx={{ width: 320 }}>
-            <CardContent>
-              <Box display="flex" justifyContent="space-between" alignItems="start" mb={2}>
-                <Typography variant="h6" fontWeight={600}>
-                  {book.titulo}
+        {books.map((book) => {
+          const seriesInfo = getSeriesInfo(book);
+          const obra = works.find((w) => w.id === book.obraId);
+
+          return (
+            <Card key={book.id} sx={{ width: 320 }}>
+              <CardContent>
+                <Box display="flex" gap={2} mb={2}>
+                  <BookCover portada={book.portada} titulo={book.titulo} />
+                  <Box flex={1} display="flex" justifyContent="space-between" alignItems="start" gap={1}>
+                    <Typography variant="h6" fontWeight={600}>
+                      {book.titulo}
+                    </Typography>
+                    <Chip
+                      label={book.estado}
+                      color={getStatusColor(book.estado)}
+                      size="small"
+                    />
+                  </Box>
+                </Box>
+
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>Autor:</strong> {book.autor}
                 </Typography>
-                <Chip
-                  label={book.estado}
-                  color={getStatusColor(book.estado)}
-                  size="small"
-                />
-              </Box>
 
-              <Typography variant="body2" color="text.secondary" mb={1}>
-                <strong>Autor:</strong> {book.autor}
-              </Typography>
+                {book.contribuyentes
+                  .filter((contributor) => contributor.rol !== 'autor')
+                  .map((contributor) => (
+                    <Typography
+                      key={`${contributor.rol}-${contributor.nombre}`}
+                      variant="body2"
+                      color="text.secondary"
+                      mb={1}
+                    >
+                      <strong>{CONTRIBUTOR_ROLE_LABELS[contributor.rol]}:</strong> {contributor.nombre}
+                    </Typography>
+                  ))}
 
-              <Typography variant="body2" color="text.secondary" mb={1}>
-                <strong>ISBN:</strong> {book.isbn}
-              </Typography>
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>ISBN:</strong> {formatIsbn(book.isbn)}
+                </Typography>
 
-              <Typography variant="body2" color="text.secondary" mb={1}>
-                <strong>Categoría:</strong> {book.categoria}
-              </Typography>
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>Clasificación:</strong> {book.categoria} · {formatClassificationPath(clases, book.categoria)}
+                </Typography>
 
-              <Typography variant="body2" color="text.secondary" mb={1}>
-                <strong>Editorial:</strong> {book.editorial}
-              </Typography>
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>Signatura:</strong> {callNumberOf(book)}
+                </Typography>
 
-              <Typography variant="body2" color="text.secondary" mb={1}>
-                <strong>Año:</strong> {book.anioPublicacion}
-              </Typography>
+                {seriesInfo && (
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    <strong>Serie:</strong> {seriesInfo.serie.titulo} · vol. {book.serie?.volumen}
+                    {seriesInfo.siguiente && (
+                      <> · siguiente: {seriesInfo.siguiente.titulo} (vol. {seriesInfo.siguiente.serie?.volumen})</>
+                    )}
+                  </Typography>
+                )}
 
-              <Typography variant="body2" color="text.secondary">
-                <strong>Disponibles:</strong> {book.copiasDisponibles} / {book.copias}
-              </Typography>
-            </CardContent>
-
-            <CardActions sx={{ justifyContent: 'flex-end', px: 2, pb: 2 }}>
-              <IconButton
-                size="small"
-                color="primary"
-                onClick={() => handleOpenDialog(book)}
-              >
-                <Edit />
-              </IconButton>
-              <IconButton
-                size="small"
-                color="error"
-                onClick={() => handleDelete(book.id)}
-              >
-                <Delete />
-              </IconButton>
-            </CardActions>
-          </Card>
-        ))}
+                {obra && (
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    <strong>Obra:</strong> {obra.titulo} · {obra.ediciones.length} ediciones
+                  </Typography>
+                )}
+
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>Editorial:</strong> {book.editorial}
+                </Typography>
+
+                <Typography variant="body2" color="text.secondary" mb={1}>
+                  <strong>Año:</strong> {book.anioPublicacion}
+                </Typography>
+
+                {isDigital(book) && book.licencia && (
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    <strong>Digital:</strong> {book.licencia.usuariosSimultaneos} lectores a la vez
+                    {book.licencia.prestamosTotales && <> · {book.licencia.prestamosTotales} préstamos</>}
+                    {book.licencia.fechaVencimiento && (
+                      new Date(book.licencia.fechaVencimiento) <= now
+                        ? <Typography component="span" variant="body2" color="error"> · licencia vencida</Typography>
+                        : <> · vence el {new Date(book.licencia.fechaVencimiento).toLocaleDateString()}</>
+                    )}
+                  </Typography>
+                )}
+
+                <Typography variant="body2" color="text.secondary">
+                  <strong>Disponibles:</strong> {book.copiasDisponibles} / {book.copias}
+                </Typography>
+
+                {(book.etiquetas ?? []).length > 0 && (
+                  <Box display="flex" flexWrap="wrap" gap={0.5} mt={1.5}>
+                    {book.etiquetas!.map((etiqueta) => (
+                      <Chip
+                        key={etiqueta}
+                        label={etiqueta}
+                        size="small"
+                        variant="outlined"
+                        icon={<LocalOffer />}
+                        onClick={() => {
+                          if (tagFilter.includes(etiqueta)) return;
+                          setLoading(true);
+                          setTagFilter([...tagFilter, etiqueta]);
+                        }}
+                      />
+                    ))}
+                  </Box>
+                )}
+              </CardContent>
+
+              <CardActions sx={{ justifyContent: 'flex-end', px: 2, pb: 2 }}>
+                <CitationMenu url={`/api/books/${book.id}/citation`} />
+                {!isDigital(book) && (
+                  <IconButton
+                    size="small"
+                    title="Ejemplares"
+                    onClick={() => setCopiesBook(book)}
+                  >
+                    <Inventory2 />
+                  </IconButton>
+                )}
+                <IconButton
+                  size="small"
+                  color="primary"
+                  onClick={() => handleOpenDialog(book)}
+                >
+                  <Edit />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => handleDelete(book.id)}
+                >
+                  <Delete />
+                </IconButton>
+              </CardActions>
+            </Card>
+          );
+        })}
       </Box>
 
       {books.length === 0 && !loading && (
@@ -330,6 +823,30 @@ export default function BooksList() {
           )}
 
           <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <Box display="flex" gap={2} alignItems="center">
+              <BookCover
+                portada={removeCover ? null : editingBook?.portada}
+                titulo={formData.titulo}
+                size="medium"
+                width={80}
+                src={coverPreview ?? undefined}
+              />
+              <Box display="flex" flexDirection="column" alignItems="start" gap={1}>
+                <Button component="label" size="small" startIcon={<AddPhotoAlternate />}>
+                  Elegir portada
+                  <input hidden type="file" accept={COVER_MIME_TYPES.join(',')} onChange={handleSelectCover} />
+                </Button>
+                {(coverPreview || (editingBook?.portada && !removeCover)) && (
+                  <Button size="small" color="error" startIcon={<HideImage />} onClick={handleRemoveCover}>
+                    Quitar portada
+                  </Button>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  JPEG, PNG, WebP o GIF de hasta {MAX_COVER_BYTES / (1024 * 1024)} MB
+                </Typography>
+              </Box>
+            </Box>
+
             <TextField
               label="Título"
               value={formData.titulo}
@@ -338,36 +855,96 @@ export default function BooksList() {
               fullWidth
             />
 
-            <TextField
-              label="Autor"
-              value={formData.autor}
-              onChange={(e) => setFormData({ ...formData, autor: e.target.value })}
-              required
-              fullWidth
-            />
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary" mb={1}>
+                Autores y colaboradores
+              </Typography>
+
+              {formData.contribuyentes.map((contributor, index) => (
+                <Box key={index} display="flex" gap={1} mb={1}>
+                  <TextField
+                    label="Nombre"
+                    size="small"
+                    value={contributor.nombre}
+                    onChange={(e) => updateContributor(index, { nombre: e.target.value })}
+                    required={index === 0}
+                    fullWidth
+                  />
+                  <TextField
+                    select
+                    label="Rol"
+                    size="small"
+                    value={contributor.rol}
+                    onChange={(e) => updateContributor(index, { rol: e.target.value as ContributorRole })}
+                    sx={{ minWidth: 140 }}
+                  >
+                    {CONTRIBUTOR_ROLES.map((rol) => (
+                      <MenuItem key={rol} value={rol}>
+                        {CONTRIBUTOR_ROLE_LABELS[rol]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <IconButton
+                    size="small"
+                    onClick={() => removeContributor(index)}
+                    disabled={formData.contribuyentes.length === 1}
+                  >
+                    <Delete />
+                  </IconButton>
+                </Box>
+              ))}
+
+              <Button size="small" startIcon={<PersonAdd />} onClick={addContributor}>
+                Agregar contribuyente
+              </Button>
+            </Box>
 
             <TextField
               label="ISBN"
               value={formData.isbn}
               onChange={(e) => setFormData({ ...formData, isbn: e.target.value })}
+              error={isbnError !== undefined}
+              helperText={isbnError ?? 'ISBN-10 o ISBN-13, con o sin guiones'}
               required
               fullWidth
             />
 
             <TextField
               select
-              label="Categoría"
+              label="Clasificación"
               value={formData.categoria}
-              onChange={(e) => setFormData({ ...formData, categoria: e.target.value as BookCategory })}
+              onChange={(e) => setFormData({ ...formData, categoria: e.target.value })}
               fullWidth
             >
-              {categorias.map((cat) => (
-                <MenuItem key={cat} value={cat}>
-                  {cat}
+              {clasesOrdenadas.map((clase) => (
+                <MenuItem key={clase.codigo} value={clase.codigo} sx={{ pl: 2 + clase.nivel * 2 }}>
+                  {clase.codigo} {clase.etiqueta}
                 </MenuItem>
               ))}
             </TextField>
 
+            <TextField
+              label="Signatura"
+              value={formData.signatura}
+              onChange={(e) => setFormData({ ...formData, signatura: e.target.value })}
+              placeholder={generateCallNumber({ ...formData, autor: '' })}
+              helperText="Vacía: se genera con la clasificación, el autor, el título y el año"
+              fullWidth
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+
+            {bookLocation && bookLocation.ejemplares.length > 0 && (
+              <Alert severity="info" icon={<Place />}>
+                {bookLocation.ejemplares.map((ejemplar) => (
+                  <Typography key={ejemplar.copiaId} variant="body2">
+                    {ejemplar.codigoBarras}: {ejemplar.ubicacion?.etiqueta ?? 'sin ubicación'}
+                    {ejemplar.detalle && ` (${ejemplar.detalle})`}
+                    {ejemplar.ubicacion && !ejemplar.asignada && ' · por signatura'}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+
             <TextField
               label="Editorial"
               value={formData.editorial}
@@ -395,16 +972,75 @@ export default function BooksList() {
                 fullWidth
               />
 
-              <TextField
-                label="Copias"
-                type="number"
-                value={formData.copias}
-                onChange={(e) => setFormData({ ...formData, copias: parseInt(e.target.value) })}
-                required
-                fullWidth
-              />
+              {formData.tipo === 'digital' ? (
+                <TextField
+                  label="Usuarios simultáneos"
+                  type="number"
+                  value={formData.usuariosSimultaneos}
+                  onChange={(e) => setFormData({ ...formData, usuariosSimultaneos: parseInt(e.target.value) })}
+                  required
+                  fullWidth
+                  inputProps={{ min: 1 }}
+                />
+              ) : (
+                <TextField
+                  label="Copias"
+                  type="number"
+                  value={formData.copias}
+                  onChange={(e) => setFormData({ ...formData, copias: parseInt(e.target.value) })}
+                  required
+                  fullWidth
+                />
+              )}
             </Box>
 
+            <TextField
+              select
+              label="Tipo de material"
+              value={formData.tipo}
+              onChange={(e) => setFormData({ ...formData, tipo: e.target.value as BookFormData['tipo'] })}
+              fullWidth
+            >
+              <MenuItem value="impreso">Impreso (ejemplares físicos)</MenuItem>
+              <MenuItem value="digital">Digital (licencia)</MenuItem>
+            </TextField>
+
+            {formData.tipo === 'digital' && (
+              <>
+                <Box display="flex" gap={2}>
+                  <TextField
+                    label="Préstamos totales"
+                    type="number"
+                    value={formData.prestamosTotales}
+                    onChange={(e) => setFormData({ ...formData, prestamosTotales: e.target.value })}
+                    helperText="Vacío: sin límite"
+                    fullWidth
+                    inputProps={{ min: 1 }}
+                  />
+
+                  <TextField
+                    label="Vencimiento de la licencia"
+                    type="date"
+                    value={formData.fechaVencimiento}
+                    onChange={(e) => setFormData({ ...formData, fechaVencimiento: e.target.value })}
+                    helperText="Vacío: sin vencimiento"
+                    fullWidth
+                    slotProps={{ inputLabel: { shrink: true } }}
+                  />
+                </Box>
+
+                {licenseUsage && (
+                  <Alert severity={licenseUsage.estado === 'vigente' ? 'info' : 'warning'}>
+                    {licenseUsage.estado === 'vencida' && 'Licencia vencida. '}
+                    {licenseUsage.estado === 'agotada' && 'Licencia agotada. '}
+                    {licenseUsage.prestamosRealizados} préstamos realizados
+                    {licenseUsage.prestamosRestantes !== null && ` (quedan ${licenseUsage.prestamosRestantes})`}
+                    {' · '}{licenseUsage.prestamosActivos} lectores ahora
+                  </Alert>
+                )}
+              </>
+            )}
+
             <TextField
               label="Descripción"
               value={formData.descripcion}
@@ -413,16 +1049,111 @@ export default function BooksList() {
               rows={3}
               fullWidth
             />
+
+            <TagInput
+              value={formData.etiquetas}
+              onChange={(etiquetas) => setFormData({ ...formData, etiquetas })}
+            />
           </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancelar</Button>
-          <Button onClick={handleSubmit} variant="contained">
+          <Button onClick={() => handleSubmit()} variant="contained">
             {editingBook ? 'Actualizar' : 'Crear'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {conflict && editingBook && (
+        <MergeDialog
+          open
+          fields={mergeFields}
+          base={toMergeValues(toFormData(editingBook))}
+          local={toMergeValues(formData)}
+          server={toMergeValues(toFormData(conflict))}
+          onCancel={() => setConflict(null)}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
+      {copiesBook && (
+        <CopiesDialog
+          book={copiesBook}
+          onClose={() => setCopiesBook(null)}
+          onChanged={fetchBooks}
+        />
+      )}
+
+      {marcOpen && (
+        <MarcDialog
+          onClose={() => setMarcOpen(false)}
+          onImported={fetchBooks}
+        />
+      )}
+
+      {csvOpen && (
+        <CsvImportDialog
+          entidad="libros"
+          onClose={() => setCsvOpen(false)}
+          onImported={fetchBooks}
+        />
+      )}
+
+      {duplicatesOpen && (
+        <DuplicatesDialog
+          onClose={() => setDuplicatesOpen(false)}
+          onMerged={(message) => {
+            setNotification({ open: true, message, severity: 'success' });
+            fetchBooks();
+          }}
+        />
+      )}
+
+      {seriesOpen && (
+        <SeriesDialog
+          books={books}
+          onClose={() => setSeriesOpen(false)}
+          onChanged={() => {
+            fetchBooks();
+            fetchSeries();
+          }}
+        />
+      )}
+
+      {tagsOpen && (
+        <TagsDialog
+          books={books}
+          onClose={() => setTagsOpen(false)}
+          onChanged={(message) => {
+            setNotification({ open: true, message, severity: 'success' });
+            fetchBooks();
+          }}
+          onSelectTag={(etiqueta) => {
+            setTagsOpen(false);
+            setLoading(true);
+            setTagFilter([etiqueta]);
+          }}
+        />
+      )}
+
+      {locationsOpen && (
+        <LocationsDialog
+          onClose={() => setLocationsOpen(false)}
+          onChanged={(message) => setNotification({ open: true, message, severity: 'success' })}
+        />
+      )}
+
+      {worksOpen && (
+        <WorksDialog
+          books={books}
+          onClose={() => setWorksOpen(false)}
+          onChanged={() => {
+            fetchBooks();
+            fetchWorks();
+          }}
+        />
+      )}
+
       <Notification
         open={notification.open}
         message={notification.message}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, IconButton, Menu, MenuItem } from '@mui/material';
+import { FormatQuote } from '@mui/icons-material';
+import { CITATION_FORMATS, CITATION_FORMAT_LABELS } from '@/lib/citations';
+
+interface CitationMenuProps {
+  url: string; // ruta de descarga sin el parámetro format
+  label?: string; // con texto se muestra un botón; sin él, un icono
+}
+
+/**
+ * Menú de descarga de citas en BibTeX, RIS o Dublin Core
+ */
+export default function CitationMenu({ url, label }: CitationMenuProps) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const separator = url.includes('?') ? '&' : '?';
+
+  return (
+    <>
+      {label ? (
+        <Button variant="outlined" startIcon={<FormatQuote />} onClick={(e) => setAnchor(e.currentTarget)}>
+          {label}
+        </Button>
+      ) : (
+        <IconButton size="small" title="Citar" onClick={(e) => setAnchor(e.currentTarget)}>
+          <FormatQuote />
+        </IconButton>
+      )}
+      <Menu anchorEl={anchor} open={anchor !== null} onClose={() => setAnchor(null)}>
+        {CITATION_FORMATS.map((format) => (
+          <MenuItem
+            key={format}
+            component="a"
+            href={`${url}${separator}format=${format}`}
+            onClick={() => setAnchor(null)}
+          >
+            {CITATION_FORMAT_LABELS[format]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Build, Delete } from '@mui/icons-material';
+import { callNumberOf } from '@/lib/callNumbers';
+import { shelfPath } from '@/lib/locations';
+import type { Book, Copy, CopyCondition, CopyStatus, LibraryLocation } from '@/types';
+
+const condiciones: CopyCondition[] = ['nuevo', 'bueno', 'regular', 'deteriorado'];
+
+// prestado y apartado los asigna la circulación y mantenimiento las órdenes de reparación
+const estadosManuales: CopyStatus[] = ['disponible', 'baja'];
+
+const getStatusColor = (estado: CopyStatus) => {
+  switch (estado) {
+    case 'disponible':
+      return 'success';
+    case 'prestado':
+      return 'error';
+    case 'apartado':
+      return 'warning';
+    case 'mantenimiento':
+      return 'info';
+    default:
+      return 'default';
+  }
+};
+
+interface CopiesDialogProps {
+  book: Book;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Gestión de los ejemplares físicos de un libro
+ */
+export default function CopiesDialog({ book, onClose, onChanged }: CopiesDialogProps) {
+  const [copies, setCopies] = useState<Copy[]>([]);
+  const [locations, setLocations] = useState<LibraryLocation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newCopy, setNewCopy] = useState({
+    codigoBarras: '',
+    condicion: 'bueno' as CopyCondition,
+    estanteriaId: '',
+    ubicacion: '',
+  });
+
+  const fetchCopies = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/books/${book.id}/copies`);
+      const data = await response.json();
+
+      if (data.success) {
+        setCopies(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar ejemplares:', error);
+      setError('Error al cargar los ejemplares');
+    }
+  }, [book.id]);
+
+  useEffect(() => {
+    fetchCopies();
+  }, [fetchCopies]);
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const response = await fetch('/api/locations');
+        const data = await response.json();
+
+        if (data.success) setLocations(data.data);
+      } catch (error) {
+        console.error('Error al cargar ubicaciones:', error);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  // Estanterías con su sucursal y sala; sin asignar, el ejemplar va donde indique su signatura
+  const shelves = locations
+    .filter((location) => location.nivel === 'estanteria')
+    .map((location) => ({ id: location.id, etiqueta: shelfPath(locations, location.id)?.etiqueta ?? location.nombre }));
+
+  const shelfOptions = [
+    <MenuItem key="" value="">
+      <em>Por signatura</em>
+    </MenuItem>,
+    ...shelves.map((shelf) => (
+      <MenuItem key={shelf.id} value={shelf.id}>
+        {shelf.etiqueta}
+      </MenuItem>
+    )),
+  ];
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return false;
+      }
+
+      setError(null);
+      fetchCopies();
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error('Error al guardar ejemplar:', error);
+      setError('Error al guardar el ejemplar');
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    const added = await request(`/api/books/${book.id}/copies`, 'POST', {
+      ...newCopy,
+      estanteriaId: newCopy.estanteriaId || null,
+    });
+    if (added) {
+      setNewCopy({ ...newCopy, codigoBarras: '' });
+    }
+  };
+
+  const handleUpdate = (copy: Copy, changes: Partial<Copy>) =>
+    request(`/api/books/${book.id}/copies/${copy.id}`, 'PUT', changes);
+
+  const handleDelete = (copy: Copy) => {
+    if (!confirm(`¿Eliminar el ejemplar ${copy.codigoBarras}?`)) return;
+    request(`/api/books/${book.id}/copies/${copy.id}`, 'DELETE');
+  };
+
+  const handleRepair = (copy: Copy) => {
+    const motivo = prompt(`Motivo de la reparación del ejemplar ${copy.codigoBarras}:`);
+    if (!motivo) return;
+    request('/api/repairs', 'POST', { copyId: copy.id, motivo });
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Ejemplares de {book.titulo}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Signatura: {callNumberOf(book)}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Código de barras</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell>Condición</TableCell>
+              <TableCell>Estantería</TableCell>
+              <TableCell>Detalle</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {copies.map((copy) => {
+              // Los prestados, apartados y en reparación no cambian de estado a mano
+              const gestionado = ['prestado', 'apartado', 'mantenimiento'].includes(copy.estado);
+
+              return (
+                <TableRow key={copy.id}>
+                  <TableCell>{copy.codigoBarras}</TableCell>
+                  <TableCell>
+                    {gestionado ? (
+                      <Chip label={copy.estado} color={getStatusColor(copy.estado)} size="small" />
+                    ) : (
+                      <TextField
+                        select
+                        size="small"
+                        value={copy.estado}
+                        onChange={(e) => handleUpdate(copy, { estado: e.target.value as CopyStatus })}
+                      >
+                        {estadosManuales.map((estado) => (
+                          <MenuItem key={estado} value={estado}>
+                            {estado}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={copy.condicion}
+                      onChange={(e) => handleUpdate(copy, { condicion: e.target.value as CopyCondition })}
+                    >
+                      {condiciones.map((condicion) => (
+                        <MenuItem key={condicion} value={condicion}>
+                          {condicion}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={copy.estanteriaId ?? ''}
+                      onChange={(e) => handleUpdate(copy, { estanteriaId: e.target.value || null })}
+                      sx={{ minWidth: 180 }}
+                      slotProps={{ select: { displayEmpty: true } }}
+                    >
+                      {shelfOptions}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      placeholder="balda, mostrador..."
+                      defaultValue={copy.ubicacion}
+                      onBlur={(e) => {
+                        if (e.target.value !== copy.ubicacion) {
+                          handleUpdate(copy, { ubicacion: e.target.value });
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {copy.estado === 'disponible' && (
+                      <IconButton size="small" title="Enviar a reparación" onClick={() => handleRepair(copy)}>
+                        <Build />
+                      </IconButton>
+                    )}
+                    <IconButton
+                      size="small"
+                      color="error"
+                      disabled={gestionado}
+                      onClick={() => handleDelete(copy)}
+                    >
+                      <Delete />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {copies.length === 0 && (
+          <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+            Este libro no tiene ejemplares
+          </Typography>
+        )}
+
+        <Box display="flex" gap={2} mt={3}>
+          <TextField
+            label="Código de barras"
+            placeholder="Automático"
+            size="small"
+            value={newCopy.codigoBarras}
+            onChange={(e) => setNewCopy({ ...newCopy, codigoBarras: e.target.value })}
+          />
+          <TextField
+            select
+            label="Condición"
+            size="small"
+            value={newCopy.condicion}
+            onChange={(e) => setNewCopy({ ...newCopy, condicion: e.target.value as CopyCondition })}
+            sx={{ minWidth: 140 }}
+          >
+            {condiciones.map((condicion) => (
+              <MenuItem key={condicion} value={condicion}>
+                {condicion}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Estantería"
+            size="small"
+            value={newCopy.estanteriaId}
+            onChange={(e) => setNewCopy({ ...newCopy, estanteriaId: e.target.value })}
+            sx={{ minWidth: 180 }}
+            slotProps={{ inputLabel: { shrink: true }, select: { displayEmpty: true } }}
+          >
+            {shelfOptions}
+          </TextField>
+          <TextField
+            label="Detalle"
+            size="small"
+            value={newCopy.ubicacion}
+            onChange={(e) => setNewCopy({ ...newCopy, ubicacion: e.target.value })}
+          />
+          <Button variant="outlined" startIcon={<Add />} onClick={handleAdd}>
+            Agregar
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
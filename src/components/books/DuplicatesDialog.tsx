@@ -0,0 +1,157 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { MergeType } from '@mui/icons-material';
+import { formatIsbn } from '@/lib/isbn';
+import type { Book, DuplicateCandidate } from '@/types';
+
+interface DuplicatesDialogProps {
+  onClose: () => void;
+  onMerged: (message: string) => void;
+}
+
+const confidenceColor = (confianza: number) => {
+  if (confianza >= 0.9) return 'error';
+  if (confianza >= 0.8) return 'warning';
+  return 'default';
+};
+
+/**
+ * Pares de libros posiblemente duplicados; al fusionar se elige cuál se conserva
+ */
+export default function DuplicatesDialog({ onClose, onMerged }: DuplicatesDialogProps) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCandidates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/books/duplicates');
+      const data = await response.json();
+
+      if (data.success) {
+        setCandidates(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al buscar duplicados:', error);
+      setError('Error al buscar duplicados');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const handleMerge = async (keep: Book, merge: Book) => {
+    if (!confirm(`¿Fusionar "${merge.titulo}" en "${keep.titulo}"? El duplicado se eliminará.`)) return;
+
+    setMerging(true);
+    try {
+      const response = await fetch(`/api/books/${keep.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: merge.id }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setError(null);
+        onMerged(data.message);
+        await fetchCandidates();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al fusionar libros:', error);
+      setError('Error al fusionar libros');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderBook = (book: Book, other: Book) => (
+    <Box flex={1} minWidth={0}>
+      <Typography variant="subtitle2" noWrap>
+        {book.titulo}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" noWrap>
+        {book.autor} · {book.anioPublicacion}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        ISBN {formatIsbn(book.isbn)} · {book.copias} copias
+      </Typography>
+      <Button
+        size="small"
+        startIcon={<MergeType />}
+        disabled={merging}
+        onClick={() => handleMerge(book, other)}
+        sx={{ mt: 1 }}
+      >
+        Conservar este
+      </Button>
+    </Box>
+  );
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Posibles duplicados</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : candidates.length === 0 ? (
+          <Typography color="text.secondary">No se encontraron libros duplicados</Typography>
+        ) : (
+          <Box display="flex" flexDirection="column" gap={2}>
+            {candidates.map((candidate) => (
+              <Paper key={`${candidate.libroA.id}|${candidate.libroB.id}`} variant="outlined" sx={{ p: 2 }}>
+                <Box display="flex" gap={1} flexWrap="wrap" mb={1.5}>
+                  <Chip
+                    label={`${Math.round(candidate.confianza * 100)}%`}
+                    color={confidenceColor(candidate.confianza)}
+                    size="small"
+                  />
+                  {candidate.motivos.map((motivo) => (
+                    <Chip key={motivo} label={motivo} size="small" variant="outlined" />
+                  ))}
+                </Box>
+                <Box display="flex" gap={2}>
+                  {renderBook(candidate.libroA, candidate.libroB)}
+                  {renderBook(candidate.libroB, candidate.libroA)}
+                </Box>
+              </Paper>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
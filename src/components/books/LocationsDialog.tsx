@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete, FormatListNumbered } from '@mui/icons-material';
+import { LOCATION_LEVELS, LOCATION_LEVEL_LABELS, PARENT_LEVEL, shelfPath, shelfRangeLabel } from '@/lib/locations';
+import type { LibraryLocation, LocationLevel, ShelfEntry } from '@/types';
+
+interface LocationsDialogProps {
+  onClose: () => void;
+  onChanged: (message: string) => void;
+}
+
+const emptyLocation = { nivel: 'estanteria' as LocationLevel, nombre: '', padreId: '', desde: '', hasta: '' };
+
+// Sangría de cada nivel en el árbol
+const LEVEL_INDENT: Record<LocationLevel, number> = { sucursal: 0, sala: 3, estanteria: 6 };
+
+/**
+ * Sucursales, salas y estanterías; lista de lectura de estantes de una estantería
+ */
+export default function LocationsDialog({ onClose, onChanged }: LocationsDialogProps) {
+  const [locations, setLocations] = useState<LibraryLocation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newLocation, setNewLocation] = useState(emptyLocation);
+  const [shelf, setShelf] = useState<LibraryLocation | null>(null);
+  const [entries, setEntries] = useState<ShelfEntry[]>([]);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/locations');
+      const data = await response.json();
+
+      if (data.success) {
+        setLocations(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar ubicaciones:', error);
+      setError('Error al cargar las ubicaciones');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return false;
+      }
+
+      setError(null);
+      fetchLocations();
+      onChanged(data.message);
+      return true;
+    } catch (error) {
+      console.error('Error al guardar ubicación:', error);
+      setError('Error al guardar la ubicación');
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/locations', 'POST', {
+      ...newLocation,
+      padreId: newLocation.padreId || null,
+    });
+    if (created) {
+      setNewLocation({ ...emptyLocation, nivel: newLocation.nivel, padreId: newLocation.padreId });
+    }
+  };
+
+  const handleDelete = async (location: LibraryLocation) => {
+    if (!confirm(`¿Eliminar "${location.nombre}"?`)) return;
+
+    const deleted = await request(`/api/locations/${location.id}`, 'DELETE');
+    if (deleted && shelf?.id === location.id) setShelf(null);
+  };
+
+  const handleReadShelf = async (location: LibraryLocation) => {
+    try {
+      const response = await fetch(`/api/locations/${location.id}/books`);
+      const data = await response.json();
+
+      if (data.success) {
+        setShelf(location);
+        setEntries(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar la estantería:', error);
+      setError('Error al cargar la estantería');
+    }
+  };
+
+  const parentLevel = PARENT_LEVEL[newLocation.nivel];
+  const parents = parentLevel ? locations.filter((location) => location.nivel === parentLevel) : [];
+  // Las salas se muestran con su sucursal para distinguir las de igual nombre
+  const parentLabel = (parent: LibraryLocation) => {
+    const sucursal = locations.find((location) => location.id === parent.padreId);
+    return sucursal ? `${sucursal.nombre} · ${parent.nombre}` : parent.nombre;
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Ubicaciones</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" gap={2} mb={3} mt={1} flexWrap="wrap">
+          <TextField
+            select
+            label="Nivel"
+            size="small"
+            value={newLocation.nivel}
+            onChange={(e) => setNewLocation({ ...emptyLocation, nivel: e.target.value as LocationLevel })}
+            sx={{ width: 140 }}
+          >
+            {LOCATION_LEVELS.map((nivel) => (
+              <MenuItem key={nivel} value={nivel}>
+                {LOCATION_LEVEL_LABELS[nivel]}
+              </MenuItem>
+            ))}
+          </TextField>
+          {parentLevel && (
+            <TextField
+              select
+              label={LOCATION_LEVEL_LABELS[parentLevel]}
+              size="small"
+              value={newLocation.padreId}
+              onChange={(e) => setNewLocation({ ...newLocation, padreId: e.target.value })}
+              sx={{ minWidth: 220 }}
+            >
+              {parents.map((parent) => (
+                <MenuItem key={parent.id} value={parent.id}>
+                  {parentLabel(parent)}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          <TextField
+            label="Nombre"
+            size="small"
+            value={newLocation.nombre}
+            onChange={(e) => setNewLocation({ ...newLocation, nombre: e.target.value })}
+            sx={{ flex: 1, minWidth: 140 }}
+          />
+          {newLocation.nivel === 'estanteria' && (
+            <>
+              <TextField
+                label="Desde"
+                placeholder="800"
+                size="small"
+                value={newLocation.desde}
+                onChange={(e) => setNewLocation({ ...newLocation, desde: e.target.value })}
+                sx={{ width: 100 }}
+              />
+              <TextField
+                label="Hasta"
+                placeholder="899"
+                size="small"
+                value={newLocation.hasta}
+                onChange={(e) => setNewLocation({ ...newLocation, hasta: e.target.value })}
+                sx={{ width: 100 }}
+              />
+            </>
+          )}
+          <Button variant="outlined" startIcon={<Add />} onClick={handleCreate}>
+            Crear
+          </Button>
+        </Box>
+
+        {locations.length === 0 && (
+          <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+            No hay ubicaciones registradas
+          </Typography>
+        )}
+
+        <Table size="small">
+          <TableBody>
+            {locations.map((location) => (
+              <TableRow key={location.id} selected={shelf?.id === location.id}>
+                <TableCell sx={{ pl: 2 + LEVEL_INDENT[location.nivel] }}>
+                  <Typography
+                    variant="body2"
+                    fontWeight={location.nivel === 'estanteria' ? 400 : 600}
+                  >
+                    {location.nombre}
+                  </Typography>
+                </TableCell>
+                <TableCell>{LOCATION_LEVEL_LABELS[location.nivel]}</TableCell>
+                <TableCell>{location.nivel === 'estanteria' && shelfRangeLabel(location)}</TableCell>
+                <TableCell align="right">
+                  {location.nivel === 'estanteria' && (
+                    <IconButton
+                      size="small"
+                      title="Lectura de estantes"
+                      onClick={() => handleReadShelf(location)}
+                    >
+                      <FormatListNumbered />
+                    </IconButton>
+                  )}
+                  <IconButton size="small" color="error" onClick={() => handleDelete(location)}>
+                    <Delete />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {shelf && (
+          <>
+            <Divider sx={{ my: 2 }} />
+
+            <Typography variant="subtitle1" fontWeight={600}>
+              {shelfPath(locations, shelf.id)?.etiqueta ?? shelf.nombre}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" mb={1}>
+              Los libros en el orden en que deben estar colocados
+            </Typography>
+
+            {entries.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+                La estantería está vacía
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Signatura</TableCell>
+                    <TableCell>Título</TableCell>
+                    <TableCell>Ejemplares</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.libro.id}>
+                      <TableCell sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>{entry.signatura}</TableCell>
+                      <TableCell>{entry.libro.titulo}</TableCell>
+                      <TableCell>{entry.ejemplares.map((copy) => copy.codigoBarras).join(', ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Download, UploadFile } from '@mui/icons-material';
+import type { MarcImportReport } from '@/types';
+
+interface MarcDialogProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Importación de registros MARC21 / MARCXML y exportación del catálogo
+ */
+export default function MarcDialog({ onClose, onImported }: MarcDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<MarcImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch('/api/books/marc', { method: 'POST', body });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data);
+        setError(null);
+        onImported();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al importar MARC:', error);
+      setError('Error al importar el archivo');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Importar / exportar MARC</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Importar registros
+        </Typography>
+        <Box display="flex" gap={2} alignItems="center" mb={3}>
+          <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+            Elegir archivo
+            <input
+              type="file"
+              hidden
+              accept=".mrc,.marc,.xml"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setReport(null);
+              }}
+            />
+          </Button>
+          <Typography variant="body2" color="text.secondary" flexGrow={1}>
+            {file ? file.name : 'MARC21 (.mrc) o MARCXML (.xml)'}
+          </Typography>
+          <Button variant="contained" disabled={!file || importing} onClick={handleImport}>
+            Importar
+          </Button>
+        </Box>
+
+        {report && (
+          <Box mb={3}>
+            <Alert severity={report.errores.length === 0 ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              {report.importados.length} de {report.total} registros importados ({report.formato})
+            </Alert>
+
+            {report.errores.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Registro</TableCell>
+                    <TableCell>Título</TableCell>
+                    <TableCell>ISBN</TableCell>
+                    <TableCell>Error</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.errores.map((item) => (
+                    <TableRow key={item.registro}>
+                      <TableCell>{item.registro}</TableCell>
+                      <TableCell>{item.titulo ?? '—'}</TableCell>
+                      <TableCell>{item.isbn ?? '—'}</TableCell>
+                      <TableCell>{item.error}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Exportar catálogo
+        </Typography>
+        <Box display="flex" gap={2}>
+          <Button variant="outlined" startIcon={<Download />} href="/api/books/marc?format=marcxml">
+            MARCXML
+          </Button>
+          <Button variant="outlined" startIcon={<Download />} href="/api/books/marc?format=marc21">
+            MARC21
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
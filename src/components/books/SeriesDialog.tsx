@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete, RemoveCircleOutline } from '@mui/icons-material';
+import type { Book, SeriesWithVolumes } from '@/types';
+
+interface SeriesDialogProps {
+  books: Book[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Series y obras en varios volúmenes: alta, orden de volúmenes y asignación de libros
+ */
+export default function SeriesDialog({ books, onClose, onChanged }: SeriesDialogProps) {
+  const [series, setSeries] = useState<SeriesWithVolumes[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newSeries, setNewSeries] = useState({ titulo: '', descripcion: '' });
+  const [newVolume, setNewVolume] = useState<Record<string, { bookId: string; volumen: string }>>({});
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/series');
+      const data = await response.json();
+
+      if (data.success) {
+        setSeries(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar series:', error);
+      setError('Error al cargar las series');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return false;
+      }
+
+      setError(null);
+      fetchSeries();
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error('Error al guardar serie:', error);
+      setError('Error al guardar la serie');
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/series', 'POST', newSeries);
+    if (created) {
+      setNewSeries({ titulo: '', descripcion: '' });
+    }
+  };
+
+  const handleDelete = (serie: SeriesWithVolumes) => {
+    if (!confirm(`¿Eliminar la serie "${serie.titulo}"? Sus libros se conservan.`)) return;
+    request(`/api/series/${serie.id}`, 'DELETE');
+  };
+
+  const handleAddVolume = async (serie: SeriesWithVolumes) => {
+    const draft = newVolume[serie.id];
+    if (!draft?.bookId) return;
+
+    const added = await request(`/api/series/${serie.id}/volumes`, 'POST', {
+      bookId: draft.bookId,
+      volumen: draft.volumen ? Number(draft.volumen) : undefined,
+    });
+    if (added) {
+      setNewVolume({ ...newVolume, [serie.id]: { bookId: '', volumen: '' } });
+    }
+  };
+
+  const handleRemoveVolume = (serie: SeriesWithVolumes, book: Book) =>
+    request(`/api/series/${serie.id}/volumes/${book.id}`, 'DELETE');
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Series y obras en varios volúmenes</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" gap={2} mb={3} mt={1}>
+          <TextField
+            label="Título de la serie"
+            size="small"
+            value={newSeries.titulo}
+            onChange={(e) => setNewSeries({ ...newSeries, titulo: e.target.value })}
+          />
+          <TextField
+            label="Descripción"
+            size="small"
+            value={newSeries.descripcion}
+            onChange={(e) => setNewSeries({ ...newSeries, descripcion: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <Button variant="outlined" startIcon={<Add />} onClick={handleCreate}>
+            Crear
+          </Button>
+        </Box>
+
+        {series.length === 0 && (
+          <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+            No hay series registradas
+          </Typography>
+        )}
+
+        <Box display="flex" flexDirection="column" gap={2}>
+          {series.map((serie) => {
+            const draft = newVolume[serie.id] ?? { bookId: '', volumen: '' };
+
+            return (
+              <Paper key={serie.id} variant="outlined" sx={{ p: 2 }}>
+                <Box display="flex" justifyContent="space-between" alignItems="center">
+                  <Box>
+                    <Typography variant="subtitle1" fontWeight={600}>
+                      {serie.titulo}
+                    </Typography>
+                    {serie.descripcion && (
+                      <Typography variant="body2" color="text.secondary">
+                        {serie.descripcion}
+                      </Typography>
+                    )}
+                  </Box>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(serie)}>
+                    <Delete />
+                  </IconButton>
+                </Box>
+
+                <Table size="small">
+                  <TableBody>
+                    {serie.libros.map((book) => (
+                      <TableRow key={book.id}>
+                        <TableCell width={80}>Vol. {book.serie?.volumen}</TableCell>
+                        <TableCell>{book.titulo}</TableCell>
+                        <TableCell>{book.autor}</TableCell>
+                        <TableCell align="right">
+                          <IconButton
+                            size="small"
+                            title="Quitar de la serie"
+                            onClick={() => handleRemoveVolume(serie, book)}
+                          >
+                            <RemoveCircleOutline />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Box display="flex" gap={2} mt={2}>
+                  <TextField
+                    select
+                    label="Libro"
+                    size="small"
+                    value={draft.bookId}
+                    onChange={(e) => setNewVolume({ ...newVolume, [serie.id]: { ...draft, bookId: e.target.value } })}
+                    sx={{ flex: 1 }}
+                  >
+                    {books
+                      .filter((book) => book.serie?.serieId !== serie.id)
+                      .map((book) => (
+                        <MenuItem key={book.id} value={book.id}>
+                          {book.titulo} · {book.autor}
+                        </MenuItem>
+                      ))}
+                  </TextField>
+                  <TextField
+                    label="Volumen"
+                    placeholder="Siguiente"
+                    type="number"
+                    size="small"
+                    value={draft.volumen}
+                    onChange={(e) => setNewVolume({ ...newVolume, [serie.id]: { ...draft, volumen: e.target.value } })}
+                    sx={{ width: 120 }}
+                  />
+                  <Button variant="outlined" startIcon={<Add />} onClick={() => handleAddVolume(serie)}>
+                    Agregar
+                  </Button>
+                </Box>
+              </Paper>
+            );
+          })}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Autocomplete, TextField } from '@mui/material';
+import { MAX_TAG_LENGTH, normalizeTags } from '@/lib/tags';
+import type { TagCount } from '@/types';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (etiquetas: string[]) => void;
+  label?: string;
+  freeSolo?: boolean; // permite escribir etiquetas nuevas
+  size?: 'small' | 'medium';
+  fullWidth?: boolean;
+}
+
+/**
+ * Selector de etiquetas con autocompletado del servidor (Trie de etiquetas)
+ * Las sugerencias muestran cuántos libros tiene cada etiqueta
+ */
+export default function TagInput({
+  value,
+  onChange,
+  label = 'Etiquetas',
+  freeSolo = true,
+  size = 'medium',
+  fullWidth = true,
+}: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [options, setOptions] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchOptions = async () => {
+      try {
+        const response = await fetch(
+          `/api/tags?prefix=${encodeURIComponent(input.trim())}&limit=10`,
+          { signal: controller.signal }
+        );
+        const data = await response.json();
+
+        if (data.success) {
+          setOptions(data.data);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error al cargar etiquetas:', error);
+        }
+      }
+    };
+
+    fetchOptions();
+    return () => controller.abort();
+  }, [input]);
+
+  const counts = new Map(options.map((option) => [option.etiqueta, option.libros]));
+
+  return (
+    <Autocomplete
+      multiple
+      freeSolo={freeSolo}
+      fullWidth={fullWidth}
+      size={size}
+      slotProps={{ chip: { size: 'small' } }}
+      options={options.map((option) => option.etiqueta)}
+      value={value}
+      inputValue={input}
+      onInputChange={(_, newInput) => setInput(newInput)}
+      onChange={(_, etiquetas) => onChange(normalizeTags(etiquetas))}
+      filterOptions={(etiquetas) => etiquetas.filter((etiqueta) => !value.includes(etiqueta))}
+      renderOption={(props, etiqueta) => {
+        const { key, ...optionProps } = props;
+        return (
+          <li key={key} {...optionProps}>
+            {etiqueta} ({counts.get(etiqueta) ?? 0})
+          </li>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          inputProps={{ ...params.inputProps, maxLength: MAX_TAG_LENGTH }}
+          helperText={freeSolo ? 'Escribe y pulsa Enter para crear una etiqueta nueva' : undefined}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Link,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { LocalOffer, LayersClear } from '@mui/icons-material';
+import { tagCloudLevel } from '@/lib/tags';
+import type { Book, TagCount } from '@/types';
+import TagInput from './TagInput';
+
+interface TagsDialogProps {
+  books: Book[]; // libros de la lista actual
+  onClose: () => void;
+  onChanged: (message: string) => void;
+  onSelectTag: (etiqueta: string) => void;
+}
+
+// Tamaño de letra de cada nivel de la nube
+const CLOUD_FONT_SIZES = ['0.8rem', '0.95rem', '1.15rem', '1.4rem', '1.75rem'];
+
+/**
+ * Nube de etiquetas y etiquetado en bloque de los libros de la lista
+ */
+export default function TagsDialog({ books, onClose, onChanged, onSelectTag }: TagsDialogProps) {
+  const [cloud, setCloud] = useState<TagCount[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [etiquetas, setEtiquetas] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Book[]>([]);
+
+  const fetchCloud = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tags');
+      const data = await response.json();
+
+      if (data.success) {
+        setCloud(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar etiquetas:', error);
+      setError('Error al cargar las etiquetas');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCloud();
+  }, [fetchCloud]);
+
+  const handleBulk = async (action: 'tag' | 'untag') => {
+    try {
+      const response = await fetch('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, bookIds: selected.map((book) => book.id), etiquetas }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return;
+      }
+
+      setError(null);
+      setSelected([]);
+      fetchCloud();
+      onChanged(data.message);
+    } catch (error) {
+      console.error('Error al actualizar etiquetas:', error);
+      setError('Error al actualizar las etiquetas');
+    }
+  };
+
+  const min = Math.min(...cloud.map((tag) => tag.libros));
+  const max = Math.max(...cloud.map((tag) => tag.libros));
+  // Orden alfabético en la nube; el tamaño indica el uso
+  const alphabetical = [...cloud].sort((a, b) => a.etiqueta.localeCompare(b.etiqueta));
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Etiquetas</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {cloud.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+            Todavía no hay libros etiquetados
+          </Typography>
+        ) : (
+          <Box display="flex" flexWrap="wrap" alignItems="baseline" columnGap={2} rowGap={1} py={1}>
+            {alphabetical.map((tag) => (
+              <Link
+                key={tag.etiqueta}
+                component="button"
+                underline="hover"
+                title={`${tag.libros} libros`}
+                onClick={() => onSelectTag(tag.etiqueta)}
+                sx={{ fontSize: CLOUD_FONT_SIZES[tagCloudLevel(tag.libros, min, max) - 1] }}
+              >
+                {tag.etiqueta}
+              </Link>
+            ))}
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle1" fontWeight={600} mb={2}>
+          Etiquetar en bloque
+        </Typography>
+
+        <Box display="flex" flexDirection="column" gap={2}>
+          <TagInput value={etiquetas} onChange={setEtiquetas} />
+
+          <Box display="flex" gap={2} alignItems="start">
+            <Autocomplete
+              multiple
+              fullWidth
+              limitTags={5}
+              options={books}
+              value={selected}
+              onChange={(_, value) => setSelected(value)}
+              getOptionLabel={(book) => book.titulo}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderOption={(props, book) => {
+                const { key, ...optionProps } = props;
+                return (
+                  <li key={key} {...optionProps}>
+                    {book.titulo} · {book.autor}
+                  </li>
+                );
+              }}
+              renderInput={(params) => <TextField {...params} label="Libros" />}
+            />
+            <Button sx={{ mt: 1, whiteSpace: 'nowrap' }} onClick={() => setSelected(books)}>
+              Toda la lista ({books.length})
+            </Button>
+          </Box>
+
+          <Box display="flex" gap={2} justifyContent="flex-end">
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<LayersClear />}
+              disabled={etiquetas.length === 0 || selected.length === 0}
+              onClick={() => handleBulk('untag')}
+            >
+              Quitar
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<LocalOffer />}
+              disabled={etiquetas.length === 0 || selected.length === 0}
+              onClick={() => handleBulk('tag')}
+            >
+              Etiquetar
+            </Button>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
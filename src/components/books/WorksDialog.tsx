@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete, RemoveCircleOutline } from '@mui/icons-material';
+import { formatIsbn } from '@/lib/isbn';
+import type { Book, WorkWithEditions } from '@/types';
+
+interface WorksDialogProps {
+  books: Book[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Obras y sus ediciones: alta de obras y agrupación de ediciones y traducciones
+ */
+export default function WorksDialog({ books, onClose, onChanged }: WorksDialogProps) {
+  const [works, setWorks] = useState<WorkWithEditions[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newWork, setNewWork] = useState({ titulo: '', autor: '', descripcion: '' });
+  const [newEdition, setNewEdition] = useState<Record<string, string>>({});
+
+  const fetchWorks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/works');
+      const data = await response.json();
+
+      if (data.success) {
+        setWorks(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al cargar obras:', error);
+      setError('Error al cargar las obras');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorks();
+  }, [fetchWorks]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return false;
+      }
+
+      setError(null);
+      fetchWorks();
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error('Error al guardar obra:', error);
+      setError('Error al guardar la obra');
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/works', 'POST', newWork);
+    if (created) {
+      setNewWork({ titulo: '', autor: '', descripcion: '' });
+    }
+  };
+
+  const handleDelete = (obra: WorkWithEditions) => {
+    if (!confirm(`¿Eliminar la obra "${obra.titulo}"? Sus ediciones se conservan.`)) return;
+    request(`/api/works/${obra.id}`, 'DELETE');
+  };
+
+  const handleAddEdition = async (obra: WorkWithEditions) => {
+    const bookId = newEdition[obra.id];
+    if (!bookId) return;
+
+    const added = await request(`/api/works/${obra.id}/editions`, 'POST', { bookId });
+    if (added) {
+      setNewEdition({ ...newEdition, [obra.id]: '' });
+    }
+  };
+
+  const handleRemoveEdition = (obra: WorkWithEditions, book: Book) =>
+    request(`/api/works/${obra.id}/editions/${book.id}`, 'DELETE');
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Obras y ediciones</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" gap={2} mb={3} mt={1}>
+          <TextField
+            label="Título de la obra"
+            size="small"
+            value={newWork.titulo}
+            onChange={(e) => setNewWork({ ...newWork, titulo: e.target.value })}
+          />
+          <TextField
+            label="Autor"
+            size="small"
+            value={newWork.autor}
+            onChange={(e) => setNewWork({ ...newWork, autor: e.target.value })}
+          />
+          <TextField
+            label="Descripción"
+            size="small"
+            value={newWork.descripcion}
+            onChange={(e) => setNewWork({ ...newWork, descripcion: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <Button variant="outlined" startIcon={<Add />} onClick={handleCreate}>
+            Crear
+          </Button>
+        </Box>
+
+        {works.length === 0 && (
+          <Typography variant="body2" color="text.secondary" textAlign="center" py={2}>
+            No hay obras registradas
+          </Typography>
+        )}
+
+        <Box display="flex" flexDirection="column" gap={2}>
+          {works.map((obra) => (
+            <Paper key={obra.id} variant="outlined" sx={{ p: 2 }}>
+              <Box display="flex" justifyContent="space-between" alignItems="center">
+                <Box>
+                  <Typography variant="subtitle1" fontWeight={600}>
+                    {obra.titulo}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {[obra.autor, obra.descripcion].filter(Boolean).join(' · ')}
+                  </Typography>
+                </Box>
+                <IconButton size="small" color="error" onClick={() => handleDelete(obra)}>
+                  <Delete />
+                </IconButton>
+              </Box>
+
+              <Table size="small">
+                <TableBody>
+                  {obra.ediciones.map((book) => (
+                    <TableRow key={book.id}>
+                      <TableCell width={70}>{book.anioPublicacion}</TableCell>
+                      <TableCell>{book.titulo}</TableCell>
+                      <TableCell>{book.editorial}</TableCell>
+                      <TableCell>ISBN {formatIsbn(book.isbn)}</TableCell>
+                      <TableCell>{book.copiasDisponibles}/{book.copias}</TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          title="Quitar de la obra"
+                          onClick={() => handleRemoveEdition(obra, book)}
+                        >
+                          <RemoveCircleOutline />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Box display="flex" gap={2} mt={2}>
+                <TextField
+                  select
+                  label="Edición"
+                  size="small"
+                  value={newEdition[obra.id] ?? ''}
+                  onChange={(e) => setNewEdition({ ...newEdition, [obra.id]: e.target.value })}
+                  sx={{ flex: 1 }}
+                >
+                  {books
+                    .filter((book) => book.obraId !== obra.id)
+                    .map((book) => (
+                      <MenuItem key={book.id} value={book.id}>
+                        {book.titulo} · {book.autor} · {book.anioPublicacion}
+                      </MenuItem>
+                    ))}
+                </TextField>
+                <Button variant="outlined" startIcon={<Add />} onClick={() => handleAddEdition(obra)}>
+                  Agregar
+                </Button>
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { autoMapColumns, parseCsv, BOOK_CSV_FIELDS, USER_CSV_FIELDS } from '@/lib/csv';
+import type { CsvColumnMapping, CsvImportReport, CsvRowResult } from '@/types';
+
+interface CsvImportDialogProps {
+  entidad: 'libros' | 'usuarios';
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const outcomeColor = (resultado: CsvRowResult['resultado']) => {
+  switch (resultado) {
+    case 'creado':
+      return 'success';
+    case 'duplicado':
+      return 'warning';
+    default:
+      return 'error';
+  }
+};
+
+/**
+ * Importación CSV con correspondencia de columnas y simulación previa
+ */
+export default function CsvImportDialog({ entidad, onClose, onImported }: CsvImportDialogProps) {
+  const fields = entidad === 'libros' ? BOOK_CSV_FIELDS : USER_CSV_FIELDS;
+  const endpoint = entidad === 'libros' ? '/api/books/import' : '/api/users/import';
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    setReport(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const [firstRow = []] = parseCsv(text);
+      const columns = firstRow.map((header) => header.trim());
+
+      setFileName(file.name);
+      setCsv(text);
+      setHeaders(columns);
+      setMapping(autoMapColumns(columns, fields));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  const send = async (dryRun: boolean) => {
+    setSending(true);
+    try {
+      // Los campos sin columna se envían vacíos para anular la correspondencia automática
+      const fullMapping = Object.fromEntries(fields.map((field) => [field.campo, mapping[field.campo] ?? '']));
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, mapping: fullMapping, dryRun }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data);
+        setError(null);
+        if (!dryRun) onImported();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error al importar CSV:', error);
+      setError('Error al importar el archivo');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const rows = report ? [...report.creados, ...report.duplicados, ...report.errores].sort((a, b) => a.fila - b.fila) : [];
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Importar {entidad} desde CSV</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" gap={2} alignItems="center" mb={3}>
+          <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+            Elegir archivo
+            <input type="file" hidden accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </Button>
+          <Typography variant="body2" color="text.secondary">
+            {fileName ?? 'CSV separado por comas, punto y coma o tabuladores, con cabecera'}
+          </Typography>
+        </Box>
+
+        {headers.length > 0 && (
+          <>
+            <Typography variant="subtitle2" gutterBottom>
+              Correspondencia de columnas
+            </Typography>
+            <Box display="grid" gridTemplateColumns="repeat(2, 1fr)" gap={2} mb={3}>
+              {fields.map((field) => (
+                <TextField
+                  key={field.campo}
+                  select
+                  size="small"
+                  label={field.etiqueta}
+                  required={field.requerido}
+                  value={mapping[field.campo] ?? ''}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field.campo]: e.target.value });
+                    setReport(null);
+                  }}
+                >
+                  <MenuItem value="">(no importar)</MenuItem>
+                  {headers.map((header) => (
+                    <MenuItem key={header} value={header}>
+                      {header}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              ))}
+            </Box>
+          </>
+        )}
+
+        {report && (
+          <>
+            <Alert severity={report.errores.length + report.duplicados.length === 0 ? 'success' : 'info'} sx={{ mb: 2 }}>
+              {report.simulacion ? 'Simulación: ' : ''}
+              {report.creados.length} {report.simulacion ? 'se crearían' : 'creados'}, {report.duplicados.length} duplicados,{' '}
+              {report.errores.length} con error (de {report.total} filas)
+            </Alert>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Fila</TableCell>
+                  <TableCell>Resultado</TableCell>
+                  <TableCell>{entidad === 'libros' ? 'Título' : 'Nombre'}</TableCell>
+                  <TableCell>{entidad === 'libros' ? 'ISBN' : 'Email'}</TableCell>
+                  <TableCell>Detalle</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.fila}>
+                    <TableCell>{row.fila}</TableCell>
+                    <TableCell>
+                      <Chip label={row.resultado} color={outcomeColor(row.resultado)} size="small" />
+                    </TableCell>
+                    <TableCell>{row.descripcion ?? '—'}</TableCell>
+                    <TableCell>{row.clave ?? '—'}</TableCell>
+                    <TableCell>{row.error ?? ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+        <Button disabled={!csv || sending} onClick={() => send(true)}>
+          Simular
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!csv || sending || (report !== null && !report.simulacion)}
+          onClick={() => send(false)}
+        >
+          Importar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+export type MergeValues = Record<string, string | number>;
+
+export interface MergeField {
+  key: string;
+  label: string;
+}
+
+interface MergeDialogProps<T extends MergeValues> {
+  open: boolean;
+  fields: MergeField[];
+  base: T;
+  local: T;
+  server: T;
+  onCancel: () => void;
+  onResolve: (merged: T) => void;
+}
+
+type Choice = 'local' | 'server';
+
+/**
+ * Diálogo de fusión para conflictos de edición (HTTP 412)
+ * Compara la versión original, los cambios locales y la copia actual del servidor;
+ * por defecto conserva el lado que cambió y marca como conflicto lo que cambiaron ambos
+ */
+export default function MergeDialog<T extends MergeValues>({
+  open,
+  fields,
+  base,
+  local,
+  server,
+  onCancel,
+  onResolve,
+}: MergeDialogProps<T>) {
+  const differing = fields.filter((field) => local[field.key] !== server[field.key]);
+
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(
+      differing.map((field) => [
+        field.key,
+        local[field.key] === base[field.key] ? 'server' : 'local',
+      ])
+    )
+  );
+
+  const isConflict = (key: string) =>
+    local[key] !== base[key] && server[key] !== base[key];
+
+  const handleResolve = () => {
+    const merged = { ...server };
+    differing.forEach((field) => {
+      if (choices[field.key] === 'local') {
+        (merged as MergeValues)[field.key] = local[field.key];
+      }
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Conflicto de edición</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Otra persona modificó este registro mientras lo editabas. Elige qué valor conservar en cada campo.
+        </Alert>
+
+        {differing.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Tus cambios coinciden con la versión actual; puedes guardar sin perder nada.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell><strong>Campo</strong></TableCell>
+                <TableCell><strong>Tus cambios</strong></TableCell>
+                <TableCell><strong>Versión actual</strong></TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {differing.map((field) => (
+                <TableRow
+                  key={field.key}
+                  sx={{ backgroundColor: isConflict(field.key) ? 'warning.50' : undefined }}
+                >
+                  <TableCell>
+                    {field.label}
+                    {isConflict(field.key) && (
+                      <Typography variant="caption" color="warning.main" display="block">
+                        Modificado por ambos
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Radio
+                      size="small"
+                      checked={choices[field.key] === 'local'}
+                      onChange={() => setChoices({ ...choices, [field.key]: 'local' })}
+                    />
+                    {String(local[field.key])}
+                  </TableCell>
+                  <TableCell>
+                    <Radio
+                      size="small"
+                      checked={choices[field.key] === 'server'}
+                      onChange={() => setChoices({ ...choices, [field.key]: 'server' })}
+                    />
+                    {String(server[field.key])}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancelar</Button>
+        <Button onClick={handleResolve} variant="contained">
+          Guardar fusión
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
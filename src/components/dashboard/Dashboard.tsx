@@ -7,6 +7,10 @@ import {
   Typography,
   Box,
   CircularProgress,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
 } from '@mui/material';
 import {
   Book,
@@ -14,7 +18,9 @@ import {
   LocalLibrary,
   Bookmark,
 } from '@mui/icons-material';
+import type { Book as BookRecord } from '@/types';
 import StatsCard from './StatsCard';
+import BookCover from '../books/BookCover';
 
 interface Stats {
   libros: {
@@ -39,12 +45,27 @@ interface Stats {
 
 export default function Dashboard() {
   const [stats, setStats] = useState<Stats | null>(null);
+  const [popular, setPopular] = useState<Array<{ book: BookRecord; readers: number }>>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchStats();
+    fetchPopular();
   }, []);
 
+  const fetchPopular = async () => {
+    try {
+      const response = await fetch('/api/recommendations?type=popular&limit=5');
+      const data = await response.json();
+
+      if (data.success) {
+        setPopular(data.data);
+      }
+    } catch (error) {
+      console.error('Error al cargar los libros más prestados:', error);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       const response = await fetch('/api/stats');
@@ -144,9 +165,25 @@ export default function Dashboard() {
               <Typography variant="h6" gutterBottom>
                 Libros Más Prestados
               </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Top 5 libros más solicitados
-              </Typography>
+              {popular.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  Top 5 libros más solicitados
+                </Typography>
+              ) : (
+                <List dense disablePadding>
+                  {popular.map(({ book, readers }) => (
+                    <ListItem key={book.id} disableGutters>
+                      <ListItemAvatar sx={{ mr: 2 }}>
+                        <BookCover portada={book.portada} titulo={book.titulo} width={40} />
+                      </ListItemAvatar>
+                      <ListItemText
+                        primary={book.titulo}
+                        secondary={`${book.autor} · ${readers} lectores`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
             </CardContent>
           </Card>
         </Box>
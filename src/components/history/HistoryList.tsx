@@ -25,6 +25,8 @@ import {
   LocalLibrary,
   Bookmark,
   Edit,
+  Build,
+  LocalOffer,
 } from '@mui/icons-material';
 import type { Operation } from '@/types';
 
@@ -56,26 +58,38 @@ export default function HistoryList() {
       case 'agregar_libro':
       case 'eliminar_libro':
       case 'editar_libro':
+      case 'importar_libros':
+      case 'fusionar_libros':
         return <Book />;
       case 'agregar_usuario':
       case 'eliminar_usuario':
       case 'editar_usuario':
+      case 'importar_usuarios':
         return <People />;
       case 'realizar_prestamo':
       case 'devolver_libro':
+      case 'finalizar_prestamo_digital':
         return <LocalLibrary />;
       case 'agregar_reserva':
       case 'cancelar_reserva':
         return <Bookmark />;
+      case 'enviar_reparacion':
+      case 'iniciar_reparacion':
+      case 'cerrar_reparacion':
+        return <Build />;
+      case 'etiquetar_libros':
+      case 'desetiquetar_libros':
+        return <LocalOffer />;
       default:
         return <Edit />;
     }
   };
 
   const getColor = (tipo: string) => {
-    if (tipo.includes('agregar')) return 'success';
+    if (tipo.includes('agregar') || tipo.includes('importar')) return 'success';
     if (tipo.includes('eliminar')) return 'error';
-    if (tipo.includes('devolver')) return 'info';
+    if (tipo.includes('reparacion')) return 'secondary';
+    if (tipo.includes('devolver') || tipo.includes('finalizar')) return 'info';
     if (tipo.includes('prestamo') || tipo.includes('reserva')) return 'warning';
     return 'primary';
   };
@@ -90,8 +104,17 @@ export default function HistoryList() {
       editar_usuario: 'Usuario Editado',
       realizar_prestamo: 'Préstamo Realizado',
       devolver_libro: 'Libro Devuelto',
+      finalizar_prestamo_digital: 'Préstamo Digital Finalizado',
       agregar_reserva: 'Reserva Creada',
       cancelar_reserva: 'Reserva Cancelada',
+      importar_libros: 'Libros Importados',
+      importar_usuarios: 'Usuarios Importados',
+      fusionar_libros: 'Libros Fusionados',
+      enviar_reparacion: 'Enviado a Reparación',
+      iniciar_reparacion: 'Reparación Iniciada',
+      cerrar_reparacion: 'Reparación Cerrada',
+      etiquetar_libros: 'Libros Etiquetados',
+      desetiquetar_libros: 'Etiquetas Quitadas',
     };
     return labels[tipo] || tipo;
   };
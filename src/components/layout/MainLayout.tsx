@@ -3,6 +3,7 @@
 import { Box, Toolbar } from '@mui/material';
 import Sidebar from './Sidebar';
 import AppBar from './AppBar';
+import SimulatedTimeBanner from './SimulatedTimeBanner';
 
 export default function MainLayout({
   children,
@@ -23,6 +24,7 @@ export default function MainLayout({
         }}
       >
         <Toolbar />
+        <SimulatedTimeBanner />
         {children}
       </Box>
     </Box>
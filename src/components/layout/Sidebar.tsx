@@ -20,6 +20,7 @@ import {
   Bookmark,
   History,
   BarChart,
+  Build,
 } from '@mui/icons-material';
 import { usePathname, useRouter } from 'next/navigation';
 
@@ -31,6 +32,7 @@ const menuItems = [
   { text: 'Usuarios', icon: People, path: '/usuarios' },
   { text: 'Préstamos', icon: LocalLibrary, path: '/prestamos' },
   { text: 'Reservas', icon: Bookmark, path: '/reservas' },
+  { text: 'Mantenimiento', icon: Build, path: '/mantenimiento' },
   { text: 'Historial', icon: History, path: '/historial' },
   { text: 'Estadísticas', icon: BarChart, path: '/estadisticas' },
 ];
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Alert, Button } from '@mui/material';
+import { AccessTime } from '@mui/icons-material';
+
+interface ClockState {
+  simulado: boolean;
+  congelado: boolean;
+  ahora: string;
+  desplazamientoMs: number;
+}
+
+const POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Aviso visible mientras la biblioteca usa tiempo simulado
+ * (ver /api/admin/clock); permite volver al tiempo real
+ */
+export default function SimulatedTimeBanner() {
+  const [clock, setClock] = useState<ClockState | null>(null);
+
+  const fetchClock = async () => {
+    try {
+      const response = await fetch('/api/admin/clock');
+      const data = await response.json();
+
+      if (data.success) {
+        setClock(data.data);
+      }
+    } catch (error) {
+      console.error('Error al consultar el reloj:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchClock();
+    const interval = setInterval(fetchClock, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleReset = async () => {
+    try {
+      const response = await fetch('/api/admin/clock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'reset' }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setClock(data.data);
+      }
+    } catch (error) {
+      console.error('Error al restablecer el reloj:', error);
+    }
+  };
+
+  if (!clock?.simulado) return null;
+
+  const dias = Math.round(clock.desplazamientoMs / (24 * 60 * 60 * 1000));
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<AccessTime />}
+      sx={{ mb: 3 }}
+      action={
+        <Button color="inherit" size="small" onClick={handleReset}>
+          Volver al tiempo real
+        </Button>
+      }
+    >
+      <strong>Tiempo simulado{clock.congelado ? ' (congelado)' : ''}:</strong>{' '}
+      {new Date(clock.ahora).toLocaleString()}
+      {dias !== 0 && ` (${dias > 0 ? '+' : ''}${dias} días)`}. Vencimientos, multas y tareas
+      programadas usan esta hora.
+    </Alert>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Typography,
+} from '@mui/material';
+import { Print } from '@mui/icons-material';
+import type { LoanSlip } from '@/types';
+
+interface LoanSlipDialogProps {
+  loanId: string;
+  onClose: () => void;
+}
+
+/**
+ * Papeleta de un préstamo: dónde buscar el ejemplar y cuándo devolverlo
+ */
+export default function LoanSlipDialog({ loanId, onClose }: LoanSlipDialogProps) {
+  const [slip, setSlip] = useState<LoanSlip | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSlip = async () => {
+      try {
+        const response = await fetch(`/api/loans/${loanId}/slip`);
+        const data = await response.json();
+
+        if (data.success) {
+          setSlip(data.data);
+        } else {
+          setError(data.error);
+        }
+      } catch (error) {
+        console.error('Error al cargar la papeleta:', error);
+        setError('Error al cargar la papeleta');
+      }
+    };
+
+    fetchSlip();
+  }, [loanId]);
+
+  const row = (label: string, value: string) => (
+    <Box display="flex" justifyContent="space-between" gap={2} py={0.5}>
+      <Typography variant="body2" color="text.secondary">{label}</Typography>
+      <Typography variant="body2" textAlign="right">{value}</Typography>
+    </Box>
+  );
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Papeleta de préstamo</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {!slip && !error && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        )}
+
+        {slip && (
+          <>
+            <Typography variant="subtitle1" fontWeight={600}>{slip.titulo}</Typography>
+            <Typography variant="body2" color="text.secondary" mb={2}>{slip.autor}</Typography>
+
+            <Typography variant="h5" fontFamily="monospace" textAlign="center" py={1}>
+              {slip.signatura}
+            </Typography>
+            {slip.digital
+              ? row('Ubicación', 'Préstamo digital')
+              : row('Ubicación', slip.ubicacion ?? 'Sin ubicación')}
+            {slip.codigoBarras && !slip.digital && row('Ejemplar', slip.codigoBarras)}
+
+            <Divider sx={{ my: 1.5 }} />
+
+            {row('Lector', slip.usuario)}
+            {row('Fecha de préstamo', new Date(slip.fechaPrestamo).toLocaleDateString())}
+            {row('Devolver antes del', new Date(slip.fechaDevolucionEstimada).toLocaleDateString())}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+        <Button variant="contained" startIcon={<Print />} disabled={!slip} onClick={() => window.print()}>
+          Imprimir
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -22,17 +22,25 @@ import {
   CircularProgress,
   Alert,
 } from '@mui/material';
-import { Add, CheckCircle } from '@mui/icons-material';
-import type { Loan, Book, User } from '@/types';
+import { Add, Build, CheckCircle, ReceiptLong } from '@mui/icons-material';
+import type { Loan, Book, User, Copy } from '@/types';
+import { isDigital } from '@/lib/licenses';
 import Notification from '../common/Notification';
+import LoanSlipDialog from './LoanSlipDialog';
 
 export default function LoansList() {
   const [loans, setLoans] = useState<Loan[]>([]);
   const [books, setBooks] = useState<Book[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [copies, setCopies] = useState<Copy[]>([]);
+  // Hora de la biblioteca (puede ser simulada); los vencimientos se calculan con ella
+  const [now, setNow] = useState(() => new Date());
   const [loading, setLoading] = useState(true);
   const [openDialog, setOpenDialog] = useState(false);
+  const [slipLoanId, setSlipLoanId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Una clave por apertura del diálogo: doble clic o reintentos no duplican la operación
+  const [idempotencyKey, setIdempotencyKey] = useState('');
   const [notification, setNotification] = useState<{
     open: boolean;
     message: string;
@@ -46,6 +54,7 @@ export default function LoansList() {
   const [formData, setFormData] = useState({
     libroId: '',
     usuarioId: '',
+    copiaId: '',
     diasPrestamo: 15,
   });
 
@@ -56,12 +65,18 @@ export default function LoansList() {
 
   const fetchLoans = async () => {
     try {
-      const response = await fetch('/api/loans');
-      const data = await response.json();
+      const [loansRes, clockRes] = await Promise.all([
+        fetch('/api/loans'),
+        fetch('/api/admin/clock'),
+      ]);
+
+      const data = await loansRes.json();
+      const clockData = await clockRes.json();
 
       if (data.success) {
         setLoans(data.data);
       }
+      if (clockData.success) setNow(new Date(clockData.data.ahora));
     } catch (error) {
       console.error('Error al cargar préstamos:', error);
     } finally {
@@ -86,13 +101,31 @@ export default function LoansList() {
     }
   };
 
+  // Ejemplares disponibles del libro elegido; sin selección se presta el primero
+  const handleBookChange = async (libroId: string) => {
+    setFormData({ ...formData, libroId, copiaId: '' });
+    setCopies([]);
+
+    try {
+      const response = await fetch(`/api/books/${libroId}/copies?status=disponible`);
+      const data = await response.json();
+
+      if (data.success) setCopies(data.data);
+    } catch (error) {
+      console.error('Error al cargar ejemplares:', error);
+    }
+  };
+
   const handleOpenDialog = () => {
     setFormData({
       libroId: '',
       usuarioId: '',
+      copiaId: '',
       diasPrestamo: 15,
     });
+    setCopies([]);
     setError(null);
+    setIdempotencyKey(crypto.randomUUID());
     setOpenDialog(true);
   };
 
@@ -105,8 +138,11 @@ export default function LoansList() {
     try {
       const response = await fetch('/api/loans', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify({ ...formData, copiaId: formData.copiaId || undefined }),
       });
 
       const data = await response.json();
@@ -115,12 +151,16 @@ export default function LoansList() {
         handleCloseDialog();
         fetchLoans();
         fetchBooksAndUsers();
+        // La papeleta indica dónde buscar el ejemplar
+        setSlipLoanId(data.data.id);
         setNotification({
           open: true,
           message: ' Préstamo creado exitosamente',
           severity: 'success',
         });
       } else {
+        // La petición fue rechazada: una corrección del formulario es una operación nueva
+        setIdempotencyKey(crypto.randomUUID());
         setError(data.error);
       }
     } catch (error) {
@@ -129,14 +169,15 @@ export default function LoansList() {
     }
   };
 
-  const handleReturn = async (loanId: string) => {
-    if (!confirm('¿Confirmar devolución del libro?')) return;
+  // Con reparacion (motivo) el ejemplar devuelto pasa a la cola de mantenimiento
+  const handleReturn = async (loanId: string, reparacion?: string) => {
+    if (reparacion === undefined && !confirm('¿Confirmar devolución del libro?')) return;
 
     try {
       const response = await fetch(`/api/loans/${loanId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'return' }),
+        body: JSON.stringify({ action: 'return', reparacion }),
       });
 
       const data = await response.json();
@@ -152,7 +193,7 @@ export default function LoansList() {
       } else {
         setNotification({
           open: true,
-          message: 'Error al procesar devolución',
+          message: data.error || 'Error al procesar devolución',
           severity: 'error',
         });
       }
@@ -161,6 +202,14 @@ export default function LoansList() {
     }
   };
 
+  const handleReturnForRepair = (loanId: string) => {
+    const motivo = prompt('Motivo de la reparación del ejemplar devuelto:');
+    if (!motivo) return;
+    handleReturn(loanId, motivo);
+  };
+
+  const selectedBook = books.find((b) => b.id === formData.libroId);
+
   const getBookTitle = (libroId: string) => {
     const book = books.find((b) => b.id === libroId);
     return book?.titulo || 'Desconocido';
@@ -184,9 +233,11 @@ export default function LoansList() {
     }
   };
 
+  // Un préstamo sin devolver está vencido si ya se marcó así o pasó su fecha
+  // Los digitales nunca vencen: terminan solos en su fecha
   const isOverdue = (loan: Loan) => {
-    if (loan.estado !== 'activo') return false;
-    return new Date(loan.fechaDevolucionEstimada) < new Date();
+    if (loan.fechaDevolucionReal || loan.digital) return false;
+    return loan.estado === 'vencido' || new Date(loan.fechaDevolucionEstimada) < now;
   };
 
   if (loading) {
@@ -228,7 +279,12 @@ export default function LoansList() {
           <TableBody>
             {loans.map((loan) => (
               <TableRow key={loan.id} hover>
-                <TableCell>{getBookTitle(loan.libroId)}</TableCell>
+                <TableCell>
+                  {getBookTitle(loan.libroId)}
+                  {loan.digital && (
+                    <Chip label="Digital" size="small" variant="outlined" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
                 <TableCell>{getUserName(loan.usuarioId)}</TableCell>
                 <TableCell>
                   {new Date(loan.fechaPrestamo).toLocaleDateString()}
@@ -247,14 +303,34 @@ export default function LoansList() {
                 </TableCell>
                 <TableCell>${loan.multa}</TableCell>
                 <TableCell align="right">
-                  {loan.estado === 'activo' && (
-                    <Button
-                      size="small"
-                      startIcon={<CheckCircle />}
-                      onClick={() => handleReturn(loan.id)}
-                    >
-                      Devolver
-                    </Button>
+                  <Button
+                    size="small"
+                    color="inherit"
+                    startIcon={<ReceiptLong />}
+                    onClick={() => setSlipLoanId(loan.id)}
+                  >
+                    Papeleta
+                  </Button>
+                  {!loan.fechaDevolucionReal && (
+                    <>
+                      <Button
+                        size="small"
+                        startIcon={<CheckCircle />}
+                        onClick={() => handleReturn(loan.id)}
+                      >
+                        Devolver
+                      </Button>
+                      {loan.copiaId && !loan.digital && (
+                        <Button
+                          size="small"
+                          color="secondary"
+                          startIcon={<Build />}
+                          onClick={() => handleReturnForRepair(loan.id)}
+                        >
+                          A reparación
+                        </Button>
+                      )}
+                    </>
                   )}
                 </TableCell>
               </TableRow>
@@ -285,17 +361,40 @@ export default function LoansList() {
               select
               label="Libro"
               value={formData.libroId}
-              onChange={(e) => setFormData({ ...formData, libroId: e.target.value })}
+              onChange={(e) => handleBookChange(e.target.value)}
               required
               fullWidth
             >
               {books.map((book) => (
                 <MenuItem key={book.id} value={book.id}>
-                  {book.titulo} - {book.autor} ({book.copiasDisponibles} disponibles)
+                  {book.titulo} - {book.autor} ({isDigital(book) ? 'digital, ' : ''}{book.copiasDisponibles} disponibles)
                 </MenuItem>
               ))}
             </TextField>
 
+            {/* Un libro digital no tiene ejemplares que elegir: se ocupa una plaza de la licencia */}
+            {selectedBook && isDigital(selectedBook) ? (
+              <Alert severity="info">
+                Préstamo digital: termina solo en su fecha de devolución, sin multa
+              </Alert>
+            ) : (
+              <TextField
+                select
+                label="Ejemplar"
+                value={formData.copiaId}
+                onChange={(e) => setFormData({ ...formData, copiaId: e.target.value })}
+                disabled={!formData.libroId}
+                fullWidth
+              >
+                <MenuItem value="">Primer ejemplar disponible</MenuItem>
+                {copies.map((copy) => (
+                  <MenuItem key={copy.id} value={copy.id}>
+                    {copy.codigoBarras}{copy.ubicacion ? ` - ${copy.ubicacion}` : ''} ({copy.condicion})
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
             <TextField
               select
               label="Usuario"
@@ -330,6 +429,10 @@ export default function LoansList() {
         </DialogActions>
       </Dialog>
 
+      {slipLoanId && (
+        <LoanSlipDialog loanId={slipLoanId} onClose={() => setSlipLoanId(null)} />
+      )}
+
       <Notification
         open={notification.open}
         message={notification.message}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Build, CheckCircle } from '@mui/icons-material';
+import type { CopyCondition, RepairOutcome, RepairQueueItem, RepairStatus } from '@/types';
+import Notification from '../common/Notification';
+
+const condiciones: CopyCondition[] = ['nuevo', 'bueno', 'regular', 'deteriorado'];
+
+const etapas: Record<RepairStatus, string> = {
+  pendiente: 'En espera',
+  en_reparacion: 'En el taller',
+  cerrada: 'Cerrada',
+};
+
+interface RepairStats {
+  pendientes: number;
+  enReparacion: number;
+  reparados: number;
+  bajas: number;
+  diasPromedio: number;
+}
+
+/**
+ * Cola de mantenimiento: ejemplares fuera de circulación por reparación
+ */
+export default function RepairQueue() {
+  const [queue, setQueue] = useState<RepairQueueItem[]>([]);
+  const [closed, setClosed] = useState<RepairQueueItem[]>([]);
+  const [stats, setStats] = useState<RepairStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [closing, setClosing] = useState<RepairQueueItem | null>(null);
+  const [closeForm, setCloseForm] = useState({
+    resultado: 'reparado' as RepairOutcome,
+    condicion: '' as CopyCondition | '',
+    nota: '',
+  });
+  const [notification, setNotification] = useState<{
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error' | 'info' | 'warning';
+  }>({
+    open: false,
+    message: '',
+    severity: 'success',
+  });
+
+  const fetchRepairs = useCallback(async () => {
+    try {
+      const [queueResponse, closedResponse] = await Promise.all([
+        fetch('/api/repairs'),
+        fetch('/api/repairs?estado=cerrada&limit=20'),
+      ]);
+      const queueData = await queueResponse.json();
+      const closedData = await closedResponse.json();
+
+      if (queueData.success) {
+        setQueue(queueData.data);
+        setStats(queueData.stats);
+      }
+      if (closedData.success) {
+        setClosed(closedData.data);
+      }
+    } catch (error) {
+      console.error('Error al cargar reparaciones:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRepairs();
+  }, [fetchRepairs]);
+
+  const update = async (ticket: RepairQueueItem, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/repairs/${ticket.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error);
+        return false;
+      }
+
+      setError(null);
+      fetchRepairs();
+      setNotification({ open: true, message: data.message, severity: 'success' });
+      return true;
+    } catch (error) {
+      console.error('Error al actualizar reparación:', error);
+      setError('Error al actualizar la reparación');
+      return false;
+    }
+  };
+
+  const handleStart = (ticket: RepairQueueItem) => {
+    update(ticket, { action: 'start' });
+  };
+
+  const handleOpenClose = (ticket: RepairQueueItem) => {
+    setCloseForm({ resultado: 'reparado', condicion: '', nota: '' });
+    setError(null);
+    setClosing(ticket);
+  };
+
+  const handleClose = async () => {
+    if (!closing) return;
+
+    const done = await update(closing, {
+      action: 'close',
+      resultado: closeForm.resultado,
+      condicion: closeForm.condicion || undefined,
+      nota: closeForm.nota,
+    });
+    if (done) {
+      setClosing(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="h4" fontWeight={700} gutterBottom>
+        Mantenimiento
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={3}>
+        Los ejemplares en reparación no se prestan ni se apartan para reservas hasta cerrar su orden.
+        Se envían a reparación desde sus ejemplares o al registrar una devolución.
+      </Typography>
+
+      {stats && (
+        <Box display="flex" gap={1} mb={3} flexWrap="wrap">
+          <Chip label={`En espera: ${stats.pendientes}`} color="warning" />
+          <Chip label={`En el taller: ${stats.enReparacion}`} color="info" />
+          <Chip label={`Reparados: ${stats.reparados}`} color="success" />
+          <Chip label={`Bajas: ${stats.bajas}`} />
+          <Chip label={`Días promedio: ${stats.diasPromedio}`} variant="outlined" />
+        </Box>
+      )}
+
+      {error && !closing && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow sx={{ backgroundColor: 'grey.100' }}>
+              <TableCell><strong>Ejemplar</strong></TableCell>
+              <TableCell><strong>Libro</strong></TableCell>
+              <TableCell><strong>Motivo</strong></TableCell>
+              <TableCell><strong>Etapa</strong></TableCell>
+              <TableCell><strong>Días</strong></TableCell>
+              <TableCell align="right"><strong>Acciones</strong></TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {queue.map((ticket) => (
+              <TableRow key={ticket.id} hover>
+                <TableCell>{ticket.codigoBarras}</TableCell>
+                <TableCell>{ticket.titulo}</TableCell>
+                <TableCell>{ticket.motivo}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={etapas[ticket.estado]}
+                    color={ticket.estado === 'pendiente' ? 'warning' : 'info'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell>{ticket.diasAbierta}</TableCell>
+                <TableCell align="right">
+                  {ticket.estado === 'pendiente' && (
+                    <Button size="small" startIcon={<Build />} onClick={() => handleStart(ticket)}>
+                      Al taller
+                    </Button>
+                  )}
+                  <Button size="small" startIcon={<CheckCircle />} onClick={() => handleOpenClose(ticket)}>
+                    Cerrar
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {queue.length === 0 && (
+        <Box textAlign="center" py={8}>
+          <Typography variant="h6" color="text.secondary">
+            No hay ejemplares en reparación
+          </Typography>
+        </Box>
+      )}
+
+      {closed.length > 0 && (
+        <>
+          <Typography variant="h6" fontWeight={600} mt={4} mb={2}>
+            Reparaciones cerradas recientemente
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableBody>
+                {closed.map((ticket) => (
+                  <TableRow key={ticket.id}>
+                    <TableCell>{ticket.codigoBarras}</TableCell>
+                    <TableCell>{ticket.titulo}</TableCell>
+                    <TableCell>{ticket.motivo}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={ticket.resultado === 'baja' ? 'Baja' : 'Reparado'}
+                        color={ticket.resultado === 'baja' ? 'default' : 'success'}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {ticket.fechaCierre && new Date(ticket.fechaCierre).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>{ticket.diasAbierta} días</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <Dialog open={!!closing} onClose={() => setClosing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Cerrar reparación de {closing?.codigoBarras}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <TextField
+              select
+              label="Resultado"
+              value={closeForm.resultado}
+              onChange={(e) => setCloseForm({ ...closeForm, resultado: e.target.value as RepairOutcome })}
+              fullWidth
+            >
+              <MenuItem value="reparado">Reparado: vuelve a circulación</MenuItem>
+              <MenuItem value="baja">Irreparable: dar de baja</MenuItem>
+            </TextField>
+            <TextField
+              select
+              label="Condición tras la reparación"
+              value={closeForm.condicion}
+              onChange={(e) => setCloseForm({ ...closeForm, condicion: e.target.value as CopyCondition })}
+              fullWidth
+            >
+              <MenuItem value="">Sin cambios</MenuItem>
+              {condiciones.map((condicion) => (
+                <MenuItem key={condicion} value={condicion}>
+                  {condicion}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Nota"
+              value={closeForm.nota}
+              onChange={(e) => setCloseForm({ ...closeForm, nota: e.target.value })}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setClosing(null)}>Cancelar</Button>
+          <Button onClick={handleClose} variant="contained">
+            Cerrar orden
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Notification
+        open={notification.open}
+        message={notification.message}
+        severity={notification.severity}
+        onClose={() => setNotification({ ...notification, open: false })}
+      />
+    </Box>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Typography,
@@ -16,6 +16,8 @@ import {
   CircularProgress,
   Alert,
   Chip,
+  Checkbox,
+  FormControlLabel,
   List,
   ListItem,
   ListItemText,
@@ -23,12 +25,13 @@ import {
   IconButton,
 } from '@mui/material';
 import { Add, Delete, Info } from '@mui/icons-material';
-import type { Book, User } from '@/types';
+import type { Book, Hold, User } from '@/types';
 import Notification from '../common/Notification';
 
 interface Reservation {
   id: string;
   libroId: string;
+  obraId?: string;
   usuarioId: string;
   fechaReserva: Date;
   activa: boolean;
@@ -37,11 +40,15 @@ interface Reservation {
 export default function ReservationsList() {
   const [selectedBook, setSelectedBook] = useState<string>('');
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [workReservations, setWorkReservations] = useState<Reservation[]>([]);
+  const [holds, setHolds] = useState<Hold[]>([]);
   const [books, setBooks] = useState<Book[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [openDialog, setOpenDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Una clave por apertura del diálogo: doble clic o reintentos no duplican la operación
+  const [idempotencyKey, setIdempotencyKey] = useState('');
   const [notification, setNotification] = useState<{
     open: boolean;
     message: string;
@@ -55,18 +62,13 @@ export default function ReservationsList() {
   const [formData, setFormData] = useState({
     bookId: '',
     userId: '',
+    anyEdition: false,
   });
 
   useEffect(() => {
     fetchData();
   }, []);
 
-  useEffect(() => {
-    if (selectedBook) {
-      fetchReservations(selectedBook);
-    }
-  }, [selectedBook]);
-
   const fetchData = async () => {
     try {
       const [booksRes, usersRes] = await Promise.all([
@@ -91,25 +93,44 @@ export default function ReservationsList() {
     }
   };
 
-  const fetchReservations = async (bookId: string) => {
+  const fetchReservations = useCallback(async (bookId: string) => {
     try {
       const response = await fetch(`/api/reservations?bookId=${bookId}`);
       const data = await response.json();
 
       if (data.success) {
         setReservations(data.data);
+        setHolds(data.holds ?? []);
+      }
+
+      // Si el libro es una edición de una obra, también la cola de cualquier edición
+      const obraId = books.find((b) => b.id === bookId)?.obraId;
+      if (obraId) {
+        const workResponse = await fetch(`/api/reservations?workId=${obraId}`);
+        const workData = await workResponse.json();
+        setWorkReservations(workData.success ? workData.data : []);
+      } else {
+        setWorkReservations([]);
       }
     } catch (error) {
       console.error('Error al cargar reservas:', error);
     }
-  };
+  }, [books]);
+
+  useEffect(() => {
+    if (selectedBook) {
+      fetchReservations(selectedBook);
+    }
+  }, [selectedBook, fetchReservations]);
 
   const handleOpenDialog = () => {
     setFormData({
       bookId: selectedBook || '',
       userId: '',
+      anyEdition: false,
     });
     setError(null);
+    setIdempotencyKey(crypto.randomUUID());
     setOpenDialog(true);
   };
 
@@ -122,7 +143,10 @@ export default function ReservationsList() {
     try {
       const response = await fetch('/api/reservations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
+        },
         body: JSON.stringify(formData),
       });
 
@@ -137,6 +161,8 @@ export default function ReservationsList() {
           severity: 'success',
         });
       } else {
+        // La petición fue rechazada: una corrección del formulario es una operación nueva
+        setIdempotencyKey(crypto.randomUUID());
         setError(data.error);
       }
     } catch (error) {
@@ -145,14 +171,18 @@ export default function ReservationsList() {
     }
   };
 
-  const handleCancel = async (bookId: string, userId: string) => {
+  const handleCancel = async (reservation: Reservation) => {
     if (!confirm('¿Cancelar esta reserva?')) return;
 
     try {
       const response = await fetch('/api/reservations/cancel', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookId, userId }),
+        body: JSON.stringify({
+          bookId: reservation.libroId,
+          userId: reservation.usuarioId,
+          workId: reservation.obraId,
+        }),
       });
 
       const data = await response.json();
@@ -185,6 +215,55 @@ export default function ReservationsList() {
     return books.find((b) => b.id === selectedBook);
   };
 
+  const renderQueue = (queue: Reservation[]) => (
+    <List>
+      {queue.map((reservation, index) => (
+        <ListItem
+          key={reservation.id}
+          sx={{
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 1,
+            mb: 1,
+            backgroundColor: index === 0 ? 'primary.50' : 'background.paper',
+          }}
+        >
+          <ListItemText
+            primary={
+              <Box display="flex" alignItems="center" gap={1}>
+                <Chip
+                  label={`#${index + 1}`}
+                  color={index === 0 ? 'primary' : 'default'}
+                  size="small"
+                />
+                <Typography fontWeight={index === 0 ? 600 : 400}>
+                  {getUserName(reservation.usuarioId)}
+                </Typography>
+                {index === 0 && (
+                  <Chip
+                    label="Siguiente"
+                    color="success"
+                    size="small"
+                  />
+                )}
+              </Box>
+            }
+            secondary={`Reservado: ${new Date(reservation.fechaReserva).toLocaleDateString()}`}
+          />
+          <ListItemSecondaryAction>
+            <IconButton
+              edge="end"
+              color="error"
+              onClick={() => handleCancel(reservation)}
+            >
+              <Delete />
+            </IconButton>
+          </ListItemSecondaryAction>
+        </ListItem>
+      ))}
+    </List>
+  );
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -212,7 +291,8 @@ export default function ReservationsList() {
 
       <Alert severity="info" icon={<Info />} sx={{ mb: 3 }}>
         Las reservas funcionan con sistema de Cola (FIFO): <strong>Primero en Reservar, Primero en Recibir</strong>. 
-        Cuando se devuelva un libro, se notificará al primero de la cola.
+        Cuando se devuelva un libro, se apartará un ejemplar para el primero de la cola; si no lo retira
+        a tiempo, el apartado expira y pasa al siguiente.
       </Alert>
 
       <Box mb={3}>
@@ -253,6 +333,12 @@ export default function ReservationsList() {
             <Typography variant="body2" color="text.secondary">
               <strong>Estado:</strong> {bookInfo.estado}
             </Typography>
+            {holds.map((hold) => (
+              <Alert key={hold.id} severity="warning" sx={{ mt: 2 }}>
+                Ejemplar apartado para <strong>{getUserName(hold.usuarioId)}</strong> hasta el{' '}
+                {new Date(hold.fechaLimite).toLocaleDateString()}
+              </Alert>
+            ))}
           </CardContent>
         </Card>
       )}
@@ -268,56 +354,33 @@ export default function ReservationsList() {
               No hay reservas en cola para este libro
             </Typography>
           ) : (
-            <List>
-              {reservations.map((reservation, index) => (
-                <ListItem
-                  key={reservation.id}
-                  sx={{
-                    border: '1px solid',
-                    borderColor: 'divider',
-                    borderRadius: 1,
-                    mb: 1,
-                    backgroundColor: index === 0 ? 'primary.50' : 'background.paper',
-                  }}
-                >
-                  <ListItemText
-                    primary={
-                      <Box display="flex" alignItems="center" gap={1}>
-                        <Chip
-                          label={`#${index + 1}`}
-                          color={index === 0 ? 'primary' : 'default'}
-                          size="small"
-                        />
-                        <Typography fontWeight={index === 0 ? 600 : 400}>
-                          {getUserName(reservation.usuarioId)}
-                        </Typography>
-                        {index === 0 && (
-                          <Chip
-                            label="Siguiente"
-                            color="success"
-                            size="small"
-                          />
-                        )}
-                      </Box>
-                    }
-                    secondary={`Reservado: ${new Date(reservation.fechaReserva).toLocaleDateString()}`}
-                  />
-                  <ListItemSecondaryAction>
-                    <IconButton
-                      edge="end"
-                      color="error"
-                      onClick={() => handleCancel(reservation.libroId, reservation.usuarioId)}
-                    >
-                      <Delete />
-                    </IconButton>
-                  </ListItemSecondaryAction>
-                </ListItem>
-              ))}
-            </List>
+            renderQueue(reservations)
           )}
         </CardContent>
       </Card>
 
+      {bookInfo?.obraId && (
+        <Card sx={{ mt: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Cola de la Obra: cualquier edición ({workReservations.length} personas)
+            </Typography>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              Se atiende con el primer ejemplar devuelto de cualquier edición, por orden de reserva
+              junto con la cola de cada edición.
+            </Typography>
+
+            {workReservations.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" textAlign="center" py={4}>
+                No hay reservas de cualquier edición para esta obra
+              </Typography>
+            ) : (
+              renderQueue(workReservations)
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>Nueva Reserva</DialogTitle>
         <DialogContent>
@@ -332,7 +395,7 @@ export default function ReservationsList() {
               select
               label="Libro"
               value={formData.bookId}
-              onChange={(e) => setFormData({ ...formData, bookId: e.target.value })}
+              onChange={(e) => setFormData({ ...formData, bookId: e.target.value, anyEdition: false })}
               required
               fullWidth
             >
@@ -343,6 +406,18 @@ export default function ReservationsList() {
               ))}
             </TextField>
 
+            {books.find((book) => book.id === formData.bookId)?.obraId && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.anyEdition}
+                    onChange={(e) => setFormData({ ...formData, anyEdition: e.target.checked })}
+                  />
+                }
+                label="Cualquier edición de la obra (la primera que se devuelva)"
+              />
+            )}
+
             <TextField
               select
               label="Usuario"
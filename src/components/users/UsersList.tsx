@@ -27,9 +27,29 @@ import {
   Edit,
   Delete,
   Search,
+  UploadFile,
 } from '@mui/icons-material';
 import type { User } from '@/types';
 import Notification from '../common/Notification';
+import MergeDialog from '../common/MergeDialog';
+import CsvImportDialog from '../common/CsvImportDialog';
+import CitationMenu from '../books/CitationMenu';
+
+const mergeFields = [
+  { key: 'nombre', label: 'Nombre' },
+  { key: 'apellido', label: 'Apellido' },
+  { key: 'email', label: 'Email' },
+  { key: 'telefono', label: 'Teléfono' },
+  { key: 'direccion', label: 'Dirección' },
+];
+
+const toFormData = (user: User) => ({
+  nombre: user.nombre,
+  apellido: user.apellido,
+  email: user.email,
+  telefono: user.telefono,
+  direccion: user.direccion,
+});
 
 export default function UsersList() {
   const [users, setUsers] = useState<User[]>([]);
@@ -37,6 +57,8 @@ export default function UsersList() {
   const [searchQuery, setSearchQuery] = useState('');
   const [openDialog, setOpenDialog] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [conflict, setConflict] = useState<User | null>(null);
+  const [csvOpen, setCsvOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<{
     open: boolean;
@@ -88,13 +110,7 @@ export default function UsersList() {
   const handleOpenDialog = (user?: User) => {
     if (user) {
       setEditingUser(user);
-      setFormData({
-        nombre: user.nombre,
-        apellido: user.apellido,
-        email: user.email,
-        telefono: user.telefono,
-        direccion: user.direccion,
-      });
+      setFormData(toFormData(user));
     } else {
       setEditingUser(null);
       setFormData({
@@ -114,19 +130,28 @@ export default function UsersList() {
     setError(null);
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (values = formData, target = editingUser) => {
     try {
-      const url = editingUser ? `/api/users/${editingUser.id}` : '/api/users';
-      const method = editingUser ? 'PUT' : 'POST';
+      const url = target ? `/api/users/${target.id}` : '/api/users';
+      const method = target ? 'PUT' : 'POST';
 
       const response = await fetch(url, {
         method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        headers: {
+          'Content-Type': 'application/json',
+          // Versión editada: si cambió en el servidor responde 412 con la copia actual
+          ...(target ? { 'If-Match': `"${target.version}"` } : {}),
+        },
+        body: JSON.stringify(values),
       });
 
       const data = await response.json();
 
+      if (response.status === 412) {
+        setConflict(data.data);
+        return;
+      }
+
       if (data.success) {
         handleCloseDialog();
         fetchUsers();
@@ -144,6 +169,14 @@ export default function UsersList() {
     }
   };
 
+  const handleResolveConflict = (merged: ReturnType<typeof toFormData>) => {
+    const current = conflict!;
+    setConflict(null);
+    setEditingUser(current);
+    setFormData(merged);
+    handleSubmit(merged, current);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('¿Estás seguro de eliminar este usuario?')) return;
 
@@ -187,13 +220,22 @@ export default function UsersList() {
         <Typography variant="h4" fontWeight={700}>
           Gestión de Usuarios
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={() => handleOpenDialog()}
-        >
-          Agregar Usuario
-        </Button>
+        <Box display="flex" gap={2}>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={() => setCsvOpen(true)}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => handleOpenDialog()}
+          >
+            Agregar Usuario
+          </Button>
+        </Box>
       </Box>
 
       <Box display="flex" gap={2} mb={3}>
@@ -243,6 +285,7 @@ export default function UsersList() {
                 </TableCell>
                 <TableCell>{user.prestamosActivos}</TableCell>
                 <TableCell align="right">
+                  <CitationMenu url={`/api/users/${user.id}/citations`} />
                   <IconButton
                     size="small"
                     color="primary"
@@ -330,12 +373,32 @@ export default function UsersList() {
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancelar</Button>
-          <Button onClick={handleSubmit} variant="contained">
+          <Button onClick={() => handleSubmit()} variant="contained">
             {editingUser ? 'Actualizar' : 'Crear'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {conflict && editingUser && (
+        <MergeDialog
+          open
+          fields={mergeFields}
+          base={toFormData(editingUser)}
+          local={formData}
+          server={toFormData(conflict)}
+          onCancel={() => setConflict(null)}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
+      {csvOpen && (
+        <CsvImportDialog
+          entidad="usuarios"
+          onClose={() => setCsvOpen(false)}
+          onImported={fetchUsers}
+        />
+      )}
+
       <Notification
         open={notification.open}
         message={notification.message}
@@ -0,0 +1,11 @@
+/**
+ * Hook de arranque del servidor (Next.js)
+ * Crea el contexto por defecto al iniciar para que el planificador de tareas
+ * funcione aunque todavía no haya llegado ninguna petición
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getLibraryContext } = await import('@/services');
+    getLibraryContext();
+  }
+}
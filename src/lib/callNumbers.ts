@@ -0,0 +1,171 @@
+/**
+ * Signaturas topográficas: dónde va cada libro en la estantería
+ * La signatura es la clase del libro, la marca de autor seguida de la inicial
+ * del título, y el año: "860 G061c 1967"
+ * El catálogo puede fijar una signatura a mano; si no, se genera
+ */
+
+import type { Book } from '@/types';
+
+export const MAX_CALL_NUMBER_LENGTH = 40;
+
+// Artículos que no cuentan al ordenar títulos
+export const LEADING_ARTICLES = /^(el|la|los|las|un|una|the|a|an) /;
+
+// Partículas que preceden al apellido ("de", "van"...): no forman la marca de autor
+const SURNAME_PARTICLES = new Set(['de', 'del', 'la', 'las', 'los', 'y', 'da', 'das', 'do', 'dos', 'di', 'du', 'le', 'van', 'von', 'der', 'den']);
+
+const AUTHOR_MARK_DIGITS = 3;
+const AUTHOR_MARK_LETTERS = 4; // letras del apellido, después de la inicial, que cuentan
+
+/**
+ * Minúsculas, sin acentos y solo letras, dígitos y espacios
+ */
+function filingForm(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Apellido con el que se ordena un autor
+ * "Apellido, Nombre" se respeta; en "Nombre Apellido Apellido" se salta el nombre
+ * y las partículas y se toma el primer apellido ("Gabriel García Márquez" → "García")
+ */
+export function filingSurname(nombre: string): string {
+  const trimmed = nombre.trim();
+  if (trimmed.includes(',')) {
+    return trimmed.split(',')[0].trim();
+  }
+
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  if (words.length <= 1) return words[0] ?? '';
+
+  const surname = words.slice(1).find(word => !SURNAME_PARTICLES.has(word.toLowerCase()));
+  return surname ?? words[words.length - 1];
+}
+
+/**
+ * Marca de autor: la inicial y tres cifras que interpolan las letras siguientes
+ * del apellido, de modo que respetan el orden alfabético ("García" → "G061",
+ * "Hawking" → "H069")
+ * Es un esquema propio, no la tabla Cutter-Sanborn: las cifras no coinciden con
+ * las de catálogos que la usan
+ */
+export function authorMark(entrada: string): string {
+  const letters = filingForm(entrada).replace(/[^a-z]/g, '');
+  if (!letters) return 'X001';
+
+  // Fracción en base 27: el final de la palabra ordena antes que cualquier letra
+  let fraction = 0;
+  let scale = 1;
+  for (const letter of letters.slice(1, 1 + AUTHOR_MARK_LETTERS)) {
+    scale /= 27;
+    fraction += (letter.charCodeAt(0) - 96) * scale;
+  }
+
+  const max = 10 ** AUTHOR_MARK_DIGITS - 1;
+  const digits = Math.min(max, Math.max(1, Math.floor(fraction * (max + 1))));
+  return `${letters[0].toUpperCase()}${String(digits).padStart(AUTHOR_MARK_DIGITS, '0')}`;
+}
+
+/**
+ * Título sin artículo inicial, en minúsculas y sin acentos
+ */
+export function filingTitle(titulo: string): string {
+  return filingForm(titulo).replace(LEADING_ARTICLES, '');
+}
+
+/**
+ * Entrada principal del libro: el primer autor o, en obras sin autor, el título
+ */
+function mainEntry(book: Pick<Book, 'titulo' | 'autor' | 'contribuyentes'>): string {
+  const autor = book.contribuyentes?.find(contributor => contributor.rol === 'autor')?.nombre
+    ?? book.autor.split(';')[0];
+  return autor.trim() ? filingSurname(autor) : filingTitle(book.titulo);
+}
+
+/**
+ * Genera la signatura de un libro a partir de su clase, su autor, su título y su año
+ */
+export function generateCallNumber(
+  book: Pick<Book, 'categoria' | 'titulo' | 'autor' | 'contribuyentes' | 'anioPublicacion'>
+): string {
+  const workMark = filingTitle(book.titulo).charAt(0);
+  return `${book.categoria} ${authorMark(mainEntry(book))}${workMark} ${book.anioPublicacion}`;
+}
+
+/**
+ * Signatura de un libro: la fijada en el catálogo o la generada
+ */
+export function callNumberOf(book: Book): string {
+  return book.signatura || generateCallNumber(book);
+}
+
+/**
+ * Signatura fijada a mano: sin espacios sobrantes; vacía quita la fijada
+ */
+export function normalizeCallNumber(value: string | null | undefined): string | null {
+  const normalized = (value ?? '').trim().replace(/\s+/g, ' ');
+  return normalized || null;
+}
+
+/**
+ * Valida la signatura recibida en una petición; retorna el error o null
+ */
+export function validateCallNumber(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+
+  if (typeof value !== 'string') {
+    return 'La signatura debe ser un texto';
+  }
+
+  return value.trim().length > MAX_CALL_NUMBER_LENGTH
+    ? `La signatura no puede superar los ${MAX_CALL_NUMBER_LENGTH} caracteres`
+    : null;
+}
+
+/**
+ * Compara dos clases: la parte entera por su valor y los decimales cifra a cifra
+ * ("860" < "860.1" < "860.64" < "860.7" < "861")
+ */
+export function compareClassNumbers(a: string, b: string): number {
+  const [intA, ...decA] = a.split('.');
+  const [intB, ...decB] = b.split('.');
+
+  return intA.localeCompare(intB, 'es', { numeric: true })
+    || decA.join('.').localeCompare(decB.join('.'), 'es');
+}
+
+/**
+ * Indica si una clase cae en el rango [desde, hasta]; hasta incluye sus subdivisiones
+ */
+export function classInRange(clase: string, desde?: string, hasta?: string): boolean {
+  if (desde && compareClassNumbers(clase, desde) < 0) return false;
+  if (!hasta || compareClassNumbers(clase, hasta) <= 0) return true;
+
+  // "860.64" es una subdivisión de "860" y de "860.6"
+  return clase.startsWith(hasta) && (hasta.includes('.') || clase.charAt(hasta.length) === '.');
+}
+
+/**
+ * Orden de estantería: por clase y, dentro de ella, por el resto de la signatura
+ * (marca de autor, título y año) comparado como texto
+ */
+export function compareCallNumbers(a: string, b: string): number {
+  const [classA, ...restA] = a.split(' ');
+  const [classB, ...restB] = b.split(' ');
+
+  return compareClassNumbers(classA, classB)
+    || restA.join(' ').localeCompare(restB.join(' '), 'es', { sensitivity: 'base' });
+}
+
+/**
+ * Comparador de libros en orden de estantería
+ */
+export function byCallNumber(a: Book, b: Book): number {
+  return compareCallNumbers(callNumberOf(a), callNumberOf(b));
+}
@@ -0,0 +1,64 @@
+/**
+ * Pruebas de las citas: roles de los contribuyentes y claves BibTeX
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Book, Contributor } from '@/types';
+import { exportCitations } from './citations';
+import { formatAuthors } from './contributors';
+
+function book(id: string, contribuyentes: Contributor[], titulo = 'Cien años de soledad'): Book {
+  return {
+    id,
+    titulo,
+    autor: formatAuthors(contribuyentes),
+    contribuyentes,
+    isbn: '9788497592208',
+    categoria: '800',
+    anioPublicacion: 1967,
+    editorial: 'Sudamericana',
+    numeroPaginas: 471,
+    copias: 1,
+    copiasDisponibles: 1,
+    fechaRegistro: new Date('2024-01-01'),
+  } as Book;
+}
+
+const anthology = book('antologia', [
+  { nombre: 'Ana Editora', rol: 'editor' },
+  { nombre: 'Tomás Traductor', rol: 'traductor' },
+], 'Cuentos completos');
+
+describe('exportCitations', () => {
+  it('cita al editor como editor cuando la obra no tiene autor', () => {
+    const { content } = exportCitations([anthology], 'bibtex', 'citas');
+
+    expect(content).toContain('editor = {Ana Editora}');
+    expect(content).not.toContain('author =');
+    expect(content).not.toContain('Tomás Traductor');
+    expect(content).toMatch(/^@book\{editora1967cuentos,/);
+  });
+
+  it('usa ED en RIS y contributor en Dublin Core para los roles secundarios', () => {
+    const ris = exportCitations([anthology], 'ris', 'citas').content;
+    expect(ris).toContain('ED  - Ana Editora');
+    expect(ris).not.toContain('AU  - ');
+
+    const dc = exportCitations([anthology], 'dc', 'citas').content;
+    expect(dc).toContain('<dc:contributor>Ana Editora</dc:contributor>');
+    expect(dc).toContain('<dc:contributor>Tomás Traductor</dc:contributor>');
+    expect(dc).not.toContain('<dc:creator>');
+  });
+
+  it('desambigua las claves repetidas con sufijos de varias letras', () => {
+    const autor: Contributor[] = [{ nombre: 'Gabriel García Márquez', rol: 'autor' }];
+    const books = Array.from({ length: 29 }, (_, index) => book(`libro-${index}`, autor));
+
+    const keys = [...exportCitations(books, 'bibtex', 'citas').content.matchAll(/@book\{([^,]+),/g)]
+      .map((match) => match[1]);
+
+    expect(keys.slice(0, 2)).toEqual(['marquez1967cien', 'marquez1967ciena']);
+    expect(keys.slice(26)).toEqual(['marquez1967cienz', 'marquez1967cienaa', 'marquez1967cienab']);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
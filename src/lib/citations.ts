@@ -0,0 +1,227 @@
+/**
+ * Citas bibliográficas: BibTeX, RIS y Dublin Core (XML)
+ * Se generan con los campos del libro: contribuyentes, titulo, editorial, anioPublicacion e isbn
+ * Los autores son los contribuyentes con rol autor; editores, traductores e
+ * ilustradores nunca se citan como autores
+ */
+
+import type { Book, ContributorRole } from '@/types';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'dc';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'dc'];
+
+export const CITATION_FORMAT_LABELS: Record<CitationFormat, string> = {
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+  dc: 'Dublin Core',
+};
+
+const CONTENT_TYPES: Record<CitationFormat, string> = {
+  bibtex: 'application/x-bibtex; charset=utf-8',
+  ris: 'application/x-research-info-systems; charset=utf-8',
+  dc: 'application/xml; charset=utf-8',
+};
+
+const EXTENSIONS: Record<CitationFormat, string> = {
+  bibtex: 'bib',
+  ris: 'ris',
+  dc: 'xml',
+};
+
+/**
+ * Archivo de citas listo para descargar
+ */
+export interface CitationExport {
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Formato pedido en la URL; null si no es válido (por defecto BibTeX)
+ */
+export function parseCitationFormat(value: string | null): CitationFormat | null {
+  if (value === null) return 'bibtex';
+  return CITATION_FORMATS.includes(value as CitationFormat) ? (value as CitationFormat) : null;
+}
+
+function namesByRole(book: Book, rol: ContributorRole): string[] {
+  return book.contribuyentes
+    .filter(contributor => contributor.rol === rol)
+    .map(contributor => contributor.nombre);
+}
+
+// Editores, traductores e ilustradores
+function secondaryContributors(book: Book): string[] {
+  return book.contribuyentes
+    .filter(contributor => contributor.rol !== 'autor')
+    .map(contributor => contributor.nombre);
+}
+
+function asciiWord(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// ============================================================
+// BibTeX
+// ============================================================
+
+const BIBTEX_STOPWORDS = new Set(['el', 'la', 'los', 'las', 'un', 'una', 'the', 'a', 'an', 'de', 'del']);
+
+function escapeBibtex(text: string): string {
+  return text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+/**
+ * Clave de cita: última palabra del nombre del primer autor (o editor, en obras
+ * sin autor), año y primera palabra significativa del título (marquez1967cien)
+ */
+function bibtexKey(book: Book): string {
+  const [primero = ''] = [...namesByRole(book, 'autor'), ...namesByRole(book, 'editor')];
+  const apellido = asciiWord(primero.split(/\s+/).slice(-1)[0] ?? '');
+  const palabra = book.titulo
+    .split(/\s+/)
+    .map(asciiWord)
+    .find(word => word && !BIBTEX_STOPWORDS.has(word)) ?? '';
+
+  return `${apellido || 'anonimo'}${book.anioPublicacion}${palabra}`;
+}
+
+/**
+ * Sufijo de una clave repetida: a…z, aa, ab…
+ */
+function keySuffix(count: number): string {
+  let suffix = '';
+  for (let rest = count; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    suffix = String.fromCharCode(97 + ((rest - 1) % 26)) + suffix;
+  }
+  return suffix;
+}
+
+function toBibtex(books: Book[]): string {
+  const counts = new Map<string, number>();
+  const keys = new Set<string>();
+
+  return books
+    .map(book => {
+      // Claves repetidas: marquez1967cien, marquez1967ciena... (sin chocar con otra clave ya usada)
+      const base = bibtexKey(book);
+      let count = counts.get(base) ?? 0;
+      let key = count === 0 ? base : `${base}${keySuffix(count)}`;
+      while (keys.has(key)) {
+        key = `${base}${keySuffix(++count)}`;
+      }
+      counts.set(base, count + 1);
+      keys.add(key);
+
+      const fields: [string, string][] = [
+        ['author', namesByRole(book, 'autor').join(' and ')],
+        ['editor', namesByRole(book, 'editor').join(' and ')],
+        ['title', book.titulo],
+        ['publisher', book.editorial],
+        ['year', String(book.anioPublicacion)],
+        ['isbn', book.isbn],
+      ];
+
+      const body = fields
+        .filter(([, value]) => value)
+        .map(([name, value]) => `  ${name} = {${escapeBibtex(value)}}`)
+        .join(',\n');
+
+      return `@book{${key},\n${body}\n}\n`;
+    })
+    .join('\n');
+}
+
+// ============================================================
+// RIS
+// ============================================================
+
+function toRis(books: Book[]): string {
+  const lines: string[] = [];
+
+  books.forEach(book => {
+    lines.push('TY  - BOOK');
+    namesByRole(book, 'autor').forEach(nombre => lines.push(`AU  - ${nombre}`));
+    namesByRole(book, 'editor').forEach(nombre => lines.push(`ED  - ${nombre}`));
+    lines.push(`TI  - ${book.titulo}`);
+    if (book.editorial) lines.push(`PB  - ${book.editorial}`);
+    lines.push(`PY  - ${book.anioPublicacion}`);
+    lines.push(`SN  - ${book.isbn}`);
+    lines.push('ER  - ');
+    lines.push('');
+  });
+
+  // La especificación RIS usa CRLF
+  return lines.join('\r\n');
+}
+
+// ============================================================
+// Dublin Core
+// ============================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Un elemento oai_dc:dc por libro dentro de una colección
+ */
+function toDublinCore(books: Book[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<collection xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+  ];
+
+  books.forEach(book => {
+    const elements: [string, string][] = [
+      ['title', book.titulo],
+      ...namesByRole(book, 'autor').map((nombre): [string, string] => ['creator', nombre]),
+      ...secondaryContributors(book).map((nombre): [string, string] => ['contributor', nombre]),
+      ['publisher', book.editorial],
+      ['date', String(book.anioPublicacion)],
+      ['type', 'Text'],
+      ['identifier', `urn:isbn:${book.isbn}`],
+    ];
+
+    lines.push('  <oai_dc:dc>');
+    elements
+      .filter(([, value]) => value)
+      .forEach(([name, value]) => lines.push(`    <dc:${name}>${escapeXml(value)}</dc:${name}>`));
+    lines.push('  </oai_dc:dc>');
+  });
+
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Genera el archivo de citas de los libros en el formato pedido
+ * nombre es la base del nombre de archivo (sin extensión)
+ */
+export function exportCitations(books: Book[], format: CitationFormat, nombre: string): CitationExport {
+  const content = format === 'bibtex'
+    ? toBibtex(books)
+    : format === 'ris'
+      ? toRis(books)
+      : toDublinCore(books);
+
+  return {
+    content,
+    contentType: CONTENT_TYPES[format],
+    filename: `${nombre}.${EXTENSIONS[format]}`,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Clasificación temática jerárquica
+ * El árbol por defecto sigue las clases y divisiones de Dewey; cada biblioteca
+ * puede editarlo o reemplazarlo (por ejemplo, por la CDU)
+ */
+
+import type { ClassificationNode } from '@/types';
+
+export const DEFAULT_CLASSIFICATION_SYSTEM = 'Dewey';
+
+export const DEFAULT_CLASSIFICATION: ClassificationNode[] = [
+  { codigo: '000', etiqueta: 'Generalidades', padre: null },
+  { codigo: '004', etiqueta: 'Informática', padre: '000' },
+  { codigo: '005', etiqueta: 'Programación', padre: '004' },
+  { codigo: '100', etiqueta: 'Filosofía y psicología', padre: null },
+  { codigo: '150', etiqueta: 'Psicología', padre: '100' },
+  { codigo: '200', etiqueta: 'Religión', padre: null },
+  { codigo: '300', etiqueta: 'Ciencias sociales', padre: null },
+  { codigo: '320', etiqueta: 'Ciencia política', padre: '300' },
+  { codigo: '330', etiqueta: 'Economía', padre: '300' },
+  { codigo: '340', etiqueta: 'Derecho', padre: '300' },
+  { codigo: '400', etiqueta: 'Lenguas', padre: null },
+  { codigo: '500', etiqueta: 'Ciencias naturales y matemáticas', padre: null },
+  { codigo: '510', etiqueta: 'Matemáticas', padre: '500' },
+  { codigo: '520', etiqueta: 'Astronomía', padre: '500' },
+  { codigo: '530', etiqueta: 'Física', padre: '500' },
+  { codigo: '540', etiqueta: 'Química', padre: '500' },
+  { codigo: '570', etiqueta: 'Biología', padre: '500' },
+  { codigo: '600', etiqueta: 'Tecnología', padre: null },
+  { codigo: '610', etiqueta: 'Medicina', padre: '600' },
+  { codigo: '620', etiqueta: 'Ingeniería', padre: '600' },
+  { codigo: '700', etiqueta: 'Artes', padre: null },
+  { codigo: '720', etiqueta: 'Arquitectura', padre: '700' },
+  { codigo: '780', etiqueta: 'Música', padre: '700' },
+  { codigo: '800', etiqueta: 'Literatura', padre: null },
+  { codigo: '860', etiqueta: 'Literatura española', padre: '800' },
+  { codigo: '900', etiqueta: 'Historia y geografía', padre: null },
+  { codigo: '910', etiqueta: 'Geografía y viajes', padre: '900' },
+  { codigo: '920', etiqueta: 'Biografías', padre: '900' },
+];
+
+/**
+ * Nodo por defecto de cada categoría de la lista fija anterior
+ */
+export const LEGACY_CATEGORY_CODES: Record<string, string> = {
+  'Ficción': '800',
+  'Ciencia': '500',
+  'Historia': '900',
+  'Tecnología': '600',
+  'Arte': '700',
+  'Biografía': '920',
+  'Filosofía': '100',
+  'Otro': '000',
+};
+
+// Nodo de los libros cuya categoría no se reconoce
+export const FALLBACK_CLASSIFICATION_CODE = '000';
+
+/**
+ * Etiqueta comparable: minúsculas, sin acentos ni signos
+ */
+export function normalizeClassificationLabel(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Nodos en preorden (cada clase seguida de sus subclases) con su profundidad
+ * Útil para listas con sangría
+ */
+export function flattenClassification(
+  nodos: ClassificationNode[]
+): Array<ClassificationNode & { nivel: number }> {
+  const byParent = new Map<string | null, ClassificationNode[]>();
+  nodos.forEach(node => byParent.set(node.padre, [...(byParent.get(node.padre) ?? []), node]));
+
+  const result: Array<ClassificationNode & { nivel: number }> = [];
+  const visit = (padre: string | null, nivel: number) => {
+    [...(byParent.get(padre) ?? [])]
+      .sort((a, b) => a.codigo.localeCompare(b.codigo))
+      .forEach(node => {
+        result.push({ ...node, nivel });
+        visit(node.codigo, nivel + 1);
+      });
+  };
+  visit(null, 0);
+
+  return result;
+}
+
+/**
+ * Ruta de etiquetas de una clase: "Ciencias naturales y matemáticas › Matemáticas"
+ * Si el código no está en la lista se devuelve tal cual
+ */
+export function formatClassificationPath(nodos: ClassificationNode[], codigo: string): string {
+  const byCode = new Map(nodos.map(node => [node.codigo, node]));
+  const etiquetas: string[] = [];
+  let node = byCode.get(codigo);
+
+  while (node && etiquetas.length <= nodos.length) {
+    etiquetas.unshift(node.etiqueta);
+    node = node.padre ? byCode.get(node.padre) : undefined;
+  }
+
+  return etiquetas.length > 0 ? etiquetas.join(' › ') : codigo;
+}
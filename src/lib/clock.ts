@@ -0,0 +1,27 @@
+/**
+ * Reloj inyectable
+ * Los servicios consultan la hora a través de un Clock en lugar de llamar
+ * a new Date(), así el tiempo se puede congelar o adelantar (simulación)
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Reloj del sistema (tiempo real)
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Suma días a una fecha sin modificar la original
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
@@ -0,0 +1,117 @@
+/**
+ * Contribuyentes de un libro (autores, traductores, editores, ilustradores)
+ * El campo autor del libro se deriva de los contribuyentes con rol autor
+ */
+
+import type { Book, Contributor, ContributorRole } from '@/types';
+
+export const CONTRIBUTOR_ROLES: ContributorRole[] = ['autor', 'traductor', 'editor', 'ilustrador'];
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  autor: 'Autor',
+  traductor: 'Traductor',
+  editor: 'Editor',
+  ilustrador: 'Ilustrador',
+};
+
+const AUTHOR_SEPARATOR = '; ';
+
+/**
+ * Valida y limpia una lista de contribuyentes
+ * Descarta nombres vacíos y repetidos (mismo nombre y rol)
+ */
+export function normalizeContributors(contributors: Contributor[]): Contributor[] {
+  if (!Array.isArray(contributors)) {
+    throw new Error('Los contribuyentes deben ser una lista');
+  }
+
+  const seen = new Set<string>();
+  const result: Contributor[] = [];
+
+  contributors.forEach(contributor => {
+    const nombre = contributor?.nombre?.trim();
+    if (!nombre) return;
+
+    if (!CONTRIBUTOR_ROLES.includes(contributor.rol)) {
+      throw new Error(`Rol de contribuyente no válido: ${contributor.rol}`);
+    }
+
+    const key = `${nombre.toLowerCase()}|${contributor.rol}`;
+    if (seen.has(key)) return;
+
+    seen.add(key);
+    result.push({ nombre, rol: contributor.rol });
+  });
+
+  if (result.length === 0) {
+    throw new Error('El libro debe tener al menos un autor o contribuyente');
+  }
+
+  return result;
+}
+
+/**
+ * Obtiene los contribuyentes de los datos de un libro
+ * Si solo se indica autor, reemplaza a los autores y conserva los demás roles
+ */
+export function resolveContributors(
+  data: { autor?: string; contribuyentes?: Contributor[] },
+  current: Contributor[] = []
+): Contributor[] {
+  if (data.contribuyentes !== undefined) {
+    return normalizeContributors(data.contribuyentes);
+  }
+
+  return normalizeContributors([
+    { nombre: data.autor ?? '', rol: 'autor' },
+    ...current.filter(contributor => contributor.rol !== 'autor'),
+  ]);
+}
+
+/**
+ * Texto del campo autor: los autores o, si no hay, el primer contribuyente
+ * (p. ej. el editor de una antología)
+ */
+export function formatAuthors(contributors: Contributor[]): string {
+  const authors = contributors.filter(contributor => contributor.rol === 'autor');
+  const names = (authors.length > 0 ? authors : contributors.slice(0, 1)).map(c => c.nombre);
+  return names.join(AUTHOR_SEPARATOR);
+}
+
+/**
+ * Texto con todos los contribuyentes: "Ana Gil (autor); Luis Paz (traductor)"
+ */
+export function formatContributors(contributors: Contributor[]): string {
+  return contributors
+    .map(contributor => `${contributor.nombre} (${contributor.rol})`)
+    .join(AUTHOR_SEPARATOR);
+}
+
+/**
+ * Interpreta el texto generado por formatContributors
+ * Un nombre sin rol se toma como autor
+ */
+export function parseContributors(text: string): Contributor[] {
+  return text
+    .split(AUTHOR_SEPARATOR.trim())
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(.*?)\s*\((\w+)\)$/);
+      const rol = match?.[2] as ContributorRole | undefined;
+      return match && rol && CONTRIBUTOR_ROLES.includes(rol)
+        ? { nombre: match[1], rol }
+        : { nombre: part, rol: 'autor' as const };
+    });
+}
+
+/**
+ * Completa los libros guardados antes de existir los contribuyentes
+ * El autor pasa a ser el único contribuyente
+ */
+export function withContributors(book: Book): Book {
+  if (!book.contribuyentes) {
+    book.contribuyentes = [{ nombre: book.autor, rol: 'autor' }];
+  }
+  return book;
+}
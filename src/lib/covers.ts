@@ -0,0 +1,37 @@
+/**
+ * Portadas de los libros
+ * Cada portada se guarda en varios tamaños (proporción 2:3) y se sirve desde
+ * /api/books/[id]/cover; la URL incluye la versión de la imagen (?v=) para
+ * que el navegador pueda guardarla en caché sin revalidar
+ */
+
+export type CoverSize = 'small' | 'medium' | 'large';
+
+export const COVER_SIZES: Record<CoverSize, { ancho: number; alto: number }> = {
+  small: { ancho: 64, alto: 96 },
+  medium: { ancho: 200, alto: 300 },
+  large: { ancho: 400, alto: 600 },
+};
+
+export const DEFAULT_COVER_SIZE: CoverSize = 'medium';
+
+// Tamaño máximo del archivo subido
+export const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+// Formatos de imagen aceptados (el contenido se comprueba al procesarla)
+export const COVER_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export function isCoverSize(value: string): value is CoverSize {
+  // hasOwn y no `in`: los nombres heredados (?size=constructor) no son tamaños
+  return Object.hasOwn(COVER_SIZES, value);
+}
+
+/**
+ * URL de la portada de un libro en un tamaño
+ * La portada guardada en el libro ya trae la versión (?v=); se le añade el tamaño
+ */
+export function coverUrl(portada: string, size: CoverSize = DEFAULT_COVER_SIZE): string {
+  if (!portada.startsWith('/api/')) return portada;
+
+  return `${portada}${portada.includes('?') ? '&' : '?'}size=${size}`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Expresiones cron de 5 campos (minuto hora día-mes mes día-semana)
+ * Soporta '*', listas (1,15), rangos (1-5) y pasos (*\/15, 10-40/10)
+ * El día de la semana acepta 0-7 (0 y 7 son domingo); se usa la hora local
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Si alguno de los campos de día es '*', basta con que coincida el otro
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldRange[] = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'día del mes', min: 1, max: 31 },
+  { name: 'mes', min: 1, max: 12 },
+  { name: 'día de la semana', min: 0, max: 7 },
+];
+
+// Límite de búsqueda de la próxima ejecución (expresiones como "0 0 31 2 *" nunca ocurren)
+const MAX_SEARCH_YEARS = 5;
+
+function invalid(expression: string, detail: string): Error {
+  return new Error(`Expresión cron no válida "${expression}": ${detail}`);
+}
+
+function parseNumber(value: string, field: FieldRange, expression: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw invalid(expression, `valor "${value}" en ${field.name}`);
+  }
+
+  const number = Number(value);
+  if (number < field.min || number > field.max) {
+    throw invalid(expression, `${field.name} fuera de rango (${field.min}-${field.max})`);
+  }
+  return number;
+}
+
+/**
+ * Convierte un campo en el conjunto de valores que permite
+ */
+function parseField(source: string, field: FieldRange, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined || rangePart === '') {
+      throw invalid(expression, `segmento "${part}" en ${field.name}`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, { ...field, min: 1 }, expression);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from, field, expression);
+      end = parseNumber(to, field, expression);
+      if (start > end) {
+        throw invalid(expression, `rango invertido "${rangePart}" en ${field.name}`);
+      }
+    } else {
+      start = parseNumber(rangePart, field, expression);
+      // "5/10" equivale a "5-max/10"
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Analiza una expresión cron; lanza un error descriptivo si no es válida
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw invalid(expression, `se esperaban ${FIELDS.length} campos`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // 7 es un alias de domingo
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: parts.join(' '),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+/**
+ * Indica si una expresión cron es válida
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Coincidencia de día con la semántica clásica de cron:
+ * si ambos campos están restringidos basta con que coincida uno
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Calcula la próxima ejecución estrictamente posterior a `after`
+ * Avanza campo por campo (mes, día, hora, minuto) en lugar de minuto a minuto
+ * Retorna null si la expresión no ocurre en los próximos años
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+
+    return date;
+  }
+
+  return null;
+}
@@ -0,0 +1,133 @@
+/**
+ * CSV: lectura según RFC 4180 y correspondencia de columnas con campos
+ * Se usa en el servidor para importar y en el navegador para proponer la correspondencia
+ */
+
+import type { CsvColumnMapping } from '@/types';
+
+/**
+ * Campo importable: nombre del campo, etiqueta y nombres de columna habituales
+ */
+export interface CsvField {
+  campo: string;
+  etiqueta: string;
+  requerido: boolean;
+  alias: string[];
+}
+
+export const BOOK_CSV_FIELDS: CsvField[] = [
+  { campo: 'titulo', etiqueta: 'Título', requerido: true, alias: ['title'] },
+  { campo: 'autor', etiqueta: 'Autor', requerido: false, alias: ['autores', 'author', 'authors'] },
+  { campo: 'contribuyentes', etiqueta: 'Contribuyentes', requerido: false, alias: ['contributors'] },
+  { campo: 'isbn', etiqueta: 'ISBN', requerido: true, alias: ['isbn13', 'isbn10'] },
+  { campo: 'categoria', etiqueta: 'Categoría', requerido: false, alias: ['category', 'materia'] },
+  { campo: 'anioPublicacion', etiqueta: 'Año de publicación', requerido: true, alias: ['anio', 'ano', 'year', 'fecha'] },
+  { campo: 'editorial', etiqueta: 'Editorial', requerido: false, alias: ['publisher'] },
+  { campo: 'numeroPaginas', etiqueta: 'Páginas', requerido: false, alias: ['paginas', 'pages'] },
+  { campo: 'copias', etiqueta: 'Copias', requerido: false, alias: ['ejemplares', 'copies'] },
+  { campo: 'descripcion', etiqueta: 'Descripción', requerido: false, alias: ['description', 'resumen'] },
+];
+
+export const USER_CSV_FIELDS: CsvField[] = [
+  { campo: 'nombre', etiqueta: 'Nombre', requerido: true, alias: ['name', 'firstname'] },
+  { campo: 'apellido', etiqueta: 'Apellido', requerido: true, alias: ['apellidos', 'lastname', 'surname'] },
+  { campo: 'email', etiqueta: 'Email', requerido: true, alias: ['correo', 'correoelectronico', 'mail'] },
+  { campo: 'telefono', etiqueta: 'Teléfono', requerido: false, alias: ['phone', 'movil'] },
+  { campo: 'direccion', etiqueta: 'Dirección', requerido: false, alias: ['address', 'domicilio'] },
+];
+
+/**
+ * Minúsculas, sin acentos ni separadores: "Año de Publicación" → "anodepublicacion"
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Separador más frecuente en la primera línea: coma, punto y coma (Excel en español) o tabulador
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Lee un CSV: campos entre comillas con comillas dobladas ("") y saltos de línea
+ * Las filas completamente vacías se descartan
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('El CSV tiene comillas sin cerrar');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Propone la columna de cada campo comparando la cabecera con el nombre, la etiqueta y los alias
+ */
+export function autoMapColumns(headers: string[], fields: CsvField[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+
+  fields.forEach(field => {
+    const names = [field.campo, field.etiqueta, ...field.alias].map(normalizeHeader);
+    const header = headers.find(candidate => names.includes(normalizeHeader(candidate)));
+    if (header !== undefined) {
+      mapping[field.campo] = header;
+    }
+  });
+
+  return mapping;
+}
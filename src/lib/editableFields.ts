@@ -0,0 +1,52 @@
+/**
+ * Campos que un cliente puede cambiar con PUT
+ * El resto (id, fechaRegistro, version, disponibilidad, contadores de préstamos,
+ * portada) lo controla el servidor o un servicio propio, y se descarta del cuerpo
+ */
+
+import type { Book, User } from '@/types';
+
+export const EDITABLE_BOOK_FIELDS = [
+  'titulo',
+  'autor',
+  'contribuyentes',
+  'isbn',
+  'categoria',
+  'anioPublicacion',
+  'editorial',
+  'numeroPaginas',
+  'copias',
+  'descripcion',
+  'etiquetas',
+  'signatura',
+  'tipo',
+  'licencia',
+  'serie',
+  'obraId',
+] as const satisfies readonly (keyof Book)[];
+
+export const EDITABLE_USER_FIELDS = [
+  'nombre',
+  'apellido',
+  'email',
+  'telefono',
+  'direccion',
+  'activo',
+] as const satisfies readonly (keyof User)[];
+
+/**
+ * Copia del cuerpo de la petición con solo los campos indicados
+ */
+export function pickEditable<T>(body: unknown, fields: readonly (keyof T)[]): Partial<T> {
+  const changes: Partial<T> = {};
+  if (typeof body !== 'object' || body === null) return changes;
+
+  const source = body as Record<string, unknown>;
+  fields.forEach(field => {
+    if (Object.hasOwn(source, field)) {
+      changes[field] = source[field as string] as T[keyof T];
+    }
+  });
+
+  return changes;
+}
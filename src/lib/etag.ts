@@ -0,0 +1,37 @@
+/**
+ * Utilidades de ETag para concurrencia optimista
+ * La versión de cada registro se expone como ETag fuerte ("3") y las
+ * actualizaciones deben enviar If-Match con la versión que editaron
+ */
+
+/**
+ * Formatea una versión como ETag fuerte
+ */
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Resultado de evaluar la cabecera If-Match contra la versión actual
+ * - missing: la petición no incluye If-Match
+ * - match: alguna de las etiquetas coincide (o se envió '*')
+ * - mismatch: el registro cambió desde que el cliente lo leyó
+ */
+export type IfMatchResult = 'missing' | 'match' | 'mismatch';
+
+/**
+ * Compara If-Match con la versión actual
+ * Acepta listas separadas por comas y etiquetas débiles (W/"3")
+ */
+export function checkIfMatch(header: string | null, currentVersion: number): IfMatchResult {
+  if (header === null || header.trim() === '') return 'missing';
+  if (header.trim() === '*') return 'match';
+
+  const current = formatETag(currentVersion);
+  const matches = header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === current);
+
+  return matches ? 'match' : 'mismatch';
+}
@@ -0,0 +1,81 @@
+/**
+ * Soporte de Idempotency-Key para rutas POST
+ * Envuelve el manejador: la primera respuesta (< 500) se guarda y los reintentos
+ * con la misma clave y el mismo cuerpo la reciben sin volver a ejecutar la operación
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  type IdempotencyService,
+} from '@/services/core/IdempotencyService';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+export async function withIdempotency(
+  request: Request,
+  service: IdempotencyService,
+  scope: string,
+  payload: unknown,
+  handler: () => NextResponse | Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) return handler();
+
+  if (key.trim() === '' || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Idempotency-Key debe tener entre 1 y ${MAX_IDEMPOTENCY_KEY_LENGTH} caracteres`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const started = service.begin(scope, key, payload);
+
+  switch (started.status) {
+    case 'replay':
+      return NextResponse.json(started.response.body, {
+        status: started.response.status,
+        headers: { 'Idempotent-Replayed': 'true' },
+      });
+
+    case 'conflict':
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'La Idempotency-Key ya se usó con un cuerpo de petición distinto',
+        },
+        { status: 422 }
+      );
+
+    case 'in-progress':
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Ya hay una petición en curso con esta Idempotency-Key',
+        },
+        { status: 409 }
+      );
+  }
+
+  try {
+    const response = await handler();
+
+    // Los errores del servidor no se guardan para permitir reintentos
+    if (response.status >= 500) {
+      service.release(scope, key);
+    } else {
+      service.complete(scope, key, {
+        status: response.status,
+        body: await response.clone().json(),
+      });
+    }
+
+    return response;
+  } catch (error) {
+    service.release(scope, key);
+    throw error;
+  }
+}
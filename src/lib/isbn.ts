@@ -0,0 +1,140 @@
+/**
+ * ISBN: validación, normalización y conversión ISBN-10 ↔ ISBN-13
+ * La forma canónica es el ISBN-13 sin guiones ni espacios (9780307474728)
+ */
+
+/**
+ * Resultado de validar un ISBN
+ * normalizado es el ISBN-13 canónico cuando el valor es válido
+ */
+export interface IsbnValidation {
+  valido: boolean;
+  normalizado?: string;
+  tipo?: 'ISBN-10' | 'ISBN-13';
+  error?: string;
+}
+
+/**
+ * Quita guiones y espacios; la X final del ISBN-10 se pasa a mayúscula
+ */
+export function cleanIsbn(raw: string): string {
+  return raw.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Dígito de control de un ISBN-10 a partir de sus 9 primeros dígitos
+ * Suma ponderada 10..2 módulo 11; el valor 10 se escribe X
+ */
+export function isbn10CheckDigit(first9: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(first9[i]) * (10 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Dígito de control de un ISBN-13 a partir de sus 12 primeros dígitos
+ * Pesos alternos 1 y 3, módulo 10
+ */
+export function isbn13CheckDigit(first12: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Convierte un ISBN-10 válido (sin guiones) en ISBN-13 con prefijo 978
+ */
+export function isbn10To13(isbn10: string): string {
+  const first12 = `978${isbn10.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Convierte un ISBN-13 (sin guiones) en ISBN-10
+ * Solo existe equivalente para el prefijo 978; en otro caso retorna null
+ */
+export function isbn13To10(isbn13: string): string | null {
+  if (!isbn13.startsWith('978')) return null;
+
+  const first9 = isbn13.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * Valida un ISBN-10 o ISBN-13 con guiones o sin ellos
+ * El mensaje de error indica qué falla (caracteres, longitud, prefijo o dígito de control)
+ */
+export function validateIsbn(raw: string): IsbnValidation {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return { valido: false, error: 'El ISBN es obligatorio' };
+  }
+
+  const isbn = cleanIsbn(raw);
+
+  if (/[^0-9X]/.test(isbn)) {
+    return { valido: false, error: `El ISBN "${raw}" contiene caracteres no válidos; solo se admiten dígitos, guiones y X final en ISBN-10` };
+  }
+
+  if (isbn.length === 10) {
+    if (!/^\d{9}[\dX]$/.test(isbn)) {
+      return { valido: false, error: 'En un ISBN-10 la X solo puede ser el dígito de control' };
+    }
+
+    const expected = isbn10CheckDigit(isbn);
+    if (isbn[9] !== expected) {
+      return { valido: false, tipo: 'ISBN-10', error: `Dígito de control incorrecto en el ISBN-10 ${raw}: es ${isbn[9]} y debería ser ${expected}` };
+    }
+
+    return { valido: true, tipo: 'ISBN-10', normalizado: isbn10To13(isbn) };
+  }
+
+  if (isbn.length === 13) {
+    if (!/^\d{13}$/.test(isbn)) {
+      return { valido: false, error: 'Un ISBN-13 solo puede contener dígitos' };
+    }
+
+    if (!isbn.startsWith('978') && !isbn.startsWith('979')) {
+      return { valido: false, tipo: 'ISBN-13', error: `El ISBN-13 ${raw} debe comenzar por 978 o 979` };
+    }
+
+    const expected = isbn13CheckDigit(isbn);
+    if (isbn[12] !== expected) {
+      return { valido: false, tipo: 'ISBN-13', error: `Dígito de control incorrecto en el ISBN-13 ${raw}: es ${isbn[12]} y debería ser ${expected}` };
+    }
+
+    return { valido: true, tipo: 'ISBN-13', normalizado: isbn };
+  }
+
+  return { valido: false, error: `El ISBN debe tener 10 o 13 dígitos (tiene ${isbn.length})` };
+}
+
+/**
+ * Retorna el ISBN-13 canónico o lanza un error con el detalle
+ */
+export function normalizeIsbn(raw: string): string {
+  const result = validateIsbn(raw);
+  if (!result.valido) {
+    throw new Error(result.error);
+  }
+  return result.normalizado!;
+}
+
+/**
+ * Clave de índice: el ISBN-13 canónico si es válido
+ * Los ISBN inválidos de datos anteriores se indexan sin guiones para no perderlos
+ */
+export function toIsbnKey(raw: string): string {
+  return validateIsbn(raw).normalizado ?? cleanIsbn(raw);
+}
+
+/**
+ * Formato de presentación: prefijo separado (978-0307474728)
+ */
+export function formatIsbn(isbn: string): string {
+  return /^\d{13}$/.test(isbn) ? `${isbn.slice(0, 3)}-${isbn.slice(3)}` : isbn;
+}
@@ -0,0 +1,52 @@
+/**
+ * Bibliotecas del proceso
+ *
+ * Variables de entorno:
+ * - LIBRARY_IDS: identificadores de las bibliotecas admitidas, separados por comas
+ *   ('default' siempre está incluida)
+ *
+ * Cada biblioteca tiene su propio contexto, almacenamiento y planificador, así que
+ * solo se admiten las configuradas: un identificador cualquiera en la cabecera
+ * X-Library-Id no crea una biblioteca nueva
+ */
+
+export const DEFAULT_LIBRARY_ID = 'default';
+
+export const LIBRARY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export function isValidLibraryId(libraryId: string): boolean {
+  return LIBRARY_ID_PATTERN.test(libraryId);
+}
+
+/**
+ * Identificadores admitidos: la biblioteca por defecto y las de LIBRARY_IDS
+ * (los que no tienen un formato válido se ignoran)
+ */
+export function getConfiguredLibraries(): string[] {
+  const configured = (process.env.LIBRARY_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id && isValidLibraryId(id));
+
+  return [...new Set([DEFAULT_LIBRARY_ID, ...configured])];
+}
+
+export function isConfiguredLibrary(libraryId: string): boolean {
+  return getConfiguredLibraries().includes(libraryId);
+}
+
+/**
+ * Motivo por el que no se admite un identificador, o null si es una biblioteca configurada
+ * El estado HTTP distingue un identificador mal formado (400) de uno desconocido (404)
+ */
+export function checkLibraryId(libraryId: string): { error: string; status: 400 | 404 } | null {
+  if (!isValidLibraryId(libraryId)) {
+    return { error: `Identificador de biblioteca no válido: ${libraryId}`, status: 400 };
+  }
+
+  if (!isConfiguredLibrary(libraryId)) {
+    return { error: `Biblioteca no configurada: ${libraryId}`, status: 404 };
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Libros digitales y sus licencias
+ * Un libro digital no tiene ejemplares físicos: su licencia fija cuántos lectores
+ * pueden tenerlo a la vez, cuántos préstamos admite en total y hasta cuándo vale
+ * Cada lector simultáneo ocupa una plaza (un ejemplar del libro), de modo que los
+ * préstamos, apartados y reservas funcionan igual que con los impresos
+ */
+
+import type { Book, DigitalLicense, LicenseStatus, MaterialType } from '@/types';
+
+export const MATERIAL_TYPES: MaterialType[] = ['impreso', 'digital'];
+
+export function isDigital(book: Pick<Book, 'tipo'>): boolean {
+  return book.tipo === 'digital';
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+function isValidDate(value: unknown): boolean {
+  return (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Valida el tipo de material y la licencia recibidos en una petición; retorna el error o null
+ * Solo los libros digitales necesitan licencia
+ */
+export function validateMaterial(tipo: unknown, licencia: unknown): string | null {
+  if (tipo !== undefined && !MATERIAL_TYPES.includes(tipo as MaterialType)) {
+    return `Tipo de material no válido: ${tipo}`;
+  }
+
+  if (tipo !== 'digital') return null;
+
+  if (!licencia || typeof licencia !== 'object') {
+    return 'Un libro digital necesita los datos de su licencia';
+  }
+
+  const { usuariosSimultaneos, prestamosTotales, fechaVencimiento } = licencia as Record<string, unknown>;
+
+  if (!isPositiveInteger(usuariosSimultaneos)) {
+    return 'La licencia debe admitir al menos un usuario simultáneo';
+  }
+
+  if (prestamosTotales !== undefined && prestamosTotales !== null && !isPositiveInteger(prestamosTotales)) {
+    return 'El límite de préstamos de la licencia debe ser un entero positivo';
+  }
+
+  if (fechaVencimiento !== undefined && fechaVencimiento !== null && !isValidDate(fechaVencimiento)) {
+    return 'La fecha de vencimiento de la licencia no es válida';
+  }
+
+  return null;
+}
+
+/**
+ * Licencia con los límites ausentes como null y la fecha como Date
+ * (en las peticiones llega como texto)
+ */
+export function normalizeLicense(licencia: DigitalLicense): DigitalLicense {
+  return {
+    usuariosSimultaneos: licencia.usuariosSimultaneos,
+    prestamosTotales: licencia.prestamosTotales ?? null,
+    fechaVencimiento: licencia.fechaVencimiento ? new Date(licencia.fechaVencimiento) : null,
+  };
+}
+
+/**
+ * Tipo, licencia y copias de un libro según su tipo de material
+ * Las copias de un libro digital son las plazas de su licencia; un libro que deja
+ * de ser digital pierde la licencia
+ * Lanza un error si el tipo o la licencia no son válidos
+ */
+export function resolveMaterial(
+  data: Pick<Book, 'tipo' | 'licencia'>,
+  current: Pick<Book, 'tipo' | 'licencia'> = {}
+): Partial<Pick<Book, 'tipo' | 'licencia' | 'copias'>> {
+  const tipo = data.tipo ?? current.tipo ?? 'impreso';
+  const licencia = data.licencia !== undefined ? data.licencia : current.licencia;
+
+  const error = validateMaterial(tipo, licencia);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (tipo !== 'digital') {
+    return data.licencia || current.licencia ? { tipo, licencia: null } : { tipo };
+  }
+
+  const normalized = normalizeLicense(licencia!);
+  return { tipo, licencia: normalized, copias: normalized.usuariosSimultaneos };
+}
+
+/**
+ * Estado de una licencia: vencida si pasó su fecha, agotada si ya se hicieron
+ * todos los préstamos que admite
+ */
+export function licenseStatus(licencia: DigitalLicense, prestamosRealizados: number, now: Date): LicenseStatus {
+  if (licencia.fechaVencimiento && new Date(licencia.fechaVencimiento) <= now) {
+    return 'vencida';
+  }
+
+  if (licencia.prestamosTotales !== null && prestamosRealizados >= licencia.prestamosTotales) {
+    return 'agotada';
+  }
+
+  return 'vigente';
+}
+
+/**
+ * Fecha de devolución de un préstamo digital: no puede pasar del vencimiento de la licencia
+ */
+export function digitalDueDate(licencia: DigitalLicense, fechaDevolucion: Date): Date {
+  const vencimiento = licencia.fechaVencimiento ? new Date(licencia.fechaVencimiento) : null;
+  return vencimiento && vencimiento < fechaDevolucion ? vencimiento : fechaDevolucion;
+}
@@ -0,0 +1,64 @@
+/**
+ * Lugares de la biblioteca: sucursales, sus salas y las estanterías de cada sala
+ */
+
+import type { LibraryLocation, LocationLevel, ShelfPath } from '@/types';
+
+export const LOCATION_LEVELS: LocationLevel[] = ['sucursal', 'sala', 'estanteria'];
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  sucursal: 'Sucursal',
+  sala: 'Sala',
+  estanteria: 'Estantería',
+};
+
+// Nivel del lugar que contiene a cada nivel
+export const PARENT_LEVEL: Record<LocationLevel, LocationLevel | null> = {
+  sucursal: null,
+  sala: 'sucursal',
+  estanteria: 'sala',
+};
+
+/**
+ * Sucursal, sala y estantería de una estantería; null si no es una estantería
+ * o le falta alguno de sus lugares
+ */
+export function shelfPath(locations: LibraryLocation[], estanteriaId: string): ShelfPath | null {
+  const find = (id: string | null) => locations.find(location => location.id === id);
+
+  const estanteria = find(estanteriaId);
+  const sala = estanteria?.nivel === 'estanteria' ? find(estanteria.padreId) : undefined;
+  const sucursal = sala ? find(sala.padreId) : undefined;
+  if (!estanteria || !sala || !sucursal) return null;
+
+  return {
+    sucursal,
+    sala,
+    estanteria,
+    etiqueta: [sucursal.nombre, sala.nombre, estanteria.nombre].join(' · '),
+  };
+}
+
+/**
+ * Rango de clases de una estantería ("800–899"); vacío si no declara ninguno
+ */
+export function shelfRangeLabel(estanteria: Pick<LibraryLocation, 'desde' | 'hasta'>): string {
+  if (!estanteria.desde && !estanteria.hasta) return '';
+  return `${estanteria.desde ?? '…'}–${estanteria.hasta ?? '…'}`;
+}
+
+/**
+ * Lugares en orden de árbol: cada sucursal seguida de sus salas y cada sala de
+ * sus estanterías, por nombre dentro de cada nivel
+ */
+export function sortLocations(locations: LibraryLocation[]): LibraryLocation[] {
+  const byName = (a: LibraryLocation, b: LibraryLocation) =>
+    a.nombre.localeCompare(b.nombre, 'es', { numeric: true });
+
+  const visit = (padreId: string | null): LibraryLocation[] => locations
+    .filter(location => location.padreId === padreId)
+    .sort(byName)
+    .flatMap(location => [location, ...visit(location.id)]);
+
+  return visit(null);
+}
@@ -0,0 +1,398 @@
+/**
+ * MARC21: lectura y escritura de registros bibliográficos
+ * Formatos ISO 2709 (binario, .mrc) y MARCXML
+ * Solo trata la estructura del registro; la correspondencia con los libros está en MarcService
+ */
+
+import type { MarcFormat } from '@/types';
+
+export const MARC_FORMATS: MarcFormat[] = ['marc21', 'marcxml'];
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcControlField {
+  tag: string;
+  value: string;
+}
+
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  controlFields: MarcControlField[];
+  dataFields: MarcDataField[];
+}
+
+/**
+ * Resultado de leer un registro del archivo
+ * registro es la posición (desde 1) para el informe de errores
+ */
+export interface MarcParseEntry {
+  registro: number;
+  record?: MarcRecord;
+  error?: string;
+}
+
+const FIELD_TERMINATOR = 0x1e;
+const RECORD_TERMINATOR = 0x1d;
+const SUBFIELD_DELIMITER = '\x1f';
+
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+// Registro nuevo (n), material textual (a), monografía (m), codificado en UTF-8 (a)
+const DEFAULT_LEADER = '00000nam a2200000 i 4500';
+
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+/**
+ * Los campos 001 a 009 son de control: no tienen indicadores ni subcampos
+ */
+export function isControlTag(tag: string): boolean {
+  return /^00\d$/.test(tag);
+}
+
+/**
+ * Valores de un subcampo en los campos con la etiqueta indicada, en orden
+ */
+export function getSubfields(record: MarcRecord, tag: string, code: string): string[] {
+  return record.dataFields
+    .filter(field => field.tag === tag)
+    .flatMap(field => field.subfields.filter(subfield => subfield.code === code))
+    .map(subfield => subfield.value);
+}
+
+/**
+ * Primer valor de un subcampo, o undefined si el registro no lo tiene
+ */
+export function getSubfield(record: MarcRecord, tag: string, code: string): string | undefined {
+  return getSubfields(record, tag, code)[0];
+}
+
+export function getControlField(record: MarcRecord, tag: string): string | undefined {
+  return record.controlFields.find(field => field.tag === tag)?.value;
+}
+
+/**
+ * Distingue MARCXML (empieza por '<') de ISO 2709 (empieza por la longitud del registro)
+ */
+export function detectMarcFormat(data: Uint8Array): MarcFormat {
+  const text = new TextDecoder('utf-8').decode(data.subarray(0, 64)).replace(/^\uFEFF/, '').trimStart();
+  return text.startsWith('<') ? 'marcxml' : 'marc21';
+}
+
+// ============================================================
+// ISO 2709
+// ============================================================
+
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+}
+
+/**
+ * Decodifica un registro ISO 2709 (cabecera, directorio y campos)
+ * Las longitudes y posiciones del directorio se cuentan en bytes
+ */
+function decodeIso2709Record(bytes: Uint8Array): MarcRecord {
+  if (bytes.length < LEADER_LENGTH + 1) {
+    throw new Error('Registro demasiado corto: falta la cabecera');
+  }
+
+  const leader = readAscii(bytes, 0, LEADER_LENGTH);
+  const baseAddress = Number(leader.slice(12, 17));
+
+  if (!/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress <= LEADER_LENGTH || baseAddress > bytes.length) {
+    throw new Error(`Dirección base de los datos no válida en la cabecera: "${leader.slice(12, 17)}"`);
+  }
+
+  const directory = readAscii(bytes, LEADER_LENGTH, baseAddress - LEADER_LENGTH - 1);
+  if (directory.length % DIRECTORY_ENTRY_LENGTH !== 0) {
+    throw new Error('Directorio del registro mal formado');
+  }
+
+  // Posición 9 de la cabecera: 'a' = UTF-8; en otro caso MARC-8, que se lee como Latin-1
+  const decoder = new TextDecoder(leader[9] === 'a' ? 'utf-8' : 'latin1');
+  const record: MarcRecord = { leader, controlFields: [], dataFields: [] };
+
+  for (let i = 0; i < directory.length; i += DIRECTORY_ENTRY_LENGTH) {
+    const entry = directory.slice(i, i + DIRECTORY_ENTRY_LENGTH);
+    if (!/^[0-9A-Za-z]{3}\d{9}$/.test(entry)) {
+      throw new Error(`Entrada de directorio no válida: "${entry}"`);
+    }
+
+    const tag = entry.slice(0, 3);
+    const length = Number(entry.slice(3, 7));
+    const start = baseAddress + Number(entry.slice(7, 12));
+
+    if (start + length > bytes.length) {
+      throw new Error(`El campo ${tag} excede la longitud del registro`);
+    }
+
+    let fieldBytes = bytes.subarray(start, start + length);
+    if (fieldBytes[fieldBytes.length - 1] === FIELD_TERMINATOR) {
+      fieldBytes = fieldBytes.subarray(0, fieldBytes.length - 1);
+    }
+    const text = decoder.decode(fieldBytes);
+
+    if (isControlTag(tag)) {
+      record.controlFields.push({ tag, value: text });
+      continue;
+    }
+
+    const [indicators, ...chunks] = text.split(SUBFIELD_DELIMITER);
+    record.dataFields.push({
+      tag,
+      ind1: indicators[0] ?? ' ',
+      ind2: indicators[1] ?? ' ',
+      subfields: chunks
+        .filter(chunk => chunk.length > 0)
+        .map(chunk => ({ code: chunk[0], value: chunk.slice(1) })),
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Lee un archivo ISO 2709 con uno o varios registros
+ * Un registro dañado se informa como error y la lectura continúa con el siguiente
+ */
+export function parseMarc21(data: Uint8Array): MarcParseEntry[] {
+  const entries: MarcParseEntry[] = [];
+  let start = 0;
+  let registro = 0;
+
+  while (start < data.length) {
+    // Saltos de línea entre registros (archivos editados a mano)
+    if (data[start] === 0x0a || data[start] === 0x0d) {
+      start++;
+      continue;
+    }
+
+    registro++;
+    let end = data.indexOf(RECORD_TERMINATOR, start);
+    if (end === -1) end = data.length;
+
+    try {
+      entries.push({ registro, record: decodeIso2709Record(data.subarray(start, end)) });
+    } catch (error) {
+      entries.push({ registro, error: error instanceof Error ? error.message : 'Registro no válido' });
+    }
+
+    start = end + 1;
+  }
+
+  return entries;
+}
+
+function padNumber(value: number, length: number, what: string): string {
+  const text = String(value);
+  if (text.length > length) {
+    throw new Error(`${what} excede el máximo de ISO 2709 (${value})`);
+  }
+  return text.padStart(length, '0');
+}
+
+function encodeIso2709Record(record: MarcRecord): Uint8Array {
+  const encoder = new TextEncoder();
+  const fields: { tag: string; bytes: Uint8Array }[] = [
+    ...record.controlFields.map(field => ({
+      tag: field.tag,
+      bytes: encoder.encode(field.value + '\x1e'),
+    })),
+    ...record.dataFields.map(field => ({
+      tag: field.tag,
+      bytes: encoder.encode(
+        field.ind1 + field.ind2 +
+        field.subfields.map(subfield => SUBFIELD_DELIMITER + subfield.code + subfield.value).join('') +
+        '\x1e'
+      ),
+    })),
+  ];
+
+  let position = 0;
+  const directory = fields
+    .map(field => {
+      const entry = field.tag +
+        padNumber(field.bytes.length, 4, `El campo ${field.tag}`) +
+        padNumber(position, 5, 'La posición de un campo');
+      position += field.bytes.length;
+      return entry;
+    })
+    .join('') + '\x1e';
+
+  const baseAddress = LEADER_LENGTH + directory.length;
+  const recordLength = baseAddress + position + 1;
+  const base = (record.leader || DEFAULT_LEADER).padEnd(LEADER_LENGTH, ' ');
+  const leader =
+    padNumber(recordLength, 5, 'El registro') +
+    base.slice(5, 9) + 'a' + '22' +
+    padNumber(baseAddress, 5, 'La cabecera') +
+    base.slice(17, 20) + '4500';
+
+  const result = new Uint8Array(recordLength);
+  result.set(encoder.encode(leader + directory), 0);
+
+  let offset = baseAddress;
+  fields.forEach(field => {
+    result.set(field.bytes, offset);
+    offset += field.bytes.length;
+  });
+  result[offset] = RECORD_TERMINATOR;
+
+  return result;
+}
+
+/**
+ * Escribe los registros en ISO 2709 codificado en UTF-8
+ */
+export function serializeMarc21(records: MarcRecord[]): Uint8Array<ArrayBuffer> {
+  const encoded = records.map(encodeIso2709Record);
+  const result = new Uint8Array(encoded.reduce((total, bytes) => total + bytes.length, 0));
+
+  let offset = 0;
+  encoded.forEach(bytes => {
+    result.set(bytes, offset);
+    offset += bytes.length;
+  });
+
+  return result;
+}
+
+// ============================================================
+// MARCXML
+// ============================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Elemento con prefijo de espacio de nombres opcional (marc:record o record)
+ * Grupo 1: atributos; grupo 2: contenido (vacío si el elemento se cierra solo)
+ */
+function elementPattern(name: string): RegExp {
+  return new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${name}>)`, 'g');
+}
+
+function parseXmlRecord(content: string): MarcRecord {
+  const leaderMatch = elementPattern('leader').exec(content);
+  const record: MarcRecord = {
+    leader: decodeXml(leaderMatch?.[2] ?? DEFAULT_LEADER),
+    controlFields: [],
+    dataFields: [],
+  };
+
+  for (const match of content.matchAll(elementPattern('controlfield'))) {
+    const { tag } = parseAttributes(match[1]);
+    if (!tag) throw new Error('Campo de control sin atributo tag');
+    record.controlFields.push({ tag, value: decodeXml(match[2] ?? '') });
+  }
+
+  for (const match of content.matchAll(elementPattern('datafield'))) {
+    const { tag, ind1, ind2 } = parseAttributes(match[1]);
+    if (!tag) throw new Error('Campo de datos sin atributo tag');
+
+    const subfields: MarcSubfield[] = [];
+    for (const subfield of (match[2] ?? '').matchAll(elementPattern('subfield'))) {
+      const { code } = parseAttributes(subfield[1]);
+      if (!code) throw new Error(`Subcampo sin atributo code en el campo ${tag}`);
+      subfields.push({ code, value: decodeXml(subfield[2] ?? '') });
+    }
+
+    record.dataFields.push({ tag, ind1: ind1 || ' ', ind2: ind2 || ' ', subfields });
+  }
+
+  return record;
+}
+
+/**
+ * Lee un documento MARCXML (collection con varios record o un record suelto)
+ */
+export function parseMarcXml(xml: string): MarcParseEntry[] {
+  const entries: MarcParseEntry[] = [];
+  let registro = 0;
+
+  for (const match of xml.matchAll(elementPattern('record'))) {
+    registro++;
+    try {
+      entries.push({ registro, record: parseXmlRecord(match[2] ?? '') });
+    } catch (error) {
+      entries.push({ registro, error: error instanceof Error ? error.message : 'Registro no válido' });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Escribe los registros como una colección MARCXML
+ */
+export function serializeMarcXml(records: MarcRecord[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<collection xmlns="${MARCXML_NAMESPACE}">`,
+  ];
+
+  records.forEach(record => {
+    lines.push('  <record>');
+    lines.push(`    <leader>${encodeXml(record.leader || DEFAULT_LEADER)}</leader>`);
+
+    record.controlFields.forEach(field => {
+      lines.push(`    <controlfield tag="${field.tag}">${encodeXml(field.value)}</controlfield>`);
+    });
+
+    record.dataFields.forEach(field => {
+      lines.push(`    <datafield tag="${field.tag}" ind1="${encodeXml(field.ind1)}" ind2="${encodeXml(field.ind2)}">`);
+      field.subfields.forEach(subfield => {
+        lines.push(`      <subfield code="${encodeXml(subfield.code)}">${encodeXml(subfield.value)}</subfield>`);
+      });
+      lines.push('    </datafield>');
+    });
+
+    lines.push('  </record>');
+  });
+
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,122 @@
+/**
+ * Adaptador de archivos JSON
+ * Guarda cada colección en <directorio>/<colección>.json
+ * y cada registro en <directorio>/<registro>.jsonl (una entrada por línea)
+ * Los archivos binarios van en <directorio>/blobs/<clave>
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { StorageAdapter, StorageCollection, StorageLog } from './StorageAdapter';
+import { serialize, deserialize } from './serialization';
+
+export class JsonFileAdapter implements StorageAdapter {
+  public readonly name = 'json';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  private getFilePath(collection: StorageCollection): string {
+    return path.join(this.directory, `${collection}.json`);
+  }
+
+  private getLogPath(log: StorageLog): string {
+    return path.join(this.directory, `${log}.jsonl`);
+  }
+
+  private get blobDirectory(): string {
+    return path.join(this.directory, 'blobs');
+  }
+
+  /**
+   * Ruta de un archivo binario; rechaza claves que salgan del directorio
+   */
+  private getBlobPath(key: string): string {
+    const blobPath = path.resolve(this.blobDirectory, key);
+    if (!blobPath.startsWith(`${this.blobDirectory}${path.sep}`)) {
+      throw new Error(`Clave de archivo inválida: ${key}`);
+    }
+    return blobPath;
+  }
+
+  public load<T>(collection: StorageCollection): T | null {
+    const filePath = this.getFilePath(collection);
+    if (!fs.existsSync(filePath)) return null;
+
+    return deserialize<T>(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  /**
+   * Escribe en un archivo temporal y lo renombra para no dejar
+   * archivos a medio escribir si el proceso se interrumpe
+   */
+  public save<T>(collection: StorageCollection, data: T): void {
+    const filePath = this.getFilePath(collection);
+    const tempPath = `${filePath}.tmp`;
+
+    fs.writeFileSync(tempPath, serialize(data), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  public append<T>(log: StorageLog, entry: T): void {
+    fs.appendFileSync(this.getLogPath(log), `${serialize(entry)}\n`, 'utf-8');
+  }
+
+  public readLog<T>(log: StorageLog): T[] {
+    const logPath = this.getLogPath(log);
+    if (!fs.existsSync(logPath)) return [];
+
+    return fs.readFileSync(logPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => deserialize<T>(line));
+  }
+
+  public saveBlob(key: string, data: Buffer): void {
+    const blobPath = this.getBlobPath(key);
+    const tempPath = `${blobPath}.tmp`;
+
+    fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, blobPath);
+  }
+
+  public loadBlob(key: string): Buffer | null {
+    const blobPath = this.getBlobPath(key);
+    return fs.existsSync(blobPath) ? fs.readFileSync(blobPath) : null;
+  }
+
+  /**
+   * Los prefijos que terminan en "/" borran el directorio completo
+   */
+  public deleteBlobs(prefix: string): void {
+    const target = this.getBlobPath(prefix);
+
+    if (prefix.endsWith('/')) {
+      fs.rmSync(target, { recursive: true, force: true });
+      return;
+    }
+
+    const directory = path.dirname(target);
+    if (!fs.existsSync(directory)) return;
+
+    for (const file of fs.readdirSync(directory)) {
+      const filePath = path.join(directory, file);
+      if (filePath.startsWith(target)) {
+        fs.rmSync(filePath, { recursive: true, force: true });
+      }
+    }
+  }
+
+  public clear(): void {
+    fs.rmSync(this.blobDirectory, { recursive: true, force: true });
+    for (const file of fs.readdirSync(this.directory)) {
+      if (file.endsWith('.json') || file.endsWith('.jsonl')) {
+        fs.unlinkSync(path.join(this.directory, file));
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Adaptador en memoria
+ * Comportamiento original: el estado se pierde al reiniciar el servidor
+ */
+
+import type { StorageAdapter, StorageCollection, StorageLog } from './StorageAdapter';
+
+export class MemoryAdapter implements StorageAdapter {
+  public readonly name = 'memory';
+  private collections: Map<StorageCollection, unknown>;
+  private logs: Map<StorageLog, unknown[]>;
+  private blobs: Map<string, Buffer>;
+
+  constructor() {
+    this.collections = new Map();
+    this.logs = new Map();
+    this.blobs = new Map();
+  }
+
+  public load<T>(collection: StorageCollection): T | null {
+    return (this.collections.get(collection) as T | undefined) ?? null;
+  }
+
+  public save<T>(collection: StorageCollection, data: T): void {
+    this.collections.set(collection, data);
+  }
+
+  public append<T>(log: StorageLog, entry: T): void {
+    if (!this.logs.has(log)) {
+      this.logs.set(log, []);
+    }
+    this.logs.get(log)!.push(entry);
+  }
+
+  public readLog<T>(log: StorageLog): T[] {
+    return [...((this.logs.get(log) as T[] | undefined) ?? [])];
+  }
+
+  public saveBlob(key: string, data: Buffer): void {
+    this.blobs.set(key, Buffer.from(data));
+  }
+
+  public loadBlob(key: string): Buffer | null {
+    return this.blobs.get(key) ?? null;
+  }
+
+  public deleteBlobs(prefix: string): void {
+    Array.from(this.blobs.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.blobs.delete(key));
+  }
+
+  public clear(): void {
+    this.collections.clear();
+    this.logs.clear();
+    this.blobs.clear();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Adaptador SQLite embebido (better-sqlite3)
+ * Una fila por colección con su contenido serializado
+ * y una fila por entrada de registro; los archivos binarios en la tabla blobs
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { StorageAdapter, StorageCollection, StorageLog } from './StorageAdapter';
+import { serialize, deserialize } from './serialization';
+
+export class SqliteAdapter implements StorageAdapter {
+  public readonly name = 'sqlite';
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    const resolvedPath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+
+    this.db = new Database(resolvedPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS collections (
+        name TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS log_entries (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        log TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_log_entries_log ON log_entries (log, seq);
+      CREATE TABLE IF NOT EXISTS blobs (
+        key TEXT PRIMARY KEY,
+        data BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  public load<T>(collection: StorageCollection): T | null {
+    const row = this.db
+      .prepare('SELECT data FROM collections WHERE name = ?')
+      .get(collection) as { data: string } | undefined;
+
+    return row ? deserialize<T>(row.data) : null;
+  }
+
+  public save<T>(collection: StorageCollection, data: T): void {
+    this.db
+      .prepare(`
+        INSERT INTO collections (name, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `)
+      .run(collection, serialize(data), new Date().toISOString());
+  }
+
+  public append<T>(log: StorageLog, entry: T): void {
+    this.db
+      .prepare('INSERT INTO log_entries (log, data) VALUES (?, ?)')
+      .run(log, serialize(entry));
+  }
+
+  public readLog<T>(log: StorageLog): T[] {
+    const rows = this.db
+      .prepare('SELECT data FROM log_entries WHERE log = ? ORDER BY seq')
+      .all(log) as Array<{ data: string }>;
+
+    return rows.map(row => deserialize<T>(row.data));
+  }
+
+  public saveBlob(key: string, data: Buffer): void {
+    this.db
+      .prepare(`
+        INSERT INTO blobs (key, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `)
+      .run(key, data, new Date().toISOString());
+  }
+
+  public loadBlob(key: string): Buffer | null {
+    const row = this.db
+      .prepare('SELECT data FROM blobs WHERE key = ?')
+      .get(key) as { data: Buffer } | undefined;
+
+    return row ? row.data : null;
+  }
+
+  public deleteBlobs(prefix: string): void {
+    this.db
+      .prepare('DELETE FROM blobs WHERE substr(key, 1, ?) = ?')
+      .run(prefix.length, prefix);
+  }
+
+  public clear(): void {
+    this.db.exec('DELETE FROM collections; DELETE FROM log_entries; DELETE FROM blobs;');
+  }
+}
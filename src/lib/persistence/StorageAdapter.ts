@@ -0,0 +1,74 @@
+/**
+ * Contrato de persistencia para los servicios de la biblioteca
+ * Cada servicio guarda su estado completo en una colección con nombre
+ */
+
+export type StorageCollection =
+  | 'books'
+  | 'users'
+  | 'loans'
+  | 'copies'
+  | 'reservations'
+  | 'history'
+  | 'holds'
+  | 'graph'
+  | 'idempotency'
+  | 'jobs'
+  | 'clock'
+  | 'classification'
+  | 'series'
+  | 'works'
+  | 'repairs'
+  | 'locations';
+
+// Registros de solo-anexado (append-only)
+export type StorageLog = 'events';
+
+export interface StorageAdapter {
+  /**
+   * Nombre del adaptador (memory, json, sqlite)
+   */
+  readonly name: string;
+
+  /**
+   * Carga el contenido de una colección
+   * Retorna null si la colección nunca fue guardada
+   */
+  load<T>(collection: StorageCollection): T | null;
+
+  /**
+   * Reemplaza el contenido de una colección (write-through)
+   */
+  save<T>(collection: StorageCollection, data: T): void;
+
+  /**
+   * Agrega una entrada al final de un registro sin reescribirlo
+   */
+  append<T>(log: StorageLog, entry: T): void;
+
+  /**
+   * Lee todas las entradas de un registro en orden de inserción
+   */
+  readLog<T>(log: StorageLog): T[];
+
+  /**
+   * Guarda un archivo binario (p. ej. una imagen) bajo una clave con rutas
+   * separadas por "/", como "covers/<id>/small.webp"
+   */
+  saveBlob(key: string, data: Buffer): void;
+
+  /**
+   * Carga un archivo binario; null si no existe
+   */
+  loadBlob(key: string): Buffer | null;
+
+  /**
+   * Elimina los archivos binarios cuya clave empieza por el prefijo
+   */
+  deleteBlobs(prefix: string): void;
+
+  /**
+   * Elimina todas las colecciones, registros y archivos binarios almacenados
+   */
+  clear(): void;
+}
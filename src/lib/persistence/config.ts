@@ -0,0 +1,53 @@
+/**
+ * Selección del adaptador de persistencia según la configuración
+ *
+ * Variables de entorno:
+ * - LIBRARY_STORAGE: 'memory' (por defecto) | 'json' | 'sqlite'
+ * - LIBRARY_DATA_DIR: directorio de datos (por defecto ./data)
+ * - LIBRARY_SQLITE_FILE: archivo SQLite (por defecto <LIBRARY_DATA_DIR>/biblioteca.db)
+ *
+ * Las bibliotecas distintas a 'default' usan su propio subdirectorio o archivo
+ */
+
+import path from 'node:path';
+import type { StorageAdapter } from './StorageAdapter';
+import { MemoryAdapter } from './MemoryAdapter';
+import { JsonFileAdapter } from './JsonFileAdapter';
+import { SqliteAdapter } from './SqliteAdapter';
+import { DEFAULT_LIBRARY_ID } from '@/lib/libraries';
+
+export { DEFAULT_LIBRARY_ID };
+
+export type StorageKind = 'memory' | 'json' | 'sqlite';
+
+export function getStorageKind(): StorageKind {
+  const kind = (process.env.LIBRARY_STORAGE ?? 'memory').toLowerCase();
+
+  if (kind !== 'memory' && kind !== 'json' && kind !== 'sqlite') {
+    throw new Error(`Adaptador de persistencia no válido: ${kind}`);
+  }
+
+  return kind;
+}
+
+export function createStorageAdapter(
+  kind: StorageKind = getStorageKind(),
+  libraryId: string = DEFAULT_LIBRARY_ID
+): StorageAdapter {
+  const baseDir = process.env.LIBRARY_DATA_DIR ?? 'data';
+  const isDefault = libraryId === DEFAULT_LIBRARY_ID;
+
+  switch (kind) {
+    case 'json':
+      return new JsonFileAdapter(isDefault ? baseDir : path.join(baseDir, libraryId));
+    case 'sqlite': {
+      const sqliteFile = process.env.LIBRARY_SQLITE_FILE ?? path.join(baseDir, 'biblioteca.db');
+      return new SqliteAdapter(
+        isDefault ? sqliteFile : sqliteFile.replace(/(\.db)?$/, `-${libraryId}.db`)
+      );
+    }
+    case 'memory':
+    default:
+      return new MemoryAdapter();
+  }
+}
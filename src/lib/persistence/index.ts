@@ -0,0 +1,8 @@
+// Capa de persistencia: adaptadores intercambiables por configuración
+export type { StorageAdapter, StorageCollection, StorageLog } from './StorageAdapter';
+export { MemoryAdapter } from './MemoryAdapter';
+export { JsonFileAdapter } from './JsonFileAdapter';
+export { SqliteAdapter } from './SqliteAdapter';
+export { createStorageAdapter, getStorageKind, DEFAULT_LIBRARY_ID } from './config';
+export type { StorageKind } from './config';
+export { serialize, deserialize } from './serialization';
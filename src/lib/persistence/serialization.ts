@@ -0,0 +1,23 @@
+/**
+ * Serialización JSON que preserva las fechas de las entidades
+ */
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?Z$/;
+
+/**
+ * Convierte de vuelta a Date las cadenas con formato ISO 8601
+ */
+function reviveDates(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+export function serialize<T>(data: T): string {
+  return JSON.stringify(data);
+}
+
+export function deserialize<T>(text: string): T {
+  return JSON.parse(text, reviveDates) as T;
+}
@@ -0,0 +1,105 @@
+/**
+ * Etiquetas libres de los libros ("lectura obligatoria", "premio Nobel"...)
+ * Dos etiquetas son la misma si solo difieren en mayúsculas, acentos o espacios;
+ * se conserva la forma con la que se usó por primera vez
+ */
+
+import type { Book, TagCount } from '@/types';
+
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Quita los espacios sobrantes de una etiqueta
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Clave de comparación: minúsculas y sin acentos (la misma que usa el Trie)
+ */
+export function tagKey(tag: string): string {
+  return normalizeTag(tag)
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Normaliza una lista de etiquetas: sin vacías ni repetidas
+ * Lanza un error si alguna supera el largo máximo
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const result = new Map<string, string>();
+
+  tags.map(normalizeTag).forEach(tag => {
+    if (!tag) return;
+    if (tag.length > MAX_TAG_LENGTH) {
+      throw new Error(`La etiqueta "${tag}" supera los ${MAX_TAG_LENGTH} caracteres`);
+    }
+    if (!result.has(tagKey(tag))) result.set(tagKey(tag), tag);
+  });
+
+  return Array.from(result.values());
+}
+
+/**
+ * Valida las etiquetas recibidas en una petición; retorna el error o null
+ */
+export function validateTags(value: unknown): string | null {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return 'Las etiquetas deben ser una lista de textos';
+  }
+
+  const tooLong = value.find(tag => normalizeTag(tag).length > MAX_TAG_LENGTH);
+  return tooLong ? `La etiqueta "${normalizeTag(tooLong)}" supera los ${MAX_TAG_LENGTH} caracteres` : null;
+}
+
+/**
+ * Etiquetas de un parámetro separado por comas (?tags=a,b)
+ */
+export function parseTags(value: string | null): string[] {
+  return value ? normalizeTags(value.split(',')) : [];
+}
+
+export function hasTag(book: Pick<Book, 'etiquetas'>, tag: string): boolean {
+  const key = tagKey(tag);
+  return (book.etiquetas ?? []).some(etiqueta => tagKey(etiqueta) === key);
+}
+
+/**
+ * Orden de la nube: más libros primero y, a igualdad, alfabético
+ */
+export function sortTagCounts(counts: TagCount[]): TagCount[] {
+  return counts.sort((a, b) => b.libros - a.libros || a.etiqueta.localeCompare(b.etiqueta));
+}
+
+/**
+ * Cuenta los libros de cada etiqueta recorriendo el catálogo
+ * Complejidad: O(n · e) donde e = etiquetas por libro
+ */
+export function countTags(books: Book[]): TagCount[] {
+  const counts = new Map<string, TagCount>();
+
+  books.forEach(book => (book.etiquetas ?? []).forEach(etiqueta => {
+    const entry = counts.get(tagKey(etiqueta));
+    if (entry) {
+      entry.libros++;
+    } else {
+      counts.set(tagKey(etiqueta), { etiqueta, libros: 1 });
+    }
+  }));
+
+  return sortTagCounts(Array.from(counts.values()));
+}
+
+/**
+ * Nivel de una etiqueta en la nube (1 a levels) según su número de libros
+ * Escala logarítmica para que las etiquetas muy usadas no aplasten al resto
+ */
+export function tagCloudLevel(count: number, min: number, max: number, levels: number = 5): number {
+  if (max <= min) return Math.ceil(levels / 2);
+
+  const ratio = (Math.log(count) - Math.log(min)) / (Math.log(max) - Math.log(min));
+  return 1 + Math.round(ratio * (levels - 1));
+}
@@ -0,0 +1,31 @@
+/**
+ * Middleware de las rutas API
+ * Rechaza las peticiones a bibliotecas no configuradas antes de llegar a la ruta,
+ * tanto por la cabecera X-Library-Id como por ?library (URLs de portadas)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkLibraryId } from '@/lib/libraries';
+
+export function middleware(request: NextRequest) {
+  const libraryId =
+    request.headers.get('x-library-id') ?? request.nextUrl.searchParams.get('library');
+
+  if (libraryId !== null) {
+    const rejected = checkLibraryId(libraryId);
+
+    if (rejected) {
+      return NextResponse.json(
+        { success: false, error: rejected.error },
+        { status: rejected.status }
+      );
+    }
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*',
+  runtime: 'nodejs',
+};
@@ -0,0 +1,322 @@
+/**
+ * Contenedor de servicios
+ * Construye un LibraryContext con todas sus dependencias inyectadas
+ * Cada biblioteca del proceso tiene su propio contexto aislado
+ */
+
+import {
+  createStorageAdapter,
+  DEFAULT_LIBRARY_ID,
+  type StorageAdapter,
+} from '@/lib/persistence';
+import type { Clock } from '@/lib/clock';
+import { checkLibraryId } from '@/lib/libraries';
+import { BookService, UserService } from './v1';
+import { BookServiceV2, UserServiceV2 } from './v2';
+import { GraphService, RecommendationService } from './v3';
+import {
+  EventLogService,
+  HistoryService,
+  MarcService,
+  CsvImportService,
+  DuplicateService,
+  LoanService,
+  ReservationService,
+  CopyService,
+  migrateToCopies,
+  ClassificationService,
+  migrateClassification,
+  SeriesService,
+  WorkService,
+  RepairService,
+  LocationService,
+  CoverService,
+  TagService,
+  SnapshotService,
+  IdempotencyService,
+  SchedulerService,
+  isSchedulerEnabled,
+  registerMaintenanceJobs,
+  SimulationClock,
+} from './core';
+import {
+  getRepositoryVersion,
+  type BookRepository,
+  type UserRepository,
+  type RepositoryVersion,
+} from './repositories';
+
+export interface LibraryContext {
+  libraryId: string;
+  storage: StorageAdapter;
+  clock: SimulationClock;
+  repositoryVersion: RepositoryVersion;
+  events: EventLogService;
+  history: HistoryService;
+  copies: CopyService;
+  classification: ClassificationService;
+  books: BookRepository;
+  series: SeriesService;
+  works: WorkService;
+  users: UserRepository;
+  graph: GraphService;
+  reservations: ReservationService;
+  loans: LoanService;
+  repairs: RepairService;
+  locations: LocationService;
+  covers: CoverService;
+  tags: TagService;
+  recommendations: RecommendationService;
+  marc: MarcService;
+  csvImport: CsvImportService;
+  duplicates: DuplicateService;
+  snapshots: SnapshotService;
+  idempotency: IdempotencyService;
+  scheduler: SchedulerService;
+}
+
+/**
+ * Opciones de construcción
+ * Cualquier servicio puede reemplazarse (por ejemplo, en pruebas)
+ */
+export type LibraryContextOptions = Partial<LibraryContext>;
+
+/**
+ * Repositorio de libros según la versión: V1 (LinkedList) o V2 (AVL + Trie)
+ */
+function createBookRepository(
+  version: RepositoryVersion,
+  storage: StorageAdapter,
+  events: EventLogService,
+  copies: CopyService,
+  classification: ClassificationService,
+  clock: Clock
+): BookRepository {
+  return version === 'v1'
+    ? new BookService({ storage, events, copies, classification, clock })
+    : new BookServiceV2({ storage, events, copies, classification, clock });
+}
+
+/**
+ * Repositorio de usuarios según la versión: V1 (LinkedList) o V2 (AVL + Trie)
+ */
+function createUserRepository(
+  version: RepositoryVersion,
+  storage: StorageAdapter,
+  events: EventLogService,
+  clock: Clock
+): UserRepository {
+  return version === 'v1'
+    ? new UserService({ storage, events, clock })
+    : new UserServiceV2({ storage, events, clock });
+}
+
+/**
+ * Crea un contexto nuevo; las dependencias se construyen en orden
+ * y solo se instancian las que no fueron provistas
+ */
+export function createLibraryContext(options: LibraryContextOptions = {}): LibraryContext {
+  const libraryId = options.libraryId ?? DEFAULT_LIBRARY_ID;
+  const storage = options.storage ?? createStorageAdapter(undefined, libraryId);
+  const clock = options.clock ?? new SimulationClock({ storage });
+  const events = options.events ?? new EventLogService({ storage, clock });
+  const history = options.history ?? new HistoryService({ storage, clock });
+  const repositoryVersion = options.repositoryVersion ?? getRepositoryVersion();
+  const copies = options.copies ?? new CopyService({ storage, events, clock });
+  const classification = options.classification ?? new ClassificationService({ storage });
+  const books = options.books ?? createBookRepository(
+    repositoryVersion,
+    storage,
+    events,
+    copies,
+    classification,
+    clock
+  );
+  const users = options.users ?? createUserRepository(repositoryVersion, storage, events, clock);
+  const graph = options.graph ?? new GraphService({ storage });
+  const reservations = options.reservations ?? new ReservationService({ storage, events, clock });
+
+  const loans = options.loans ?? new LoanService({
+    storage,
+    bookService: books,
+    userService: users,
+    reservationService: reservations,
+    copyService: copies,
+    historyService: history,
+    graphService: graph,
+    events,
+    clock,
+  });
+
+  // Los datos guardados antes de existir los ejemplares se migran al arrancar
+  migrateToCopies({ bookService: books, copyService: copies, loanService: loans, reservationService: reservations });
+  // y las categorías de la lista fija anterior pasan a nodos de la clasificación
+  migrateClassification({ bookService: books, classification });
+
+  const series = options.series ?? new SeriesService({ storage, bookService: books, clock });
+  const works = options.works ?? new WorkService({
+    storage,
+    bookService: books,
+    reservationService: reservations,
+    clock,
+  });
+
+  const repairs = options.repairs ?? new RepairService({
+    storage,
+    bookService: books,
+    copyService: copies,
+    loanService: loans,
+    historyService: history,
+    events,
+    clock,
+  });
+
+  const locations = options.locations ?? new LocationService({
+    storage,
+    bookService: books,
+    userService: users,
+    copyService: copies,
+    loanService: loans,
+  });
+
+  const covers = options.covers ?? new CoverService({ storage, bookService: books, libraryId });
+  const tags = options.tags ?? new TagService({ bookService: books, historyService: history });
+
+  const recommendations = options.recommendations ?? new RecommendationService({
+    graphService: graph,
+    bookService: books,
+    userService: users,
+    seriesService: series,
+    workService: works,
+  });
+
+  const marc = options.marc ?? new MarcService({
+    bookService: books,
+    classification,
+    copyService: copies,
+    clock,
+  });
+  const csvImport = options.csvImport ?? new CsvImportService({
+    bookService: books,
+    userService: users,
+    historyService: history,
+    classification,
+  });
+
+  const duplicates = options.duplicates ?? new DuplicateService({
+    bookService: books,
+    copyService: copies,
+    loanService: loans,
+    reservationService: reservations,
+    graphService: graph,
+    historyService: history,
+    events,
+  });
+
+  const snapshots = options.snapshots ?? new SnapshotService({
+    bookService: books,
+    userService: users,
+    loanService: loans,
+    reservationService: reservations,
+    copyService: copies,
+    historyService: history,
+    graphService: graph,
+    classification,
+    seriesService: series,
+    workService: works,
+    repairService: repairs,
+    locationService: locations,
+    events,
+    clock,
+  });
+
+  const idempotency = options.idempotency ?? new IdempotencyService({ storage, clock });
+
+  let scheduler = options.scheduler;
+  if (!scheduler) {
+    scheduler = new SchedulerService({ storage, clock });
+    registerMaintenanceJobs({
+      scheduler,
+      loanService: loans,
+      historyService: history,
+      graphService: graph,
+      idempotency,
+    });
+  }
+
+  return {
+    libraryId,
+    storage,
+    clock,
+    repositoryVersion,
+    events,
+    history,
+    copies,
+    classification,
+    books,
+    series,
+    works,
+    users,
+    graph,
+    reservations,
+    loans,
+    repairs,
+    locations,
+    covers,
+    tags,
+    recommendations,
+    marc,
+    csvImport,
+    duplicates,
+    snapshots,
+    idempotency,
+    scheduler,
+  };
+}
+
+// Registro en globalThis para sobrevivir a la recarga de módulos en desarrollo
+const globalForLibrary = globalThis as unknown as {
+  libraryContexts?: Map<string, LibraryContext>;
+};
+
+function getRegistry(): Map<string, LibraryContext> {
+  if (!globalForLibrary.libraryContexts) {
+    globalForLibrary.libraryContexts = new Map();
+  }
+  return globalForLibrary.libraryContexts;
+}
+
+/**
+ * Obtiene (o crea) el contexto de una biblioteca del proceso
+ * Solo se admiten las bibliotecas configuradas (LIBRARY_IDS), para que un
+ * identificador arbitrario no cree contextos con su planificador y sus datos
+ * El planificador de cada contexto arranca al crearlo (salvo LIBRARY_SCHEDULER=off)
+ */
+export function getLibraryContext(libraryId: string = DEFAULT_LIBRARY_ID): LibraryContext {
+  const rejected = checkLibraryId(libraryId);
+  if (rejected) {
+    throw new Error(rejected.error);
+  }
+
+  const registry = getRegistry();
+  let context = registry.get(libraryId);
+
+  if (!context) {
+    context = createLibraryContext({ libraryId });
+    registry.set(libraryId, context);
+
+    if (isSchedulerEnabled()) {
+      context.scheduler.start();
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Resuelve el contexto de una petición HTTP
+ * La biblioteca se elige con la cabecera X-Library-Id (por defecto 'default')
+ */
+export function resolveLibraryContext(request: Request): LibraryContext {
+  return getLibraryContext(request.headers.get('x-library-id') ?? DEFAULT_LIBRARY_ID);
+}
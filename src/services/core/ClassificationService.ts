@@ -0,0 +1,357 @@
+/**
+ * Servicio de Clasificación
+ * Árbol de materias (Dewey por defecto, configurable por biblioteca) al que se
+ * asignan los libros; permite navegar un subárbol y acumular conteos hacia arriba
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import {
+  DEFAULT_CLASSIFICATION,
+  DEFAULT_CLASSIFICATION_SYSTEM,
+  FALLBACK_CLASSIFICATION_CODE,
+  LEGACY_CATEGORY_CODES,
+  normalizeClassificationLabel,
+} from '@/lib/classification';
+import type { ClassificationNode, ClassificationScheme, ClassificationTreeNode } from '@/types';
+
+export interface ClassificationServiceDeps {
+  storage: StorageAdapter;
+}
+
+const CODE_PATTERN = /^[0-9A-Za-z][0-9A-Za-z.:/()"=+-]*$/;
+
+export class ClassificationService {
+  private storage: StorageAdapter;
+  private sistema: string = DEFAULT_CLASSIFICATION_SYSTEM;
+  private nodes: Map<string, ClassificationNode> = new Map();
+  private children: Map<string | null, string[]> = new Map();
+
+  constructor(deps: ClassificationServiceDeps) {
+    this.storage = deps.storage;
+
+    const stored = this.storage.load<ClassificationScheme>('classification');
+    this.restore(stored ?? { sistema: DEFAULT_CLASSIFICATION_SYSTEM, nodos: DEFAULT_CLASSIFICATION });
+  }
+
+  private persist(): void {
+    this.storage.save('classification', this.exportState());
+  }
+
+  private restore(scheme: ClassificationScheme): void {
+    this.sistema = scheme.sistema;
+    this.nodes = new Map(scheme.nodos.map(node => [node.codigo, { ...node }]));
+    this.reindex();
+  }
+
+  /**
+   * Reconstruye el índice de hijos, ordenados por código
+   */
+  private reindex(): void {
+    this.children = new Map();
+    this.nodes.forEach(node => {
+      this.children.set(node.padre, [...(this.children.get(node.padre) ?? []), node.codigo]);
+    });
+    this.children.forEach(codes => codes.sort((a, b) => a.localeCompare(b)));
+  }
+
+  /**
+   * Exporta la clasificación (sistema y nodos en orden de código)
+   */
+  public exportState(): ClassificationScheme {
+    return {
+      sistema: this.sistema,
+      nodos: this.getNodes().map(node => ({ ...node })),
+    };
+  }
+
+  /**
+   * Reemplaza la clasificación completa (usado al restaurar snapshots)
+   */
+  public importState(scheme: ClassificationScheme): void {
+    this.restore(scheme);
+    this.persist();
+  }
+
+  public getSystem(): string {
+    return this.sistema;
+  }
+
+  /**
+   * Todos los nodos en orden de código
+   */
+  public getNodes(): ClassificationNode[] {
+    return Array.from(this.nodes.values()).sort((a, b) => a.codigo.localeCompare(b.codigo));
+  }
+
+  public findNode(codigo: string): ClassificationNode | undefined {
+    return this.nodes.get(codigo);
+  }
+
+  public getChildren(codigo: string | null): ClassificationNode[] {
+    return (this.children.get(codigo) ?? []).map(code => this.nodes.get(code)!);
+  }
+
+  /**
+   * Ruta desde la clase principal hasta el nodo (incluido)
+   */
+  public getPath(codigo: string): ClassificationNode[] {
+    const path: ClassificationNode[] = [];
+    let node = this.nodes.get(codigo);
+
+    while (node) {
+      path.unshift(node);
+      node = node.padre ? this.nodes.get(node.padre) : undefined;
+    }
+
+    return path;
+  }
+
+  /**
+   * Códigos del nodo y de todos sus descendientes (recorrido en preorden)
+   */
+  public getSubtreeCodes(codigo: string): string[] {
+    if (!this.nodes.has(codigo)) return [];
+
+    const codes: string[] = [];
+    const stack = [codigo];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      codes.push(current);
+      stack.push(...[...(this.children.get(current) ?? [])].reverse());
+    }
+
+    return codes;
+  }
+
+  /**
+   * Acumula los conteos de cada nodo en todos sus ancestros
+   * Los códigos que no pertenecen al árbol se conservan sin acumular
+   */
+  public rollUp(counts: Record<string, number>): Record<string, number> {
+    const totals: Record<string, number> = {};
+
+    Object.entries(counts).forEach(([codigo, count]) => {
+      const path = this.getPath(codigo);
+      if (path.length === 0) {
+        totals[codigo] = (totals[codigo] ?? 0) + count;
+        return;
+      }
+      path.forEach(node => {
+        totals[node.codigo] = (totals[node.codigo] ?? 0) + count;
+      });
+    });
+
+    return totals;
+  }
+
+  /**
+   * Árbol de clases con el total de libros de cada subárbol
+   */
+  public getTree(counts: Record<string, number> = {}): ClassificationTreeNode[] {
+    const totals = this.rollUp(counts);
+
+    const build = (node: ClassificationNode): ClassificationTreeNode => ({
+      ...node,
+      total: totals[node.codigo] ?? 0,
+      hijos: this.getChildren(node.codigo).map(build),
+    });
+
+    return this.getChildren(null).map(build);
+  }
+
+  /**
+   * Resuelve un código, una etiqueta ("Matemáticas") o una categoría anterior
+   * ("Ciencia") al código de su nodo
+   */
+  public resolve(value: string): string | undefined {
+    const trimmed = value.trim();
+    if (this.nodes.has(trimmed)) return trimmed;
+
+    const label = normalizeClassificationLabel(trimmed);
+    const byLabel = Array.from(this.nodes.values()).find(
+      node => normalizeClassificationLabel(node.etiqueta) === label
+    );
+    if (byLabel) return byLabel.codigo;
+
+    const legacy = LEGACY_CATEGORY_CODES[trimmed];
+    return legacy && this.nodes.has(legacy) ? legacy : undefined;
+  }
+
+  /**
+   * Igual que resolve, pero lanza un error si el valor no corresponde a ningún nodo
+   */
+  public toCode(value: string): string {
+    const codigo = this.resolve(value);
+    if (!codigo) {
+      throw new Error(`Clasificación no válida: ${value}`);
+    }
+    return codigo;
+  }
+
+  /**
+   * Nodo más específico que contiene un número de clasificación arbitrario
+   * Se recorta el número por la derecha; los números de tres cifras prueban
+   * antes su división y su clase Dewey: "863.64" → "863" → "860" → "800"
+   * En la CDU el recorte llega a la clase: "821.134.2" → "821" → "82" → "8"
+   */
+  public findClosest(numero: string): string | undefined {
+    let candidate = numero.trim().replace(/\s+/g, '');
+
+    while (candidate.length > 0) {
+      if (this.nodes.has(candidate)) return candidate;
+
+      if (/^\d{3}$/.test(candidate)) {
+        const dewey = [`${candidate.slice(0, 2)}0`, `${candidate[0]}00`].find(code => this.nodes.has(code));
+        if (dewey) return dewey;
+      }
+
+      candidate = candidate.slice(0, -1).replace(/[.:/-]+$/, '');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Clase de los libros sin clasificación reconocible: "000" si existe,
+   * si no la primera clase principal
+   */
+  public getFallbackCode(): string {
+    return this.nodes.has(FALLBACK_CLASSIFICATION_CODE)
+      ? FALLBACK_CLASSIFICATION_CODE
+      : this.getChildren(null)[0].codigo;
+  }
+
+  private validateNode(node: ClassificationNode): void {
+    if (!CODE_PATTERN.test(node.codigo)) {
+      throw new Error(`Código de clasificación no válido: ${node.codigo}`);
+    }
+    if (!node.etiqueta || !node.etiqueta.trim()) {
+      throw new Error(`La clase ${node.codigo} necesita una etiqueta`);
+    }
+  }
+
+  /**
+   * Agrega una clase bajo un padre existente (o como clase principal si padre es null)
+   */
+  public addNode(node: ClassificationNode): ClassificationNode {
+    this.validateNode(node);
+
+    if (this.nodes.has(node.codigo)) {
+      throw new Error(`Ya existe la clase ${node.codigo}`);
+    }
+    if (node.padre !== null && !this.nodes.has(node.padre)) {
+      throw new Error(`Clase padre no encontrada: ${node.padre}`);
+    }
+
+    const created: ClassificationNode = {
+      codigo: node.codigo,
+      etiqueta: node.etiqueta.trim(),
+      padre: node.padre,
+    };
+    this.nodes.set(created.codigo, created);
+    this.reindex();
+    this.persist();
+
+    return created;
+  }
+
+  /**
+   * Cambia la etiqueta o el padre de una clase; no se permite mover una clase
+   * dentro de su propio subárbol
+   */
+  public updateNode(
+    codigo: string,
+    updates: Partial<Pick<ClassificationNode, 'etiqueta' | 'padre'>>
+  ): ClassificationNode | null {
+    const node = this.nodes.get(codigo);
+    if (!node) return null;
+
+    const updated: ClassificationNode = {
+      ...node,
+      etiqueta: updates.etiqueta !== undefined ? updates.etiqueta.trim() : node.etiqueta,
+      padre: updates.padre !== undefined ? updates.padre : node.padre,
+    };
+    this.validateNode(updated);
+
+    if (updated.padre !== null) {
+      if (!this.nodes.has(updated.padre)) {
+        throw new Error(`Clase padre no encontrada: ${updated.padre}`);
+      }
+      if (this.getSubtreeCodes(codigo).includes(updated.padre)) {
+        throw new Error('Una clase no puede colgar de sí misma ni de sus subclases');
+      }
+    }
+
+    this.nodes.set(codigo, updated);
+    this.reindex();
+    this.persist();
+
+    return updated;
+  }
+
+  /**
+   * Elimina una clase sin subclases
+   * Quien llama debe comprobar antes que ningún libro la usa
+   */
+  public removeNode(codigo: string): boolean {
+    if (!this.nodes.has(codigo)) return false;
+
+    if ((this.children.get(codigo) ?? []).length > 0) {
+      throw new Error('No se puede eliminar una clase con subclases');
+    }
+    if (this.nodes.size === 1) {
+      throw new Error('La clasificación necesita al menos una clase');
+    }
+
+    this.nodes.delete(codigo);
+    this.reindex();
+    this.persist();
+
+    return true;
+  }
+
+  /**
+   * Reemplaza el árbol completo (por ejemplo, por la CDU)
+   * Los códigos deben ser únicos, cada padre debe existir y no puede haber ciclos
+   */
+  public replaceTree(sistema: string, nodos: ClassificationNode[]): ClassificationScheme {
+    if (!sistema || !sistema.trim()) {
+      throw new Error('El sistema de clasificación es requerido');
+    }
+    if (nodos.length === 0) {
+      throw new Error('La clasificación necesita al menos una clase');
+    }
+
+    const byCode = new Map<string, ClassificationNode>();
+    nodos.forEach(node => {
+      this.validateNode(node);
+      if (byCode.has(node.codigo)) {
+        throw new Error(`Código de clasificación repetido: ${node.codigo}`);
+      }
+      byCode.set(node.codigo, { codigo: node.codigo, etiqueta: node.etiqueta.trim(), padre: node.padre ?? null });
+    });
+
+    byCode.forEach(node => {
+      if (node.padre !== null && !byCode.has(node.padre)) {
+        throw new Error(`Clase padre no encontrada: ${node.padre}`);
+      }
+
+      // Subiendo por los padres se debe llegar a una clase principal
+      const seen = new Set<string>([node.codigo]);
+      let padre = node.padre;
+      while (padre !== null) {
+        if (seen.has(padre)) {
+          throw new Error(`Ciclo en la clasificación: ${node.codigo}`);
+        }
+        seen.add(padre);
+        padre = byCode.get(padre)!.padre;
+      }
+    });
+
+    this.restore({ sistema: sistema.trim(), nodos: Array.from(byCode.values()) });
+    this.persist();
+
+    return this.exportState();
+  }
+}
@@ -0,0 +1,508 @@
+/**
+ * Servicio de Ejemplares
+ * Cada libro tiene ejemplares físicos con código de barras, condición y ubicación
+ * Utiliza AVLTree indexado por código de barras (único) para búsquedas O(log n)
+ * Los repositorios de libros se suscriben para recalcular copias y copiasDisponibles
+ */
+
+import { AVLTree } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type { BookStatus, Copy, CopyCondition, CopyStatus, CreateCopyDTO } from '@/types';
+import type { EventLogService } from './EventLogService';
+
+export interface CopyServiceDeps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+/**
+ * Disponibilidad de un libro calculada a partir de sus ejemplares
+ */
+export interface CopyAvailability {
+  copias: number;
+  copiasDisponibles: number;
+  estado: BookStatus;
+}
+
+export type CopyAvailabilityListener = (bookId: string) => void;
+
+/**
+ * Campos editables de un ejemplar
+ */
+export type CopyUpdate = Partial<Pick<Copy, 'codigoBarras' | 'condicion' | 'ubicacion' | 'estanteriaId' | 'estado' | 'notas'>>;
+
+export const COPY_CONDITIONS: CopyCondition[] = ['nuevo', 'bueno', 'regular', 'deteriorado'];
+
+// Estados que se asignan a mano; prestado y apartado los gestiona la circulación
+// y mantenimiento las órdenes de reparación (RepairService)
+export const MANUAL_COPY_STATUSES: CopyStatus[] = ['disponible', 'baja'];
+
+/**
+ * Calcula copias, copias disponibles y estado a partir de los ejemplares de un libro
+ * Los ejemplares dados de baja no cuentan
+ */
+export function computeAvailability(bookCopies: Copy[]): CopyAvailability {
+  const copies = bookCopies.filter(copy => copy.estado !== 'baja');
+  const copiasDisponibles = copies.filter(copy => copy.estado === 'disponible').length;
+  const enCirculacion = copies.some(copy => copy.estado === 'prestado' || copy.estado === 'apartado');
+  const enMantenimiento = copies.some(copy => copy.estado === 'mantenimiento');
+
+  let estado: BookStatus = 'prestado';
+  if (copiasDisponibles > 0) {
+    estado = 'disponible';
+  } else if (enMantenimiento && !enCirculacion) {
+    estado = 'mantenimiento';
+  }
+
+  return { copias: copies.length, copiasDisponibles, estado };
+}
+
+const BARCODE_PATTERN = /^[A-Za-z0-9-]{3,32}$/;
+const GENERATED_BARCODE_PREFIX = 'EJ-';
+
+export class CopyService {
+  private copiesByBarcode: AVLTree<Copy>;
+  private copiesById: Map<string, Copy>;
+  private listeners: CopyAvailabilityListener[];
+  private barcodeSequence: number;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private clock: Clock;
+
+  constructor(deps: CopyServiceDeps) {
+    this.copiesByBarcode = new AVLTree<Copy>();
+    this.copiesById = new Map();
+    this.listeners = [];
+    this.barcodeSequence = 0;
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedCopies = this.storage.load<Copy[]>('copies');
+    if (storedCopies) {
+      this.restore(storedCopies);
+    }
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `CP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Genera el siguiente código de barras secuencial (EJ-000001)
+   */
+  private generateBarcode(): string {
+    let barcode: string;
+    do {
+      this.barcodeSequence++;
+      barcode = `${GENERATED_BARCODE_PREFIX}${String(this.barcodeSequence).padStart(6, '0')}`;
+    } while (this.copiesByBarcode.search(barcode));
+    return barcode;
+  }
+
+  /**
+   * Guarda todos los ejemplares en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('copies', this.exportState());
+  }
+
+  private restore(copies: Copy[]): void {
+    this.copiesByBarcode.clear();
+    this.copiesById.clear();
+    this.barcodeSequence = 0;
+
+    copies.forEach(copy => {
+      this.indexCopy(copy);
+
+      const sequence = copy.codigoBarras.match(/^EJ-(\d+)$/);
+      if (sequence) {
+        this.barcodeSequence = Math.max(this.barcodeSequence, Number(sequence[1]));
+      }
+    });
+  }
+
+  private indexCopy(copy: Copy): void {
+    this.copiesByBarcode.insert(copy.codigoBarras, copy);
+    this.copiesById.set(copy.id, copy);
+  }
+
+  private unindexCopy(copy: Copy): void {
+    this.copiesByBarcode.delete(copy.codigoBarras);
+    this.copiesById.delete(copy.id);
+  }
+
+  private notify(bookId: string): void {
+    this.listeners.forEach(listener => listener(bookId));
+  }
+
+  /**
+   * Exporta todos los ejemplares
+   */
+  public exportState(): Copy[] {
+    return Array.from(this.copiesById.values());
+  }
+
+  /**
+   * Reemplaza todos los ejemplares
+   * No avisa a los suscriptores: quien importa recalcula la disponibilidad
+   */
+  public importState(copies: Copy[]): void {
+    this.restore(copies);
+    this.persist();
+  }
+
+  /**
+   * Suscribe una función a los cambios de disponibilidad de un libro
+   */
+  public onAvailabilityChange(listener: CopyAvailabilityListener): void {
+    this.listeners.push(listener);
+  }
+
+  private validateBarcode(barcode: string, currentId?: string): void {
+    if (!BARCODE_PATTERN.test(barcode)) {
+      throw new Error('El código de barras debe tener entre 3 y 32 letras, dígitos o guiones');
+    }
+
+    const existing = this.copiesByBarcode.search(barcode);
+    if (existing && existing.id !== currentId) {
+      throw new Error(`Ya existe un ejemplar con el código de barras ${barcode}`);
+    }
+  }
+
+  private validateFields(data: CopyUpdate): void {
+    if (data.condicion !== undefined && !COPY_CONDITIONS.includes(data.condicion)) {
+      throw new Error(`Condición no válida: ${data.condicion}`);
+    }
+
+    if (data.estado !== undefined && !MANUAL_COPY_STATUSES.includes(data.estado)) {
+      throw new Error(`Estado no válido para un ejemplar: ${data.estado}`);
+    }
+  }
+
+  private buildCopy(bookId: string, data: CreateCopyDTO): Copy {
+    const codigoBarras = data.codigoBarras?.trim() || this.generateBarcode();
+    this.validateBarcode(codigoBarras);
+    this.validateFields(data);
+
+    return {
+      id: this.generateId(),
+      libroId: bookId,
+      codigoBarras,
+      estado: data.estado ?? 'disponible',
+      condicion: data.condicion ?? 'bueno',
+      ubicacion: data.ubicacion?.trim() ?? '',
+      estanteriaId: data.estanteriaId ?? null,
+      fechaAlta: this.clock.now(),
+      notas: data.notas,
+    };
+  }
+
+  /**
+   * Agrega un ejemplar a un libro
+   */
+  public addCopy(bookId: string, data: CreateCopyDTO = {}): Copy {
+    const copy = this.buildCopy(bookId, data);
+
+    this.indexCopy(copy);
+    this.persist();
+    this.events.append('CopyAdded', { copy });
+    this.notify(bookId);
+
+    return copy;
+  }
+
+  /**
+   * Agrega varios ejemplares con código de barras generado
+   */
+  public addCopies(bookId: string, count: number, data: Omit<CreateCopyDTO, 'codigoBarras'> = {}): Copy[] {
+    const copies: Copy[] = [];
+    for (let i = 0; i < count; i++) {
+      const copy = this.buildCopy(bookId, data);
+      this.indexCopy(copy);
+      copies.push(copy);
+    }
+
+    if (copies.length === 0) return copies;
+
+    this.persist();
+    copies.forEach(copy => this.events.append('CopyAdded', { copy }));
+    this.notify(bookId);
+
+    return copies;
+  }
+
+  /**
+   * Registra un ejemplar que ya está prestado, apartado o en reparación
+   * Lo usa la migración de catálogos anteriores a los ejemplares
+   */
+  public addCirculatingCopy(bookId: string, estado: 'prestado' | 'apartado' | 'mantenimiento'): Copy {
+    const copy: Copy = { ...this.buildCopy(bookId, {}), estado };
+
+    this.indexCopy(copy);
+    this.persist();
+    this.events.append('CopyAdded', { copy });
+    this.notify(bookId);
+
+    return copy;
+  }
+
+  /**
+   * Busca un ejemplar por ID
+   */
+  public findCopyById(id: string): Copy | null {
+    return this.copiesById.get(id) ?? null;
+  }
+
+  /**
+   * Motivo por el que un código de barras no se puede asignar (formato o repetido), o null
+   */
+  public checkBarcode(barcode: string): string | null {
+    try {
+      this.validateBarcode(barcode.trim());
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Código de barras no válido';
+    }
+  }
+
+  /**
+   * Busca un ejemplar por código de barras
+   * Complejidad: O(log n)
+   */
+  public findByBarcode(barcode: string): Copy | null {
+    return this.copiesByBarcode.search(barcode.trim());
+  }
+
+  /**
+   * Obtiene los ejemplares de un libro, opcionalmente filtrados por estado
+   */
+  public getBookCopies(bookId: string, estado?: CopyStatus): Copy[] {
+    return this.exportState().filter(
+      copy => copy.libroId === bookId && (!estado || copy.estado === estado)
+    );
+  }
+
+  /**
+   * Indica si un libro tiene ejemplares registrados
+   */
+  public hasCopies(bookId: string): boolean {
+    for (const copy of this.copiesById.values()) {
+      if (copy.libroId === bookId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Primer ejemplar disponible de un libro (por código de barras)
+   */
+  public findAvailableCopy(bookId: string): Copy | null {
+    return this.getBookCopies(bookId, 'disponible')
+      .sort((a, b) => (a.codigoBarras < b.codigoBarras ? -1 : 1))[0] ?? null;
+  }
+
+  /**
+   * Calcula copias, copias disponibles y estado de un libro
+   */
+  public getAvailability(bookId: string): CopyAvailability {
+    return computeAvailability(this.getBookCopies(bookId));
+  }
+
+  /**
+   * Actualiza los datos de un ejemplar
+   * prestado, apartado y mantenimiento no se asignan ni se quitan a mano
+   */
+  public updateCopy(id: string, updates: CopyUpdate): Copy | null {
+    const copy = this.findCopyById(id);
+    if (!copy) return null;
+
+    this.validateFields(updates);
+
+    if (updates.estado !== undefined && updates.estado !== copy.estado && this.isCirculating(copy)) {
+      throw new Error('El ejemplar está prestado o apartado; su estado lo gestiona la circulación');
+    }
+
+    if (updates.estado !== undefined && updates.estado !== copy.estado && copy.estado === 'mantenimiento') {
+      throw new Error('El ejemplar está en reparación; vuelve a circular al cerrar su orden de reparación');
+    }
+
+    const changes: CopyUpdate = {};
+    (['condicion', 'ubicacion', 'estanteriaId', 'estado', 'notas'] as const).forEach(key => {
+      if (updates[key] !== undefined) Object.assign(changes, { [key]: updates[key] });
+    });
+
+    const barcode = updates.codigoBarras?.trim();
+    if (barcode && barcode !== copy.codigoBarras) {
+      this.validateBarcode(barcode, copy.id);
+      this.copiesByBarcode.delete(copy.codigoBarras);
+      this.copiesByBarcode.insert(barcode, copy);
+      changes.codigoBarras = barcode;
+    }
+
+    Object.assign(copy, changes);
+    this.persist();
+    this.events.append('CopyUpdated', { copyId: id, changes });
+    if (changes.estado) this.notify(copy.libroId);
+
+    return copy;
+  }
+
+  private isCirculating(copy: Copy): boolean {
+    return copy.estado === 'prestado' || copy.estado === 'apartado';
+  }
+
+  /**
+   * Elimina un ejemplar que no esté en circulación
+   */
+  public removeCopy(id: string): boolean {
+    const copy = this.findCopyById(id);
+    if (!copy) return false;
+
+    if (this.isCirculating(copy)) {
+      throw new Error('No se puede eliminar un ejemplar prestado o apartado');
+    }
+
+    if (copy.estado === 'mantenimiento') {
+      throw new Error('No se puede eliminar un ejemplar en reparación');
+    }
+
+    this.unindexCopy(copy);
+    this.persist();
+    this.events.append('CopyRemoved', { copyId: id });
+    this.notify(copy.libroId);
+
+    return true;
+  }
+
+  /**
+   * Elimina todos los ejemplares de un libro (al eliminar el libro)
+   */
+  public removeBookCopies(bookId: string): number {
+    const copies = this.getBookCopies(bookId);
+    if (copies.length === 0) return 0;
+
+    copies.forEach(copy => this.unindexCopy(copy));
+    this.persist();
+    copies.forEach(copy => this.events.append('CopyRemoved', { copyId: copy.id }));
+
+    return copies.length;
+  }
+
+  /**
+   * Pasa los ejemplares de un libro a otro (fusión de duplicados), o solo los indicados
+   * No emite eventos: BooksMerged ya describe el cambio
+   * Retorna los IDs de los ejemplares movidos
+   */
+  public moveCopies(fromBookId: string, toBookId: string, copyIds?: string[]): string[] {
+    const copies = this.getBookCopies(fromBookId).filter(copy => !copyIds || copyIds.includes(copy.id));
+    if (copies.length === 0) return [];
+
+    copies.forEach(copy => {
+      copy.libroId = toBookId;
+    });
+    this.persist();
+    this.notify(fromBookId);
+    this.notify(toBookId);
+
+    return copies.map(copy => copy.id);
+  }
+
+  /**
+   * Ajusta la cantidad de ejemplares de un libro (edición del campo copias)
+   * Agrega ejemplares nuevos o retira los disponibles; los que están en
+   * circulación o en reparación se conservan
+   */
+  public setCopyCount(bookId: string, count: number): void {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error('La cantidad de copias debe ser un entero no negativo');
+    }
+
+    const active = this.getBookCopies(bookId).filter(copy => copy.estado !== 'baja');
+    const difference = count - active.length;
+
+    if (difference > 0) {
+      this.addCopies(bookId, difference);
+      return;
+    }
+
+    if (difference === 0) return;
+
+    const removable = active
+      .filter(copy => copy.estado === 'disponible')
+      .slice(difference);
+
+    if (removable.length < -difference) {
+      throw new Error('No se pueden retirar ejemplares prestados, apartados o en reparación');
+    }
+
+    removable.forEach(copy => this.unindexCopy(copy));
+    this.persist();
+    removable.forEach(copy => this.events.append('CopyRemoved', { copyId: copy.id }));
+    this.notify(bookId);
+  }
+
+  /**
+   * Cambia el estado de circulación de un ejemplar (préstamo, devolución,
+   * apartado, reparación)
+   * No emite eventos: LoanCreated, BookReturned, Hold* y CopySentToRepair /
+   * CopyReturnedFromRepair ya describen el cambio
+   */
+  public setCirculationStatus(copyId: string, estado: CopyStatus): boolean {
+    const copy = this.findCopyById(copyId);
+    if (!copy) return false;
+
+    copy.estado = estado;
+    this.persist();
+    this.notify(copy.libroId);
+    return true;
+  }
+
+  /**
+   * Registra la condición de un ejemplar al salir de reparación
+   * No emite eventos: CopyReturnedFromRepair ya describe el cambio
+   */
+  public setCondition(copyId: string, condicion: CopyCondition): boolean {
+    const copy = this.findCopyById(copyId);
+    if (!copy) return false;
+
+    copy.condicion = condicion;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Obtiene estadísticas de los ejemplares
+   */
+  public getStats() {
+    const copies = this.exportState();
+    const porEstado: Record<string, number> = {};
+    const porCondicion: Record<string, number> = {};
+
+    copies.forEach(copy => {
+      porEstado[copy.estado] = (porEstado[copy.estado] || 0) + 1;
+      porCondicion[copy.condicion] = (porCondicion[copy.condicion] || 0) + 1;
+    });
+
+    return {
+      total: copies.length,
+      porEstado,
+      porCondicion,
+      alturaArbolCodigos: this.copiesByBarcode.getTreeHeight(),
+    };
+  }
+
+  /**
+   * Limpia todos los ejemplares
+   */
+  public clear(): void {
+    this.copiesByBarcode.clear();
+    this.copiesById.clear();
+    this.barcodeSequence = 0;
+    this.persist();
+  }
+}
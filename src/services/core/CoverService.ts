@@ -0,0 +1,161 @@
+/**
+ * Servicio de Portadas
+ * Recibe la imagen subida, genera las miniaturas de cada tamaño (WebP) y las
+ * guarda como archivos binarios en la capa de persistencia
+ * El libro solo guarda la URL de su portada, con la versión de la imagen (?v=)
+ */
+
+import { createHash } from 'node:crypto';
+import sharp from 'sharp';
+import { DEFAULT_LIBRARY_ID, type StorageAdapter } from '@/lib/persistence';
+import { COVER_SIZES, MAX_COVER_BYTES, type CoverSize } from '@/lib/covers';
+import type { Book } from '@/types';
+import type { BookRepository } from '../repositories';
+
+export interface CoverServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  libraryId?: string;
+}
+
+export interface StoredCover {
+  data: Buffer;
+  version: string;
+  contentType: string;
+}
+
+const COVER_CONTENT_TYPE = 'image/webp';
+
+const coverPrefix = (bookId: string) => `covers/${bookId}/`;
+const coverKey = (bookId: string, size: CoverSize) => `${coverPrefix(bookId)}${size}.webp`;
+
+export class CoverService {
+  private storage: StorageAdapter;
+  private bookService: BookRepository;
+  private libraryId: string;
+
+  constructor(deps: CoverServiceDeps) {
+    this.storage = deps.storage;
+    this.bookService = deps.bookService;
+    this.libraryId = deps.libraryId ?? DEFAULT_LIBRARY_ID;
+  }
+
+  /**
+   * URL de la portada guardada; las imágenes no pueden enviar la cabecera
+   * X-Library-Id, así que la biblioteca va en la propia URL
+   */
+  private buildUrl(bookId: string, version: string): string {
+    const library = this.libraryId === DEFAULT_LIBRARY_ID ? '' : `&library=${this.libraryId}`;
+    return `/api/books/${bookId}/cover?v=${version}${library}`;
+  }
+
+  /**
+   * Versión de la portada guardada del libro; null si no tiene o si es una URL externa
+   */
+  public getCoverVersion(book: Book): string | null {
+    if (!book.portada?.startsWith(`/api/books/${book.id}/cover`)) return null;
+
+    return new URL(book.portada, 'http://localhost').searchParams.get('v');
+  }
+
+  /**
+   * Genera las miniaturas de la imagen y las asigna como portada del libro
+   * Complejidad: proporcional al tamaño de la imagen por cada tamaño generado
+   */
+  public async uploadCover(bookId: string, image: Buffer): Promise<Book> {
+    if (!this.bookService.findBookById(bookId)) {
+      throw new Error('Libro no encontrado');
+    }
+
+    if (image.length === 0) {
+      throw new Error('El archivo está vacío');
+    }
+
+    if (image.length > MAX_COVER_BYTES) {
+      throw new Error(`La imagen supera el tamaño máximo de ${MAX_COVER_BYTES / (1024 * 1024)} MB`);
+    }
+
+    try {
+      await sharp(image).metadata();
+    } catch {
+      throw new Error('El archivo no es una imagen válida');
+    }
+
+    // rotate() aplica la orientación EXIF antes de recortar a 2:3
+    const thumbnails = await Promise.all(
+      (Object.keys(COVER_SIZES) as CoverSize[]).map(async size => ({
+        size,
+        data: await sharp(image)
+          .rotate()
+          .resize(COVER_SIZES[size].ancho, COVER_SIZES[size].alto, { fit: 'cover' })
+          .webp({ quality: 80 })
+          .toBuffer(),
+      }))
+    );
+
+    // El libro pudo eliminarse mientras se procesaba la imagen
+    if (!this.bookService.findBookById(bookId)) {
+      throw new Error('Libro no encontrado');
+    }
+
+    this.storage.deleteBlobs(coverPrefix(bookId));
+    thumbnails.forEach(({ size, data }) => this.storage.saveBlob(coverKey(bookId, size), data));
+
+    const version = createHash('sha1').update(image).digest('hex').slice(0, 12);
+    return this.bookService.updateBook(bookId, { portada: this.buildUrl(bookId, version) })!;
+  }
+
+  /**
+   * Quita la portada del libro y borra sus miniaturas
+   */
+  public removeCover(bookId: string): Book | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book) return null;
+
+    this.discardCovers(bookId);
+    return book.portada ? this.bookService.updateBook(bookId, { portada: null }) : book;
+  }
+
+  /**
+   * Miniatura de un tamaño; null si el libro no tiene portada guardada
+   * (por ejemplo, tras restaurar un snapshot de otra instalación)
+   */
+  public getCover(bookId: string, size: CoverSize): StoredCover | null {
+    const book = this.bookService.findBookById(bookId);
+    const version = book ? this.getCoverVersion(book) : null;
+    if (!version) return null;
+
+    const data = this.storage.loadBlob(coverKey(bookId, size));
+    return data ? { data, version, contentType: COVER_CONTENT_TYPE } : null;
+  }
+
+  /**
+   * Borra las miniaturas de un libro (al eliminarlo)
+   */
+  public discardCovers(bookId: string): void {
+    this.storage.deleteBlobs(coverPrefix(bookId));
+  }
+
+  /**
+   * Tras fusionar un duplicado (ya eliminado): si el libro conservado no tiene
+   * portada, hereda la del duplicado; las miniaturas del duplicado se borran siempre
+   */
+  public inheritCover(source: Book, targetId: string): Book | null {
+    const target = this.bookService.findBookById(targetId);
+    const version = this.getCoverVersion(source);
+
+    if (target && !target.portada && version) {
+      const thumbnails = (Object.keys(COVER_SIZES) as CoverSize[])
+        .map(size => ({ size, data: this.storage.loadBlob(coverKey(source.id, size)) }));
+
+      if (thumbnails.every(({ data }) => data)) {
+        thumbnails.forEach(({ size, data }) => this.storage.saveBlob(coverKey(targetId, size), data!));
+        this.discardCovers(source.id);
+        return this.bookService.updateBook(targetId, { portada: this.buildUrl(targetId, version) });
+      }
+    }
+
+    this.discardCovers(source.id);
+    return target;
+  }
+}
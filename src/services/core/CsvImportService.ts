@@ -0,0 +1,284 @@
+/**
+ * Servicio de importación CSV de libros y usuarios
+ * Cada fila se valida y se clasifica como creada, duplicada (ISBN o email) o con error
+ * En simulación (dryRun) no se guarda nada; en la importación real solo se crean las
+ * filas válidas, a través de addBook / addUser, y se registra una única operación de resumen
+ */
+
+import { parseCsv, autoMapColumns, BOOK_CSV_FIELDS, USER_CSV_FIELDS, type CsvField } from '@/lib/csv';
+import { validateIsbn } from '@/lib/isbn';
+import { parseContributors, resolveContributors } from '@/lib/contributors';
+import type {
+  CreateBookDTO,
+  CreateUserDTO,
+  CsvColumnMapping,
+  CsvImportReport,
+  CsvRowResult,
+} from '@/types';
+import type { BookRepository, UserRepository } from '../repositories';
+import type { HistoryService } from './HistoryService';
+import type { ClassificationService } from './ClassificationService';
+
+export interface CsvImportServiceDeps {
+  bookService: BookRepository;
+  userService: UserRepository;
+  historyService: HistoryService;
+  classification: ClassificationService;
+}
+
+export interface CsvImportOptions {
+  mapping?: CsvColumnMapping; // se combina con la correspondencia automática
+  dryRun?: boolean;
+}
+
+/**
+ * Fila lista para crear: clave de duplicado (ISBN o email), texto para el informe y datos
+ */
+interface PreparedRow<T> {
+  clave: string;
+  descripcion: string;
+  data: T;
+}
+
+interface ImportPlan<T> {
+  entidad: CsvImportReport['entidad'];
+  fields: CsvField[];
+  describe: (values: Record<string, string>) => string | undefined;
+  prepare: (values: Record<string, string>) => PreparedRow<T>;
+  findExisting: (clave: string) => boolean;
+  duplicateMessage: (clave: string) => string;
+  create: (data: T) => string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Entero de una celda; vacía toma el valor por defecto (si lo hay)
+ */
+function parseInteger(value: string, etiqueta: string, min: number, defaultValue?: number): number {
+  if (value === '' && defaultValue !== undefined) return defaultValue;
+
+  const number = Number(value);
+  if (value === '' || !Number.isInteger(number) || number < min) {
+    throw new Error(`${etiqueta} debe ser un entero mayor o igual que ${min}: "${value}"`);
+  }
+  return number;
+}
+
+export class CsvImportService {
+  private bookService: BookRepository;
+  private userService: UserRepository;
+  private historyService: HistoryService;
+  private classification: ClassificationService;
+
+  constructor(deps: CsvImportServiceDeps) {
+    this.bookService = deps.bookService;
+    this.userService = deps.userService;
+    this.historyService = deps.historyService;
+    this.classification = deps.classification;
+  }
+
+  /**
+   * Importa libros; columnas: titulo, autor o contribuyentes, isbn, anioPublicacion y opcionales
+   */
+  public importBooks(csv: string, options: CsvImportOptions = {}): CsvImportReport {
+    return this.run<CreateBookDTO>(csv, options, {
+      entidad: 'libros',
+      fields: BOOK_CSV_FIELDS,
+      describe: values => values.titulo || undefined,
+      prepare: values => this.prepareBook(values),
+      findExisting: isbn => Boolean(this.bookService.searchByISBN(isbn)),
+      duplicateMessage: isbn => `Ya existe un libro con el ISBN ${isbn}`,
+      create: data => this.bookService.addBook(data).id,
+    });
+  }
+
+  /**
+   * Importa usuarios; columnas: nombre, apellido, email y opcionales
+   */
+  public importUsers(csv: string, options: CsvImportOptions = {}): CsvImportReport {
+    return this.run<CreateUserDTO>(csv, options, {
+      entidad: 'usuarios',
+      fields: USER_CSV_FIELDS,
+      describe: values => [values.nombre, values.apellido].filter(Boolean).join(' ') || undefined,
+      prepare: values => this.prepareUser(values),
+      findExisting: email => Boolean(this.userService.findByEmail(email)),
+      duplicateMessage: email => `Ya existe un usuario con el email ${email}`,
+      create: data => this.userService.addUser(data).id,
+    });
+  }
+
+  private run<T>(csv: string, options: CsvImportOptions, plan: ImportPlan<T>): CsvImportReport {
+    const [headers, ...rows] = parseCsv(csv);
+
+    if (!headers || rows.length === 0) {
+      throw new Error('El CSV no tiene filas de datos');
+    }
+
+    const mapping = this.resolveMapping(headers.map(header => header.trim()), plan.fields, options.mapping);
+    const simulacion = options.dryRun === true;
+    const report: CsvImportReport = {
+      entidad: plan.entidad,
+      simulacion,
+      total: rows.length,
+      creados: [],
+      duplicados: [],
+      errores: [],
+    };
+
+    // Claves ya vistas en el archivo y fila en que aparecieron
+    const seen = new Map<string, number>();
+
+    rows.forEach((cells, index) => {
+      const fila = index + 2;
+      const values: Record<string, string> = {};
+      Object.entries(mapping).forEach(([campo, header]) => {
+        values[campo] = (cells[headers.findIndex(h => h.trim() === header)] ?? '').trim();
+      });
+
+      let prepared: PreparedRow<T>;
+      try {
+        prepared = plan.prepare(values);
+      } catch (error) {
+        report.errores.push({
+          fila,
+          resultado: 'error',
+          descripcion: plan.describe(values),
+          error: error instanceof Error ? error.message : 'Fila no válida',
+        });
+        return;
+      }
+
+      const { clave, descripcion, data } = prepared;
+      const filaAnterior = seen.get(clave);
+
+      if (filaAnterior !== undefined || plan.findExisting(clave)) {
+        report.duplicados.push({
+          fila,
+          resultado: 'duplicado',
+          clave,
+          descripcion,
+          error: filaAnterior !== undefined
+            ? `Repetido en el archivo (fila ${filaAnterior})`
+            : plan.duplicateMessage(clave),
+        });
+        return;
+      }
+      seen.set(clave, fila);
+
+      const result: CsvRowResult = { fila, resultado: 'creado', clave, descripcion };
+
+      if (!simulacion) {
+        try {
+          result.id = plan.create(data);
+        } catch (error) {
+          report.errores.push({
+            fila,
+            resultado: 'error',
+            clave,
+            descripcion,
+            error: error instanceof Error ? error.message : 'Error al crear el registro',
+          });
+          return;
+        }
+      }
+
+      report.creados.push(result);
+    });
+
+    if (!simulacion) {
+      this.historyService.logCsvImport(report);
+    }
+
+    return report;
+  }
+
+  /**
+   * Correspondencia automática más la indicada; comprueba que las columnas existan
+   * y que los campos obligatorios tengan columna
+   */
+  private resolveMapping(headers: string[], fields: CsvField[], custom: CsvColumnMapping = {}): CsvColumnMapping {
+    const mapping: CsvColumnMapping = { ...autoMapColumns(headers, fields) };
+
+    Object.entries(custom).forEach(([campo, header]) => {
+      if (!fields.some(field => field.campo === campo)) {
+        throw new Error(`Campo desconocido en la correspondencia: ${campo}`);
+      }
+      if (!header) {
+        delete mapping[campo];
+        return;
+      }
+      if (!headers.includes(header)) {
+        throw new Error(`La columna "${header}" no existe en el CSV`);
+      }
+      mapping[campo] = header;
+    });
+
+    const missing = fields.filter(field => field.requerido && !mapping[field.campo]);
+    if (missing.length > 0) {
+      throw new Error(`Falta la columna de: ${missing.map(field => field.etiqueta).join(', ')}`);
+    }
+
+    return mapping;
+  }
+
+  private prepareBook(values: Record<string, string>): PreparedRow<CreateBookDTO> {
+    if (!values.titulo) {
+      throw new Error('Falta el título');
+    }
+
+    const isbn = validateIsbn(values.isbn ?? '');
+    if (!isbn.valido) {
+      throw new Error(isbn.error);
+    }
+
+    // Contribuyentes con el formato "Nombre (rol); Nombre (rol)"; si no, la columna autor
+    const contribuyentes = values.contribuyentes
+      ? resolveContributors({ contribuyentes: parseContributors(values.contribuyentes) })
+      : resolveContributors({ autor: values.autor ?? '' });
+
+    // Código, etiqueta o categoría anterior; vacía va a la clase de respaldo
+    const categoria = values.categoria
+      ? this.classification.toCode(values.categoria)
+      : this.classification.getFallbackCode();
+
+    return {
+      clave: isbn.normalizado!,
+      descripcion: values.titulo,
+      data: {
+        titulo: values.titulo,
+        contribuyentes,
+        isbn: isbn.normalizado!,
+        categoria,
+        anioPublicacion: parseInteger(values.anioPublicacion ?? '', 'El año de publicación', 0),
+        editorial: values.editorial ?? '',
+        numeroPaginas: parseInteger(values.numeroPaginas ?? '', 'El número de páginas', 0, 0),
+        copias: parseInteger(values.copias ?? '', 'El número de copias', 1, 1),
+        descripcion: values.descripcion || undefined,
+      },
+    };
+  }
+
+  private prepareUser(values: Record<string, string>): PreparedRow<CreateUserDTO> {
+    if (!values.nombre || !values.apellido) {
+      throw new Error('Faltan el nombre o el apellido');
+    }
+
+    const email = (values.email ?? '').toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new Error(`Email no válido: "${values.email ?? ''}"`);
+    }
+
+    return {
+      clave: email,
+      descripcion: `${values.nombre} ${values.apellido}`,
+      data: {
+        nombre: values.nombre,
+        apellido: values.apellido,
+        email,
+        telefono: values.telefono ?? '',
+        direccion: values.direccion ?? '',
+      },
+    };
+  }
+}
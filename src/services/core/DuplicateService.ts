@@ -0,0 +1,299 @@
+/**
+ * Servicio de Duplicados
+ * Detecta libros que probablemente son la misma obra (ISBN normalizado, título
+ * parecido mediante Trie.fuzzySearch y autores parecidos) y fusiona un duplicado
+ * en el libro que se conserva: ejemplares, préstamos, reservas, apartados y grafo
+ */
+
+import { Trie, jaccardIndex } from '@/lib/data-structures';
+import { toIsbnKey } from '@/lib/isbn';
+import { LEADING_ARTICLES } from '@/lib/callNumbers';
+import type { Book, BookMergeResult, DuplicateCandidate } from '@/types';
+import type { BookRepository } from '../repositories';
+import type { CopyService } from './CopyService';
+import type { LoanService } from './LoanService';
+import type { ReservationService } from './ReservationService';
+import type { HistoryService } from './HistoryService';
+import type { EventLogService } from './EventLogService';
+import type { GraphService } from '../v3/GraphService';
+import { runInUnitOfWork } from './UnitOfWork';
+
+export interface DuplicateServiceDeps {
+  bookService: BookRepository;
+  copyService: CopyService;
+  loanService: LoanService;
+  reservationService: ReservationService;
+  graphService: GraphService;
+  historyService: HistoryService;
+  events: EventLogService;
+}
+
+export const DEFAULT_DUPLICATE_CONFIDENCE = 0.7;
+
+// Peso de cada señal cuando el ISBN no coincide; suman 0.95, la confianza 1 queda
+// reservada al mismo ISBN
+const TITLE_WEIGHT = 0.55;
+const AUTHOR_WEIGHT = 0.3;
+const YEAR_WEIGHT = 0.1;
+
+/**
+ * Título comparable: minúsculas, sin acentos, signos ni artículo inicial
+ * "El Quijote." → "quijote"
+ */
+function normalizeTitle(titulo: string): string {
+  return titulo
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(LEADING_ARTICLES, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similitud de títulos normalizados: 1 - distancia de edición relativa
+ */
+function titleSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Palabras de los nombres de los autores (o de todos los contribuyentes si no hay autores)
+ */
+function authorTokens(book: Book): Set<string> {
+  const autores = book.contribuyentes.filter(c => c.rol === 'autor');
+  const nombres = (autores.length > 0 ? autores : book.contribuyentes).map(c => c.nombre);
+
+  return new Set(
+    nombres
+      .join(' ')
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Índice de Jaccard de las palabras de los autores
+ * Una inicial ("g") cuenta como la palabra del otro libro que empieza por ella ("gabriel")
+ */
+function authorSimilarity(a: Book, b: Book): number {
+  const tokensA = authorTokens(a);
+  const tokensB = authorTokens(b);
+
+  const expand = (tokens: Set<string>, other: Set<string>) => new Set(
+    Array.from(tokens).map(token =>
+      token.length === 1
+        ? Array.from(other).find(candidate => candidate.startsWith(token)) ?? token
+        : token
+    )
+  );
+
+  return jaccardIndex(expand(tokensA, tokensB), expand(tokensB, tokensA));
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export class DuplicateService {
+  private bookService: BookRepository;
+  private copyService: CopyService;
+  private loanService: LoanService;
+  private reservationService: ReservationService;
+  private graphService: GraphService;
+  private historyService: HistoryService;
+  private events: EventLogService;
+
+  constructor(deps: DuplicateServiceDeps) {
+    this.bookService = deps.bookService;
+    this.copyService = deps.copyService;
+    this.loanService = deps.loanService;
+    this.reservationService = deps.reservationService;
+    this.graphService = deps.graphService;
+    this.historyService = deps.historyService;
+    this.events = deps.events;
+  }
+
+  /**
+   * Lista los pares de libros posiblemente duplicados, de mayor a menor confianza
+   * Los candidatos salen del mismo ISBN (ISBN-10 e ISBN-13 comparten clave) y de
+   * Trie.fuzzySearch sobre los títulos normalizados; no se proponen ediciones de una misma obra
+   * Complejidad: O(n² · m²) en el peor caso (m = longitud del título)
+   */
+  public findDuplicates(minConfianza: number = DEFAULT_DUPLICATE_CONFIDENCE): DuplicateCandidate[] {
+    const books = this.bookService.getAllBooks();
+    const order = new Map(books.map((book, index) => [book.id, index]));
+    const pairs = new Map<string, [Book, Book]>();
+
+    const addPair = (a: Book, b: Book) => {
+      if (a.id === b.id) return;
+      // Las ediciones agrupadas en una obra ya se sabe que son libros distintos
+      if (a.obraId && a.obraId === b.obraId) return;
+      const [first, second] = order.get(a.id)! < order.get(b.id)! ? [a, b] : [b, a];
+      pairs.set(`${first.id}|${second.id}`, [first, second]);
+    };
+
+    // Mismo ISBN en distinto formato (datos anteriores a la normalización)
+    const byIsbn = new Map<string, Book[]>();
+    books.forEach(book => {
+      const key = toIsbnKey(book.isbn);
+      byIsbn.set(key, [...(byIsbn.get(key) ?? []), book]);
+    });
+    byIsbn.forEach(group => group.forEach((a, i) => group.slice(i + 1).forEach(b => addPair(a, b))));
+
+    // Títulos a poca distancia de edición; cada clave guarda los libros con ese título
+    const titles = new Trie<Book[]>();
+    books.forEach(book => {
+      const key = normalizeTitle(book.titulo);
+      titles.insert(key, [...(titles.search(key) ?? []), book]);
+    });
+
+    books.forEach(book => {
+      const key = normalizeTitle(book.titulo);
+      const maxDistance = Math.max(1, Math.floor(key.length / 5));
+      titles.fuzzySearch(key, maxDistance).flat().forEach(other => addPair(book, other));
+    });
+
+    return Array.from(pairs.values())
+      .map(([a, b]) => this.score(a, b))
+      .filter(candidate => candidate.confianza >= minConfianza)
+      .sort((a, b) => b.confianza - a.confianza);
+  }
+
+  /**
+   * Confianza de que dos libros sean la misma obra
+   * Mismo ISBN: 1; si no, combinación ponderada de título, autores y año (hasta 0.95)
+   */
+  private score(a: Book, b: Book): DuplicateCandidate {
+    const motivos: string[] = [];
+    const mismoIsbn = toIsbnKey(a.isbn) === toIsbnKey(b.isbn);
+    const titulo = titleSimilarity(normalizeTitle(a.titulo), normalizeTitle(b.titulo));
+    const autor = authorSimilarity(a, b);
+    const mismoAnio = a.anioPublicacion === b.anioPublicacion;
+
+    if (mismoIsbn) motivos.push('Mismo ISBN');
+    motivos.push(titulo === 1 ? 'Mismo título' : `Título similar (${percent(titulo)})`);
+    if (autor === 1) {
+      motivos.push('Mismos autores');
+    } else if (autor > 0) {
+      motivos.push(`Autores similares (${percent(autor)})`);
+    }
+    if (mismoAnio) motivos.push('Mismo año de publicación');
+
+    const confianza = mismoIsbn
+      ? 1
+      : TITLE_WEIGHT * titulo + AUTHOR_WEIGHT * autor + (mismoAnio ? YEAR_WEIGHT : 0);
+
+    return {
+      libroA: a,
+      libroB: b,
+      confianza: Math.round(confianza * 100) / 100,
+      motivos,
+    };
+  }
+
+  /**
+   * Fusiona el libro sourceId en targetId, que se conserva con sus datos
+   * Los ejemplares, préstamos (también los devueltos), reservas y apartados pasan
+   * al libro conservado, los nodos del grafo se unen y el duplicado se elimina
+   * Cada paso se compensa si uno posterior falla
+   */
+  public mergeBooks(targetId: string, sourceId: string): BookMergeResult {
+    if (targetId === sourceId) {
+      throw new Error('No se puede fusionar un libro consigo mismo');
+    }
+
+    const target = this.bookService.findBookById(targetId);
+    if (!target) {
+      throw new Error('Libro a conservar no encontrado');
+    }
+
+    const source = this.bookService.findBookById(sourceId);
+    if (!source) {
+      throw new Error('Libro a fusionar no encontrado');
+    }
+
+    const copyIds = this.copyService.getBookCopies(sourceId).map(copy => copy.id);
+    const loanIds = this.loanService.getBookLoans(sourceId).map(loan => loan.id);
+
+    return runInUnitOfWork(uow => {
+      uow.step(
+        'Mover ejemplares',
+        () => this.copyService.moveCopies(sourceId, targetId, copyIds),
+        () => this.copyService.moveCopies(targetId, sourceId, copyIds)
+      );
+
+      uow.step(
+        'Mover préstamos',
+        () => this.loanService.reassignLoans(sourceId, targetId, loanIds),
+        () => this.loanService.reassignLoans(targetId, sourceId, loanIds)
+      );
+
+      // La unión de colas modifica las reservas; se guarda una copia para revertir
+      const queues = structuredClone(this.reservationService.exportState());
+      const holds = structuredClone(this.reservationService.exportHolds());
+      const reservas = uow.step(
+        'Unir reservas y apartados',
+        () => this.reservationService.mergeReservations(sourceId, targetId),
+        () => {
+          this.reservationService.importState(queues);
+          this.reservationService.importHolds(holds);
+        }
+      );
+
+      const graphState = this.graphService.exportState();
+      uow.step(
+        'Unir nodos del grafo',
+        () => this.graphService.mergeBooks(sourceId, targetId),
+        () => this.graphService.importState(graphState)
+      );
+
+      const result: BookMergeResult = {
+        libro: target,
+        fusionadoId: sourceId,
+        ejemplares: copyIds.length,
+        prestamos: loanIds.length,
+        reservas: reservas.reservas,
+        reservasDescartadas: reservas.descartadas,
+        apartados: reservas.apartados,
+      };
+
+      const historyState = this.historyService.exportState();
+      uow.step(
+        'Registrar fusión en el historial',
+        () => this.historyService.logBookMerge(result, source.titulo),
+        () => this.historyService.importState(historyState)
+      );
+
+      // Último paso: eliminar el duplicado ya vacío
+      const booksState = this.bookService.exportState();
+      uow.step(
+        'Eliminar libro fusionado',
+        () => this.bookService.deleteBook(sourceId),
+        () => this.bookService.importState(booksState)
+      );
+
+      uow.afterCommit(() => this.events.append('BooksMerged', { sourceId, targetId }));
+
+      return result;
+    });
+  }
+}
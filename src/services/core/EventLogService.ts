@@ -0,0 +1,115 @@
+/**
+ * Servicio de Registro de Eventos
+ * Registro de solo-anexado (append-only) con los eventos de dominio
+ * Es la fuente de verdad: reproducirlo reconstruye el estado de todos los servicios
+ */
+
+import { DynamicArray } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type {
+  DomainEvent,
+  DomainEventPayloads,
+  DomainEventType,
+  LibraryState,
+} from '@/types';
+import { projectEvents } from './eventProjection';
+
+export interface EventFilter {
+  type?: DomainEventType;
+  afterSequence?: number;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface EventLogServiceDeps {
+  storage: StorageAdapter;
+  clock?: Clock;
+}
+
+export class EventLogService {
+  private events: DynamicArray<DomainEvent>;
+  private storage: StorageAdapter;
+  private clock: Clock;
+
+  constructor(deps: EventLogServiceDeps) {
+    this.events = new DynamicArray<DomainEvent>();
+    this.storage = deps.storage;
+    this.clock = deps.clock ?? systemClock;
+    this.storage.readLog<DomainEvent>('events').forEach(event => this.events.push(event));
+  }
+
+  /**
+   * Número de secuencia del último evento registrado
+   */
+  public getLastSequence(): number {
+    const last = this.events.get(this.events.size() - 1);
+    return last ? last.sequence : 0;
+  }
+
+  /**
+   * Agrega un evento al final del registro
+   * El payload se copia para que mutaciones posteriores no alteren el evento
+   */
+  public append<K extends DomainEventType>(
+    type: K,
+    payload: DomainEventPayloads[K]
+  ): DomainEvent {
+    const event = {
+      sequence: this.getLastSequence() + 1,
+      type,
+      timestamp: this.clock.now(),
+      payload: structuredClone(payload),
+    } as DomainEvent;
+
+    this.events.push(event);
+    this.storage.append('events', event);
+    return event;
+  }
+
+  /**
+   * Obtiene eventos filtrados en orden cronológico
+   */
+  public getEvents(filter: EventFilter = {}): DomainEvent[] {
+    const { type, afterSequence, since, until, limit } = filter;
+
+    const events = this.events.filter(event =>
+      (!type || event.type === type) &&
+      (afterSequence === undefined || event.sequence > afterSequence) &&
+      (!since || event.timestamp >= since) &&
+      (!until || event.timestamp <= until)
+    );
+
+    return limit !== undefined ? events.slice(0, limit) : events;
+  }
+
+  /**
+   * Reproduce el registro hasta una fecha (o completo) sin modificar los servicios
+   * Permite consultar el estado de la biblioteca en un momento dado
+   */
+  public project(until?: Date): LibraryState {
+    return projectEvents(this.events.toArray(), until);
+  }
+
+  /**
+   * Obtiene estadísticas del registro
+   */
+  public getStats() {
+    const porTipo: Record<string, number> = {};
+    this.events.toArray().forEach(event => {
+      porTipo[event.type] = (porTipo[event.type] || 0) + 1;
+    });
+
+    const first = this.events.get(0);
+    const last = this.events.get(this.events.size() - 1);
+
+    return {
+      total: this.events.size(),
+      ultimaSecuencia: this.getLastSequence(),
+      primerEvento: first?.timestamp ?? null,
+      ultimoEvento: last?.timestamp ?? null,
+      porTipo,
+    };
+  }
+}
@@ -4,25 +4,39 @@
 */
 
 import { Stack } from '@/lib/data-structures';
-import type { Operation, OperationType } from '@/types';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type {
+  Book,
+  BookMergeResult,
+  BulkTagAction,
+  CsvImportReport,
+  Operation,
+  OperationType,
+  RepairTicket,
+} from '@/types';
+
+export interface HistoryServiceDeps {
+  storage: StorageAdapter;
+  clock?: Clock;
+}
 
 export class HistoryService {
   private history: Stack<Operation>;
-  private static instance: HistoryService;
+  private storage: StorageAdapter;
+  private clock: Clock;
   private readonly MAX_HISTORY = 100;
 
-  private constructor() {
+  constructor(deps: HistoryServiceDeps) {
     this.history = new Stack<Operation>();
-  }
+    this.storage = deps.storage;
+    this.clock = deps.clock ?? systemClock;
 
-  /**
-   * Patrón Singleton
-   */
-  public static getInstance(): HistoryService {
-    if (!HistoryService.instance) {
-      HistoryService.instance = new HistoryService();
+    // Se guarda del tope al fondo, se apila del fondo al tope
+    const storedOperations = this.storage.load<Operation[]>('history');
+    if (storedOperations) {
+      this.restore(storedOperations);
     }
-    return HistoryService.instance;
   }
 
   /**
@@ -32,6 +46,33 @@ export class HistoryService {
     return `OP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Guarda el historial en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('history', this.exportState());
+  }
+
+  private restore(operations: Operation[]): void {
+    this.history.clear();
+    [...operations].reverse().forEach(op => this.history.push(op));
+  }
+
+  /**
+   * Exporta el historial (del tope al fondo)
+   */
+  public exportState(): Operation[] {
+    return this.history.toArray();
+  }
+
+  /**
+   * Reemplaza el historial completo
+   */
+  public importState(operations: Operation[]): void {
+    this.restore(operations);
+    this.persist();
+  }
+
   /**
    * Registra una nueva operación
    */
@@ -46,7 +87,7 @@ export class HistoryService {
       id: this.generateId(),
       tipo,
       descripcion,
-      fecha: new Date(),
+      fecha: this.clock.now(),
       usuarioId,
       libroId,
       detalles,
@@ -61,6 +102,7 @@ export class HistoryService {
       recentOperations.reverse().forEach(op => this.history.push(op));
     }
 
+    this.persist();
     return operation;
   }
 
@@ -156,6 +198,23 @@ export class HistoryService {
     );
   }
 
+  /**
+   * Registra el fin automático de un préstamo digital en su fecha de devolución
+   */
+  public logDigitalLoanEnded(
+    userId: string,
+    bookId: string,
+    userName: string,
+    bookTitle: string
+  ): Operation {
+    return this.logOperation(
+      'finalizar_prestamo_digital',
+      `Préstamo digital finalizado: ${bookTitle} de ${userName}`,
+      userId,
+      bookId
+    );
+  }
+
   /**
    * Registra operación de reserva
    */
@@ -173,6 +232,91 @@ export class HistoryService {
     );
   }
 
+  /**
+   * Registra el resumen de una importación CSV (una sola operación por archivo)
+   */
+  public logCsvImport(report: CsvImportReport): Operation {
+    return this.logOperation(
+      report.entidad === 'libros' ? 'importar_libros' : 'importar_usuarios',
+      `Importación CSV de ${report.entidad}: ${report.creados.length} creados, ` +
+        `${report.duplicados.length} duplicados, ${report.errores.length} con error`,
+      undefined,
+      undefined,
+      {
+        total: report.total,
+        creados: report.creados.length,
+        duplicados: report.duplicados.length,
+        errores: report.errores.length,
+        ids: report.creados.map(row => row.id),
+      }
+    );
+  }
+
+  /**
+   * Registra la fusión de un libro duplicado en el que se conserva
+   */
+  public logBookMerge(result: BookMergeResult, tituloFusionado: string): Operation {
+    return this.logOperation(
+      'fusionar_libros',
+      `Libros fusionados: ${tituloFusionado} → ${result.libro.titulo}`,
+      undefined,
+      result.libro.id,
+      {
+        fusionadoId: result.fusionadoId,
+        ejemplares: result.ejemplares,
+        prestamos: result.prestamos,
+        reservas: result.reservas,
+        reservasDescartadas: result.reservasDescartadas,
+        apartados: result.apartados,
+      }
+    );
+  }
+
+  /**
+   * Registra el último paso de una orden de reparación
+   */
+  public logRepair(ticket: RepairTicket, bookTitle: string, codigoBarras: string): Operation {
+    const paso = ticket.pasos[ticket.pasos.length - 1];
+    const ejemplar = `${bookTitle} (${codigoBarras})`;
+
+    let tipo: OperationType = 'enviar_reparacion';
+    let descripcion = `Enviado a reparación: ${ejemplar}. Motivo: ${ticket.motivo}`;
+    if (paso.estado === 'en_reparacion') {
+      tipo = 'iniciar_reparacion';
+      descripcion = `Reparación iniciada: ${ejemplar}`;
+    } else if (paso.estado === 'cerrada') {
+      tipo = 'cerrar_reparacion';
+      descripcion = ticket.resultado === 'baja'
+        ? `Baja tras reparación: ${ejemplar}`
+        : `Vuelve a circulación: ${ejemplar}`;
+    }
+
+    return this.logOperation(
+      tipo,
+      descripcion,
+      undefined,
+      ticket.libroId,
+      { ticketId: ticket.id, copiaId: ticket.copiaId, nota: paso.nota }
+    );
+  }
+
+  /**
+   * Registra el resumen de un etiquetado en bloque (una sola operación)
+   */
+  public logBulkTag(action: BulkTagAction, etiquetas: string[], libros: Book[]): Operation {
+    const lista = etiquetas.map(etiqueta => `"${etiqueta}"`).join(', ');
+
+    return this.logOperation(
+      action === 'tag' ? 'etiquetar_libros' : 'desetiquetar_libros',
+      action === 'tag'
+        ? `Etiquetas ${lista} agregadas a ${libros.length} libros`
+        : `Etiquetas ${lista} quitadas de ${libros.length} libros`,
+      undefined,
+      undefined,
+      { etiquetas, ids: libros.map(book => book.id) }
+    );
+  }
+
   /**
    * Obtiene las últimas N operaciones
    */
@@ -242,11 +386,28 @@ export class HistoryService {
     };
   }
 
+  /**
+   * Elimina las operaciones anteriores a una fecha
+   * Retorna la cantidad de operaciones eliminadas
+   */
+  public purgeBefore(date: Date): number {
+    const operations = this.history.toArray();
+    const kept = operations.filter(op => op.fecha >= date);
+    const removed = operations.length - kept.length;
+
+    if (removed > 0) {
+      this.importState(kept);
+    }
+
+    return removed;
+  }
+
   /**
    * Limpia todo el historial
    */
   public clear(): void {
     this.history.clear();
+    this.persist();
   }
 
   /**
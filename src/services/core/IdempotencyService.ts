@@ -0,0 +1,182 @@
+/**
+ * Servicio de Idempotencia
+ * Guarda la primera respuesta de cada Idempotency-Key durante un tiempo configurable
+ * y la reproduce ante reintentos, en lugar de ejecutar de nuevo la operación
+ */
+
+import { createHash } from 'node:crypto';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  response: StoredResponse;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Resultado de iniciar una petición con clave de idempotencia
+ * - started: primera vez; la clave queda reservada hasta complete() o release()
+ * - replay: ya existe una respuesta guardada para la clave
+ * - conflict: la clave se usó antes con un cuerpo distinto
+ * - in-progress: otra petición con la misma clave aún no termina
+ */
+export type IdempotencyBeginResult =
+  | { status: 'started' }
+  | { status: 'replay'; response: StoredResponse }
+  | { status: 'conflict' }
+  | { status: 'in-progress' };
+
+export interface IdempotencyServiceDeps {
+  storage: StorageAdapter;
+  ttlMs?: number;
+  clock?: Clock;
+}
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * TTL configurado mediante IDEMPOTENCY_TTL_MS (por defecto 24 horas)
+ */
+export function getIdempotencyTtl(): number {
+  const raw = process.env.IDEMPOTENCY_TTL_MS;
+  if (!raw) return DEFAULT_IDEMPOTENCY_TTL_MS;
+
+  const ttl = Number(raw);
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new Error(`IDEMPOTENCY_TTL_MS no válido: ${raw}`);
+  }
+  return ttl;
+}
+
+export class IdempotencyService {
+  private records: Map<string, IdempotencyRecord>;
+  // Claves reservadas por peticiones en curso (solo en memoria)
+  private pending: Map<string, string>;
+  private storage: StorageAdapter;
+  private ttlMs: number;
+  private clock: Clock;
+
+  constructor(deps: IdempotencyServiceDeps) {
+    this.records = new Map();
+    this.pending = new Map();
+    this.storage = deps.storage;
+    this.ttlMs = deps.ttlMs ?? getIdempotencyTtl();
+    this.clock = deps.clock ?? systemClock;
+
+    this.storage.load<IdempotencyRecord[]>('idempotency')?.forEach(record =>
+      this.records.set(record.key, record)
+    );
+  }
+
+  /**
+   * Guarda las respuestas vigentes en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('idempotency', Array.from(this.records.values()));
+  }
+
+  /**
+   * La clave se aísla por operación: la misma clave en rutas distintas no colisiona
+   */
+  private scopedKey(scope: string, key: string): string {
+    return `${scope}:${key}`;
+  }
+
+  /**
+   * Huella del cuerpo de la petición para detectar reutilización de claves
+   */
+  private fingerprint(payload: unknown): string {
+    return createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex');
+  }
+
+  /**
+   * Inicia una petición: reserva la clave o retorna la respuesta guardada
+   */
+  public begin(scope: string, key: string, payload: unknown): IdempotencyBeginResult {
+    this.purgeExpired();
+
+    const scoped = this.scopedKey(scope, key);
+    const fingerprint = this.fingerprint(payload);
+
+    const record = this.records.get(scoped);
+    if (record) {
+      return record.fingerprint === fingerprint
+        ? { status: 'replay', response: record.response }
+        : { status: 'conflict' };
+    }
+
+    const pendingFingerprint = this.pending.get(scoped);
+    if (pendingFingerprint !== undefined) {
+      return pendingFingerprint === fingerprint
+        ? { status: 'in-progress' }
+        : { status: 'conflict' };
+    }
+
+    this.pending.set(scoped, fingerprint);
+    return { status: 'started' };
+  }
+
+  /**
+   * Guarda la respuesta de una petición iniciada con begin()
+   */
+  public complete(scope: string, key: string, response: StoredResponse): void {
+    const scoped = this.scopedKey(scope, key);
+    const fingerprint = this.pending.get(scoped);
+    if (fingerprint === undefined) return;
+
+    const now = this.clock.now();
+    this.pending.delete(scoped);
+    this.records.set(scoped, {
+      key: scoped,
+      fingerprint,
+      response: structuredClone(response),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    });
+    this.persist();
+  }
+
+  /**
+   * Libera una clave sin guardar respuesta (errores del servidor: se puede reintentar)
+   */
+  public release(scope: string, key: string): void {
+    this.pending.delete(this.scopedKey(scope, key));
+  }
+
+  /**
+   * Elimina las respuestas cuyo TTL expiró; retorna cuántas se eliminaron
+   */
+  public purgeExpired(now: Date = this.clock.now()): number {
+    let purged = 0;
+    this.records.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+        purged++;
+      }
+    });
+
+    if (purged > 0) this.persist();
+    return purged;
+  }
+
+  /**
+   * Obtiene estadísticas de las claves guardadas
+   */
+  public getStats() {
+    return {
+      guardadas: this.records.size,
+      enCurso: this.pending.size,
+      ttlMs: this.ttlMs,
+    };
+  }
+}
@@ -1,33 +1,72 @@
 /**
  * Servicio de Préstamos
  * Utiliza DynamicArray para gestionar préstamos activos e históricos
+ * Los préstamos de libros digitales respetan la licencia y terminan solos en su
+ * fecha de devolución, sin multa
  */
 
 import { DynamicArray } from '@/lib/data-structures';
-import type { Loan, CreateLoanDTO } from '@/types';
-import { BookServiceV2 } from '../v2/BookServiceV2';
-import { UserServiceV2 } from '../v2/UserServiceV2';
-import { ReservationService } from './ReservationService';
-import { HistoryService } from './HistoryService';
-import { GraphService } from '../v3/GraphService';
+import type { StorageAdapter } from '@/lib/persistence';
+import { addDays, DAY_MS, systemClock, type Clock } from '@/lib/clock';
+import { digitalDueDate, isDigital, licenseStatus } from '@/lib/licenses';
+import type { Book, Copy, CopyStatus, Hold, Loan, CreateLoanDTO, LicenseUsage, Reservation } from '@/types';
+import type { BookRepository, UserRepository } from '../repositories';
+import type { ReservationService } from './ReservationService';
+import type { CopyService } from './CopyService';
+import type { HistoryService } from './HistoryService';
+import type { EventLogService } from './EventLogService';
+import type { GraphService } from '../v3/GraphService';
+import { runInUnitOfWork, type UnitOfWork } from './UnitOfWork';
+
+export interface LoanServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  userService: UserRepository;
+  reservationService: ReservationService;
+  copyService: CopyService;
+  historyService: HistoryService;
+  graphService: GraphService;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+/**
+ * Opciones de una devolución
+ */
+export interface ReturnOptions {
+  retenerEjemplar?: boolean;
+}
+
+// Cómo termina un préstamo: devolución en el mostrador o fin automático de uno digital
+type LoanEnding = 'devolucion' | 'vencimiento';
 
 export class LoanService {
   private loans: DynamicArray<Loan>;
-  private static instance: LoanService;
+  private storage: StorageAdapter;
 
-  private bookService: BookServiceV2;
-  private userService: UserServiceV2;
+  private bookService: BookRepository;
+  private userService: UserRepository;
   private reservationService: ReservationService;
+  private copyService: CopyService;
   private historyService: HistoryService;
   private graphService: GraphService;
+  private events: EventLogService;
+  private clock: Clock;
+  private readonly HOLD_PICKUP_DAYS = 3;
 
-  private constructor() {
+  constructor(deps: LoanServiceDeps) {
     this.loans = new DynamicArray<Loan>();
-    this.bookService = BookServiceV2.getInstance();
-    this.userService = UserServiceV2.getInstance();
-    this.reservationService = ReservationService.getInstance();
-    this.historyService = HistoryService.getInstance();
-    this.graphService = GraphService.getInstance();
+    this.storage = deps.storage;
+    this.storage.load<Loan[]>('loans')?.forEach(loan => this.loans.push(loan));
+
+    this.bookService = deps.bookService;
+    this.userService = deps.userService;
+    this.reservationService = deps.reservationService;
+    this.copyService = deps.copyService;
+    this.historyService = deps.historyService;
+    this.graphService = deps.graphService;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
     this.initializeGraphFromExistingData();
   }
 
@@ -43,29 +82,55 @@ export class LoanService {
   }
 
   /**
-   * Patrón Singleton
+   * Genera un ID único
    */
-  public static getInstance(): LoanService {
-    if (!LoanService.instance) {
-      LoanService.instance = new LoanService();
-    }
-    return LoanService.instance;
+  private generateId(): string {
+    return `LN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
-   * Genera un ID único
+   * Genera un ID único para un apartado
    */
-  private generateId(): string {
-    return `LN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private generateHoldId(): string {
+    return `HD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Un préstamo sigue pendiente mientras no se haya devuelto,
+   * aunque ya esté marcado como vencido
+   */
+  private isOutstanding(loan: Loan): boolean {
+    return !loan.fechaDevolucionReal;
+  }
+
+  /**
+   * Guarda todos los préstamos en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('loans', this.exportState());
+  }
+
+  /**
+   * Exporta todos los préstamos
+   */
+  public exportState(): Loan[] {
+    return this.loans.toArray();
+  }
+
+  /**
+   * Reemplaza todos los préstamos
+   */
+  public importState(loans: Loan[]): void {
+    this.loans.clear();
+    loans.forEach(loan => this.loans.push(loan));
+    this.persist();
   }
 
   /**
    * Calcula la fecha de devolución estimada
    */
   private calculateReturnDate(dias: number): Date {
-    const date = new Date();
-    date.setDate(date.getDate() + dias);
-    return date;
+    return addDays(this.clock.now(), dias);
   }
 
   /**
@@ -74,11 +139,90 @@ export class LoanService {
   private calculateFine(fechaEstimada: Date, fechaReal: Date): number {
     const multaPorDia = 500;
     const diffTime = fechaReal.getTime() - fechaEstimada.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = Math.ceil(diffTime / DAY_MS);
     
     return diffDays > 0 ? diffDays * multaPorDia : 0;
   }
 
+  /**
+   * Uso de la licencia de un libro digital; null si el libro es impreso
+   * Cada préstamo del libro, devuelto o no, cuenta para el límite de préstamos totales
+   */
+  public getLicenseUsage(bookId: string): LicenseUsage | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book || !isDigital(book) || !book.licencia) return null;
+
+    const loans = this.getBookLoans(bookId).filter(loan => loan.digital);
+    const licencia = book.licencia;
+
+    return {
+      licencia,
+      estado: licenseStatus(licencia, loans.length, this.clock.now()),
+      prestamosRealizados: loans.length,
+      prestamosRestantes: licencia.prestamosTotales === null
+        ? null
+        : Math.max(licencia.prestamosTotales - loans.length, 0),
+      prestamosActivos: loans.filter(loan => this.isOutstanding(loan)).length,
+    };
+  }
+
+  /**
+   * Un libro se puede prestar salvo que sea digital y su licencia esté vencida o agotada
+   */
+  private isLendable(bookId: string): boolean {
+    const usage = this.getLicenseUsage(bookId);
+    return !usage || usage.estado === 'vigente';
+  }
+
+  private assertLicense(book: Book): void {
+    const usage = this.getLicenseUsage(book.id);
+
+    if (usage?.estado === 'vencida') {
+      throw new Error('La licencia de este libro digital está vencida');
+    }
+
+    if (usage?.estado === 'agotada') {
+      throw new Error('La licencia de este libro digital ya no admite más préstamos');
+    }
+  }
+
+  /**
+   * Elige el ejemplar a prestar: el indicado, el apartado para el usuario
+   * o el primer ejemplar disponible
+   */
+  private selectCopy(bookId: string, copyId: string | undefined, hold: Hold | null): Copy {
+    if (copyId) {
+      const copy = this.copyService.findCopyById(copyId);
+      if (!copy || copy.libroId !== bookId) {
+        throw new Error('Ejemplar no encontrado');
+      }
+
+      if (copy.estado !== 'disponible' && copy.id !== hold?.copiaId) {
+        throw new Error(`El ejemplar ${copy.codigoBarras} no está disponible`);
+      }
+      return copy;
+    }
+
+    const heldCopy = hold?.copiaId ? this.copyService.findCopyById(hold.copiaId) : null;
+    const copy = heldCopy ?? this.copyService.findAvailableCopy(bookId);
+    if (!copy) {
+      throw new Error('No hay copias disponibles de este libro');
+    }
+    return copy;
+  }
+
+  /**
+   * Cambia el estado de circulación de un ejemplar como paso de la unidad de trabajo
+   */
+  private setCopyStatus(copy: Copy, estado: CopyStatus, descripcion: string, uow: UnitOfWork): void {
+    const previous = copy.estado;
+    uow.step(
+      descripcion,
+      () => this.copyService.setCirculationStatus(copy.id, estado),
+      () => this.copyService.setCirculationStatus(copy.id, previous)
+    );
+  }
+
   /**
    * Crea un nuevo préstamo
    */
@@ -90,10 +234,15 @@ export class LoanService {
       throw new Error('Libro no encontrado');
     }
 
-    if (book.copiasDisponibles <= 0) {
-      throw new Error('No hay copias disponibles de este libro');
+    const digital = isDigital(book);
+    if (digital) {
+      this.assertLicense(book);
     }
 
+    // El titular de un apartado retira el ejemplar que se le guardó
+    const hold = this.reservationService.findHold(libroId, usuarioId);
+    const copy = this.selectCopy(libroId, data.copiaId, hold);
+
     const user = this.userService.findUserById(usuarioId);
     if (!user) {
       throw new Error('Usuario no encontrado');
@@ -107,89 +256,338 @@ export class LoanService {
       throw new Error('El usuario ha alcanzado el límite de préstamos activos');
     }
 
+    // Un préstamo digital no puede durar más que la licencia
+    const fechaDevolucionEstimada = digital && book.licencia
+      ? digitalDueDate(book.licencia, this.calculateReturnDate(diasPrestamo))
+      : this.calculateReturnDate(diasPrestamo);
+
     // Objeto para el prestamos
     const loan: Loan = {
       id: this.generateId(),
       libroId,
       usuarioId,
-      fechaPrestamo: new Date(),
-      fechaDevolucionEstimada: this.calculateReturnDate(diasPrestamo),
+      copiaId: copy.id,
+      fechaPrestamo: this.clock.now(),
+      fechaDevolucionEstimada,
       estado: 'activo',
       multa: 0,
+      ...(digital ? { digital: true } : {}),
     };
 
-    // Actualizar estado del libro
-    this.bookService.decreaseAvailableCopies(libroId);
+    // Cada paso registra cómo deshacerse; si uno falla se revierten los anteriores
+    return runInUnitOfWork(uow => {
+      if (hold) {
+        this.releaseHold(hold, 'retirado', uow);
+      }
+
+      // El ejemplar pasa a prestado; el libro recalcula sus copias disponibles
+      this.setCopyStatus(copy, 'prestado', 'Prestar ejemplar', uow);
+
+      // Actualizar contador de préstamos del usuario
+      const counters = { prestamosActivos: user.prestamosActivos, historialPrestamos: user.historialPrestamos };
+      uow.step(
+        'Incrementar préstamos del usuario',
+        () => this.userService.incrementActiveLoans(usuarioId),
+        () => this.userService.restoreLoanCounters(usuarioId, counters)
+      );
 
-    // Actualizar contador de préstamos del usuario
-    this.userService.incrementActiveLoans(usuarioId);
+      // Guardar el préstamo
+      uow.step(
+        'Guardar préstamo',
+        () => {
+          this.loans.push(loan);
+          this.persist();
+        },
+        () => {
+          this.loans.removeBy(l => l.id === loan.id);
+          this.persist();
+        }
+      );
 
-    // Guardar el préstamo
-    this.loans.push(loan);
+      // Registrar en el grafo para recomendaciones
+      const graphState = this.graphService.exportState();
+      uow.step(
+        'Registrar préstamo en el grafo',
+        () => this.graphService.recordLoan(usuarioId, libroId),
+        () => this.graphService.importState(graphState)
+      );
 
-    // Registrar en el grafo para recomendaciones
-    this.graphService.recordLoan(usuarioId, libroId);
+      const historyState = this.historyService.exportState();
+      uow.step(
+        'Registrar préstamo en el historial',
+        () => this.historyService.logLoan(
+          usuarioId,
+          libroId,
+          `${user.nombre} ${user.apellido}`,
+          book.titulo
+        ),
+        () => this.historyService.importState(historyState)
+      );
 
-    this.historyService.logLoan(
-      usuarioId,
-      libroId,
-      `${user.nombre} ${user.apellido}`,
-      book.titulo
-    );
+      uow.afterCommit(() => this.events.append('LoanCreated', { loan }));
 
-    return loan;
+      return loan;
+    });
   }
 
   /**
    * Procesa la devolución de un libro
+   * Un préstamo digital puede devolverse antes de su fecha y nunca genera multa
+   * Con retenerEjemplar el ejemplar devuelto no se aparta para la cola de
+   * reservas: quien llama lo envía a reparación en la misma unidad de trabajo
    */
-  public returnBook(loanId: string): Loan {
+  public returnBook(loanId: string, options: ReturnOptions = {}, parent?: UnitOfWork): Loan {
     const loan = this.findLoanById(loanId);
     if (!loan) {
       throw new Error('Préstamo no encontrado');
     }
 
-    if (loan.estado !== 'activo') {
+    if (!this.isOutstanding(loan)) {
       throw new Error('Este préstamo ya fue devuelto');
     }
 
-    const fechaDevolucion = new Date();
+    const fechaDevolucion = this.clock.now();
     
-    // Calcular multa si hay retraso
-    const multa = this.calculateFine(loan.fechaDevolucionEstimada, fechaDevolucion);
-
-    // Actualizar el préstamo
-    loan.fechaDevolucionReal = fechaDevolucion;
-    loan.estado = multa > 0 ? 'vencido' : 'devuelto';
-    loan.multa = multa;
+    // Calcular multa si hay retraso (los préstamos digitales no tienen multa)
+    const multa = loan.digital ? 0 : this.calculateFine(loan.fechaDevolucionEstimada, fechaDevolucion);
 
-    // Actualizar estado del libro
-    this.bookService.increaseAvailableCopies(loan.libroId);
+    return this.closeLoan(loan, fechaDevolucion, multa, 'devolucion', options, parent);
+  }
 
-    // Actualizar contador de préstamos del usuario
-    this.userService.decrementActiveLoans(loan.usuarioId);
+  /**
+   * Finaliza los préstamos digitales cuya fecha de devolución llegó
+   * Terminan en esa fecha y sin multa; la plaza de la licencia pasa al
+   * siguiente de la cola de reservas
+   * Retorna la cantidad de préstamos finalizados
+   */
+  public expireDigitalLoans(now: Date = this.clock.now()): number {
+    const due = this.loans.filter(
+      loan => loan.digital === true && this.isOutstanding(loan) && loan.fechaDevolucionEstimada <= now
+    );
 
-    // Verificar si hay reservas pendientes
-    if (this.reservationService.hasReservations(loan.libroId)) {
-      const nextReservation = this.reservationService.processNextReservation(loan.libroId);
-      // Aquí podrías implementar notificaciones
-      console.log('Libro disponible para reserva:', nextReservation);
-    }
+    due.forEach(loan => this.closeLoan(loan, loan.fechaDevolucionEstimada, 0, 'vencimiento', {}));
+    return due.length;
+  }
 
-    // Registrar en el historial
+  /**
+   * Cierra un préstamo: lo marca devuelto, descuenta el préstamo del usuario y
+   * repone el ejemplar o lo aparta para la siguiente reserva
+   */
+  private closeLoan(
+    loan: Loan,
+    fechaDevolucion: Date,
+    multa: number,
+    motivo: LoanEnding,
+    options: ReturnOptions,
+    parent?: UnitOfWork
+  ): Loan {
     const user = this.userService.findUserById(loan.usuarioId);
     const book = this.bookService.findBookById(loan.libroId);
-    
-    if (user && book) {
-      this.historyService.logReturn(
-        loan.usuarioId,
-        loan.libroId,
-        `${user.nombre} ${user.apellido}`,
-        book.titulo
+    const copy = loan.copiaId ? this.copyService.findCopyById(loan.copiaId) : null;
+
+    return runInUnitOfWork(uow => {
+      // Actualizar el préstamo
+      const previous = { estado: loan.estado, multa: loan.multa };
+      uow.step(
+        'Marcar préstamo como devuelto',
+        () => {
+          loan.fechaDevolucionReal = fechaDevolucion;
+          loan.estado = multa > 0 ? 'vencido' : 'devuelto';
+          loan.multa = multa;
+          this.persist();
+        },
+        () => {
+          delete loan.fechaDevolucionReal;
+          Object.assign(loan, previous);
+          this.persist();
+        }
       );
+
+      uow.afterCommit(() => this.events.append('BookReturned', {
+        loanId: loan.id,
+        fechaDevolucionReal: fechaDevolucion,
+        estado: loan.estado,
+        multa,
+        copiaId: loan.copiaId,
+      }));
+
+      // Actualizar contador de préstamos del usuario
+      if (user) {
+        const counters = { prestamosActivos: user.prestamosActivos, historialPrestamos: user.historialPrestamos };
+        uow.step(
+          'Descontar préstamo del usuario',
+          () => this.userService.decrementActiveLoans(loan.usuarioId),
+          () => this.userService.restoreLoanCounters(loan.usuarioId, counters)
+        );
+      }
+
+      // El ejemplar se aparta para el primero de la cola de reservas o vuelve a estar disponible
+      if (copy && options.retenerEjemplar) {
+        this.setCopyStatus(copy, 'disponible', 'Recibir ejemplar', uow);
+      } else if (copy && !this.holdForNextReservation(copy, uow)) {
+        this.setCopyStatus(copy, 'disponible', 'Reponer ejemplar', uow);
+      }
+
+      // Registrar en el historial
+      if (user && book) {
+        const historyState = this.historyService.exportState();
+        const userName = `${user.nombre} ${user.apellido}`;
+        uow.step(
+          'Registrar devolución en el historial',
+          () => motivo === 'vencimiento'
+            ? this.historyService.logDigitalLoanEnded(loan.usuarioId, loan.libroId, userName, book.titulo)
+            : this.historyService.logReturn(loan.usuarioId, loan.libroId, userName, book.titulo),
+          () => this.historyService.importState(historyState)
+        );
+      }
+
+      return loan;
+    }, parent);
+  }
+
+  /**
+   * Aparta un ejemplar que vuelve a circular para la siguiente reserva
+   * Retorna el apartado, o null si nadie espera el libro ni su obra o si es la
+   * plaza de una licencia digital que ya no se puede prestar
+   */
+  public holdForNextReservation(copy: Copy, uow: UnitOfWork, now: Date = this.clock.now()): Hold | null {
+    if (!this.isLendable(copy.libroId)) return null;
+
+    const nextReservation = this.processNextReservation(copy, uow);
+    return nextReservation ? this.placeHold(nextReservation, copy, uow, now) : null;
+  }
+
+  /**
+   * Atiende la reserva que le toca a un ejemplar que vuelve a circular: la más
+   * antigua entre la cola de su libro y la de su obra (cualquier edición)
+   */
+  private processNextReservation(copy: Copy, uow: UnitOfWork): Reservation | null {
+    const obraId = this.bookService.findBookById(copy.libroId)?.obraId;
+    const queueId = this.reservationService.selectQueue(copy.libroId, obraId);
+
+    return queueId ? this.reservationService.processNextReservation(queueId, uow) : null;
+  }
+
+  /**
+   * Aparta un ejemplar para una reserva atendida
+   * El apartado es del libro del ejemplar, que en una reserva de cualquier
+   * edición puede no ser el libro desde el que se reservó
+   * El ejemplar deja de estar disponible hasta que se retire o expire el plazo
+   */
+  private placeHold(reservation: Reservation, copy: Copy, uow: UnitOfWork, now: Date = this.clock.now()): Hold {
+    const hold: Hold = {
+      id: this.generateHoldId(),
+      reservationId: reservation.id,
+      libroId: copy.libroId,
+      usuarioId: reservation.usuarioId,
+      copiaId: copy.id,
+      fechaAviso: now,
+      fechaLimite: addDays(now, this.HOLD_PICKUP_DAYS),
+    };
+
+    this.setCopyStatus(copy, 'apartado', 'Apartar ejemplar', uow);
+
+    uow.step(
+      'Registrar apartado',
+      () => this.reservationService.addHold(hold),
+      () => this.reservationService.removeHold(hold.id)
+    );
+
+    uow.afterCommit(() => this.events.append('HoldPlaced', { hold }));
+    return hold;
+  }
+
+  /**
+   * Libera un apartado y devuelve su ejemplar a la disponibilidad
+   * Retorna el ejemplar liberado
+   */
+  private releaseHold(hold: Hold, motivo: 'retirado' | 'expirado', uow: UnitOfWork): Copy | null {
+    uow.step(
+      'Liberar apartado',
+      () => this.reservationService.removeHold(hold.id),
+      () => this.reservationService.addHold(hold)
+    );
+
+    const copy = hold.copiaId ? this.copyService.findCopyById(hold.copiaId) : null;
+    if (copy) {
+      this.setCopyStatus(copy, 'disponible', 'Liberar ejemplar apartado', uow);
     }
 
-    return loan;
+    uow.afterCommit(() => this.events.append('HoldReleased', { holdId: hold.id, motivo, copiaId: hold.copiaId }));
+    return copy;
+  }
+
+  /**
+   * Expira los apartados no retirados a tiempo
+   * El ejemplar pasa al siguiente de la cola o vuelve a estar disponible
+   * Retorna la cantidad de apartados expirados
+   */
+  public expireHolds(now: Date = this.clock.now()): number {
+    const expired = this.reservationService.getExpiredHolds(now);
+
+    expired.forEach(hold => {
+      runInUnitOfWork(uow => {
+        const copy = this.releaseHold(hold, 'expirado', uow);
+        if (copy) {
+          this.holdForNextReservation(copy, uow, now);
+        }
+      });
+    });
+
+    return expired.length;
+  }
+
+  /**
+   * Marca como vencidos los préstamos pendientes cuya fecha de devolución pasó
+   * Los digitales no vencen: terminan solos (expireDigitalLoans)
+   * Retorna la cantidad de préstamos marcados
+   */
+  public markOverdueLoans(now: Date = this.clock.now()): number {
+    const overdue = this.loans.filter(
+      loan => loan.estado === 'activo' && !loan.digital && loan.fechaDevolucionEstimada < now
+    );
+    if (overdue.length === 0) return 0;
+
+    overdue.forEach(loan => {
+      loan.estado = 'vencido';
+    });
+    this.persist();
+
+    overdue.forEach(loan => this.events.append('LoanMarkedOverdue', { loanId: loan.id }));
+    return overdue.length;
+  }
+
+  /**
+   * Enlaza un préstamo con el ejemplar que ocupa
+   * Lo usa la migración de préstamos anteriores a los ejemplares
+   */
+  public assignCopy(loanId: string, copyId: string): boolean {
+    const loan = this.findLoanById(loanId);
+    if (!loan) return false;
+
+    loan.copiaId = copyId;
+    this.persist();
+    this.events.append('LoanCopyAssigned', { loanId, copiaId: copyId });
+    return true;
+  }
+
+  /**
+   * Pasa los préstamos (pendientes y devueltos) de un libro a otro, o solo los indicados
+   * Lo usa la fusión de duplicados; no emite eventos (BooksMerged ya describe el cambio)
+   * Retorna los IDs de los préstamos movidos
+   */
+  public reassignLoans(fromBookId: string, toBookId: string, loanIds?: string[]): string[] {
+    const loans = this.loans.filter(
+      loan => loan.libroId === fromBookId && (!loanIds || loanIds.includes(loan.id))
+    );
+    if (loans.length === 0) return [];
+
+    loans.forEach(loan => {
+      loan.libroId = toBookId;
+    });
+    this.persist();
+
+    return loans.map(loan => loan.id);
   }
 
   /**
@@ -207,10 +605,10 @@ export class LoanService {
   }
 
   /**
-   * Obtiene préstamos activos
+   * Obtiene préstamos activos (sin devolver, incluidos los vencidos)
    */
   public getActiveLoans(): Loan[] {
-    return this.loans.filter(loan => loan.estado === 'activo');
+    return this.loans.filter(loan => this.isOutstanding(loan));
   }
 
   /**
@@ -225,7 +623,7 @@ export class LoanService {
    */
   public getUserActiveLoans(userId: string): Loan[] {
     return this.loans.filter(
-      loan => loan.usuarioId === userId && loan.estado === 'activo'
+      loan => loan.usuarioId === userId && this.isOutstanding(loan)
     );
   }
 
@@ -237,12 +635,12 @@ export class LoanService {
   }
 
   /**
-   * Obtiene préstamos vencidos
+   * Obtiene préstamos vencidos (los digitales nunca lo están)
    */
   public getOverdueLoans(): Loan[] {
-    const now = new Date();
+    const now = this.clock.now();
     return this.loans.filter(
-      loan => loan.estado === 'activo' && loan.fechaDevolucionEstimada < now
+      loan => this.isOutstanding(loan) && !loan.digital && loan.fechaDevolucionEstimada < now
     );
   }
 
@@ -251,9 +649,9 @@ export class LoanService {
    */
   public isOverdue(loanId: string): boolean {
     const loan = this.findLoanById(loanId);
-    if (!loan || loan.estado !== 'activo') return false;
+    if (!loan || !this.isOutstanding(loan) || loan.digital) return false;
 
-    return loan.fechaDevolucionEstimada < new Date();
+    return loan.fechaDevolucionEstimada < this.clock.now();
   }
 
   /**
@@ -261,11 +659,11 @@ export class LoanService {
    */
   public getDaysUntilReturn(loanId: string): number {
     const loan = this.findLoanById(loanId);
-    if (!loan || loan.estado !== 'activo') return 0;
+    if (!loan || !this.isOutstanding(loan)) return 0;
 
-    const now = new Date();
+    const now = this.clock.now();
     const diffTime = loan.fechaDevolucionEstimada.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = Math.ceil(diffTime / DAY_MS);
 
     return diffDays;
   }
@@ -292,5 +690,6 @@ export class LoanService {
    */
   public clear(): void {
     this.loans.clear();
+    this.persist();
   }
 }
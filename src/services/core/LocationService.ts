@@ -0,0 +1,364 @@
+/**
+ * Servicio de Ubicaciones
+ * Sucursales, salas y estanterías de la biblioteca. Un ejemplar está en la
+ * estantería que tiene asignada o, si no tiene, en la primera cuyo rango de
+ * clases cubre la signatura de su libro
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import { callNumberOf, classInRange, compareClassNumbers } from '@/lib/callNumbers';
+import { isDigital } from '@/lib/licenses';
+import { LOCATION_LEVELS, LOCATION_LEVEL_LABELS, PARENT_LEVEL, shelfPath, sortLocations } from '@/lib/locations';
+import type {
+  Book,
+  BookLocation,
+  Copy,
+  CopyLocation,
+  CreateLocationDTO,
+  LibraryLocation,
+  LoanSlip,
+  ShelfEntry,
+  ShelfPath,
+} from '@/types';
+import type { BookRepository, UserRepository } from '../repositories';
+import type { CopyService } from './CopyService';
+import type { LoanService } from './LoanService';
+
+export interface LocationServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  userService: UserRepository;
+  copyService: CopyService;
+  loanService: LoanService;
+}
+
+/**
+ * Campos editables de un lugar; el nivel y el lugar que lo contiene no cambian
+ */
+export type LocationUpdate = Partial<Pick<CreateLocationDTO, 'nombre' | 'desde' | 'hasta'>>;
+
+// Cada clase de Dewey tiene su estantería en la sucursal central; la estantería
+// de la otra sucursal no declara rango: guarda los ejemplares que se le asignen
+const SAMPLE_LOCATIONS: Array<{ sucursal: string; salas: Array<{ sala: string; estanterias: Array<[string, string?, string?]> }> }> = [
+  {
+    sucursal: 'Biblioteca Central',
+    salas: [
+      { sala: 'Sala General', estanterias: [['A1', '000', '299'], ['A2', '300', '499']] },
+      { sala: 'Sala de Ciencias', estanterias: [['B1', '500', '599'], ['B2', '600', '699']] },
+      { sala: 'Sala de Artes y Letras', estanterias: [['C1', '700', '799'], ['C2', '800', '999']] },
+    ],
+  },
+  {
+    sucursal: 'Sucursal Norte',
+    salas: [{ sala: 'Sala de Lectura', estanterias: [['N1']] }],
+  },
+];
+
+export class LocationService {
+  private locations: Map<string, LibraryLocation>;
+  private storage: StorageAdapter;
+  private bookService: BookRepository;
+  private userService: UserRepository;
+  private copyService: CopyService;
+  private loanService: LoanService;
+
+  constructor(deps: LocationServiceDeps) {
+    this.locations = new Map();
+    this.storage = deps.storage;
+    this.bookService = deps.bookService;
+    this.userService = deps.userService;
+    this.copyService = deps.copyService;
+    this.loanService = deps.loanService;
+
+    const storedLocations = this.storage.load<LibraryLocation[]>('locations');
+    if (storedLocations) {
+      this.restore(storedLocations);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+    }
+  }
+
+  private initializeSampleData(): void {
+    const add = (data: CreateLocationDTO) => {
+      const location = this.buildLocation(data);
+      this.locations.set(location.id, location);
+      return location;
+    };
+
+    SAMPLE_LOCATIONS.forEach(({ sucursal: nombreSucursal, salas }) => {
+      const sucursal = add({ nivel: 'sucursal', nombre: nombreSucursal });
+
+      salas.forEach(({ sala: nombreSala, estanterias }) => {
+        const sala = add({ nivel: 'sala', nombre: nombreSala, padreId: sucursal.id });
+        estanterias.forEach(([nombre, desde, hasta]) => add({ nivel: 'estanteria', nombre, padreId: sala.id, desde, hasta }));
+      });
+    });
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `LC-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persist(): void {
+    this.storage.save('locations', this.exportState());
+  }
+
+  private restore(locations: LibraryLocation[]): void {
+    this.locations.clear();
+    locations.forEach(location => this.locations.set(location.id, { ...location }));
+  }
+
+  /**
+   * Exporta los lugares en orden de creación
+   */
+  public exportState(): LibraryLocation[] {
+    return Array.from(this.locations.values());
+  }
+
+  /**
+   * Reemplaza todos los lugares (usado al restaurar snapshots)
+   */
+  public importState(locations: LibraryLocation[]): void {
+    this.restore(locations);
+    this.persist();
+  }
+
+  private buildLocation(data: CreateLocationDTO): LibraryLocation {
+    return {
+      id: this.generateId(),
+      nivel: data.nivel,
+      nombre: data.nombre.trim(),
+      padreId: data.padreId ?? null,
+      ...(data.nivel === 'estanteria' ? this.normalizeRange(data) : {}),
+    };
+  }
+
+  /**
+   * Rango de clases sin espacios; los extremos vacíos se omiten
+   */
+  private normalizeRange(data: Pick<CreateLocationDTO, 'desde' | 'hasta'>): Pick<LibraryLocation, 'desde' | 'hasta'> {
+    const desde = data.desde?.trim() || undefined;
+    const hasta = data.hasta?.trim() || undefined;
+
+    if (desde && hasta && compareClassNumbers(desde, hasta) > 0) {
+      throw new Error(`El rango de la estantería no es válido: ${desde} es posterior a ${hasta}`);
+    }
+
+    return { desde, hasta };
+  }
+
+  /**
+   * Impide dos lugares con el mismo nombre dentro del mismo lugar
+   */
+  private assertUniqueName(nombre: string, padreId: string | null, currentId?: string): void {
+    const normalized = nombre.trim().toLowerCase();
+    const existing = this.exportState().find(location =>
+      location.padreId === padreId
+      && location.nombre.toLowerCase() === normalized
+      && location.id !== currentId
+    );
+    if (existing) {
+      throw new Error(`Ya existe "${existing.nombre}" en ese lugar`);
+    }
+  }
+
+  /**
+   * Todos los lugares en orden de árbol (sucursal, sus salas y sus estanterías)
+   */
+  public getAllLocations(): LibraryLocation[] {
+    return sortLocations(this.exportState());
+  }
+
+  public findLocationById(id: string): LibraryLocation | null {
+    return this.locations.get(id) ?? null;
+  }
+
+  public getShelfPath(estanteriaId: string): ShelfPath | null {
+    return shelfPath(this.exportState(), estanteriaId);
+  }
+
+  public createLocation(data: CreateLocationDTO): LibraryLocation {
+    if (!LOCATION_LEVELS.includes(data.nivel)) {
+      throw new Error(`Nivel no válido: ${data.nivel}`);
+    }
+
+    if (!data.nombre || !data.nombre.trim()) {
+      throw new Error('El nombre es requerido');
+    }
+
+    const parentLevel = PARENT_LEVEL[data.nivel];
+    const padre = data.padreId ? this.locations.get(data.padreId) : undefined;
+    if (parentLevel && padre?.nivel !== parentLevel) {
+      throw new Error(`Una ${LOCATION_LEVEL_LABELS[data.nivel].toLowerCase()} debe estar en una ${LOCATION_LEVEL_LABELS[parentLevel].toLowerCase()}`);
+    }
+
+    const location = this.buildLocation({ ...data, padreId: parentLevel ? data.padreId : null });
+    this.assertUniqueName(location.nombre, location.padreId);
+
+    this.locations.set(location.id, location);
+    this.persist();
+    return location;
+  }
+
+  public updateLocation(id: string, updates: LocationUpdate): LibraryLocation | null {
+    const location = this.locations.get(id);
+    if (!location) return null;
+
+    if (updates.nombre !== undefined) {
+      if (!updates.nombre.trim()) {
+        throw new Error('El nombre es requerido');
+      }
+      this.assertUniqueName(updates.nombre, location.padreId, id);
+    }
+
+    const range = location.nivel === 'estanteria' && (updates.desde !== undefined || updates.hasta !== undefined)
+      ? this.normalizeRange({ desde: updates.desde ?? location.desde, hasta: updates.hasta ?? location.hasta })
+      : {};
+
+    Object.assign(location, range);
+    if (updates.nombre !== undefined) location.nombre = updates.nombre.trim();
+
+    this.persist();
+    return location;
+  }
+
+  /**
+   * Elimina un lugar vacío: sin salas o estanterías dentro ni ejemplares asignados
+   */
+  public deleteLocation(id: string): boolean {
+    const location = this.locations.get(id);
+    if (!location) return false;
+
+    if (this.exportState().some(other => other.padreId === id)) {
+      throw new Error(`"${location.nombre}" tiene lugares dentro; elimínalos primero`);
+    }
+
+    const assigned = this.copyService.exportState().filter(copy => copy.estanteriaId === id).length;
+    if (assigned > 0) {
+      throw new Error(`La estantería "${location.nombre}" tiene ejemplares asignados (${assigned}); reubícalos primero`);
+    }
+
+    this.locations.delete(id);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Motivo por el que no se puede asignar una estantería a un ejemplar; null si se puede
+   * (null o undefined quitan la asignación)
+   */
+  public checkShelf(estanteriaId: string | null | undefined): string | null {
+    if (estanteriaId === undefined || estanteriaId === null) return null;
+
+    return this.locations.get(estanteriaId)?.nivel === 'estanteria' ? null : 'Estantería no encontrada';
+  }
+
+  /**
+   * Primera estantería (en orden de árbol) cuyo rango cubre la clase
+   */
+  private findShelfForClass(clase: string): LibraryLocation | null {
+    return this.getAllLocations().find(location =>
+      location.nivel === 'estanteria'
+      && (location.desde || location.hasta)
+      && classInRange(clase, location.desde, location.hasta)
+    ) ?? null;
+  }
+
+  /**
+   * Estantería de un ejemplar: la asignada o la que cubre la clase de su libro
+   */
+  private locateCopy(copy: Copy, book: Book): Pick<CopyLocation, 'ubicacion' | 'asignada'> {
+    const assigned = copy.estanteriaId ? this.getShelfPath(copy.estanteriaId) : null;
+    if (assigned) {
+      return { ubicacion: assigned, asignada: true };
+    }
+
+    const shelf = this.findShelfForClass(callNumberOf(book).split(' ')[0]);
+    return { ubicacion: shelf ? this.getShelfPath(shelf.id) : null, asignada: false };
+  }
+
+  /**
+   * Signatura de un libro y ubicación de sus ejemplares (sin los dados de baja)
+   * Los libros digitales no ocupan estantes: no tienen ejemplares ubicados
+   */
+  public getBookLocation(bookId: string): BookLocation | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book) return null;
+
+    const ejemplares = isDigital(book)
+      ? []
+      : this.copyService.getBookCopies(bookId)
+        .filter(copy => copy.estado !== 'baja')
+        .sort((a, b) => a.codigoBarras.localeCompare(b.codigoBarras))
+        .map(copy => ({
+          copiaId: copy.id,
+          codigoBarras: copy.codigoBarras,
+          estado: copy.estado,
+          detalle: copy.ubicacion,
+          ...this.locateCopy(copy, book),
+        }));
+
+    return { libroId: book.id, signatura: callNumberOf(book), ejemplares };
+  }
+
+  /**
+   * Libros de una estantería en orden de signatura, con sus ejemplares en ella,
+   * para revisar que estén bien colocados (lectura de estantes)
+   * Complejidad: O(n log n + e) donde e = ejemplares
+   */
+  public getShelfEntries(estanteriaId: string): ShelfEntry[] {
+    if (this.checkShelf(estanteriaId)) {
+      throw new Error('Estantería no encontrada');
+    }
+
+    const copiesByBook = new Map<string, Copy[]>();
+    this.copyService.exportState()
+      .filter(copy => copy.estado !== 'baja')
+      .forEach(copy => copiesByBook.set(copy.libroId, [...(copiesByBook.get(copy.libroId) ?? []), copy]));
+
+    return this.bookService.getAllBooksSorted('signatura')
+      .filter(book => !isDigital(book))
+      .map(libro => ({
+        libro,
+        signatura: callNumberOf(libro),
+        ejemplares: (copiesByBook.get(libro.id) ?? [])
+          .filter(copy => this.locateCopy(copy, libro).ubicacion?.estanteria.id === estanteriaId),
+      }))
+      .filter(entry => entry.ejemplares.length > 0);
+  }
+
+  /**
+   * Papeleta de un préstamo con la signatura y la ubicación del ejemplar
+   */
+  public getLoanSlip(loanId: string): LoanSlip | null {
+    const loan = this.loanService.findLoanById(loanId);
+    if (!loan) return null;
+
+    const book = this.bookService.findBookById(loan.libroId);
+    const user = this.userService.findUserById(loan.usuarioId);
+    const copy = loan.copiaId ? this.copyService.findCopyById(loan.copiaId) : null;
+    if (!book || !user) {
+      throw new Error('El préstamo hace referencia a un libro o un usuario que ya no existe');
+    }
+
+    const ubicacion = copy && !loan.digital ? this.locateCopy(copy, book).ubicacion : null;
+    const detalle = copy?.ubicacion ? ` (${copy.ubicacion})` : '';
+
+    return {
+      prestamoId: loan.id,
+      usuario: `${user.nombre} ${user.apellido}`,
+      titulo: book.titulo,
+      autor: book.autor,
+      signatura: callNumberOf(book),
+      codigoBarras: copy?.codigoBarras ?? null,
+      ubicacion: ubicacion ? `${ubicacion.etiqueta}${detalle}` : null,
+      fechaPrestamo: loan.fechaPrestamo,
+      fechaDevolucionEstimada: loan.fechaDevolucionEstimada,
+      digital: !!loan.digital,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Pruebas del intercambio MARC21: los ejemplares viajan como campos 852 y la
+ * licencia de un libro digital en el 959
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MemoryAdapter } from '@/lib/persistence';
+import { getSubfield, parseMarc21, parseMarcXml, serializeMarc21 } from '@/lib/marc';
+import type { Book } from '@/types';
+import { createLibraryContext } from '../container';
+
+function createBookWithCopies() {
+  const context = createLibraryContext({ storage: new MemoryAdapter() });
+
+  const book = context.books.addBook({
+    titulo: 'Pedro Páramo',
+    autor: 'Juan Rulfo',
+    isbn: '9788437604183',
+    categoria: '800',
+    anioPublicacion: 1955,
+    editorial: 'Cátedra',
+    numeroPaginas: 136,
+    copias: 3,
+  });
+
+  const [first, , withdrawn] = context.copies.getBookCopies(book.id);
+  context.copies.updateCopy(first.id, { ubicacion: 'Balda 2' });
+  context.copies.setCirculationStatus(withdrawn.id, 'baja');
+
+  return { context, book, copies: context.copies.getBookCopies(book.id) };
+}
+
+/**
+ * Exporta el libro y lo importa en un catálogo nuevo del que antes se retira su ISBN
+ */
+function reimport(source: ReturnType<typeof createLibraryContext>, book: Book) {
+  const target = createLibraryContext({ storage: new MemoryAdapter() });
+  const existing = target.books.searchByISBN(book.isbn);
+  if (existing) target.books.deleteBook(existing.id);
+
+  const report = target.marc.importCatalog(serializeMarc21([source.marc.bookToRecord(book)]), 'marc21');
+  return { target, report };
+}
+
+describe('MarcService', () => {
+  it('exporta un 852 por ejemplar que no está de baja', () => {
+    const { context, book, copies } = createBookWithCopies();
+
+    const holdings = context.marc.bookToRecord(book).dataFields.filter((field) => field.tag === '852');
+
+    expect(holdings).toHaveLength(2);
+    expect(holdings[0].subfields).toEqual([
+      { code: 'c', value: 'Balda 2' },
+      { code: 'p', value: copies[0].codigoBarras },
+    ]);
+    expect(holdings[1].subfields).toEqual([{ code: 'p', value: copies[1].codigoBarras }]);
+  });
+
+  it.each(['marc21', 'marcxml'] as const)('conserva el número de copias al reimportar (%s)', (format) => {
+    const { context, book } = createBookWithCopies();
+
+    const exported = context.marc.exportCatalog(format);
+    const entries = typeof exported === 'string' ? parseMarcXml(exported) : parseMarc21(exported);
+    const record = entries
+      .map((entry) => entry.record)
+      .find((candidate) => candidate && getSubfield(candidate, '020', 'a') === book.isbn);
+
+    expect(record).toBeDefined();
+    expect(context.marc.recordToBook(record!).copias).toBe(2);
+  });
+
+  it('no exporta 852 para las plazas de un libro digital', () => {
+    const context = createLibraryContext({ storage: new MemoryAdapter() });
+    const book = context.books.addBook({
+      titulo: 'Ficciones',
+      autor: 'Jorge Luis Borges',
+      isbn: '9788420633114',
+      categoria: '800',
+      anioPublicacion: 1944,
+      editorial: 'Alianza',
+      numeroPaginas: 224,
+      copias: 2,
+      tipo: 'digital',
+      licencia: { usuariosSimultaneos: 2, prestamosTotales: null, fechaVencimiento: null },
+    });
+
+    const holdings = context.marc.bookToRecord(book).dataFields.filter((field) => field.tag === '852');
+    expect(holdings).toEqual([]);
+  });
+
+  it('restaura los códigos de barras y las ubicaciones al importar en otro catálogo', () => {
+    const { context, book, copies } = createBookWithCopies();
+
+    const { target, report } = reimport(context, book);
+
+    expect(report.errores).toEqual([]);
+    const [imported] = report.importados;
+    expect(imported.copias).toBe(2);
+    expect(target.copies.getBookCopies(imported.id).map(({ codigoBarras, ubicacion }) => ({ codigoBarras, ubicacion })))
+      .toEqual([
+        { codigoBarras: copies[0].codigoBarras, ubicacion: 'Balda 2' },
+        { codigoBarras: copies[1].codigoBarras, ubicacion: copies[1].ubicacion },
+      ]);
+  });
+
+  it('rechaza el registro si un código de barras ya está en uso, sin dar de alta el libro', () => {
+    const { context, book } = createBookWithCopies();
+    const target = createLibraryContext({ storage: new MemoryAdapter() });
+    const existing = target.books.searchByISBN(book.isbn);
+    if (existing) target.books.deleteBook(existing.id);
+    const taken = target.copies.getBookCopies(target.books.getAllBooks()[0].id)[0].codigoBarras;
+
+    const record = context.marc.bookToRecord(book);
+    const [holding] = record.dataFields.filter((field) => field.tag === '852');
+    holding.subfields = [{ code: 'p', value: taken }];
+    const report = target.marc.importCatalog(serializeMarc21([record]), 'marc21');
+
+    expect(report.importados).toEqual([]);
+    expect(report.errores[0].error).toContain(taken);
+    expect(target.books.searchByISBN(book.isbn)).toBeNull();
+  });
+
+  it('importa sin ejemplares un libro exportado sin copias', () => {
+    const context = createLibraryContext({ storage: new MemoryAdapter() });
+    const book = context.books.addBook({
+      titulo: 'Aura',
+      autor: 'Carlos Fuentes',
+      isbn: '9788437607023',
+      categoria: '800',
+      anioPublicacion: 1962,
+      editorial: 'Cátedra',
+      numeroPaginas: 96,
+      copias: 0,
+    });
+
+    const { target, report } = reimport(context, book);
+
+    expect(report.importados[0].copias).toBe(0);
+    expect(target.copies.getBookCopies(report.importados[0].id)).toEqual([]);
+  });
+
+  it('conserva el tipo digital y la licencia al reimportar', () => {
+    const context = createLibraryContext({ storage: new MemoryAdapter() });
+    const licencia = { usuariosSimultaneos: 3, prestamosTotales: 26, fechaVencimiento: new Date('2030-06-30') };
+    const book = context.books.addBook({
+      titulo: 'El Aleph',
+      autor: 'Jorge Luis Borges',
+      isbn: '9788420633121',
+      categoria: '800',
+      anioPublicacion: 1949,
+      editorial: 'Alianza',
+      numeroPaginas: 208,
+      copias: 3,
+      tipo: 'digital',
+      licencia,
+    });
+
+    const record = context.marc.bookToRecord(book);
+    expect(record.controlFields.find((field) => field.tag === '008')?.value.charAt(23)).toBe('o');
+
+    const { report } = reimport(context, book);
+
+    expect(report.errores).toEqual([]);
+    expect(report.importados[0]).toMatchObject({ tipo: 'digital', copias: 3, licencia });
+  });
+});
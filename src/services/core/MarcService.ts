@@ -0,0 +1,522 @@
+/**
+ * Servicio de intercambio MARC21
+ * Importa registros MARC21 (ISO 2709) y MARCXML de otras bibliotecas y exporta el catálogo
+ * Cada registro importado pasa por BookRepository.addBook, de modo que el AVL de ISBN
+ * y los Trie de título y autores quedan indexados igual que con un alta manual
+ */
+
+import { systemClock, type Clock } from '@/lib/clock';
+import { isDigital } from '@/lib/licenses';
+import {
+  detectMarcFormat,
+  getControlField,
+  getSubfield,
+  getSubfields,
+  parseMarc21,
+  parseMarcXml,
+  serializeMarc21,
+  serializeMarcXml,
+  type MarcDataField,
+  type MarcRecord,
+} from '@/lib/marc';
+import type {
+  Book,
+  BookCategory,
+  Contributor,
+  ContributorRole,
+  CreateBookDTO,
+  DigitalLicense,
+  MarcFormat,
+  MarcImportReport,
+} from '@/types';
+import type { BookRepository } from '../repositories';
+import type { ClassificationService } from './ClassificationService';
+import type { CopyService } from './CopyService';
+
+export interface MarcServiceDeps {
+  bookService: BookRepository;
+  classification: ClassificationService;
+  copyService: CopyService;
+  clock?: Clock;
+}
+
+// Campo del número de clasificación según el sistema: 082 Dewey, 080 CDU, 084 otros
+const CLASSIFICATION_TAGS: Record<string, string> = {
+  Dewey: '082',
+  CDU: '080',
+};
+const OTHER_CLASSIFICATION_TAG = '084';
+
+// Campo local con la licencia de un libro digital: $a lectores simultáneos,
+// $b préstamos totales, $c vencimiento (aaaa-mm-dd); los límites ausentes se omiten
+const LICENSE_TAG = '959';
+
+// 008/23 forma del ítem: o (en línea), q (electrónico directo), s (electrónico)
+const ELECTRONIC_FORMS = ['o', 'q', 's'];
+
+// Códigos de función MARC ($4) de los roles de contribuyente
+const RELATOR_CODES: Record<ContributorRole, string> = {
+  autor: 'aut',
+  traductor: 'trl',
+  editor: 'edt',
+  ilustrador: 'ill',
+};
+
+// Términos de función ($e) habituales en registros en español e inglés, sin acentos ni puntuación
+const RELATOR_TERMS: Record<string, ContributorRole> = {
+  autor: 'autor',
+  author: 'autor',
+  traductor: 'traductor',
+  traduccion: 'traductor',
+  trad: 'traductor',
+  tr: 'traductor',
+  translator: 'traductor',
+  editor: 'editor',
+  ed: 'editor',
+  compilador: 'editor',
+  ilustrador: 'ilustrador',
+  il: 'ilustrador',
+  ill: 'ilustrador',
+  illustrator: 'ilustrador',
+};
+
+const CONTRIBUTOR_ROLE_BY_CODE: Record<string, ContributorRole> = Object.fromEntries(
+  Object.entries(RELATOR_CODES).map(([rol, code]) => [code, rol as ContributorRole])
+);
+
+/**
+ * Nombre de un 100/700: "García Márquez, Gabriel," con indicador 1 pasa a orden directo
+ */
+function getFieldName(field: MarcDataField): string | undefined {
+  const value = field.subfields.find(subfield => subfield.code === 'a')?.value;
+  if (!value) return undefined;
+
+  const nombre = trimIsbd(value);
+  const partes = nombre.split(',').map(parte => parte.trim()).filter(Boolean);
+
+  return field.ind1 === '1' && partes.length === 2 ? `${partes[1]} ${partes[0]}` : nombre;
+}
+
+/**
+ * Quita la puntuación ISBD final ("Cien años de soledad /" → "Cien años de soledad")
+ */
+function trimIsbd(value: string): string {
+  const trimmed = value.replace(/[\s/:;,.=]+$/, '');
+
+  // Conserva el punto de una inicial ("Sayers, Dorothy L.")
+  const initial = /(^|\s)[A-Za-zÀ-ÿ]$/.test(trimmed) && value[trimmed.length] === '.';
+  return (initial ? `${trimmed}.` : trimmed).trim();
+}
+
+function normalizeTerm(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]/g, '');
+}
+
+export class MarcService {
+  private bookService: BookRepository;
+  private classification: ClassificationService;
+  private copyService: CopyService;
+  private clock: Clock;
+
+  constructor(deps: MarcServiceDeps) {
+    this.bookService = deps.bookService;
+    this.classification = deps.classification;
+    this.copyService = deps.copyService;
+    this.clock = deps.clock ?? systemClock;
+  }
+
+  /**
+   * Importa un archivo MARC21 o MARCXML (si no se indica el formato se detecta)
+   * Los registros válidos se dan de alta; el resto queda en el informe con su motivo
+   */
+  public importCatalog(data: Uint8Array, format: MarcFormat = detectMarcFormat(data)): MarcImportReport {
+    const entries = format === 'marcxml'
+      ? parseMarcXml(new TextDecoder('utf-8').decode(data))
+      : parseMarc21(data);
+
+    if (entries.length === 0) {
+      throw new Error('El archivo no contiene registros MARC');
+    }
+
+    const report: MarcImportReport = { formato: format, total: entries.length, importados: [], errores: [] };
+
+    entries.forEach(entry => {
+      if (!entry.record) {
+        report.errores.push({ registro: entry.registro, error: entry.error ?? 'Registro no válido' });
+        return;
+      }
+
+      const titulo = this.readTitle(entry.record);
+      const isbn = this.readIsbn(entry.record);
+
+      try {
+        const data = this.recordToBook(entry.record);
+        const holdings = isDigital(data) ? [] : this.readHoldings(entry.record);
+        this.assertBarcodes(holdings);
+
+        const book = this.bookService.addBook(data);
+        this.applyHoldings(book, holdings);
+        report.importados.push(this.bookService.findBookById(book.id) ?? book);
+      } catch (error) {
+        report.errores.push({
+          registro: entry.registro,
+          titulo,
+          isbn,
+          error: error instanceof Error ? error.message : 'Error al importar el registro',
+        });
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * Exporta el catálogo completo en el formato pedido
+   */
+  public exportCatalog(format: MarcFormat): Uint8Array<ArrayBuffer> | string {
+    const records = this.bookService.getAllBooks().map(book => this.bookToRecord(book));
+    return format === 'marcxml' ? serializeMarcXml(records) : serializeMarc21(records);
+  }
+
+  /**
+   * Convierte un registro bibliográfico en los datos de alta de un libro
+   * 020 ISBN, 100/700 contribuyentes, 245 título, 264/260 editorial y año,
+   * 300 páginas, 520 resumen, 653 o 082/080/084 clase, un ejemplar por cada 852
+   * (sin 852 el libro queda sin ejemplares); 008/23 electrónico o un 959 lo hacen
+   * digital, con la licencia del 959
+   */
+  public recordToBook(record: MarcRecord): CreateBookDTO {
+    const titulo = this.readTitle(record);
+    if (!titulo) {
+      throw new Error('El registro no tiene título (245 $a)');
+    }
+
+    const isbn = this.readIsbn(record);
+    if (!isbn) {
+      throw new Error('El registro no tiene ISBN (020 $a)');
+    }
+
+    const anioPublicacion = this.readYear(record);
+    if (anioPublicacion === undefined) {
+      throw new Error('El registro no indica el año de publicación (264/260 $c o 008)');
+    }
+
+    const publication = record.dataFields.find(field => field.tag === '264' && field.ind2 === '1')
+      ?? record.dataFields.find(field => field.tag === '260');
+    const editorial = publication?.subfields.find(subfield => subfield.code === 'b')?.value;
+    const descripcion = getSubfield(record, '520', 'a');
+    const licencia = this.readLicense(record);
+
+    return {
+      titulo,
+      contribuyentes: this.readContributors(record),
+      isbn,
+      categoria: this.readCategory(record),
+      anioPublicacion,
+      editorial: editorial ? trimIsbd(editorial) : '',
+      numeroPaginas: this.readPages(record),
+      copias: record.dataFields.filter(field => field.tag === '852').length,
+      descripcion: descripcion?.trim() || undefined,
+      ...(licencia ? { tipo: 'digital' as const, licencia } : {}),
+    };
+  }
+
+  /**
+   * Convierte un libro en un registro bibliográfico MARC21
+   * Cada ejemplar que no está de baja se exporta como un 852 ($p código de barras,
+   * $c ubicación), así al volver a importarlo el libro conserva sus copias; un
+   * libro digital se marca en 008/23 y lleva su licencia en el 959
+   */
+  public bookToRecord(book: Book): MarcRecord {
+    const [primero, ...resto] = book.contribuyentes;
+    const dataFields: MarcDataField[] = [
+      { tag: '020', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.isbn }] },
+    ];
+
+    if (primero) {
+      dataFields.push(this.contributorField('100', primero));
+    }
+
+    dataFields.push(
+      { tag: '245', ind1: primero ? '1' : '0', ind2: '0', subfields: [{ code: 'a', value: book.titulo }] },
+      {
+        tag: '264',
+        ind1: ' ',
+        ind2: '1',
+        subfields: [
+          { code: 'b', value: book.editorial },
+          { code: 'c', value: String(book.anioPublicacion) },
+        ].filter(subfield => subfield.value),
+      }
+    );
+
+    if (book.numeroPaginas > 0) {
+      dataFields.push({ tag: '300', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: `${book.numeroPaginas} p.` }] });
+    }
+
+    if (book.descripcion) {
+      dataFields.push({ tag: '520', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.descripcion }] });
+    }
+
+    const sistema = this.classification.getSystem();
+    const node = this.classification.findNode(book.categoria);
+    dataFields.push({
+      tag: CLASSIFICATION_TAGS[sistema] ?? OTHER_CLASSIFICATION_TAG,
+      ind1: '0',
+      ind2: '4',
+      subfields: [
+        { code: 'a', value: book.categoria },
+        ...(CLASSIFICATION_TAGS[sistema] ? [] : [{ code: '2', value: sistema }]),
+      ],
+    });
+
+    dataFields.push(
+      ...(node ? [{ tag: '653', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: node.etiqueta }] }] : []),
+      ...resto.map(contributor => this.contributorField('700', contributor)),
+      ...this.holdingFields(book),
+      ...this.licenseFields(book)
+    );
+
+    return {
+      leader: '00000nam a2200000 i 4500',
+      controlFields: [
+        { tag: '001', value: book.id },
+        { tag: '005', value: this.transactionTimestamp() },
+        { tag: '008', value: this.fixedLengthData(book) },
+      ],
+      dataFields: dataFields.filter(field => field.subfields.length > 0),
+    };
+  }
+
+  /**
+   * 852: localización de los ejemplares físicos
+   * Las plazas de una licencia digital no son ejemplares en estantes y no se exportan
+   */
+  private holdingFields(book: Book): MarcDataField[] {
+    if (isDigital(book)) return [];
+
+    return this.copyService
+      .getBookCopies(book.id)
+      .filter(copy => copy.estado !== 'baja')
+      .map(copy => ({
+        tag: '852',
+        ind1: ' ',
+        ind2: ' ',
+        subfields: [
+          { code: 'c', value: copy.ubicacion },
+          { code: 'p', value: copy.codigoBarras },
+        ].filter(subfield => subfield.value),
+      }));
+  }
+
+  private licenseFields(book: Book): MarcDataField[] {
+    if (!isDigital(book) || !book.licencia) return [];
+
+    const { usuariosSimultaneos, prestamosTotales, fechaVencimiento } = book.licencia;
+    return [{
+      tag: LICENSE_TAG,
+      ind1: ' ',
+      ind2: ' ',
+      subfields: [
+        { code: 'a', value: String(usuariosSimultaneos) },
+        { code: 'b', value: prestamosTotales === null ? '' : String(prestamosTotales) },
+        { code: 'c', value: fechaVencimiento ? new Date(fechaVencimiento).toISOString().slice(0, 10) : '' },
+      ].filter(subfield => subfield.value),
+    }];
+  }
+
+  /**
+   * Ejemplares de los 852 en orden: código de barras ($p) y ubicación ($c), si los traen
+   */
+  private readHoldings(record: MarcRecord): { codigoBarras?: string; ubicacion?: string }[] {
+    return record.dataFields
+      .filter(field => field.tag === '852')
+      .map(field => ({
+        codigoBarras: field.subfields.find(subfield => subfield.code === 'p')?.value.trim() || undefined,
+        ubicacion: field.subfields.find(subfield => subfield.code === 'c')?.value.trim() || undefined,
+      }));
+  }
+
+  /**
+   * Comprueba los códigos de barras antes de dar de alta el libro, para no
+   * dejarlo a medio importar: formato válido, libres y sin repetir en el registro
+   */
+  private assertBarcodes(holdings: { codigoBarras?: string }[]): void {
+    const seen = new Set<string>();
+
+    holdings.forEach(({ codigoBarras }) => {
+      if (!codigoBarras) return;
+
+      const error = seen.has(codigoBarras)
+        ? `El código de barras ${codigoBarras} está repetido en el registro`
+        : this.copyService.checkBarcode(codigoBarras);
+      if (error) {
+        throw new Error(error);
+      }
+      seen.add(codigoBarras);
+    });
+  }
+
+  /**
+   * Asigna a los ejemplares creados con el libro el código de barras y la
+   * ubicación de su 852 (sin $p se conserva el código generado)
+   */
+  private applyHoldings(book: Book, holdings: { codigoBarras?: string; ubicacion?: string }[]): void {
+    const copies = this.copyService.getBookCopies(book.id);
+
+    holdings.forEach((holding, index) => {
+      const copy = copies[index];
+      if (copy && (holding.codigoBarras || holding.ubicacion)) {
+        this.copyService.updateCopy(copy.id, holding);
+      }
+    });
+  }
+
+  /**
+   * Licencia de un libro digital: la del 959 o, si el 008 indica un recurso
+   * electrónico sin 959, un lector a la vez sin otros límites
+   * null si el registro describe un libro impreso
+   */
+  private readLicense(record: MarcRecord): DigitalLicense | null {
+    const field = record.dataFields.find(candidate => candidate.tag === LICENSE_TAG);
+    const formaItem = getControlField(record, '008')?.charAt(23) ?? '';
+
+    if (!field) {
+      return ELECTRONIC_FORMS.includes(formaItem)
+        ? { usuariosSimultaneos: 1, prestamosTotales: null, fechaVencimiento: null }
+        : null;
+    }
+
+    const value = (code: string) => field.subfields.find(subfield => subfield.code === code)?.value.trim();
+    const usuarios = Number(value('a'));
+    const prestamos = value('b');
+    const vencimiento = value('c');
+
+    return {
+      usuariosSimultaneos: Number.isInteger(usuarios) && usuarios >= 1 ? usuarios : 1,
+      prestamosTotales: prestamos ? Number(prestamos) : null,
+      fechaVencimiento: vencimiento ? new Date(vencimiento) : null,
+    };
+  }
+
+  private contributorField(tag: '100' | '700', contributor: Contributor): MarcDataField {
+    // Indicador 0: nombre en orden directo (no se separan apellidos)
+    return {
+      tag,
+      ind1: '0',
+      ind2: ' ',
+      subfields: [
+        { code: 'a', value: contributor.nombre },
+        { code: 'e', value: contributor.rol },
+        { code: '4', value: RELATOR_CODES[contributor.rol] },
+      ],
+    };
+  }
+
+  /**
+   * 005: fecha y hora de la última transacción (aaaammddhhmmss.f)
+   */
+  private transactionTimestamp(): string {
+    return this.clock.now().toISOString().replace(/[-:T]/g, '').slice(0, 14) + '.0';
+  }
+
+  /**
+   * 008: datos de longitud fija (40 posiciones)
+   * 00-05 fecha de alta, 06 tipo de fecha, 07-10 año, 15-17 lugar,
+   * 23 forma del ítem (o: en línea), 35-37 idioma
+   */
+  private fixedLengthData(book: Book): string {
+    const alta = new Date(book.fechaRegistro).toISOString().slice(2, 10).replace(/-/g, '');
+    const anio = String(book.anioPublicacion).padStart(4, '0').slice(0, 4);
+    const formaItem = isDigital(book) ? 'o' : ' ';
+    return `${alta}s${anio}    xx ${' '.repeat(5)}${formaItem}${' '.repeat(11)}und d`;
+  }
+
+  private readTitle(record: MarcRecord): string | undefined {
+    const titulo = getSubfield(record, '245', 'a');
+    if (!titulo) return undefined;
+
+    const subtitulo = getSubfield(record, '245', 'b');
+    return subtitulo ? `${trimIsbd(titulo)}: ${trimIsbd(subtitulo)}` : trimIsbd(titulo);
+  }
+
+  /**
+   * Primer ISBN del 020 $a sin calificadores ("9780306406157 (rústica)")
+   * La validación y normalización las hace addBook
+   */
+  private readIsbn(record: MarcRecord): string | undefined {
+    return getSubfields(record, '020', 'a')
+      .map(value => value.match(/[\dXx][\dXx\s-]*[\dXx]/)?.[0])
+      .find(Boolean);
+  }
+
+  private readYear(record: MarcRecord): number | undefined {
+    const fecha = [...getSubfields(record, '264', 'c'), ...getSubfields(record, '260', 'c')]
+      .map(value => value.match(/\d{4}/)?.[0])
+      .find(Boolean) ?? getControlField(record, '008')?.slice(7, 11);
+
+    return fecha && /^\d{4}$/.test(fecha) ? Number(fecha) : undefined;
+  }
+
+  private readPages(record: MarcRecord): number {
+    const extension = getSubfield(record, '300', 'a') ?? '';
+    const match = extension.match(/(\d+)\s*(?:p\b|p\.|pp|págs?|páginas|pages)/i);
+    return match ? Number(match[1]) : 0;
+  }
+
+  /**
+   * Clase del libro: el número de clasificación del sistema configurado
+   * (082 Dewey, 080 CDU o 084) se asigna a su nodo más cercano; si no hay,
+   * se prueba con los términos 653 (etiquetas o categorías anteriores)
+   */
+  private readCategory(record: MarcRecord): BookCategory {
+    const tag = CLASSIFICATION_TAGS[this.classification.getSystem()] ?? OTHER_CLASSIFICATION_TAG;
+    const numero = getSubfields(record, tag, 'a')
+      .map(value => this.classification.findClosest(value))
+      .find(Boolean);
+    if (numero) return numero;
+
+    const termino = getSubfields(record, '653', 'a')
+      .map(value => this.classification.resolve(trimIsbd(value)))
+      .find(Boolean);
+    return termino ?? this.classification.getFallbackCode();
+  }
+
+  /**
+   * 100/110 y 700/710 $a; el rol sale del código $4 o del término $e (por defecto autor)
+   * Las funciones sin equivalente (prologuista, fotógrafo...) se omiten
+   */
+  private readContributors(record: MarcRecord): Contributor[] {
+    const contributors: Contributor[] = [];
+
+    record.dataFields
+      .filter(field => ['100', '110', '700', '710'].includes(field.tag))
+      .forEach(field => {
+        const nombre = getFieldName(field);
+        if (!nombre) return;
+
+        const codes = field.subfields.filter(subfield => subfield.code === '4').map(subfield => subfield.value);
+        const terms = field.subfields.filter(subfield => subfield.code === 'e').map(subfield => subfield.value);
+        const roles = [
+          ...codes.map(code => CONTRIBUTOR_ROLE_BY_CODE[code.trim().toLowerCase()]),
+          ...terms.map(term => RELATOR_TERMS[normalizeTerm(term)]),
+        ];
+
+        if (codes.length + terms.length === 0) {
+          contributors.push({ nombre, rol: 'autor' });
+          return;
+        }
+
+        const rol = roles.find(Boolean);
+        if (rol) {
+          contributors.push({ nombre, rol });
+        }
+      });
+
+    return contributors;
+  }
+}
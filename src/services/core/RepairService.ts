@@ -0,0 +1,440 @@
+/**
+ * Servicio de Reparaciones
+ * Órdenes de reparación de los ejemplares: el ejemplar sale de circulación con
+ * un motivo, pasa por el taller y vuelve a circular (o se da de baja)
+ * Mientras la orden está abierta el ejemplar queda en mantenimiento: no se
+ * presta ni se aparta para las reservas
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import { DAY_MS, systemClock, type Clock } from '@/lib/clock';
+import { isDigital } from '@/lib/licenses';
+import type {
+  CloseRepairDTO,
+  Copy,
+  Hold,
+  Loan,
+  RepairOutcome,
+  RepairQueueItem,
+  RepairStatus,
+  RepairTicket,
+} from '@/types';
+import type { BookRepository } from '../repositories';
+import { COPY_CONDITIONS, type CopyService } from './CopyService';
+import type { LoanService } from './LoanService';
+import type { HistoryService } from './HistoryService';
+import type { EventLogService } from './EventLogService';
+import { runInUnitOfWork, type UnitOfWork } from './UnitOfWork';
+
+export interface RepairServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  copyService: CopyService;
+  loanService: LoanService;
+  historyService: HistoryService;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+const REPAIR_OUTCOMES: RepairOutcome[] = ['reparado', 'baja'];
+
+// Motivo de las órdenes de los ejemplares que ya estaban en mantenimiento
+const UNTRACKED_REASON = 'Sin motivo registrado';
+
+export class RepairService {
+  private tickets: Map<string, RepairTicket>;
+  private storage: StorageAdapter;
+  private bookService: BookRepository;
+  private copyService: CopyService;
+  private loanService: LoanService;
+  private historyService: HistoryService;
+  private events: EventLogService;
+  private clock: Clock;
+
+  constructor(deps: RepairServiceDeps) {
+    this.tickets = new Map();
+    this.storage = deps.storage;
+    this.bookService = deps.bookService;
+    this.copyService = deps.copyService;
+    this.loanService = deps.loanService;
+    this.historyService = deps.historyService;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedTickets = this.storage.load<RepairTicket[]>('repairs');
+    if (storedTickets) {
+      this.restore(storedTickets);
+    }
+    this.trackUntrackedCopies();
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `RP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persist(): void {
+    this.storage.save('repairs', this.exportState());
+  }
+
+  private restore(tickets: RepairTicket[]): void {
+    this.tickets.clear();
+    tickets.forEach(ticket => this.tickets.set(ticket.id, { ...ticket, pasos: [...ticket.pasos] }));
+  }
+
+  /**
+   * Exporta las órdenes en orden de apertura
+   */
+  public exportState(): RepairTicket[] {
+    return Array.from(this.tickets.values());
+  }
+
+  /**
+   * Reemplaza todas las órdenes (usado al restaurar snapshots)
+   */
+  public importState(tickets: RepairTicket[]): void {
+    this.restore(tickets);
+    this.persist();
+  }
+
+  private buildTicket(copy: Copy, motivo: string, prestamoId?: string): RepairTicket {
+    const now = this.clock.now();
+    return {
+      id: this.generateId(),
+      copiaId: copy.id,
+      libroId: copy.libroId,
+      motivo,
+      estado: 'pendiente',
+      pasos: [{ estado: 'pendiente', fecha: now }],
+      fechaApertura: now,
+      ...(prestamoId ? { prestamoId } : {}),
+    };
+  }
+
+  private findOpenTicket(copyId: string): RepairTicket | undefined {
+    return this.exportState().find(ticket => ticket.copiaId === copyId && ticket.estado !== 'cerrada');
+  }
+
+  /**
+   * Registra en el historial el último paso de la orden como paso de la unidad de trabajo
+   */
+  private logStep(ticket: RepairTicket, uow: UnitOfWork): void {
+    const titulo = this.bookService.findBookById(ticket.libroId)?.titulo ?? 'Libro desconocido';
+    const codigoBarras = this.copyService.findCopyById(ticket.copiaId)?.codigoBarras ?? ticket.copiaId;
+    const historyState = this.historyService.exportState();
+
+    uow.step(
+      'Registrar reparación en el historial',
+      () => this.historyService.logRepair(ticket, titulo, codigoBarras),
+      () => this.historyService.importState(historyState)
+    );
+  }
+
+  /**
+   * Abre órdenes para los ejemplares en mantenimiento que no tienen una
+   * (catálogos migrados o snapshots anteriores a las reparaciones)
+   * Retorna la cantidad de órdenes abiertas
+   */
+  public trackUntrackedCopies(): number {
+    const untracked = this.copyService.exportState().filter(
+      copy => copy.estado === 'mantenimiento' && !this.findOpenTicket(copy.id)
+    );
+    if (untracked.length === 0) return 0;
+
+    untracked.forEach(copy => {
+      const ticket = this.buildTicket(copy, UNTRACKED_REASON);
+      this.tickets.set(ticket.id, ticket);
+    });
+    this.persist();
+
+    return untracked.length;
+  }
+
+  private validateReason(motivo: string): string {
+    if (!motivo || !motivo.trim()) {
+      throw new Error('El motivo de la reparación es requerido');
+    }
+    return motivo.trim();
+  }
+
+  /**
+   * Las plazas de una licencia digital no son ejemplares que se puedan reparar
+   */
+  private assertPhysical(copy: Copy): void {
+    const book = this.bookService.findBookById(copy.libroId);
+    if (book && isDigital(book)) {
+      throw new Error('Los libros digitales no se envían a reparación');
+    }
+  }
+
+  /**
+   * Retira el ejemplar de circulación y abre su orden
+   */
+  private openTicket(copy: Copy, motivo: string, uow: UnitOfWork, prestamoId?: string): RepairTicket {
+    const ticket = this.buildTicket(copy, motivo, prestamoId);
+    const previous = copy.estado;
+
+    uow.step(
+      'Retirar ejemplar de circulación',
+      () => this.copyService.setCirculationStatus(copy.id, 'mantenimiento'),
+      () => this.copyService.setCirculationStatus(copy.id, previous)
+    );
+
+    uow.step(
+      'Guardar orden de reparación',
+      () => {
+        this.tickets.set(ticket.id, ticket);
+        this.persist();
+      },
+      () => {
+        this.tickets.delete(ticket.id);
+        this.persist();
+      }
+    );
+
+    this.logStep(ticket, uow);
+    uow.afterCommit(() => this.events.append('CopySentToRepair', {
+      copiaId: copy.id,
+      ticketId: ticket.id,
+      motivo,
+    }));
+
+    return ticket;
+  }
+
+  /**
+   * Envía a reparación un ejemplar disponible
+   * Los prestados se envían al recibir su devolución (returnForRepair)
+   */
+  public sendToRepair(copyId: string, motivo: string): RepairTicket {
+    const reason = this.validateReason(motivo);
+
+    const copy = this.copyService.findCopyById(copyId);
+    if (!copy) {
+      throw new Error('Ejemplar no encontrado');
+    }
+    this.assertPhysical(copy);
+
+    switch (copy.estado) {
+      case 'mantenimiento':
+        throw new Error(`El ejemplar ${copy.codigoBarras} ya está en reparación`);
+      case 'prestado':
+        throw new Error(`El ejemplar ${copy.codigoBarras} está prestado; envíelo a reparación al devolverlo`);
+      case 'apartado':
+        throw new Error(`El ejemplar ${copy.codigoBarras} está apartado para una reserva`);
+      case 'baja':
+        throw new Error(`El ejemplar ${copy.codigoBarras} está dado de baja`);
+    }
+
+    return runInUnitOfWork(uow => this.openTicket(copy, reason, uow));
+  }
+
+  /**
+   * Recibe la devolución de un préstamo y envía el ejemplar directamente a
+   * reparación, sin apartarlo para la cola de reservas
+   */
+  public returnForRepair(loanId: string, motivo: string): { loan: Loan; ticket: RepairTicket } {
+    const reason = this.validateReason(motivo);
+
+    const loan = this.loanService.findLoanById(loanId);
+    if (!loan) {
+      throw new Error('Préstamo no encontrado');
+    }
+
+    const copy = loan.copiaId ? this.copyService.findCopyById(loan.copiaId) : null;
+    if (!copy) {
+      throw new Error('El préstamo no tiene un ejemplar asignado');
+    }
+    this.assertPhysical(copy);
+
+    return runInUnitOfWork(uow => {
+      const returned = this.loanService.returnBook(loanId, { retenerEjemplar: true }, uow);
+      const ticket = this.openTicket(copy, reason, uow, loanId);
+      return { loan: returned, ticket };
+    });
+  }
+
+  /**
+   * Registra la entrada del ejemplar en el taller
+   */
+  public startRepair(ticketId: string, nota?: string): RepairTicket | null {
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.estado !== 'pendiente') {
+      throw new Error(
+        ticket.estado === 'cerrada'
+          ? 'La orden de reparación ya está cerrada'
+          : 'El ejemplar ya está en el taller'
+      );
+    }
+
+    const copy = this.copyService.findCopyById(ticket.copiaId);
+
+    return runInUnitOfWork(uow => {
+      const previous = { ...ticket, pasos: [...ticket.pasos] };
+      uow.step(
+        'Iniciar reparación',
+        () => {
+          // El ejemplar puede haber pasado a otro libro al fusionar duplicados
+          ticket.libroId = copy?.libroId ?? ticket.libroId;
+          ticket.estado = 'en_reparacion';
+          ticket.pasos.push({ estado: 'en_reparacion', fecha: this.clock.now(), nota: nota?.trim() || undefined });
+          this.persist();
+        },
+        () => {
+          this.tickets.set(ticketId, previous);
+          this.persist();
+        }
+      );
+
+      this.logStep(ticket, uow);
+      return ticket;
+    });
+  }
+
+  /**
+   * Cierra una orden: el ejemplar reparado vuelve a circular (apartado para la
+   * siguiente reserva si alguien espera el libro o su obra) o se da de baja
+   */
+  public closeTicket(ticketId: string, data: CloseRepairDTO): { ticket: RepairTicket; hold: Hold | null } | null {
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.estado === 'cerrada') {
+      throw new Error('La orden de reparación ya está cerrada');
+    }
+    if (!REPAIR_OUTCOMES.includes(data.resultado)) {
+      throw new Error(`Resultado de reparación no válido: ${data.resultado}`);
+    }
+    if (data.condicion !== undefined && !COPY_CONDITIONS.includes(data.condicion)) {
+      throw new Error(`Condición no válida: ${data.condicion}`);
+    }
+
+    // Un ejemplar que ya no está en mantenimiento (eliminado con su libro) solo cierra la orden
+    const copy = this.copyService.findCopyById(ticket.copiaId);
+    const inRepair = copy?.estado === 'mantenimiento' ? copy : null;
+
+    return runInUnitOfWork(uow => {
+      const previous = { ...ticket, pasos: [...ticket.pasos] };
+      const now = this.clock.now();
+      uow.step(
+        'Cerrar orden de reparación',
+        () => {
+          ticket.libroId = copy?.libroId ?? ticket.libroId;
+          ticket.estado = 'cerrada';
+          ticket.resultado = data.resultado;
+          ticket.fechaCierre = now;
+          ticket.pasos.push({ estado: 'cerrada', fecha: now, nota: data.nota?.trim() || undefined });
+          this.persist();
+        },
+        () => {
+          this.tickets.set(ticketId, previous);
+          this.persist();
+        }
+      );
+
+      let hold: Hold | null = null;
+      if (inRepair) {
+        const estado = data.resultado === 'baja' ? 'baja' : 'disponible';
+        const condicion = inRepair.condicion;
+
+        uow.step(
+          estado === 'baja' ? 'Dar de baja ejemplar' : 'Devolver ejemplar a circulación',
+          () => {
+            if (data.condicion) this.copyService.setCondition(inRepair.id, data.condicion);
+            this.copyService.setCirculationStatus(inRepair.id, estado);
+          },
+          () => {
+            this.copyService.setCondition(inRepair.id, condicion);
+            this.copyService.setCirculationStatus(inRepair.id, 'mantenimiento');
+          }
+        );
+
+        uow.afterCommit(() => this.events.append('CopyReturnedFromRepair', {
+          copiaId: inRepair.id,
+          ticketId,
+          estado,
+          ...(data.condicion ? { condicion: data.condicion } : {}),
+        }));
+
+        if (estado === 'disponible') {
+          hold = this.loanService.holdForNextReservation(inRepair, uow);
+        }
+      }
+
+      this.logStep(ticket, uow);
+      return { ticket, hold };
+    });
+  }
+
+  public findTicketById(id: string): RepairTicket | null {
+    return this.tickets.get(id) ?? null;
+  }
+
+  private toQueueItem(ticket: RepairTicket): RepairQueueItem {
+    const end = ticket.fechaCierre ?? this.clock.now();
+
+    const copy = this.copyService.findCopyById(ticket.copiaId);
+    const libroId = copy?.libroId ?? ticket.libroId;
+
+    return {
+      ...ticket,
+      libroId,
+      titulo: this.bookService.findBookById(libroId)?.titulo ?? 'Libro desconocido',
+      codigoBarras: copy?.codigoBarras ?? ticket.copiaId,
+      diasAbierta: Math.floor((end.getTime() - ticket.fechaApertura.getTime()) / DAY_MS),
+    };
+  }
+
+  /**
+   * Cola de mantenimiento: órdenes abiertas de la más antigua a la más reciente,
+   * opcionalmente solo las de una etapa
+   */
+  public getQueue(estado?: Exclude<RepairStatus, 'cerrada'>): RepairQueueItem[] {
+    return this.exportState()
+      .filter(ticket => ticket.estado !== 'cerrada' && (!estado || ticket.estado === estado))
+      .sort((a, b) => a.fechaApertura.getTime() - b.fechaApertura.getTime())
+      .map(ticket => this.toQueueItem(ticket));
+  }
+
+  /**
+   * Órdenes cerradas, de la más reciente a la más antigua
+   */
+  public getClosedTickets(limit?: number): RepairQueueItem[] {
+    const closed = this.exportState()
+      .filter(ticket => ticket.estado === 'cerrada')
+      .sort((a, b) => b.fechaCierre!.getTime() - a.fechaCierre!.getTime());
+
+    return closed.slice(0, limit ?? closed.length).map(ticket => this.toQueueItem(ticket));
+  }
+
+  /**
+   * Todas las órdenes de un ejemplar, de la más antigua a la más reciente
+   */
+  public getCopyTickets(copyId: string): RepairTicket[] {
+    return this.exportState().filter(ticket => ticket.copiaId === copyId);
+  }
+
+  /**
+   * Obtiene estadísticas de las reparaciones
+   */
+  public getStats() {
+    const tickets = this.exportState();
+    const closed = tickets.filter(ticket => ticket.estado === 'cerrada');
+    const totalDays = closed.reduce(
+      (sum, ticket) => sum + (ticket.fechaCierre!.getTime() - ticket.fechaApertura.getTime()) / DAY_MS,
+      0
+    );
+
+    return {
+      pendientes: tickets.filter(ticket => ticket.estado === 'pendiente').length,
+      enReparacion: tickets.filter(ticket => ticket.estado === 'en_reparacion').length,
+      reparados: closed.filter(ticket => ticket.resultado === 'reparado').length,
+      bajas: closed.filter(ticket => ticket.resultado === 'baja').length,
+      diasPromedio: closed.length > 0 ? Math.round((totalDays / closed.length) * 10) / 10 : 0,
+    };
+  }
+}
@@ -1,28 +1,97 @@
 /**
  * Servicio de Reservas
  * Utiliza Queue (Cola FIFO) para gestionar la lista de espera de libros
+ * y mantiene los apartados (holds) pendientes de retiro
+ * Cada libro tiene su cola; cada obra, otra para las reservas de "cualquier edición"
  */
 
 import { Queue } from '@/lib/data-structures';
-import type { Reservation } from '@/types';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type { Hold, Reservation } from '@/types';
+import type { EventLogService } from './EventLogService';
+import { runInUnitOfWork, type UnitOfWork } from './UnitOfWork';
+
+export interface ReservationServiceDeps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+/**
+ * Resultado de unir las colas de dos libros fusionados
+ */
+export interface MergedReservationQueue {
+  queue: Reservation[];
+  descartadas: Reservation[];
+}
+
+/**
+ * Cola en la que espera una reserva: la de su obra o la de su libro
+ */
+export function reservationQueueId(reservation: Reservation): string {
+  return reservation.obraId ?? reservation.libroId;
+}
+
+/**
+ * Une las colas de espera de dos libros en orden de fecha de reserva
+ * Cada usuario conserva su reserva más antigua; se descartan las repetidas y las
+ * de quien ya tiene un ejemplar apartado del libro resultante
+ */
+export function mergeReservationQueues(
+  target: Reservation[],
+  source: Reservation[],
+  targetBookId: string,
+  usersWithHold: Set<string> = new Set()
+): MergedReservationQueue {
+  const queue: Reservation[] = [];
+  const descartadas: Reservation[] = [];
+  const seen = new Set<string>();
+
+  [...target, ...source]
+    .map((reservation, index) => ({ reservation, index }))
+    .sort((a, b) =>
+      new Date(a.reservation.fechaReserva).getTime() - new Date(b.reservation.fechaReserva).getTime() ||
+      a.index - b.index
+    )
+    .forEach(({ reservation }) => {
+      if (seen.has(reservation.usuarioId) || usersWithHold.has(reservation.usuarioId)) {
+        reservation.activa = false;
+        descartadas.push(reservation);
+        return;
+      }
+
+      seen.add(reservation.usuarioId);
+      reservation.libroId = targetBookId;
+      queue.push(reservation);
+    });
+
+  return { queue, descartadas };
+}
 
 export class ReservationService {
-  // Un Queue por cada libro
+  // Un Queue por cada libro y por cada obra con reservas de cualquier edición
   private reservationQueues: Map<string, Queue<Reservation>>;
-  private static instance: ReservationService;
+  // Apartados pendientes de retiro (holdId -> apartado)
+  private holds: Map<string, Hold>;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private clock: Clock;
 
-  private constructor() {
+  constructor(deps: ReservationServiceDeps) {
     this.reservationQueues = new Map();
-  }
+    this.holds = new Map();
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
 
-  /**
-   * Patrón Singleton
-   */
-  public static getInstance(): ReservationService {
-    if (!ReservationService.instance) {
-      ReservationService.instance = new ReservationService();
+    // Las colas se guardan como arreglos en orden FIFO
+    const storedQueues = this.storage.load<Record<string, Reservation[]>>('reservations');
+    if (storedQueues) {
+      this.restore(storedQueues);
     }
-    return ReservationService.instance;
+
+    this.storage.load<Hold[]>('holds')?.forEach(hold => this.holds.set(hold.id, hold));
   }
 
   /**
@@ -32,6 +101,166 @@ export class ReservationService {
     return `RSV-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Guarda todas las colas en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('reservations', this.exportState());
+  }
+
+  /**
+   * Reconstruye las colas respetando el orden FIFO guardado
+   */
+  private restore(queues: Record<string, Reservation[]>): void {
+    this.reservationQueues.clear();
+    Object.entries(queues).forEach(([bookId, reservations]) => {
+      const queue = this.getOrCreateQueue(bookId);
+      reservations.forEach(reservation => queue.enqueue(reservation));
+    });
+  }
+
+  /**
+   * Exporta las colas no vacías (bookId u obraId -> reservas en orden FIFO)
+   */
+  public exportState(): Record<string, Reservation[]> {
+    const queues: Record<string, Reservation[]> = {};
+    this.reservationQueues.forEach((queue, bookId) => {
+      if (!queue.isEmpty()) queues[bookId] = queue.toArray();
+    });
+    return queues;
+  }
+
+  /**
+   * Reemplaza todas las colas de reserva
+   */
+  public importState(queues: Record<string, Reservation[]>): void {
+    this.restore(queues);
+    this.persist();
+  }
+
+  /**
+   * Guarda los apartados en el adaptador de persistencia
+   */
+  private persistHolds(): void {
+    this.storage.save('holds', this.exportHolds());
+  }
+
+  /**
+   * Exporta los apartados pendientes de retiro
+   */
+  public exportHolds(): Hold[] {
+    return Array.from(this.holds.values());
+  }
+
+  /**
+   * Reemplaza todos los apartados
+   */
+  public importHolds(holds: Hold[]): void {
+    this.holds.clear();
+    holds.forEach(hold => this.holds.set(hold.id, hold));
+    this.persistHolds();
+  }
+
+  /**
+   * Registra un apartado (el llamador ya marcó el ejemplar como apartado)
+   */
+  public addHold(hold: Hold): void {
+    this.holds.set(hold.id, hold);
+    this.persistHolds();
+  }
+
+  /**
+   * Elimina un apartado; retorna null si no existía
+   */
+  public removeHold(holdId: string): Hold | null {
+    const hold = this.holds.get(holdId);
+    if (!hold) return null;
+
+    this.holds.delete(holdId);
+    this.persistHolds();
+    return hold;
+  }
+
+  /**
+   * Enlaza un apartado con el ejemplar que reserva
+   * Lo usa la migración de apartados anteriores a los ejemplares
+   */
+  public assignHoldCopy(holdId: string, copyId: string): boolean {
+    const hold = this.holds.get(holdId);
+    if (!hold) return false;
+
+    hold.copiaId = copyId;
+    this.persistHolds();
+    this.events.append('HoldCopyAssigned', { holdId, copiaId: copyId });
+    return true;
+  }
+
+  /**
+   * Pasa la cola de espera y los apartados de un libro a otro (fusión de duplicados)
+   * Las reservas de cualquier edición pedidas desde el libro fusionado siguen en la
+   * cola de su obra, apuntando al libro conservado
+   * No emite eventos: BooksMerged ya describe el cambio
+   * Retorna cuántas reservas del libro fusionado pasan a la cola unida, cuántas se
+   * descartaron y cuántos apartados se movieron
+   */
+  public mergeReservations(fromBookId: string, toBookId: string): { reservas: number; descartadas: number; apartados: number } {
+    const holds = this.getHolds(fromBookId);
+    holds.forEach(hold => {
+      hold.libroId = toBookId;
+    });
+
+    this.reservationQueues.forEach(queue => queue.toArray().forEach(reservation => {
+      if (reservation.obraId && reservation.libroId === fromBookId) reservation.libroId = toBookId;
+    }));
+
+    const source = this.getOrCreateQueue(fromBookId).toArray();
+    const usersWithHold = new Set(this.getHolds(toBookId).map(hold => hold.usuarioId));
+    const { queue, descartadas } = mergeReservationQueues(
+      this.getOrCreateQueue(toBookId).toArray(),
+      source,
+      toBookId,
+      usersWithHold
+    );
+
+    const merged = this.getOrCreateQueue(toBookId);
+    merged.clear();
+    queue.forEach(reservation => merged.enqueue(reservation));
+    this.reservationQueues.delete(fromBookId);
+
+    this.persist();
+    if (holds.length > 0) this.persistHolds();
+
+    return {
+      reservas: queue.filter(reservation => source.includes(reservation)).length,
+      descartadas: descartadas.length,
+      apartados: holds.length,
+    };
+  }
+
+  /**
+   * Busca el apartado de un usuario para un libro
+   */
+  public findHold(bookId: string, userId: string): Hold | null {
+    for (const hold of this.holds.values()) {
+      if (hold.libroId === bookId && hold.usuarioId === userId) return hold;
+    }
+    return null;
+  }
+
+  /**
+   * Obtiene los apartados, opcionalmente de un libro
+   */
+  public getHolds(bookId?: string): Hold[] {
+    return this.exportHolds().filter(hold => !bookId || hold.libroId === bookId);
+  }
+
+  /**
+   * Obtiene los apartados cuyo plazo de retiro venció
+   */
+  public getExpiredHolds(now: Date = this.clock.now()): Hold[] {
+    return this.exportHolds().filter(hold => hold.fechaLimite <= now);
+  }
+
   /**
    * Obtiene o crea una cola de reservas para un libro
    */
@@ -44,27 +273,33 @@ export class ReservationService {
 
   /**
    * Agrega una reserva a la cola de espera
+   * Con workId la reserva es de cualquier edición y espera en la cola de la obra
    */
-  public addReservation(bookId: string, userId: string): Reservation {
-    const queue = this.getOrCreateQueue(bookId);
+  public addReservation(bookId: string, userId: string, workId?: string): Reservation {
+    const queue = this.getOrCreateQueue(workId ?? bookId);
 
     const existingReservation = queue.find(
       res => res.usuarioId === userId && res.activa
     );
 
     if (existingReservation) {
-      throw new Error('Ya tienes una reserva activa para este libro');
+      throw new Error(workId
+        ? 'Ya tienes una reserva activa para esta obra'
+        : 'Ya tienes una reserva activa para este libro');
     }
 
     const reservation: Reservation = {
       id: this.generateId(),
       libroId: bookId,
+      ...(workId ? { obraId: workId } : {}),
       usuarioId: userId,
-      fechaReserva: new Date(),
+      fechaReserva: this.clock.now(),
       activa: true,
     };
 
     queue.enqueue(reservation);
+    this.persist();
+    this.events.append('ReservationQueued', { reservation });
     return reservation;
   }
 
@@ -77,19 +312,70 @@ export class ReservationService {
   }
 
   /**
-   * Procesa la siguiente reserva (la elimina de la cola)
+   * Cola que debe atender un ejemplar devuelto del libro: entre la del libro y la
+   * de su obra, la que tiene al frente la reserva más antigua
+   * Retorna null si ninguna de las dos tiene reservas
+   */
+  public selectQueue(bookId: string, workId?: string | null): string | null {
+    const candidates = [bookId, workId]
+      .filter((queueId): queueId is string => Boolean(queueId))
+      .map(queueId => ({ queueId, next: this.getNextReservation(queueId) }))
+      .filter(candidate => candidate.next !== null);
+    if (candidates.length === 0) return null;
+
+    return candidates.reduce((first, candidate) =>
+      new Date(candidate.next!.fechaReserva) < new Date(first.next!.fechaReserva) ? candidate : first
+    ).queueId;
+  }
+
+  /**
+   * Procesa la siguiente reserva (la elimina de la cola de un libro o de una obra)
    * Se usa cuando un libro se devuelve y hay que asignarlo al siguiente en la cola
+   * Si se recibe una unidad de trabajo, el paso se suma a ella
    */
-  public processNextReservation(bookId: string): Reservation | null {
-    const queue = this.getOrCreateQueue(bookId);
-    return queue.dequeue();
+  public processNextReservation(bookId: string, uow?: UnitOfWork): Reservation | null {
+    return runInUnitOfWork(work => {
+      const queue = this.getOrCreateQueue(bookId);
+      const next = queue.peek();
+      if (!next) return null;
+
+      const reservation = work.step(
+        'Atender reserva',
+        () => {
+          const dequeued = queue.dequeue()!;
+          this.persist();
+          return dequeued;
+        },
+        () => this.requeueAtFront(bookId, next)
+      );
+
+      work.afterCommit(() => this.events.append('ReservationFulfilled', {
+        bookId: reservation.libroId,
+        reservationId: reservation.id,
+        ...(reservation.obraId ? { workId: reservation.obraId } : {}),
+      }));
+      return reservation;
+    }, uow);
   }
 
   /**
-   * Cancela una reserva específica
+   * Devuelve una reserva al frente de su cola (compensación de processNextReservation)
    */
-  public cancelReservation(bookId: string, userId: string): boolean {
+  private requeueAtFront(bookId: string, reservation: Reservation): void {
     const queue = this.getOrCreateQueue(bookId);
+    if (queue.find(res => res.id === reservation.id)) return;
+
+    const pending = queue.toArray();
+    queue.clear();
+    [reservation, ...pending].forEach(res => queue.enqueue(res));
+    this.persist();
+  }
+
+  /**
+   * Cancela una reserva específica (con workId, la de cualquier edición de la obra)
+   */
+  public cancelReservation(bookId: string, userId: string, workId?: string): boolean {
+    const queue = this.getOrCreateQueue(workId ?? bookId);
     
     const removed = queue.remove(
       res => res.usuarioId === userId && res.activa
@@ -97,12 +383,22 @@ export class ReservationService {
 
     if (removed) {
       removed.activa = false;
+      this.persist();
+      this.appendCancelled(removed);
       return true;
     }
 
     return false;
   }
 
+  private appendCancelled(reservation: Reservation): void {
+    this.events.append('ReservationCancelled', {
+      bookId: reservation.libroId,
+      userId: reservation.usuarioId,
+      ...(reservation.obraId ? { workId: reservation.obraId } : {}),
+    });
+  }
+
   /**
    * Obtiene todas las reservas activas de un libro
    */
@@ -111,6 +407,13 @@ export class ReservationService {
     return queue.toArray().filter(res => res.activa);
   }
 
+  /**
+   * Obtiene las reservas activas de cualquier edición de una obra
+   */
+  public getWorkReservations(workId: string): Reservation[] {
+    return this.getBookReservations(workId);
+  }
+
   /**
    * Obtiene todas las reservas de un usuario
    */
@@ -128,7 +431,7 @@ export class ReservationService {
   }
 
   /**
-   * Obtiene la posición de un usuario en la cola de espera de un libro
+   * Obtiene la posición de un usuario en la cola de espera de un libro (o de una obra)
    */
   public getPositionInQueue(bookId: string, userId: string): number {
     const queue = this.getOrCreateQueue(bookId);
@@ -157,16 +460,18 @@ export class ReservationService {
   public cancelAllUserReservations(userId: string): number {
     let cancelledCount = 0;
 
-    this.reservationQueues.forEach((queue) => {
+    this.reservationQueues.forEach(queue => {
       const removed = queue.remove(
         res => res.usuarioId === userId && res.activa
       );
       if (removed) {
         removed.activa = false;
         cancelledCount++;
+        this.appendCancelled(removed);
       }
     });
 
+    if (cancelledCount > 0) this.persist();
     return cancelledCount;
   }
 
@@ -189,6 +494,7 @@ export class ReservationService {
       total: totalReservations,
       librosConReservas: Object.keys(reservationsByBook).length,
       porLibro: reservationsByBook,
+      apartados: this.holds.size,
     };
   }
 
@@ -197,5 +503,8 @@ export class ReservationService {
    */
   public clear(): void {
     this.reservationQueues.clear();
+    this.holds.clear();
+    this.persist();
+    this.persistHolds();
   }
 }
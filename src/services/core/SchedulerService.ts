@@ -0,0 +1,352 @@
+/**
+ * Planificador de tareas en segundo plano
+ * Ejecuta tareas de mantenimiento según expresiones cron dentro del proceso
+ * Guarda la configuración de cada tarea (expresión, pausa) y un historial
+ * acotado de ejecuciones en un DynamicArray
+ */
+
+import { DynamicArray } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import { nextCronRun, parseCron, type CronSchedule } from '@/lib/cron';
+
+/**
+ * Resumen que retorna una tarea (p. ej. cantidad de registros afectados)
+ */
+export type JobResult = Record<string, string | number | boolean>;
+
+export interface ScheduledJob {
+  id: string;
+  descripcion: string;
+  schedule: string; // expresión cron por defecto
+  run: (now: Date) => JobResult;
+}
+
+export type JobTrigger = 'programado' | 'manual';
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  trigger: JobTrigger;
+  inicio: Date;
+  fin: Date;
+  estado: 'exito' | 'error';
+  resultado?: JobResult;
+  error?: string;
+}
+
+export interface JobStatus {
+  id: string;
+  descripcion: string;
+  schedule: string;
+  pausada: boolean;
+  proximaEjecucion: Date | null;
+  ultimaEjecucion: JobRun | null;
+}
+
+interface JobEntry {
+  job: ScheduledJob;
+  cron: CronSchedule;
+  paused: boolean;
+  nextRunAt: Date | null;
+}
+
+interface SchedulerState {
+  jobs: Record<string, { schedule: string; paused: boolean }>;
+  runs: JobRun[];
+}
+
+export interface SchedulerServiceDeps {
+  storage: StorageAdapter;
+  clock?: Clock;
+}
+
+export const DEFAULT_SCHEDULER_TICK_MS = 30_000;
+
+/**
+ * El planificador arranca solo salvo con LIBRARY_SCHEDULER=off
+ */
+export function isSchedulerEnabled(): boolean {
+  return (process.env.LIBRARY_SCHEDULER ?? 'on').toLowerCase() !== 'off';
+}
+
+/**
+ * Intervalo de revisión configurado mediante SCHEDULER_TICK_MS (por defecto 30 s)
+ */
+export function getSchedulerTickMs(): number {
+  const raw = process.env.SCHEDULER_TICK_MS;
+  if (!raw) return DEFAULT_SCHEDULER_TICK_MS;
+
+  const tickMs = Number(raw);
+  if (!Number.isFinite(tickMs) || tickMs <= 0) {
+    throw new Error(`SCHEDULER_TICK_MS no válido: ${raw}`);
+  }
+  return tickMs;
+}
+
+export class SchedulerService {
+  private jobs: Map<string, JobEntry>;
+  private runs: DynamicArray<JobRun>;
+  private storedSettings: SchedulerState['jobs'];
+  private storage: StorageAdapter;
+  private clock: Clock;
+  private timer: ReturnType<typeof setInterval> | null;
+  private readonly MAX_RUNS = 500;
+
+  constructor(deps: SchedulerServiceDeps) {
+    this.jobs = new Map();
+    this.runs = new DynamicArray<JobRun>();
+    this.storage = deps.storage;
+    this.clock = deps.clock ?? systemClock;
+    this.timer = null;
+
+    const stored = this.storage.load<SchedulerState>('jobs');
+    this.storedSettings = stored?.jobs ?? {};
+    stored?.runs.forEach(run => this.runs.push(run));
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `JR-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Guarda la configuración y el historial en el adaptador de persistencia
+   */
+  private persist(): void {
+    const jobs: SchedulerState['jobs'] = { ...this.storedSettings };
+    this.jobs.forEach((entry, id) => {
+      jobs[id] = { schedule: entry.cron.expression, paused: entry.paused };
+    });
+
+    this.storage.save('jobs', { jobs, runs: this.runs.toArray() });
+  }
+
+  private getEntry(jobId: string): JobEntry {
+    const entry = this.jobs.get(jobId);
+    if (!entry) {
+      throw new Error(`Tarea no encontrada: ${jobId}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Registra una tarea
+   * Si hay configuración guardada (expresión o pausa) se respeta
+   */
+  public register(job: ScheduledJob, now: Date = this.clock.now()): void {
+    if (this.jobs.has(job.id)) {
+      throw new Error(`La tarea ${job.id} ya está registrada`);
+    }
+
+    const settings = this.storedSettings[job.id];
+    let cron = parseCron(job.schedule);
+    if (settings) {
+      try {
+        cron = parseCron(settings.schedule);
+      } catch (error) {
+        console.error(`Expresión guardada de ${job.id} descartada:`, error);
+      }
+    }
+
+    this.jobs.set(job.id, {
+      job,
+      cron,
+      paused: settings?.paused ?? false,
+      nextRunAt: nextCronRun(cron, now),
+    });
+  }
+
+  /**
+   * Indica si existe una tarea
+   */
+  public hasJob(jobId: string): boolean {
+    return this.jobs.has(jobId);
+  }
+
+  /**
+   * Inicia la revisión periódica de tareas pendientes
+   * El temporizador no mantiene vivo el proceso
+   */
+  public start(tickMs: number = getSchedulerTickMs()): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), tickMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Detiene la revisión periódica
+   */
+  public stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Indica si el planificador está en marcha
+   */
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Ejecuta las tareas cuya próxima ejecución ya llegó
+   * Las ejecuciones perdidas (proceso detenido) no se recuperan: se programa la siguiente
+   */
+  public tick(now: Date = this.clock.now()): JobRun[] {
+    const executed: JobRun[] = [];
+
+    this.jobs.forEach(entry => {
+      if (entry.paused || !entry.nextRunAt || entry.nextRunAt > now) return;
+
+      executed.push(this.execute(entry, 'programado', now));
+      entry.nextRunAt = nextCronRun(entry.cron, now);
+    });
+
+    return executed;
+  }
+
+  /**
+   * Ejecuta una tarea a demanda (también si está pausada)
+   */
+  public runJob(jobId: string, now: Date = this.clock.now()): JobRun {
+    return this.execute(this.getEntry(jobId), 'manual', now);
+  }
+
+  private execute(entry: JobEntry, trigger: JobTrigger, now: Date): JobRun {
+    const inicio = this.clock.now();
+    let run: JobRun;
+
+    try {
+      const resultado = entry.job.run(now);
+      run = {
+        id: this.generateId(),
+        jobId: entry.job.id,
+        trigger,
+        inicio,
+        fin: this.clock.now(),
+        estado: 'exito',
+        resultado,
+      };
+    } catch (error) {
+      console.error(`Error en la tarea ${entry.job.id}:`, error);
+      run = {
+        id: this.generateId(),
+        jobId: entry.job.id,
+        trigger,
+        inicio,
+        fin: this.clock.now(),
+        estado: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    this.runs.push(run);
+    while (this.runs.size() > this.MAX_RUNS) {
+      this.runs.removeAt(0);
+    }
+    this.persist();
+
+    return run;
+  }
+
+  /**
+   * Pausa una tarea; no se ejecuta en los ticks hasta reanudarla
+   */
+  public pauseJob(jobId: string): JobStatus {
+    const entry = this.getEntry(jobId);
+    entry.paused = true;
+    this.persist();
+    return this.toStatus(entry);
+  }
+
+  /**
+   * Reanuda una tarea pausada
+   */
+  public resumeJob(jobId: string, now: Date = this.clock.now()): JobStatus {
+    const entry = this.getEntry(jobId);
+    entry.paused = false;
+    entry.nextRunAt = nextCronRun(entry.cron, now);
+    this.persist();
+    return this.toStatus(entry);
+  }
+
+  /**
+   * Recalcula la próxima ejecución de todas las tareas
+   * Necesario cuando el reloj retrocede (p. ej. al terminar una simulación)
+   */
+  public recalculate(now: Date = this.clock.now()): void {
+    this.jobs.forEach(entry => {
+      entry.nextRunAt = nextCronRun(entry.cron, now);
+    });
+  }
+
+  /**
+   * Cambia la expresión cron de una tarea
+   */
+  public rescheduleJob(jobId: string, expression: string, now: Date = this.clock.now()): JobStatus {
+    const entry = this.getEntry(jobId);
+    entry.cron = parseCron(expression);
+    entry.nextRunAt = nextCronRun(entry.cron, now);
+    this.persist();
+    return this.toStatus(entry);
+  }
+
+  private toStatus(entry: JobEntry): JobStatus {
+    const runs = this.getRuns(entry.job.id);
+
+    return {
+      id: entry.job.id,
+      descripcion: entry.job.descripcion,
+      schedule: entry.cron.expression,
+      pausada: entry.paused,
+      proximaEjecucion: entry.paused ? null : entry.nextRunAt,
+      ultimaEjecucion: runs[0] ?? null,
+    };
+  }
+
+  /**
+   * Obtiene el estado de todas las tareas
+   */
+  public getJobs(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(entry => this.toStatus(entry));
+  }
+
+  /**
+   * Obtiene el estado de una tarea
+   */
+  public getJob(jobId: string): JobStatus | null {
+    const entry = this.jobs.get(jobId);
+    return entry ? this.toStatus(entry) : null;
+  }
+
+  /**
+   * Obtiene el historial de ejecuciones (del más reciente al más antiguo)
+   */
+  public getRuns(jobId?: string, limit?: number): JobRun[] {
+    const runs = this.runs
+      .filter(run => !jobId || run.jobId === jobId)
+      .reverse();
+
+    return limit !== undefined ? runs.slice(0, limit) : runs;
+  }
+
+  /**
+   * Elimina las ejecuciones anteriores a una fecha; retorna cuántas se eliminaron
+   */
+  public purgeRuns(before: Date): number {
+    const kept = this.runs.filter(run => run.inicio >= before);
+    const purged = this.runs.size() - kept.length;
+    if (purged === 0) return 0;
+
+    this.runs.clear();
+    kept.forEach(run => this.runs.push(run));
+    this.persist();
+    return purged;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Servicio de Series
+ * Agrupa libros en series y obras en varios volúmenes; cada libro guarda su
+ * serie y su número de volumen, la serie solo guarda sus datos descriptivos
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type { Book, CreateSeriesDTO, Series, SeriesWithVolumes } from '@/types';
+import type { BookRepository } from '../repositories';
+
+export interface SeriesServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  clock?: Clock;
+}
+
+// Los títulos repetidos de los datos de ejemplo que forman una obra en varios volúmenes
+const SAMPLE_SERIES_PREFIX = 'Enciclopedia de ';
+
+const byVolume = (a: Book, b: Book) => a.serie!.volumen - b.serie!.volumen;
+
+export class SeriesService {
+  private series: Map<string, Series>;
+  private storage: StorageAdapter;
+  private bookService: BookRepository;
+  private clock: Clock;
+
+  constructor(deps: SeriesServiceDeps) {
+    this.series = new Map();
+    this.storage = deps.storage;
+    this.bookService = deps.bookService;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedSeries = this.storage.load<Series[]>('series');
+    if (storedSeries) {
+      this.restore(storedSeries);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+    }
+  }
+
+  /**
+   * Datos de ejemplo: cada enciclopedia del catálogo con más de un libro
+   * se convierte en una serie, numerada en orden de alta
+   */
+  private initializeSampleData(): void {
+    const groups = new Map<string, Book[]>();
+
+    this.bookService.getAllBooks()
+      .filter(book => book.titulo.startsWith(SAMPLE_SERIES_PREFIX) && !book.serie)
+      .forEach(book => groups.set(book.titulo, [...(groups.get(book.titulo) ?? []), book]));
+
+    groups.forEach((books, titulo) => {
+      if (books.length < 2) return;
+
+      const serie = this.buildSeries({ titulo, descripcion: `Obra en ${books.length} volúmenes` });
+      this.series.set(serie.id, serie);
+      books.forEach((book, index) => {
+        this.bookService.updateBook(book.id, { serie: { serieId: serie.id, volumen: index + 1 } });
+      });
+    });
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `SR-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persist(): void {
+    this.storage.save('series', this.exportState());
+  }
+
+  private restore(series: Series[]): void {
+    this.series.clear();
+    series.forEach(serie => this.series.set(serie.id, { ...serie }));
+  }
+
+  /**
+   * Exporta las series en orden de creación
+   */
+  public exportState(): Series[] {
+    return Array.from(this.series.values());
+  }
+
+  /**
+   * Reemplaza todas las series (usado al restaurar snapshots)
+   */
+  public importState(series: Series[]): void {
+    this.restore(series);
+    this.persist();
+  }
+
+  private buildSeries(data: CreateSeriesDTO): Series {
+    return {
+      id: this.generateId(),
+      titulo: data.titulo.trim(),
+      descripcion: data.descripcion?.trim() || undefined,
+      fechaCreacion: this.clock.now(),
+    };
+  }
+
+  /**
+   * Impide dos series con el mismo título (sin distinguir mayúsculas)
+   */
+  private assertUniqueTitle(titulo: string, currentId?: string): void {
+    const normalized = titulo.trim().toLowerCase();
+    const existing = Array.from(this.series.values()).find(
+      serie => serie.titulo.toLowerCase() === normalized && serie.id !== currentId
+    );
+    if (existing) {
+      throw new Error(`Ya existe la serie "${existing.titulo}"`);
+    }
+  }
+
+  /**
+   * Todas las series ordenadas por título
+   */
+  public getAllSeries(): Series[] {
+    return this.exportState().sort((a, b) => a.titulo.localeCompare(b.titulo));
+  }
+
+  public findSeriesById(id: string): Series | null {
+    return this.series.get(id) ?? null;
+  }
+
+  public createSeries(data: CreateSeriesDTO): Series {
+    if (!data.titulo || !data.titulo.trim()) {
+      throw new Error('El título de la serie es requerido');
+    }
+    this.assertUniqueTitle(data.titulo);
+
+    const serie = this.buildSeries(data);
+    this.series.set(serie.id, serie);
+    this.persist();
+    return serie;
+  }
+
+  public updateSeries(id: string, updates: Partial<CreateSeriesDTO>): Series | null {
+    const serie = this.series.get(id);
+    if (!serie) return null;
+
+    if (updates.titulo !== undefined) {
+      if (!updates.titulo.trim()) {
+        throw new Error('El título de la serie es requerido');
+      }
+      this.assertUniqueTitle(updates.titulo, id);
+      serie.titulo = updates.titulo.trim();
+    }
+
+    if (updates.descripcion !== undefined) {
+      serie.descripcion = updates.descripcion.trim() || undefined;
+    }
+
+    this.persist();
+    return serie;
+  }
+
+  /**
+   * Elimina una serie; sus libros se conservan sin serie
+   */
+  public deleteSeries(id: string): boolean {
+    if (!this.series.has(id)) return false;
+
+    this.getVolumes(id).forEach(book => this.bookService.updateBook(book.id, { serie: null }));
+    this.series.delete(id);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Libros de una serie en orden de volumen
+   * Complejidad: O(n log n) sobre el catálogo
+   */
+  public getVolumes(serieId: string): Book[] {
+    return this.bookService.getAllBooks()
+      .filter(book => book.serie?.serieId === serieId)
+      .sort(byVolume);
+  }
+
+  public getSeriesWithVolumes(id: string): SeriesWithVolumes | null {
+    const serie = this.series.get(id);
+    return serie ? { ...serie, libros: this.getVolumes(id) } : null;
+  }
+
+  /**
+   * Motivo por el que un libro no puede ocupar un volumen de una serie
+   * (serie inexistente, número no válido o volumen ocupado); null si puede
+   */
+  public checkVolume(serieId: string, volumen: number, bookId?: string): string | null {
+    const serie = this.series.get(serieId);
+    if (!serie) {
+      return 'Serie no encontrada';
+    }
+
+    if (!Number.isInteger(volumen) || volumen < 1) {
+      return 'El número de volumen debe ser un entero mayor que 0';
+    }
+
+    const occupied = this.getVolumes(serieId).find(
+      book => book.serie!.volumen === volumen && book.id !== bookId
+    );
+    return occupied ? `El volumen ${volumen} de "${serie.titulo}" ya es "${occupied.titulo}"` : null;
+  }
+
+  /**
+   * Asigna un libro a un volumen de la serie (por defecto, el siguiente al último)
+   * Si el libro estaba en otra serie, pasa a esta
+   */
+  public addVolume(serieId: string, bookId: string, volumen?: number): Book {
+    const book = this.bookService.findBookById(bookId);
+    if (!book) {
+      throw new Error('Libro no encontrado');
+    }
+
+    const volumes = this.getVolumes(serieId);
+    const numero = volumen ?? (volumes.length > 0 ? volumes[volumes.length - 1].serie!.volumen + 1 : 1);
+    const error = this.checkVolume(serieId, numero, bookId);
+    if (error) {
+      throw new Error(error);
+    }
+
+    return this.bookService.updateBook(bookId, { serie: { serieId, volumen: numero } })!;
+  }
+
+  /**
+   * Quita un libro de su serie
+   */
+  public removeVolume(bookId: string): Book | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book || !book.serie) return null;
+
+    return this.bookService.updateBook(bookId, { serie: null });
+  }
+
+  /**
+   * Siguiente volumen de la serie del libro (el de número inmediatamente mayor)
+   */
+  public getNextVolume(bookId: string): Book | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book?.serie) return null;
+
+    return this.getVolumes(book.serie.serieId)
+      .find(volume => volume.serie!.volumen > book.serie!.volumen) ?? null;
+  }
+
+  /**
+   * Siguiente volumen sin leer de cada serie que el lector ha empezado:
+   * el primero posterior al volumen más alto que ya leyó
+   */
+  public getNextUnreadVolumes(readBookIds: string[]): Array<{ serie: Series; libro: Book }> {
+    const read = new Set(readBookIds);
+    const lastRead = new Map<string, number>();
+
+    readBookIds.forEach(bookId => {
+      const entry = this.bookService.findBookById(bookId)?.serie;
+      if (!entry || !this.series.has(entry.serieId)) return;
+      lastRead.set(entry.serieId, Math.max(lastRead.get(entry.serieId) ?? 0, entry.volumen));
+    });
+
+    const result: Array<{ serie: Series; libro: Book }> = [];
+    lastRead.forEach((volumen, serieId) => {
+      const libro = this.getVolumes(serieId)
+        .find(volume => volume.serie!.volumen > volumen && !read.has(volume.id));
+      if (libro) result.push({ serie: this.series.get(serieId)!, libro });
+    });
+
+    return result;
+  }
+}
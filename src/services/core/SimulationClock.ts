@@ -0,0 +1,129 @@
+/**
+ * Reloj con modo de simulación
+ * Permite congelar el tiempo o adelantarlo N días para demostrar vencimientos,
+ * multas y tareas programadas sin esperar; el estado se persiste para que la
+ * simulación sobreviva a un reinicio
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import { DAY_MS, systemClock, type Clock } from '@/lib/clock';
+
+interface SimulationState {
+  frozenAt: Date | null; // hora fija mientras el reloj está congelado
+  offsetMs: number; // desplazamiento respecto del reloj base
+}
+
+export interface ClockState {
+  simulado: boolean;
+  congelado: boolean;
+  ahora: Date;
+  desplazamientoMs: number;
+}
+
+export interface SimulationClockDeps {
+  storage: StorageAdapter;
+  base?: Clock;
+}
+
+export class SimulationClock implements Clock {
+  private state: SimulationState;
+  private storage: StorageAdapter;
+  private base: Clock;
+
+  constructor(deps: SimulationClockDeps) {
+    this.storage = deps.storage;
+    this.base = deps.base ?? systemClock;
+    this.state = this.storage.load<SimulationState>('clock') ?? { frozenAt: null, offsetMs: 0 };
+  }
+
+  /**
+   * Guarda el estado de la simulación en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('clock', this.state);
+  }
+
+  /**
+   * Hora actual (simulada si hay simulación activa)
+   */
+  public now(): Date {
+    if (this.state.frozenAt) return new Date(this.state.frozenAt);
+    return new Date(this.base.now().getTime() + this.state.offsetMs);
+  }
+
+  /**
+   * Congela el tiempo en una fecha (por defecto, la hora actual del reloj)
+   */
+  public freeze(at: Date = this.now()): ClockState {
+    if (isNaN(at.getTime())) {
+      throw new Error('Fecha no válida para congelar el reloj');
+    }
+
+    this.state = { frozenAt: new Date(at), offsetMs: 0 };
+    this.persist();
+    return this.getState();
+  }
+
+  /**
+   * Descongela el reloj: el tiempo vuelve a correr desde la hora simulada
+   */
+  public resume(): ClockState {
+    if (this.state.frozenAt) {
+      this.state = {
+        frozenAt: null,
+        offsetMs: this.state.frozenAt.getTime() - this.base.now().getTime(),
+      };
+      this.persist();
+    }
+    return this.getState();
+  }
+
+  /**
+   * Adelanta el reloj N días (congelado o no)
+   */
+  public advance(days: number): ClockState {
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error('Los días a avanzar deben ser un número positivo');
+    }
+
+    const deltaMs = days * DAY_MS;
+    if (this.state.frozenAt) {
+      this.state.frozenAt = new Date(this.state.frozenAt.getTime() + deltaMs);
+    } else {
+      this.state.offsetMs += deltaMs;
+    }
+
+    this.persist();
+    return this.getState();
+  }
+
+  /**
+   * Vuelve al tiempo real
+   */
+  public reset(): ClockState {
+    this.state = { frozenAt: null, offsetMs: 0 };
+    this.persist();
+    return this.getState();
+  }
+
+  /**
+   * Indica si la hora difiere del reloj base
+   */
+  public isSimulated(): boolean {
+    return this.state.frozenAt !== null || this.state.offsetMs !== 0;
+  }
+
+  /**
+   * Estado actual de la simulación
+   */
+  public getState(): ClockState {
+    const ahora = this.now();
+
+    return {
+      simulado: this.isSimulated(),
+      congelado: this.state.frozenAt !== null,
+      ahora,
+      desplazamientoMs: ahora.getTime() - this.base.now().getTime(),
+    };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Pruebas de la importación de snapshots: migración sobre una copia,
+ * validación de los registros e importación todo o nada
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryAdapter } from '@/lib/persistence';
+import { createLibraryContext } from '../container';
+import { SNAPSHOT_SCHEMA_VERSION } from './SnapshotService';
+
+function createContext() {
+  return createLibraryContext({ storage: new MemoryAdapter() });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SnapshotService', () => {
+  it('migra un archivo anterior sin modificar el objeto recibido', () => {
+    const { snapshots } = createContext();
+    const { locations, ...v8 } = { ...structuredClone(snapshots.exportSnapshot()), schemaVersion: 8 };
+    const original = structuredClone(v8);
+
+    const upgraded = snapshots.upgradeSnapshot(v8);
+
+    expect(v8).toEqual(original);
+    expect(upgraded.schemaVersion).toBe(SNAPSHOT_SCHEMA_VERSION);
+    expect(upgraded.locations).toEqual(locations);
+  });
+
+  it('rechaza versiones posteriores y validateSnapshot no acepta versiones anteriores', () => {
+    const { snapshots } = createContext();
+    const current = snapshots.exportSnapshot();
+
+    expect(() => snapshots.upgradeSnapshot({ ...current, schemaVersion: SNAPSHOT_SCHEMA_VERSION + 1 }))
+      .toThrow('Versión de esquema no compatible');
+    expect(() => snapshots.validateSnapshot({ ...current, schemaVersion: 8 }))
+      .toThrow('Versión de esquema no compatible');
+  });
+
+  it('rechaza un libro mal formado antes de tocar el estado', () => {
+    const { snapshots } = createContext();
+    const current = structuredClone(snapshots.exportSnapshot());
+
+    expect(() => snapshots.upgradeSnapshot({ ...current, books: [...current.books, { id: 'roto' }] }))
+      .toThrow('Registro');
+  });
+
+  it('restaura el estado anterior si falla una sección a mitad de la importación', () => {
+    const source = createContext();
+    source.locations.createLocation({ nivel: 'sucursal', nombre: 'Sucursal del archivo', padreId: null });
+    source.series.createSeries({ titulo: 'Serie del archivo' });
+    const snapshot = source.snapshots.upgradeSnapshot(structuredClone(source.snapshots.exportSnapshot()));
+
+    const target = createContext();
+    const before = structuredClone(target.snapshots.exportSnapshot());
+    const lastEvent = target.events.getLastSequence();
+
+    vi.spyOn(target.users, 'importState').mockImplementationOnce(() => {
+      throw new Error('Fallo inyectado al restaurar usuarios');
+    });
+
+    expect(() => target.snapshots.importSnapshot(snapshot)).toThrow('Fallo inyectado');
+    vi.restoreAllMocks();
+
+    const after = structuredClone(target.snapshots.exportSnapshot());
+    expect({ ...after, exportedAt: before.exportedAt }).toEqual(before);
+    expect(target.events.getLastSequence()).toBe(lastEvent);
+  });
+});
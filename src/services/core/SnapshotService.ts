@@ -0,0 +1,379 @@
+/**
+ * Servicio de Snapshots
+ * Exporta y restaura el estado completo de la biblioteca en un archivo JSON versionado
+ */
+
+import { systemClock, type Clock } from '@/lib/clock';
+import { withContributors } from '@/lib/contributors';
+import type { LibrarySnapshot, LibraryState } from '@/types';
+import type { BookRepository, UserRepository } from '../repositories';
+import type { GraphService } from '../v3/GraphService';
+import type { LoanService } from './LoanService';
+import type { ReservationService } from './ReservationService';
+import type { CopyService } from './CopyService';
+import type { HistoryService } from './HistoryService';
+import type { EventLogService } from './EventLogService';
+import type { ClassificationService } from './ClassificationService';
+import type { SeriesService } from './SeriesService';
+import type { WorkService } from './WorkService';
+import type { RepairService } from './RepairService';
+import type { LocationService } from './LocationService';
+import { migrateToCopies } from './copyMigration';
+import { migrateClassification } from './classificationMigration';
+import { runInUnitOfWork } from './UnitOfWork';
+
+// Incrementar cuando cambie la forma de las entidades exportadas
+// v2: se agregan los apartados (holds)
+// v3: se agregan los ejemplares (copies)
+// v4: los libros tienen contribuyentes; los archivos anteriores se migran al importar
+// v5: se agrega la clasificación; las categorías anteriores se asignan a sus nodos
+// v6: se agregan las series (los libros guardan su serie y volumen)
+// v7: se agregan las obras (los libros guardan su obra; hay colas de reserva por obra)
+// v8: se agregan las órdenes de reparación de los ejemplares
+// v9: se agregan las sucursales, salas y estanterías (los ejemplares guardan su estantería)
+export const SNAPSHOT_SCHEMA_VERSION = 9;
+
+type FieldKind = 'string' | 'number' | 'array';
+
+// Campos obligatorios de los registros de cada sección; se comprueban antes de
+// reemplazar nada para no dejar la biblioteca a medio importar
+const REQUIRED_FIELDS: Record<string, Record<string, FieldKind>> = {
+  books: { id: 'string', titulo: 'string', isbn: 'string', contribuyentes: 'array', copias: 'number' },
+  users: { id: 'string', nombre: 'string', apellido: 'string', email: 'string' },
+  loans: { id: 'string', libroId: 'string', usuarioId: 'string', estado: 'string' },
+  copies: { id: 'string', libroId: 'string', codigoBarras: 'string', estado: 'string' },
+  holds: { id: 'string', libroId: 'string', usuarioId: 'string' },
+  history: { id: 'string', tipo: 'string' },
+  series: { id: 'string', titulo: 'string' },
+  works: { id: 'string', titulo: 'string' },
+  repairs: { id: 'string', copiaId: 'string', libroId: 'string', estado: 'string' },
+  locations: { id: 'string', nivel: 'string', nombre: 'string' },
+};
+
+/**
+ * Primer campo obligatorio ausente o de otro tipo, o null si el registro es válido
+ */
+function invalidField(record: unknown, fields: Record<string, FieldKind>): string | null {
+  if (!record || typeof record !== 'object') return 'no es un objeto';
+
+  const values = record as Record<string, unknown>;
+  const invalid = Object.entries(fields).find(([field, kind]) =>
+    kind === 'array' ? !Array.isArray(values[field]) : typeof values[field] !== kind
+  );
+
+  return invalid ? `falta ${invalid[0]} o no es ${invalid[1] === 'array' ? 'una lista' : `de tipo ${invalid[1]}`}` : null;
+}
+
+export interface SnapshotServiceDeps {
+  bookService: BookRepository;
+  userService: UserRepository;
+  loanService: LoanService;
+  reservationService: ReservationService;
+  copyService: CopyService;
+  historyService: HistoryService;
+  graphService: GraphService;
+  classification: ClassificationService;
+  seriesService: SeriesService;
+  workService: WorkService;
+  repairService: RepairService;
+  locationService: LocationService;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+export class SnapshotService {
+
+  private bookService: BookRepository;
+  private userService: UserRepository;
+  private loanService: LoanService;
+  private reservationService: ReservationService;
+  private copyService: CopyService;
+  private historyService: HistoryService;
+  private graphService: GraphService;
+  private classification: ClassificationService;
+  private seriesService: SeriesService;
+  private workService: WorkService;
+  private repairService: RepairService;
+  private locationService: LocationService;
+  private events: EventLogService;
+  private clock: Clock;
+
+  constructor(deps: SnapshotServiceDeps) {
+    this.bookService = deps.bookService;
+    this.userService = deps.userService;
+    this.loanService = deps.loanService;
+    this.reservationService = deps.reservationService;
+    this.copyService = deps.copyService;
+    this.historyService = deps.historyService;
+    this.graphService = deps.graphService;
+    this.classification = deps.classification;
+    this.seriesService = deps.seriesService;
+    this.workService = deps.workService;
+    this.repairService = deps.repairService;
+    this.locationService = deps.locationService;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
+  }
+
+  /**
+   * Genera el archivo con el estado actual de todos los servicios
+   */
+  public exportSnapshot(): LibrarySnapshot {
+    return {
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+      exportedAt: this.clock.now(),
+      books: this.bookService.exportState(),
+      users: this.userService.exportState(),
+      loans: this.loanService.exportState(),
+      copies: this.copyService.exportState(),
+      reservations: this.reservationService.exportState(),
+      holds: this.reservationService.exportHolds(),
+      history: this.historyService.exportState(),
+      graph: this.graphService.exportState(),
+      classification: this.classification.exportState(),
+      series: this.seriesService.exportState(),
+      works: this.workService.exportState(),
+      repairs: this.repairService.exportState(),
+      locations: this.locationService.exportState(),
+    };
+  }
+
+  /**
+   * Lleva un archivo de una versión anterior a la actual y lo valida
+   * Trabaja sobre una copia (el objeto recibido no cambia) y aplica en orden
+   * cada paso de migración v1 → v2 → … → SNAPSHOT_SCHEMA_VERSION; un archivo
+   * de una versión desconocida o posterior se rechaza
+   * Es el único punto de entrada de los archivos: se llama una vez por importación
+   */
+  public upgradeSnapshot(data: unknown): LibrarySnapshot {
+    if (!data || typeof data !== 'object') {
+      throw new Error('El archivo no contiene un snapshot válido');
+    }
+
+    const snapshot = structuredClone(data) as Partial<LibrarySnapshot>;
+
+    // Los snapshots v1 no tenían apartados y los v1/v2 no tenían ejemplares;
+    // los ejemplares se crean a partir de los contadores al restaurar
+    if (snapshot.schemaVersion === 1) {
+      snapshot.schemaVersion = 2;
+      snapshot.holds = [];
+    }
+
+    if (snapshot.schemaVersion === 2) {
+      snapshot.schemaVersion = 3;
+      snapshot.copies = [];
+    }
+
+    // Hasta v3 el autor era el único contribuyente
+    if (snapshot.schemaVersion === 3) {
+      snapshot.schemaVersion = 4;
+      if (Array.isArray(snapshot.books)) snapshot.books.forEach(withContributors);
+    }
+
+    // Hasta v4 no se exportaba la clasificación: se conserva la actual
+    if (snapshot.schemaVersion === 4) {
+      snapshot.schemaVersion = 5;
+      snapshot.classification = this.classification.exportState();
+    }
+
+    // Hasta v5 no había series
+    if (snapshot.schemaVersion === 5) {
+      snapshot.schemaVersion = 6;
+      snapshot.series = [];
+    }
+
+    // Hasta v6 no había obras
+    if (snapshot.schemaVersion === 6) {
+      snapshot.schemaVersion = 7;
+      snapshot.works = [];
+    }
+
+    // Hasta v7 no había órdenes de reparación: las de los ejemplares en
+    // mantenimiento se abren al restaurar
+    if (snapshot.schemaVersion === 7) {
+      snapshot.schemaVersion = 8;
+      snapshot.repairs = [];
+    }
+
+    // Hasta v8 no había ubicaciones: se conservan las actuales y los ejemplares
+    // se ubican por el rango de sus estanterías
+    if (snapshot.schemaVersion === 8) {
+      snapshot.schemaVersion = SNAPSHOT_SCHEMA_VERSION;
+      snapshot.locations = this.locationService.exportState();
+    }
+
+    this.validateSnapshot(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Valida un archivo de la versión actual sin modificarlo: la versión, las
+   * secciones y los campos obligatorios de cada registro
+   * Lanza un error descriptivo si no se puede importar
+   */
+  public validateSnapshot(data: unknown): asserts data is LibrarySnapshot {
+    if (!data || typeof data !== 'object') {
+      throw new Error('El archivo no contiene un snapshot válido');
+    }
+
+    const snapshot = data as Partial<LibrarySnapshot>;
+
+    if (snapshot.schemaVersion !== SNAPSHOT_SCHEMA_VERSION) {
+      throw new Error(
+        `Versión de esquema no compatible: ${snapshot.schemaVersion ?? 'ausente'} (se esperaba ${SNAPSHOT_SCHEMA_VERSION})`
+      );
+    }
+
+    const graph = snapshot.graph;
+    const sections: Record<string, boolean> = {
+      books: Array.isArray(snapshot.books),
+      users: Array.isArray(snapshot.users),
+      loans: Array.isArray(snapshot.loans),
+      copies: Array.isArray(snapshot.copies),
+      reservations: !!snapshot.reservations && typeof snapshot.reservations === 'object'
+        && Object.values(snapshot.reservations).every(queue => Array.isArray(queue)),
+      holds: Array.isArray(snapshot.holds),
+      history: Array.isArray(snapshot.history),
+      graph: !!graph && Array.isArray(graph.users) && Array.isArray(graph.books) && Array.isArray(graph.loans),
+      classification: !!snapshot.classification
+        && typeof snapshot.classification.sistema === 'string'
+        && Array.isArray(snapshot.classification.nodos),
+      series: Array.isArray(snapshot.series),
+      works: Array.isArray(snapshot.works),
+      repairs: Array.isArray(snapshot.repairs),
+      locations: Array.isArray(snapshot.locations),
+    };
+
+    const missing = Object.keys(sections).filter(key => !sections[key]);
+
+    if (missing.length > 0) {
+      throw new Error(`Faltan secciones en el snapshot: ${missing.join(', ')}`);
+    }
+
+    const records = snapshot as Record<string, unknown>;
+    Object.entries(REQUIRED_FIELDS).forEach(([section, fields]) => {
+      (records[section] as unknown[]).forEach((record, index) => {
+        const invalid = invalidField(record, fields);
+        if (invalid) {
+          throw new Error(`Registro ${index + 1} de ${section} no válido: ${invalid}`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Reemplaza el estado de todos los servicios con un archivo ya actualizado
+   * (upgradeSnapshot) y reconstruye los índices AVL/Trie y las listas de
+   * adyacencia del grafo
+   * Todo se hace en una unidad de trabajo: si una sección falla se restaura el
+   * estado anterior completo y no se registra la importación
+   */
+  public importSnapshot(snapshot: LibrarySnapshot): LibrarySnapshot {
+    const previous = structuredClone(this.exportSnapshot());
+
+    runInUnitOfWork(uow => {
+      // replaceTree valida el árbol antes de reemplazarlo
+      uow.step(
+        'Restaurar clasificación',
+        () => this.classification.replaceTree(snapshot.classification.sistema, snapshot.classification.nodos),
+        () => this.classification.replaceTree(previous.classification.sistema, previous.classification.nodos)
+      );
+      uow.step(
+        'Restaurar series',
+        () => this.seriesService.importState(snapshot.series),
+        () => this.seriesService.importState(previous.series)
+      );
+      uow.step(
+        'Restaurar obras',
+        () => this.workService.importState(snapshot.works),
+        () => this.workService.importState(previous.works)
+      );
+      uow.step(
+        'Restaurar órdenes de reparación',
+        () => this.repairService.importState(snapshot.repairs),
+        () => this.repairService.importState(previous.repairs)
+      );
+      uow.step(
+        'Restaurar ubicaciones',
+        () => this.locationService.importState(snapshot.locations),
+        () => this.locationService.importState(previous.locations)
+      );
+      uow.step(
+        'Restaurar libros, usuarios y circulación',
+        () => this.restoreState(snapshot),
+        () => this.restoreState(previous)
+      );
+
+      uow.afterCommit(() => this.events.append('SnapshotImported', { snapshot }));
+    });
+
+    this.migrateRestoredData();
+    return snapshot;
+  }
+
+  /**
+   * Reconstruye todos los servicios reproduciendo el registro de eventos
+   * Recuperación ante fallos: el historial de operaciones, la clasificación, las series,
+   * las obras, las órdenes de reparación y las ubicaciones se conservan
+   */
+  public rebuildFromEventLog(): LibraryState {
+    const state = this.events.project();
+    state.history = this.historyService.exportState();
+
+    this.restoreState(state);
+    this.migrateRestoredData();
+    return state;
+  }
+
+  /**
+   * Los ejemplares se importan antes que los libros para que estos
+   * recalculen su disponibilidad a partir de ellos
+   */
+  private restoreState(state: LibraryState): void {
+    this.copyService.importState(state.copies);
+    this.bookService.importState(state.books);
+    this.userService.importState(state.users);
+    this.loanService.importState(state.loans);
+    this.reservationService.importState(state.reservations);
+    this.reservationService.importHolds(state.holds);
+    this.historyService.importState(state.history);
+    this.graphService.importState(state.graph);
+  }
+
+  /**
+   * Crea los ejemplares de los libros restaurados desde datos anteriores,
+   * asigna sus categorías a nodos de la clasificación y abre las órdenes de
+   * reparación que falten
+   * Se ejecuta después de registrar la importación para que sus eventos la sigan
+   */
+  private migrateRestoredData(): void {
+    migrateToCopies({
+      bookService: this.bookService,
+      copyService: this.copyService,
+      loanService: this.loanService,
+      reservationService: this.reservationService,
+    });
+    migrateClassification({
+      bookService: this.bookService,
+      classification: this.classification,
+    });
+    this.repairService.trackUntrackedCopies();
+  }
+
+  /**
+   * Resumen de cantidades de un snapshot
+   */
+  public summarize(snapshot: LibraryState) {
+    return {
+      libros: snapshot.books.length,
+      usuarios: snapshot.users.length,
+      prestamos: snapshot.loans.length,
+      ejemplares: snapshot.copies.length,
+      reservas: Object.values(snapshot.reservations)
+        .reduce((sum, queue) => sum + queue.length, 0),
+      apartados: snapshot.holds.length,
+      operaciones: snapshot.history.length,
+      aristasGrafo: snapshot.graph.loans.length,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Servicio de Etiquetas
+ * Las etiquetas viven en cada libro; el índice (Trie en V2) lo mantiene el
+ * repositorio de libros. Este servicio ofrece la nube, el autocompletado y
+ * las operaciones en bloque
+ */
+
+import { hasTag, normalizeTags, tagKey } from '@/lib/tags';
+import type { Book, BulkTagAction, BulkTagResult, TagCount } from '@/types';
+import type { BookRepository } from '../repositories';
+import type { HistoryService } from './HistoryService';
+import { runInUnitOfWork } from './UnitOfWork';
+
+export interface TagServiceDeps {
+  bookService: BookRepository;
+  historyService: HistoryService;
+}
+
+export class TagService {
+  private bookService: BookRepository;
+  private historyService: HistoryService;
+
+  constructor(deps: TagServiceDeps) {
+    this.bookService = deps.bookService;
+    this.historyService = deps.historyService;
+  }
+
+  /**
+   * Nube de etiquetas: cada etiqueta con su número de libros, las más usadas primero
+   */
+  public getTagCloud(limit?: number): TagCount[] {
+    const counts = this.bookService.getTagCounts();
+    return limit ? counts.slice(0, limit) : counts;
+  }
+
+  public autocomplete(prefix: string, limit: number = 10): TagCount[] {
+    return this.bookService.autocompleteTags(prefix, limit);
+  }
+
+  /**
+   * Agrega las etiquetas a varios libros
+   */
+  public tagBooks(bookIds: string[], etiquetas: string[]): BulkTagResult {
+    return this.applyBulk('tag', bookIds, etiquetas);
+  }
+
+  /**
+   * Quita las etiquetas de varios libros
+   */
+  public untagBooks(bookIds: string[], etiquetas: string[]): BulkTagResult {
+    return this.applyBulk('untag', bookIds, etiquetas);
+  }
+
+  /**
+   * Se validan todos los libros antes de modificar ninguno; cada libro que cambia
+   * es un paso de la unidad de trabajo y se restauran sus etiquetas si otro falla
+   */
+  private applyBulk(action: BulkTagAction, bookIds: string[], etiquetas: string[]): BulkTagResult {
+    const tags = normalizeTags(etiquetas);
+    if (tags.length === 0) {
+      throw new Error('Indica al menos una etiqueta');
+    }
+
+    const ids = Array.from(new Set(bookIds));
+    if (ids.length === 0) {
+      throw new Error('Selecciona al menos un libro');
+    }
+
+    const books = ids.map(id => {
+      const book = this.bookService.findBookById(id);
+      if (!book) {
+        throw new Error(`Libro no encontrado: ${id}`);
+      }
+      return book;
+    });
+
+    const changes = books
+      .map(book => ({ book, previous: book.etiquetas ?? [], next: this.nextTags(action, book, tags) }))
+      .filter(({ previous, next }) => next.length !== previous.length);
+
+    const modificados = runInUnitOfWork(uow => changes.map(({ book, previous, next }) => uow.step(
+      `Etiquetas de ${book.titulo}`,
+      () => this.bookService.updateBook(book.id, { etiquetas: next })!,
+      () => this.bookService.updateBook(book.id, { etiquetas: previous })
+    )));
+
+    // Con la forma con la que quedaron en el catálogo
+    const applied = action === 'tag' && modificados.length > 0
+      ? tags.map(tag => modificados[0].etiquetas!.find(etiqueta => tagKey(etiqueta) === tagKey(tag)) ?? tag)
+      : tags;
+
+    if (modificados.length > 0) {
+      this.historyService.logBulkTag(action, applied, modificados);
+    }
+
+    return { etiquetas: applied, modificados };
+  }
+
+  private nextTags(action: BulkTagAction, book: Book, tags: string[]): string[] {
+    const current = book.etiquetas ?? [];
+
+    if (action === 'tag') {
+      return [...current, ...tags.filter(tag => !hasTag(book, tag))];
+    }
+
+    const removed = new Set(tags.map(tagKey));
+    return current.filter(etiqueta => !removed.has(tagKey(etiqueta)));
+  }
+}
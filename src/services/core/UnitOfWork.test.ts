@@ -0,0 +1,234 @@
+/**
+ * Pruebas de las transacciones compensatorias de circulación
+ * Se hace fallar cada paso de la unidad de trabajo (después de ejecutarse, el
+ * peor caso) y se comprueba que libro, ejemplares, usuario, préstamos, reservas
+ * y apartados vuelven al estado previo y que no se emite ningún evento
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryAdapter } from '@/lib/persistence';
+import { createLibraryContext, type LibraryContext } from '../container';
+import type { RepositoryVersion } from '../repositories';
+import { UnitOfWork } from './UnitOfWork';
+
+interface Scenario {
+  context: LibraryContext;
+  bookId: string;
+  userId: string;
+  waitingUserId: string;
+}
+
+function createScenario(repositoryVersion: RepositoryVersion): Scenario {
+  const context = createLibraryContext({ storage: new MemoryAdapter(), repositoryVersion });
+
+  const book = context.books.addBook({
+    titulo: 'Rayuela',
+    autor: 'Julio Cortázar',
+    isbn: '9788437604572',
+    categoria: '800',
+    anioPublicacion: 1963,
+    editorial: 'Cátedra',
+    numeroPaginas: 736,
+    copias: 1,
+  });
+
+  const addUser = (nombre: string) => context.users.addUser({
+    nombre,
+    apellido: 'Prueba',
+    email: `${nombre.toLowerCase()}@example.com`,
+    telefono: '600000000',
+    direccion: 'Calle Mayor 1',
+  });
+
+  return {
+    context,
+    bookId: book.id,
+    userId: addUser('Lectora').id,
+    waitingUserId: addUser('Espera').id,
+  };
+}
+
+/**
+ * Estado observable de la circulación de un libro y sus lectores
+ */
+function captureState({ context, bookId, userId, waitingUserId }: Scenario) {
+  return structuredClone({
+    book: context.books.findBookById(bookId),
+    copies: context.copies.getBookCopies(bookId),
+    user: context.users.findUserById(userId),
+    waitingUser: context.users.findUserById(waitingUserId),
+    loans: context.loans.exportState(),
+    reservations: context.reservations.exportState(),
+    holds: context.reservations.exportHolds(),
+    history: context.history.exportState(),
+    graph: context.graph.exportState(),
+    lastEvent: context.events.getLastSequence(),
+  });
+}
+
+/**
+ * Hace fallar el paso indicado justo después de ejecutarlo
+ * Retorna los pasos que se ejecutaron, para comprobar que el paso existe
+ */
+function failAtStep(target: string): string[] {
+  const executed: string[] = [];
+  const step = UnitOfWork.prototype.step;
+
+  vi.spyOn(UnitOfWork.prototype, 'step').mockImplementation(function <T>(
+    this: UnitOfWork,
+    descripcion: string,
+    action: () => T,
+    compensate: () => void
+  ): T {
+    const result = step.call(this, descripcion, action, compensate) as T;
+    executed.push(descripcion);
+
+    if (descripcion === target) {
+      throw new Error(`Fallo inyectado en "${descripcion}"`);
+    }
+    return result;
+  });
+
+  return executed;
+}
+
+/**
+ * Ejecuta una operación haciendo fallar el paso y comprueba que el estado se restaura
+ */
+function expectRollback(scenario: Scenario, target: string, operation: () => unknown): void {
+  const before = captureState(scenario);
+  const executed = failAtStep(target);
+
+  expect(operation).toThrow(`Fallo inyectado en "${target}"`);
+  expect(executed).toContain(target);
+
+  vi.restoreAllMocks();
+  expect(captureState(scenario)).toEqual(before);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe.each<RepositoryVersion>(['v1', 'v2'])('circulación con repositorios %s', (version) => {
+  describe('createLoan', () => {
+    it.each([
+      'Prestar ejemplar',
+      'Incrementar préstamos del usuario',
+      'Guardar préstamo',
+      'Registrar préstamo en el grafo',
+      'Registrar préstamo en el historial',
+    ])('revierte si falla "%s"', (target) => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId } = scenario;
+
+      expectRollback(scenario, target, () =>
+        context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 })
+      );
+    });
+
+    it.each([
+      'Liberar apartado',
+      'Liberar ejemplar apartado',
+      'Prestar ejemplar',
+      'Guardar préstamo',
+    ])('al retirar un apartado revierte si falla "%s"', (target) => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId, waitingUserId } = scenario;
+
+      // El ejemplar devuelto queda apartado para quien esperaba en la cola
+      const loan = context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 });
+      context.reservations.addReservation(bookId, waitingUserId);
+      context.loans.returnBook(loan.id);
+      expect(context.reservations.findHold(bookId, waitingUserId)).not.toBeNull();
+
+      expectRollback(scenario, target, () =>
+        context.loans.createLoan({ libroId: bookId, usuarioId: waitingUserId, diasPrestamo: 14 })
+      );
+    });
+  });
+
+  describe('returnBook', () => {
+    it.each([
+      'Marcar préstamo como devuelto',
+      'Descontar préstamo del usuario',
+      'Reponer ejemplar',
+      'Registrar devolución en el historial',
+    ])('revierte si falla "%s"', (target) => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId } = scenario;
+      const loan = context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 });
+
+      expectRollback(scenario, target, () => context.loans.returnBook(loan.id));
+    });
+
+    it('revierte si falla "Recibir ejemplar" al retenerlo para reparación', () => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId } = scenario;
+      const loan = context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 });
+
+      expectRollback(scenario, 'Recibir ejemplar', () =>
+        context.loans.returnBook(loan.id, { retenerEjemplar: true })
+      );
+    });
+  });
+
+  describe('atención de reservas', () => {
+    it.each([
+      'Marcar préstamo como devuelto',
+      'Descontar préstamo del usuario',
+      'Atender reserva',
+      'Apartar ejemplar',
+      'Registrar apartado',
+      'Registrar devolución en el historial',
+    ])('al devolver con cola revierte si falla "%s"', (target) => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId, waitingUserId } = scenario;
+      const loan = context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 });
+      context.reservations.addReservation(bookId, waitingUserId);
+
+      expectRollback(scenario, target, () => context.loans.returnBook(loan.id));
+    });
+
+    it.each([
+      'Liberar apartado',
+      'Liberar ejemplar apartado',
+      'Atender reserva',
+      'Apartar ejemplar',
+      'Registrar apartado',
+    ])('al expirar un apartado con cola revierte si falla "%s"', (target) => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId, waitingUserId } = scenario;
+      const thirdUser = context.users.addUser({
+        nombre: 'Tercera',
+        apellido: 'Prueba',
+        email: 'tercera@example.com',
+        telefono: '600000001',
+        direccion: 'Calle Mayor 2',
+      });
+
+      // Apartado para la segunda de la cola; la tercera espera su turno
+      const loan = context.loans.createLoan({ libroId: bookId, usuarioId: userId, diasPrestamo: 14 });
+      context.reservations.addReservation(bookId, waitingUserId);
+      context.reservations.addReservation(bookId, thirdUser.id);
+      context.loans.returnBook(loan.id);
+
+      const afterDeadline = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      expectRollback(scenario, target, () => context.loans.expireHolds(afterDeadline));
+      expect(context.reservations.getBookReservations(bookId).map((res) => res.usuarioId))
+        .toEqual([thirdUser.id]);
+    });
+
+    it('ReservationService.processNextReservation devuelve la reserva al frente de la cola', () => {
+      const scenario = createScenario(version);
+      const { context, bookId, userId, waitingUserId } = scenario;
+      context.reservations.addReservation(bookId, waitingUserId);
+      context.reservations.addReservation(bookId, userId);
+
+      expectRollback(scenario, 'Atender reserva', () =>
+        context.reservations.processNextReservation(bookId)
+      );
+      expect(context.reservations.getNextReservation(bookId)?.usuarioId).toBe(waitingUserId);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unidad de Trabajo (Unit of Work)
+ * Agrupa los pasos de una operación de circulación que tocan varios servicios
+ * Cada paso registra una acción compensatoria en una Stack (LIFO): si un paso
+ * falla, las compensaciones se ejecutan en orden inverso y el estado vuelve
+ * al punto de partida. Los eventos de dominio se difieren hasta confirmar
+ */
+
+import { Queue, Stack } from '@/lib/data-structures';
+
+interface Compensation {
+  descripcion: string;
+  compensate: () => void;
+}
+
+export class UnitOfWork {
+  private compensations: Stack<Compensation>;
+  private commitActions: Queue<() => void>;
+  private finished: boolean;
+
+  constructor() {
+    this.compensations = new Stack<Compensation>();
+    this.commitActions = new Queue<() => void>();
+    this.finished = false;
+  }
+
+  private assertOpen(): void {
+    if (this.finished) {
+      throw new Error('La unidad de trabajo ya fue confirmada o revertida');
+    }
+  }
+
+  /**
+   * Ejecuta un paso y registra su compensación
+   * La compensación se registra antes de ejecutar el paso, así también se
+   * revierte un paso que falle a medias; debe restaurar un estado capturado
+   * previamente y no depender del resultado del paso
+   */
+  public step<T>(descripcion: string, action: () => T, compensate: () => void): T {
+    this.assertOpen();
+    this.compensations.push({ descripcion, compensate });
+    return action();
+  }
+
+  /**
+   * Programa una acción para después de confirmar (p. ej. emitir eventos)
+   * Se descarta si la unidad de trabajo se revierte
+   */
+  public afterCommit(action: () => void): void {
+    this.assertOpen();
+    this.commitActions.enqueue(action);
+  }
+
+  /**
+   * Confirma los cambios y ejecuta las acciones diferidas en orden FIFO
+   */
+  public commit(): void {
+    this.assertOpen();
+    this.finished = true;
+    this.compensations.clear();
+
+    while (!this.commitActions.isEmpty()) {
+      this.commitActions.dequeue()!();
+    }
+  }
+
+  /**
+   * Ejecuta todas las compensaciones en orden LIFO
+   * Retorna la descripción de los pasos cuya compensación falló
+   */
+  public rollback(): string[] {
+    this.assertOpen();
+    this.finished = true;
+    this.commitActions.clear();
+
+    const failed: string[] = [];
+    while (!this.compensations.isEmpty()) {
+      const { descripcion, compensate } = this.compensations.pop()!;
+      try {
+        compensate();
+      } catch (error) {
+        console.error(`Error al revertir "${descripcion}":`, error);
+        failed.push(descripcion);
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Número de pasos registrados pendientes de confirmar
+   */
+  public getPendingSteps(): number {
+    return this.compensations.size();
+  }
+}
+
+/**
+ * Ejecuta una operación dentro de una unidad de trabajo
+ * Si se recibe una unidad externa, los pasos se suman a ella y la confirmación
+ * queda a cargo de quien la creó; si no, se crea una, se confirma al terminar
+ * y se revierte (relanzando el error original) si algo falla
+ */
+export function runInUnitOfWork<T>(work: (uow: UnitOfWork) => T, parent?: UnitOfWork): T {
+  if (parent) return work(parent);
+
+  const uow = new UnitOfWork();
+  let result: T;
+
+  try {
+    result = work(uow);
+  } catch (error) {
+    const failed = uow.rollback();
+    if (failed.length > 0) {
+      console.error('Reversión incompleta; pasos sin compensar:', failed);
+    }
+    throw error;
+  }
+
+  uow.commit();
+  return result;
+}
@@ -0,0 +1,278 @@
+/**
+ * Servicio de Obras
+ * Agrupa las ediciones y traducciones de un mismo texto (nivel "obra" de FRBR);
+ * cada libro guarda su obra, la obra solo guarda sus datos descriptivos
+ * Las reservas de cualquier edición esperan en la cola de la obra (ReservationService)
+ */
+
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import type { Book, CreateWorkDTO, Work, WorkWithEditions } from '@/types';
+import type { BookRepository } from '../repositories';
+import type { ReservationService } from './ReservationService';
+
+export interface WorkServiceDeps {
+  storage: StorageAdapter;
+  bookService: BookRepository;
+  reservationService: ReservationService;
+  clock?: Clock;
+}
+
+/**
+ * Clave de comparación de título y autor: minúsculas, sin acentos ni signos
+ */
+const matchKey = (titulo: string, autor: string) =>
+  [titulo, autor]
+    .map(value => value
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim())
+    .join('|');
+
+const byYear = (a: Book, b: Book) =>
+  a.anioPublicacion - b.anioPublicacion || a.titulo.localeCompare(b.titulo);
+
+export class WorkService {
+  private works: Map<string, Work>;
+  private storage: StorageAdapter;
+  private bookService: BookRepository;
+  private reservationService: ReservationService;
+  private clock: Clock;
+
+  constructor(deps: WorkServiceDeps) {
+    this.works = new Map();
+    this.storage = deps.storage;
+    this.bookService = deps.bookService;
+    this.reservationService = deps.reservationService;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedWorks = this.storage.load<Work[]>('works');
+    if (storedWorks) {
+      this.restore(storedWorks);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+    }
+  }
+
+  /**
+   * Datos de ejemplo: los libros con el mismo título y los mismos autores
+   * (y que no forman parte de una serie) son ediciones de una misma obra
+   */
+  private initializeSampleData(): void {
+    const groups = new Map<string, Book[]>();
+
+    this.bookService.getAllBooks()
+      .filter(book => !book.serie && !book.obraId)
+      .forEach(book => {
+        const key = matchKey(book.titulo, book.autor);
+        groups.set(key, [...(groups.get(key) ?? []), book]);
+      });
+
+    groups.forEach(books => {
+      if (books.length < 2) return;
+
+      const [first] = books;
+      const obra = this.buildWork({ titulo: first.titulo, autor: first.autor });
+      this.works.set(obra.id, obra);
+      books.forEach(book => this.bookService.updateBook(book.id, { obraId: obra.id }));
+    });
+  }
+
+  /**
+   * Genera un ID único
+   */
+  private generateId(): string {
+    return `OB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persist(): void {
+    this.storage.save('works', this.exportState());
+  }
+
+  private restore(works: Work[]): void {
+    this.works.clear();
+    works.forEach(obra => this.works.set(obra.id, { ...obra }));
+  }
+
+  /**
+   * Exporta las obras en orden de creación
+   */
+  public exportState(): Work[] {
+    return Array.from(this.works.values());
+  }
+
+  /**
+   * Reemplaza todas las obras (usado al restaurar snapshots)
+   */
+  public importState(works: Work[]): void {
+    this.restore(works);
+    this.persist();
+  }
+
+  private buildWork(data: CreateWorkDTO): Work {
+    return {
+      id: this.generateId(),
+      titulo: data.titulo.trim(),
+      autor: data.autor?.trim() ?? '',
+      descripcion: data.descripcion?.trim() || undefined,
+      fechaCreacion: this.clock.now(),
+    };
+  }
+
+  /**
+   * Impide dos obras con el mismo título y autor (sin distinguir mayúsculas ni acentos)
+   */
+  private assertUnique(titulo: string, autor: string, currentId?: string): void {
+    const key = matchKey(titulo, autor);
+    const existing = Array.from(this.works.values()).find(
+      obra => obra.id !== currentId && matchKey(obra.titulo, obra.autor) === key
+    );
+    if (existing) {
+      throw new Error(`Ya existe la obra "${existing.titulo}"`);
+    }
+  }
+
+  /**
+   * Todas las obras ordenadas por título
+   */
+  public getAllWorks(): Work[] {
+    return this.exportState().sort((a, b) => a.titulo.localeCompare(b.titulo));
+  }
+
+  public findWorkById(id: string): Work | null {
+    return this.works.get(id) ?? null;
+  }
+
+  public createWork(data: CreateWorkDTO): Work {
+    if (!data.titulo || !data.titulo.trim()) {
+      throw new Error('El título de la obra es requerido');
+    }
+    this.assertUnique(data.titulo, data.autor ?? '');
+
+    const obra = this.buildWork(data);
+    this.works.set(obra.id, obra);
+    this.persist();
+    return obra;
+  }
+
+  public updateWork(id: string, updates: Partial<CreateWorkDTO>): Work | null {
+    const obra = this.works.get(id);
+    if (!obra) return null;
+
+    if (updates.titulo !== undefined && !updates.titulo.trim()) {
+      throw new Error('El título de la obra es requerido');
+    }
+    const titulo = updates.titulo?.trim() ?? obra.titulo;
+    const autor = updates.autor?.trim() ?? obra.autor;
+    this.assertUnique(titulo, autor, id);
+
+    obra.titulo = titulo;
+    obra.autor = autor;
+    if (updates.descripcion !== undefined) {
+      obra.descripcion = updates.descripcion.trim() || undefined;
+    }
+
+    this.persist();
+    return obra;
+  }
+
+  /**
+   * Elimina una obra; sus ediciones se conservan como libros sueltos
+   * No se permite mientras haya reservas de cualquier edición esperando
+   */
+  public deleteWork(id: string): boolean {
+    if (!this.works.has(id)) return false;
+
+    if (this.reservationService.getReservationCount(id) > 0) {
+      throw new Error('La obra tiene reservas de cualquier edición pendientes');
+    }
+
+    this.getEditions(id).forEach(book => this.bookService.updateBook(book.id, { obraId: null }));
+    this.works.delete(id);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Ediciones de una obra de la más antigua a la más reciente
+   * Complejidad: O(n log n) sobre el catálogo
+   */
+  public getEditions(workId: string): Book[] {
+    return this.bookService.getAllBooks()
+      .filter(book => book.obraId === workId)
+      .sort(byYear);
+  }
+
+  public getWorkWithEditions(id: string): WorkWithEditions | null {
+    const obra = this.works.get(id);
+    return obra ? { ...obra, ediciones: this.getEditions(id) } : null;
+  }
+
+  /**
+   * Agrega un libro como edición de la obra; si era edición de otra, pasa a esta
+   */
+  public addEdition(workId: string, bookId: string): Book {
+    if (!this.works.has(workId)) {
+      throw new Error('Obra no encontrada');
+    }
+
+    const book = this.bookService.findBookById(bookId);
+    if (!book) {
+      throw new Error('Libro no encontrado');
+    }
+
+    return this.bookService.updateBook(bookId, { obraId: workId })!;
+  }
+
+  /**
+   * Quita un libro de su obra
+   */
+  public removeEdition(bookId: string): Book | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book || !book.obraId) return null;
+
+    return this.bookService.updateBook(bookId, { obraId: null });
+  }
+
+  /**
+   * Clave con la que se agrupan las ediciones: la obra del libro o, si no tiene,
+   * el propio libro
+   */
+  public getWorkKey(bookId: string): string {
+    const obraId = this.bookService.findBookById(bookId)?.obraId;
+    return obraId && this.works.has(obraId) ? obraId : bookId;
+  }
+
+  /**
+   * Motivo por el que un usuario no puede reservar un libro (o cualquier edición
+   * de su obra); null si puede
+   * Nadie espera a la vez una edición concreta y la obra completa: al devolverse
+   * un ejemplar se le apartarían dos veces
+   */
+  public checkReservation(bookId: string, userId: string, anyEdition: boolean): string | null {
+    const book = this.bookService.findBookById(bookId);
+    if (!book) {
+      return 'Libro no encontrado';
+    }
+
+    const obra = book.obraId ? this.works.get(book.obraId) : undefined;
+    if (!obra) {
+      return anyEdition ? 'El libro no pertenece a ninguna obra' : null;
+    }
+
+    const editions = new Set(this.getEditions(obra.id).map(edition => edition.id));
+    const conflict = this.reservationService.getUserReservations(userId).find(reservation =>
+      anyEdition
+        ? !reservation.obraId && editions.has(reservation.libroId)
+        : reservation.obraId === obra.id
+    );
+    if (!conflict) return null;
+
+    return anyEdition
+      ? `Ya tienes una reserva de una edición de "${obra.titulo}"`
+      : `Ya tienes una reserva de cualquier edición de "${obra.titulo}"`;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Migración a la clasificación jerárquica
+ * Los libros guardados con una categoría de la lista fija ('Ficción', 'Ciencia'...)
+ * o con una clase que ya no existe se asignan al nodo que les corresponde
+ */
+
+import type { BookRepository } from '../repositories';
+import type { ClassificationService } from './ClassificationService';
+
+export interface ClassificationMigrationDeps {
+  bookService: BookRepository;
+  classification: ClassificationService;
+}
+
+/**
+ * Reasigna los libros cuya categoría no es un nodo del árbol
+ * Se prueba la etiqueta o categoría anterior, luego la clase más cercana y,
+ * si nada coincide, la clase de respaldo
+ * Retorna la cantidad de libros migrados
+ */
+export function migrateClassification(deps: ClassificationMigrationDeps): number {
+  const { bookService, classification } = deps;
+  let migrated = 0;
+
+  bookService.getAllBooks().forEach(book => {
+    if (classification.findNode(book.categoria)) return;
+
+    const categoria = classification.resolve(book.categoria)
+      ?? classification.findClosest(book.categoria)
+      ?? classification.getFallbackCode();
+
+    bookService.updateBook(book.id, { categoria });
+    migrated++;
+  });
+
+  return migrated;
+}
@@ -0,0 +1,59 @@
+/**
+ * Migración a ejemplares
+ * Los catálogos anteriores solo guardaban contadores (copias, copiasDisponibles);
+ * se crean los ejemplares que los representan y se enlazan los préstamos
+ * pendientes y los apartados con el ejemplar que ocupan
+ */
+
+import type { BookRepository } from '../repositories';
+import type { CopyService } from './CopyService';
+import type { LoanService } from './LoanService';
+import type { ReservationService } from './ReservationService';
+
+export interface CopyMigrationDeps {
+  bookService: BookRepository;
+  copyService: CopyService;
+  loanService: LoanService;
+  reservationService: ReservationService;
+}
+
+/**
+ * Crea los ejemplares de los libros que aún no tienen
+ * Retorna la cantidad de libros migrados
+ */
+export function migrateToCopies(deps: CopyMigrationDeps): number {
+  const { bookService, copyService, loanService, reservationService } = deps;
+  let migrated = 0;
+
+  bookService.getAllBooks().forEach(book => {
+    if (copyService.hasCopies(book.id)) return;
+
+    const loans = loanService.getActiveLoans().filter(
+      loan => loan.libroId === book.id && !loan.copiaId
+    );
+    const holds = reservationService.getHolds(book.id).filter(hold => !hold.copiaId);
+    const remaining = book.copias - loans.length - holds.length;
+    if (loans.length === 0 && holds.length === 0 && remaining <= 0) return;
+
+    loans.forEach(loan => {
+      const copy = copyService.addCirculatingCopy(book.id, 'prestado');
+      loanService.assignCopy(loan.id, copy.id);
+    });
+
+    holds.forEach(hold => {
+      const copy = copyService.addCirculatingCopy(book.id, 'apartado');
+      reservationService.assignHoldCopy(hold.id, copy.id);
+    });
+
+    // Los ejemplares en mantenimiento reciben su orden de reparación en RepairService
+    if (remaining > 0 && book.estado === 'mantenimiento') {
+      for (let i = 0; i < remaining; i++) copyService.addCirculatingCopy(book.id, 'mantenimiento');
+    } else if (remaining > 0) {
+      copyService.addCopies(book.id, remaining);
+    }
+
+    migrated++;
+  });
+
+  return migrated;
+}
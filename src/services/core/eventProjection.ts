@@ -0,0 +1,393 @@
+/**
+ * Proyección del registro de eventos
+ * Reproduce los eventos en orden para obtener el estado de la biblioteca
+ * sin tocar los servicios en ejecución
+ */
+
+import type {
+  Book,
+  Copy,
+  CopyStatus,
+  DomainEvent,
+  Hold,
+  LibraryState,
+  Loan,
+  Reservation,
+  User,
+} from '@/types';
+import { withContributors } from '@/lib/contributors';
+import { computeAvailability } from './CopyService';
+import { mergeReservationQueues, reservationQueueId } from './ReservationService';
+
+interface ProjectionState {
+  books: Map<string, Book>;
+  users: Map<string, User>;
+  loans: Map<string, Loan>;
+  copies: Map<string, Copy>;
+  reservations: Map<string, Reservation[]>;
+  holds: Map<string, Hold>;
+  edges: Map<string, { userId: string; bookId: string; weight: number }>;
+  history: LibraryState['history'];
+}
+
+function createEmptyState(): ProjectionState {
+  return {
+    books: new Map(),
+    users: new Map(),
+    loans: new Map(),
+    copies: new Map(),
+    reservations: new Map(),
+    holds: new Map(),
+    edges: new Map(),
+    history: [],
+  };
+}
+
+/**
+ * Carga un estado completo (SnapshotImported) como punto de partida
+ */
+function loadState(state: ProjectionState, snapshot: LibraryState): void {
+  const fresh = createEmptyState();
+  snapshot.books.forEach(book => fresh.books.set(book.id, withContributors(book)));
+  snapshot.users.forEach(user => fresh.users.set(user.id, user));
+  snapshot.loans.forEach(loan => fresh.loans.set(loan.id, loan));
+  (snapshot.copies ?? []).forEach(copy => fresh.copies.set(copy.id, copy));
+  Object.entries(snapshot.reservations).forEach(([bookId, queue]) => {
+    fresh.reservations.set(bookId, [...queue]);
+  });
+  (snapshot.holds ?? []).forEach(hold => fresh.holds.set(hold.id, hold));
+  snapshot.graph.loans.forEach(edge => {
+    fresh.edges.set(`${edge.userId}->${edge.bookId}`, { ...edge });
+  });
+  fresh.history = snapshot.history;
+
+  Object.assign(state, fresh);
+}
+
+/**
+ * Recalcula los contadores de un libro a partir de sus ejemplares
+ * Equivalente a la suscripción de los repositorios a CopyService
+ */
+function recount(state: ProjectionState, bookId: string): void {
+  const book = state.books.get(bookId);
+  if (!book) return;
+
+  const copies = Array.from(state.copies.values()).filter(copy => copy.libroId === bookId);
+  Object.assign(book, computeAvailability(copies));
+}
+
+function setCopyStatus(state: ProjectionState, copyId: string, estado: CopyStatus): void {
+  const copy = state.copies.get(copyId);
+  if (!copy) return;
+
+  copy.estado = estado;
+  recount(state, copy.libroId);
+}
+
+/**
+ * Contadores de los eventos anteriores a los ejemplares (sin copiaId)
+ */
+function takeLegacyCopy(book: Book | undefined): void {
+  if (book && book.copiasDisponibles > 0) {
+    book.copiasDisponibles--;
+    if (book.copiasDisponibles === 0) book.estado = 'prestado';
+  }
+}
+
+function releaseLegacyCopy(book: Book | undefined): void {
+  if (book) {
+    book.copiasDisponibles++;
+    if (book.copiasDisponibles > 0) book.estado = 'disponible';
+  }
+}
+
+/**
+ * Aplica un evento al estado (reductor)
+ */
+function applyEvent(state: ProjectionState, event: DomainEvent): void {
+  switch (event.type) {
+    case 'BookAdded': {
+      state.books.set(event.payload.book.id, withContributors(event.payload.book));
+      break;
+    }
+
+    case 'BookUpdated': {
+      const book = state.books.get(event.payload.bookId);
+      if (book) Object.assign(book, event.payload.changes);
+      break;
+    }
+
+    case 'BookDeleted': {
+      state.books.delete(event.payload.bookId);
+      break;
+    }
+
+    case 'UserAdded': {
+      state.users.set(event.payload.user.id, event.payload.user);
+      break;
+    }
+
+    case 'UserUpdated': {
+      const user = state.users.get(event.payload.userId);
+      if (user) Object.assign(user, event.payload.changes);
+      break;
+    }
+
+    case 'UserDeleted': {
+      state.users.delete(event.payload.userId);
+      break;
+    }
+
+    case 'LoanCreated': {
+      const { loan } = event.payload;
+      state.loans.set(loan.id, loan);
+
+      if (loan.copiaId) {
+        setCopyStatus(state, loan.copiaId, 'prestado');
+      } else {
+        takeLegacyCopy(state.books.get(loan.libroId));
+      }
+
+      const user = state.users.get(loan.usuarioId);
+      if (user) {
+        user.prestamosActivos++;
+        user.historialPrestamos++;
+      }
+
+      // Equivalente a GraphService.recordLoan
+      const edgeKey = `${loan.usuarioId}->${loan.libroId}`;
+      const edge = state.edges.get(edgeKey);
+      if (edge) {
+        edge.weight++;
+      } else {
+        state.edges.set(edgeKey, { userId: loan.usuarioId, bookId: loan.libroId, weight: 1 });
+      }
+      break;
+    }
+
+    case 'BookReturned': {
+      const loan = state.loans.get(event.payload.loanId);
+      if (!loan) break;
+
+      loan.fechaDevolucionReal = event.payload.fechaDevolucionReal;
+      loan.estado = event.payload.estado;
+      loan.multa = event.payload.multa;
+
+      if (event.payload.copiaId) {
+        setCopyStatus(state, event.payload.copiaId, 'disponible');
+      } else {
+        releaseLegacyCopy(state.books.get(loan.libroId));
+      }
+
+      const user = state.users.get(loan.usuarioId);
+      if (user && user.prestamosActivos > 0) user.prestamosActivos--;
+      break;
+    }
+
+    case 'CopyAdded': {
+      const { copy } = event.payload;
+      state.copies.set(copy.id, copy);
+      recount(state, copy.libroId);
+      break;
+    }
+
+    case 'CopyUpdated': {
+      const copy = state.copies.get(event.payload.copyId);
+      if (!copy) break;
+
+      Object.assign(copy, event.payload.changes);
+      recount(state, copy.libroId);
+      break;
+    }
+
+    case 'CopyRemoved': {
+      const copy = state.copies.get(event.payload.copyId);
+      if (!copy) break;
+
+      state.copies.delete(copy.id);
+      recount(state, copy.libroId);
+      break;
+    }
+
+    case 'LoanCopyAssigned': {
+      const loan = state.loans.get(event.payload.loanId);
+      if (loan) loan.copiaId = event.payload.copiaId;
+      break;
+    }
+
+    case 'HoldCopyAssigned': {
+      const hold = state.holds.get(event.payload.holdId);
+      if (hold) hold.copiaId = event.payload.copiaId;
+      break;
+    }
+
+    case 'ReservationQueued': {
+      const { reservation } = event.payload;
+      const queueId = reservationQueueId(reservation);
+      const queue = state.reservations.get(queueId) ?? [];
+      queue.push(reservation);
+      state.reservations.set(queueId, queue);
+      break;
+    }
+
+    case 'ReservationCancelled': {
+      const queue = state.reservations.get(event.payload.workId ?? event.payload.bookId) ?? [];
+      const index = queue.findIndex(
+        res => res.usuarioId === event.payload.userId && res.activa
+      );
+      if (index >= 0) queue.splice(index, 1);
+      break;
+    }
+
+    case 'ReservationFulfilled': {
+      const queue = state.reservations.get(event.payload.workId ?? event.payload.bookId) ?? [];
+      const index = queue.findIndex(res => res.id === event.payload.reservationId);
+      if (index >= 0) queue.splice(index, 1);
+      break;
+    }
+
+    case 'HoldPlaced': {
+      const { hold } = event.payload;
+      state.holds.set(hold.id, hold);
+
+      if (hold.copiaId) {
+        setCopyStatus(state, hold.copiaId, 'apartado');
+      } else {
+        takeLegacyCopy(state.books.get(hold.libroId));
+      }
+      break;
+    }
+
+    case 'HoldReleased': {
+      const hold = state.holds.get(event.payload.holdId);
+      if (!hold) break;
+      state.holds.delete(hold.id);
+
+      if (event.payload.copiaId) {
+        setCopyStatus(state, event.payload.copiaId, 'disponible');
+      } else {
+        releaseLegacyCopy(state.books.get(hold.libroId));
+      }
+      break;
+    }
+
+    case 'LoanMarkedOverdue': {
+      const loan = state.loans.get(event.payload.loanId);
+      if (loan) loan.estado = 'vencido';
+      break;
+    }
+
+    case 'BooksMerged': {
+      // Equivalente a DuplicateService.mergeBooks
+      const { sourceId, targetId } = event.payload;
+
+      let movedCopies = false;
+      state.copies.forEach(copy => {
+        if (copy.libroId !== sourceId) return;
+        copy.libroId = targetId;
+        movedCopies = true;
+      });
+      state.loans.forEach(loan => {
+        if (loan.libroId === sourceId) loan.libroId = targetId;
+      });
+      state.holds.forEach(hold => {
+        if (hold.libroId === sourceId) hold.libroId = targetId;
+      });
+      state.reservations.forEach(queue => queue.forEach(reservation => {
+        if (reservation.obraId && reservation.libroId === sourceId) reservation.libroId = targetId;
+      }));
+
+      const usersWithHold = new Set(
+        Array.from(state.holds.values()).filter(hold => hold.libroId === targetId).map(hold => hold.usuarioId)
+      );
+      const { queue } = mergeReservationQueues(
+        state.reservations.get(targetId) ?? [],
+        state.reservations.get(sourceId) ?? [],
+        targetId,
+        usersWithHold
+      );
+      state.reservations.set(targetId, queue);
+      state.reservations.delete(sourceId);
+
+      Array.from(state.edges.values()).forEach(edge => {
+        if (edge.bookId !== sourceId) return;
+
+        state.edges.delete(`${edge.userId}->${sourceId}`);
+        const key = `${edge.userId}->${targetId}`;
+        const existing = state.edges.get(key);
+        if (existing) {
+          existing.weight += edge.weight;
+        } else {
+          state.edges.set(key, { ...edge, bookId: targetId });
+        }
+      });
+
+      state.books.delete(sourceId);
+      if (movedCopies) recount(state, targetId);
+      break;
+    }
+
+    case 'CopySentToRepair': {
+      setCopyStatus(state, event.payload.copiaId, 'mantenimiento');
+      break;
+    }
+
+    case 'CopyReturnedFromRepair': {
+      const copy = state.copies.get(event.payload.copiaId);
+      if (copy && event.payload.condicion) copy.condicion = event.payload.condicion;
+      setCopyStatus(state, event.payload.copiaId, event.payload.estado);
+      break;
+    }
+
+    case 'SnapshotImported': {
+      loadState(state, event.payload.snapshot);
+      break;
+    }
+  }
+}
+
+/**
+ * Reproduce los eventos (opcionalmente hasta una fecha) y retorna el estado resultante
+ * Complejidad: O(E) donde E = número de eventos
+ */
+export function projectEvents(events: DomainEvent[], until?: Date): LibraryState {
+  const state = createEmptyState();
+
+  // Los reductores mutan las entidades; se trabaja sobre una copia
+  for (const event of structuredClone(events)) {
+    if (until && event.timestamp > until) break;
+    applyEvent(state, event);
+  }
+
+  const books = Array.from(state.books.values());
+  const users = Array.from(state.users.values());
+  const edges = Array.from(state.edges.values());
+
+  const reservations: Record<string, Reservation[]> = {};
+  state.reservations.forEach((queue, bookId) => {
+    if (queue.length > 0) reservations[bookId] = queue;
+  });
+
+  // Nodos del grafo: todos los usuarios y libros más los que aparecen en aristas
+  const graphUsers = new Set(users.map(user => user.id));
+  const graphBooks = new Set(books.map(book => book.id));
+  edges.forEach(edge => {
+    graphUsers.add(edge.userId);
+    graphBooks.add(edge.bookId);
+  });
+
+  return {
+    books,
+    users,
+    loans: Array.from(state.loans.values()),
+    copies: Array.from(state.copies.values()),
+    reservations,
+    holds: Array.from(state.holds.values()),
+    history: state.history,
+    graph: {
+      users: Array.from(graphUsers),
+      books: Array.from(graphBooks),
+      loans: edges,
+    },
+  };
+}
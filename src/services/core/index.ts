@@ -1,4 +1,38 @@
 // Servicios Core - Lógica de negocio principal
 export { LoanService } from './LoanService';
-export { ReservationService } from './ReservationService';
+export type { ReturnOptions } from './LoanService';
+export { ReservationService, mergeReservationQueues, reservationQueueId } from './ReservationService';
+export {
+  CopyService,
+  COPY_CONDITIONS,
+  MANUAL_COPY_STATUSES,
+  computeAvailability,
+} from './CopyService';
+export type { CopyUpdate, CopyAvailability } from './CopyService';
+export { migrateToCopies } from './copyMigration';
+export { ClassificationService } from './ClassificationService';
+export { migrateClassification } from './classificationMigration';
+export { SeriesService } from './SeriesService';
+export { WorkService } from './WorkService';
+export { RepairService } from './RepairService';
+export { LocationService } from './LocationService';
+export type { LocationUpdate } from './LocationService';
+export { CoverService } from './CoverService';
+export { TagService } from './TagService';
+export type { StoredCover } from './CoverService';
 export { HistoryService } from './HistoryService';
+export { MarcService } from './MarcService';
+export { CsvImportService } from './CsvImportService';
+export type { CsvImportOptions } from './CsvImportService';
+export { DuplicateService, DEFAULT_DUPLICATE_CONFIDENCE } from './DuplicateService';
+export { SnapshotService, SNAPSHOT_SCHEMA_VERSION } from './SnapshotService';
+export { EventLogService } from './EventLogService';
+export { UnitOfWork, runInUnitOfWork } from './UnitOfWork';
+export { IdempotencyService, DEFAULT_IDEMPOTENCY_TTL_MS } from './IdempotencyService';
+export {
+  SchedulerService,
+  DEFAULT_SCHEDULER_TICK_MS,
+  isSchedulerEnabled,
+} from './SchedulerService';
+export { registerMaintenanceJobs } from './maintenanceJobs';
+export { SimulationClock } from './SimulationClock';
@@ -0,0 +1,77 @@
+/**
+ * Tareas de mantenimiento de la biblioteca
+ * Se registran en el SchedulerService de cada contexto
+ */
+
+import { DAY_MS } from '@/lib/clock';
+import type { GraphService } from '../v3/GraphService';
+import type { LoanService } from './LoanService';
+import type { HistoryService } from './HistoryService';
+import type { IdempotencyService } from './IdempotencyService';
+import type { SchedulerService } from './SchedulerService';
+
+export interface MaintenanceJobsDeps {
+  scheduler: SchedulerService;
+  loanService: LoanService;
+  historyService: HistoryService;
+  graphService: GraphService;
+  idempotency: IdempotencyService;
+}
+
+// Antigüedad máxima de los datos que conserva la purga
+export const HISTORY_RETENTION_DAYS = 90;
+export const JOB_RUNS_RETENTION_DAYS = 30;
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+export function registerMaintenanceJobs(deps: MaintenanceJobsDeps): void {
+  const { scheduler, loanService, historyService, graphService, idempotency } = deps;
+
+  scheduler.register({
+    id: 'mark-overdue',
+    descripcion: 'Marcar como vencidos los préstamos fuera de plazo',
+    schedule: '*/15 * * * *',
+    run: now => ({ vencidos: loanService.markOverdueLoans(now) }),
+  });
+
+  scheduler.register({
+    id: 'expire-digital-loans',
+    descripcion: 'Finalizar los préstamos digitales que llegaron a su fecha de devolución',
+    schedule: '*/15 * * * *',
+    run: now => ({ finalizados: loanService.expireDigitalLoans(now) }),
+  });
+
+  scheduler.register({
+    id: 'expire-holds',
+    descripcion: 'Expirar apartados no retirados y avisar al siguiente de la cola',
+    schedule: '*/15 * * * *',
+    run: now => ({ expirados: loanService.expireHolds(now) }),
+  });
+
+  scheduler.register({
+    id: 'rebuild-graphs',
+    descripcion: 'Recalcular los grafos de similitud de libros y usuarios',
+    schedule: '0 3 * * *',
+    run: () => {
+      graphService.rebuildSimilarityGraphs();
+      const stats = graphService.getStats();
+      return {
+        aristasLibros: stats.bookSimilarityGraph.edges,
+        aristasUsuarios: stats.userSimilarityGraph.edges,
+      };
+    },
+  });
+
+  scheduler.register({
+    id: 'purge',
+    descripcion: 'Purgar claves de idempotencia expiradas, historial y ejecuciones antiguas',
+    schedule: '30 3 * * *',
+    run: now => ({
+      clavesIdempotencia: idempotency.purgeExpired(now),
+      operaciones: historyService.purgeBefore(daysBefore(now, HISTORY_RETENTION_DAYS)),
+      ejecuciones: scheduler.purgeRuns(daysBefore(now, JOB_RUNS_RETENTION_DAYS)),
+    }),
+  });
+}
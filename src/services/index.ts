@@ -19,6 +19,57 @@ export { BookServiceV2, UserServiceV2 } from './v2';
 export { GraphService, RecommendationService } from './v3';
 
 // ============================================================
-// Core: Servicios de lógica de negocio (usan V2 internamente)
+// Core: Servicios de lógica de negocio (usan los repositorios del contenedor)
 // ============================================================
-export { LoanService, ReservationService, HistoryService } from './core';
+export {
+  LoanService,
+  ReservationService,
+  CopyService,
+  ClassificationService,
+  migrateClassification,
+  SeriesService,
+  WorkService,
+  RepairService,
+  LocationService,
+  CoverService,
+  TagService,
+  HistoryService,
+  MarcService,
+  CsvImportService,
+  DuplicateService,
+  SnapshotService,
+  EventLogService,
+  UnitOfWork,
+  runInUnitOfWork,
+  IdempotencyService,
+  SchedulerService,
+  SimulationClock,
+} from './core';
+export type {
+  CopyUpdate,
+  CopyAvailability,
+  LocationUpdate,
+  CsvImportOptions,
+  ReturnOptions,
+  StoredCover,
+} from './core';
+
+// ============================================================
+// Repositorios: contratos comunes a V1 y V2
+// ============================================================
+export { getRepositoryVersion } from './repositories';
+export type {
+  BookRepository,
+  UserRepository,
+  RepositoryVersion,
+  BookSortOrder,
+  BookStats,
+  UserStats,
+  RepositoryPerformanceInfo,
+} from './repositories';
+
+// ============================================================
+// Contenedor: construye y resuelve el contexto de cada biblioteca
+// ============================================================
+export { createLibraryContext, getLibraryContext, resolveLibraryContext } from './container';
+export type { LibraryContext, LibraryContextOptions } from './container';
@@ -0,0 +1,109 @@
+/**
+ * Contratos de repositorio de Libros y Usuarios
+ * Implementados por V1 (LinkedList) y V2 (AVL + Trie); el contenedor elige
+ * una implementación y todos los servicios y rutas comparten la misma
+ */
+
+import type {
+  Book,
+  CreateBookDTO,
+  BookCategory,
+  TagCount,
+  TagMatch,
+  User,
+  CreateUserDTO,
+} from '@/types';
+
+export type RepositoryVersion = 'v1' | 'v2';
+
+/**
+ * Orden del catálogo completo: por ISBN o por signatura (orden de estantería)
+ */
+export type BookSortOrder = 'isbn' | 'signatura';
+
+/**
+ * Información de rendimiento expuesta en modo debug
+ */
+export type RepositoryPerformanceInfo = Record<string, string | number | boolean>;
+
+/**
+ * Contadores de préstamos de un usuario; se capturan para poder revertirlos
+ */
+export type UserLoanCounters = Pick<User, 'prestamosActivos' | 'historialPrestamos'>;
+
+export interface BookStats {
+  total: number;
+  disponibles: number;
+  prestados: number;
+  porCategoria: Record<string, number>;
+}
+
+export interface UserStats {
+  total: number;
+  activos: number;
+  conPrestamos: number;
+  totalPrestamosActivos: number;
+}
+
+export interface BookRepository {
+  addBook(data: CreateBookDTO): Book;
+  getAllBooks(): Book[];
+  getAllBooksSorted(order?: BookSortOrder): Book[];
+  findBookById(id: string): Book | null;
+  searchByISBN(isbn: string): Book | null;
+  searchByTitle(query: string): Book[];
+  searchByAuthor(query: string): Book[];
+  autocompleteTitles(prefix: string, limit?: number): Book[];
+  smartSearch(query: string): Book[];
+  filterByCategory(category: BookCategory): Book[];
+  filterByTags(etiquetas: string[], match?: TagMatch): Book[];
+  getTagCounts(): TagCount[];
+  autocompleteTags(prefix: string, limit?: number): TagCount[];
+  getAvailableBooks(): Book[];
+  updateBook(id: string, updates: Partial<Book>): Book | null;
+  deleteBook(id: string): boolean;
+  refreshAvailability(bookId: string): boolean;
+  getStats(): BookStats;
+  getPerformanceInfo(): RepositoryPerformanceInfo;
+  exportState(): Book[];
+  importState(books: Book[]): void;
+  clear(): void;
+}
+
+export interface UserRepository {
+  addUser(data: CreateUserDTO): User;
+  getAllUsers(): User[];
+  getAllUsersSorted(): User[];
+  findUserById(id: string): User | null;
+  findByEmail(email: string): User | null;
+  searchByName(query: string): User[];
+  autocompleteNames(prefix: string, limit?: number): User[];
+  getActiveUsers(): User[];
+  getUsersWithActiveLoans(): User[];
+  updateUser(id: string, updates: Partial<User>): User | null;
+  deactivateUser(id: string): boolean;
+  activateUser(id: string): boolean;
+  deleteUser(id: string): boolean;
+  incrementActiveLoans(userId: string): boolean;
+  decrementActiveLoans(userId: string): boolean;
+  restoreLoanCounters(userId: string, counters: UserLoanCounters): boolean;
+  canRequestLoan(userId: string, maxLoans?: number): boolean;
+  getStats(): UserStats;
+  getPerformanceInfo(): RepositoryPerformanceInfo;
+  exportState(): User[];
+  importState(users: User[]): void;
+  clear(): void;
+}
+
+/**
+ * Implementación configurada mediante LIBRARY_REPOSITORY (v1 | v2, por defecto v2)
+ */
+export function getRepositoryVersion(): RepositoryVersion {
+  const version = (process.env.LIBRARY_REPOSITORY ?? 'v2').toLowerCase();
+
+  if (version !== 'v1' && version !== 'v2') {
+    throw new Error(`Implementación de repositorio no válida: ${version}`);
+  }
+
+  return version;
+}
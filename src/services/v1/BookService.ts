@@ -4,25 +4,62 @@
  */
 
 import { LinkedList } from '@/lib/data-structures';
-import type { Book, CreateBookDTO, BookCategory } from '@/types';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import { formatAuthors, resolveContributors, withContributors } from '@/lib/contributors';
+import { normalizeIsbn, toIsbnKey } from '@/lib/isbn';
+import { isDigital, resolveMaterial } from '@/lib/licenses';
+import { byCallNumber, normalizeCallNumber } from '@/lib/callNumbers';
+import { countTags, hasTag, normalizeTags, tagKey } from '@/lib/tags';
+import type { Book, CreateBookDTO, BookCategory, TagCount, TagMatch } from '@/types';
+import type { EventLogService } from '../core/EventLogService';
+import type { CopyService } from '../core/CopyService';
+import type { ClassificationService } from '../core/ClassificationService';
+import type {
+  BookRepository,
+  BookSortOrder,
+  BookStats,
+  RepositoryPerformanceInfo,
+} from '../repositories';
 
-export class BookService {
+export interface BookServiceDeps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  copies: CopyService;
+  classification: ClassificationService;
+  clock?: Clock;
+}
+
+export class BookService implements BookRepository {
   private books: LinkedList<Book>;
-  private static instance: BookService;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private copies: CopyService;
+  private classification: ClassificationService;
+  private clock: Clock;
 
-  private constructor() {
+  constructor(deps: BookServiceDeps) {
     this.books = new LinkedList<Book>();
-    this.initializeSampleData();
-  }
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.copies = deps.copies;
+    this.classification = deps.classification;
+    this.clock = deps.clock ?? systemClock;
 
-  /**
-   * Patrón Singleton
-   */
-  public static getInstance(): BookService {
-    if (!BookService.instance) {
-      BookService.instance = new BookService();
+    // copias y copiasDisponibles se recalculan cada vez que cambia un ejemplar
+    this.copies.onAvailabilityChange(bookId => this.refreshAvailability(bookId));
+
+    const storedBooks = this.storage.load<Book[]>('books');
+    if (storedBooks) {
+      this.restore(storedBooks);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+      this.getAllBooks().forEach(book => {
+        this.events.append('BookAdded', { book });
+        this.copies.addCopies(book.id, book.copias);
+      });
     }
-    return BookService.instance;
   }
 
   /**
@@ -34,38 +71,44 @@ export class BookService {
         titulo: 'Cien Años de Soledad',
         autor: 'Gabriel García Márquez',
         isbn: '978-0307474728',
-        categoria: 'Ficción',
+        categoria: '860',
         anioPublicacion: 1967,
         editorial: 'Editorial Sudamericana',
         numeroPaginas: 417,
         copias: 3,
         descripcion: 'Una obra maestra del realismo mágico',
+        etiquetas: ['premio Nobel', 'lectura obligatoria'],
       },
       {
         titulo: 'El Principito',
-        autor: 'Antoine de Saint-Exupéry',
+        contribuyentes: [
+          { nombre: 'Antoine de Saint-Exupéry', rol: 'autor' },
+          { nombre: 'Bonifacio del Carril', rol: 'traductor' },
+        ],
         isbn: '978-0156012195',
-        categoria: 'Ficción',
+        categoria: '800',
         anioPublicacion: 1943,
         editorial: 'Reynal & Hitchcock',
         numeroPaginas: 96,
         copias: 5,
         descripcion: 'Una historia sobre la amistad y el amor',
+        etiquetas: ['lectura obligatoria', 'club de lectura'],
       },
       {
         titulo: 'Breve Historia del Tiempo',
         autor: 'Stephen Hawking',
         isbn: '978-0553380163',
-        categoria: 'Ciencia',
+        categoria: '520',
         anioPublicacion: 1988,
         editorial: 'Bantam Books',
         numeroPaginas: 256,
         copias: 2,
         descripcion: 'Una exploración del universo y el tiempo',
+        etiquetas: ['divulgación'],
       },
     ];
 
-    sampleBooks.forEach(book => this.addBook(book));
+    sampleBooks.forEach(book => this.books.append(this.buildBook(book)));
   }
 
   /**
@@ -76,18 +119,85 @@ export class BookService {
   }
 
   /**
-   * Agrega un nuevo libro al catálogo
+   * Guarda el catálogo completo en el adaptador de persistencia
    */
-  public addBook(data: CreateBookDTO): Book {
-    const newBook: Book = {
+  private persist(): void {
+    this.storage.save('books', this.exportState());
+  }
+
+  /**
+   * Reemplaza la lista enlazada con los libros indicados
+   */
+  private restore(books: Book[]): void {
+    this.books.clear();
+    books.forEach(book => this.books.append(
+      this.withCopyAvailability(withContributors({ ...book, version: book.version ?? 1 }))
+    ));
+  }
+
+  /**
+   * Aplica la disponibilidad calculada desde los ejemplares
+   * Los libros sin ejemplares (datos anteriores) conservan sus contadores
+   */
+  private withCopyAvailability(book: Book): Book {
+    return this.copies.hasCopies(book.id)
+      ? Object.assign(book, this.copies.getAvailability(book.id))
+      : book;
+  }
+
+  /**
+   * Exporta el catálogo en orden de inserción
+   */
+  public exportState(): Book[] {
+    return this.getAllBooks();
+  }
+
+  /**
+   * Reemplaza el catálogo completo
+   */
+  public importState(books: Book[]): void {
+    this.restore(books);
+    this.persist();
+  }
+
+  /**
+   * Construye un libro nuevo a partir del DTO
+   */
+  private buildBook(data: CreateBookDTO): Book {
+    const contribuyentes = resolveContributors(data);
+    // Un libro digital tiene tantas copias como plazas su licencia
+    const material = resolveMaterial(data);
+    const copias = material.copias ?? data.copias;
+
+    return {
       id: this.generateId(),
       ...data,
+      ...material,
+      copias,
+      isbn: normalizeIsbn(data.isbn),
+      categoria: this.classification.toCode(data.categoria),
+      autor: formatAuthors(contribuyentes),
+      contribuyentes,
+      etiquetas: this.canonicalTags(data.etiquetas ?? []),
+      signatura: normalizeCallNumber(data.signatura) ?? undefined,
       estado: 'disponible',
-      copiasDisponibles: data.copias,
-      fechaRegistro: new Date(),
+      copiasDisponibles: copias,
+      fechaRegistro: this.clock.now(),
+      version: 1,
     };
+  }
+
+  /**
+   * Agrega un nuevo libro al catálogo junto con sus ejemplares
+   */
+  public addBook(data: CreateBookDTO): Book {
+    const newBook = this.buildBook(data);
+    this.assertUniqueIsbn(newBook.isbn);
 
     this.books.append(newBook);
+    this.persist();
+    this.events.append('BookAdded', { book: newBook });
+    this.copies.addCopies(newBook.id, newBook.copias);
     return newBook;
   }
 
@@ -98,6 +208,17 @@ export class BookService {
     return this.books.toArray();
   }
 
+  /**
+   * Obtiene todos los libros ordenados por ISBN o en orden de estantería (signatura)
+   * Complejidad: O(n log n)
+   */
+  public getAllBooksSorted(order: BookSortOrder = 'isbn'): Book[] {
+    if (order === 'signatura') {
+      return this.getAllBooks().sort(byCallNumber);
+    }
+    return this.getAllBooks().sort((a, b) => (a.isbn < b.isbn ? -1 : a.isbn > b.isbn ? 1 : 0));
+  }
+
   /**
    * Busca un libro por ID
    */
@@ -116,27 +237,102 @@ export class BookService {
   }
 
   /**
-   * Busca libros por autor (búsqueda parcial)
+   * Busca libros por autor o cualquier otro contribuyente (búsqueda parcial)
    */
   public searchByAuthor(query: string): Book[] {
     const lowerQuery = query.toLowerCase();
-    return this.books.filter(book => 
-      book.autor.toLowerCase().includes(lowerQuery)
+    return this.books.filter(book =>
+      book.contribuyentes.some(c => c.nombre.toLowerCase().includes(lowerQuery))
     );
   }
 
   /**
-   * Busca libros por ISBN
+   * Autocompleta títulos que empiezan por el prefijo
+   */
+  public autocompleteTitles(prefix: string, limit: number = 10): Book[] {
+    const lowerPrefix = prefix.toLowerCase();
+    return this.books
+      .filter(book => book.titulo.toLowerCase().startsWith(lowerPrefix))
+      .slice(0, limit);
+  }
+
+  /**
+   * Búsqueda combinada por título, autor e ISBN
+   */
+  public smartSearch(query: string): Book[] {
+    const results = new Map<string, Book>();
+
+    this.searchByTitle(query).forEach(book => results.set(book.id, book));
+    this.searchByAuthor(query).forEach(book => results.set(book.id, book));
+
+    const isbnResult = this.searchByISBN(query);
+    if (isbnResult) results.set(isbnResult.id, isbnResult);
+
+    return Array.from(results.values());
+  }
+
+  /**
+   * Busca libros por ISBN (acepta ISBN-10 o ISBN-13, con o sin guiones)
    */
   public searchByISBN(isbn: string): Book | null {
-    return this.books.find(book => book.isbn === isbn);
+    const key = toIsbnKey(isbn);
+    return this.books.find(book => toIsbnKey(book.isbn) === key);
   }
 
   /**
-   * Filtra libros por categoría
+   * Impide dos libros con el mismo ISBN (en cualquier formato)
+   */
+  private assertUniqueIsbn(isbn: string, currentId?: string): void {
+    const existing = this.searchByISBN(isbn);
+    if (existing && existing.id !== currentId) {
+      throw new Error(`Ya existe un libro con el ISBN ${isbn}: ${existing.titulo}`);
+    }
+  }
+
+  /**
+   * Filtra los libros de una clase y de todas sus subclases
    */
   public filterByCategory(category: BookCategory): Book[] {
-    return this.books.filter(book => book.categoria === category);
+    const codes = new Set(this.classification.getSubtreeCodes(category));
+    return this.books.filter(book => codes.has(book.categoria));
+  }
+
+  /**
+   * Escribe cada etiqueta como ya figura en otros libros del catálogo, si alguna coincide
+   * Complejidad: O(n) - recorre la lista enlazada
+   */
+  private canonicalTags(etiquetas: string[], currentId?: string): string[] {
+    const others = this.books.filter(book => book.id !== currentId);
+    const known = new Map(countTags(others).map(({ etiqueta }) => [tagKey(etiqueta), etiqueta]));
+    return normalizeTags(etiquetas).map(etiqueta => known.get(tagKey(etiqueta)) ?? etiqueta);
+  }
+
+  /**
+   * Libros con todas las etiquetas (all) o con alguna de ellas (any)
+   * Complejidad: O(n · e) - recorre la lista enlazada
+   */
+  public filterByTags(etiquetas: string[], match: TagMatch = 'all'): Book[] {
+    return this.books.filter(book => match === 'all'
+      ? etiquetas.every(etiqueta => hasTag(book, etiqueta))
+      : etiquetas.some(etiqueta => hasTag(book, etiqueta))
+    );
+  }
+
+  /**
+   * Número de libros de cada etiqueta
+   */
+  public getTagCounts(): TagCount[] {
+    return countTags(this.getAllBooks());
+  }
+
+  /**
+   * Etiquetas que empiezan por el prefijo, las más usadas primero
+   */
+  public autocompleteTags(prefix: string, limit: number = 10): TagCount[] {
+    const key = tagKey(prefix);
+    return this.getTagCounts()
+      .filter(({ etiqueta }) => tagKey(etiqueta).startsWith(key))
+      .slice(0, limit);
   }
 
   /**
@@ -155,50 +351,88 @@ export class BookService {
     const book = this.findBookById(id);
     if (!book) return null;
 
-    Object.assign(book, updates);
+    const changes = this.prepareChanges(book, updates);
+
+    // La versión la controla el servidor; cada edición la incrementa
+    const version = book.version + 1;
+    Object.assign(book, changes, { version });
+    this.persist();
+    this.events.append('BookUpdated', { bookId: id, changes: { ...changes, version } });
     return book;
   }
 
   /**
-   * Elimina un libro por ID
+   * Prepara los cambios de una edición
+   * autor se deriva de los contribuyentes; copiasDisponibles y estado, de los ejemplares
+   * Si cambia el campo copias (o la licencia de un libro digital) se ajustan los ejemplares
    */
-  public deleteBook(id: string): boolean {
-    const removed = this.books.removeBy(book => book.id === id);
-    return removed !== null;
+  private prepareChanges(book: Book, updates: Partial<Book>): Partial<Book> {
+    const changes: Partial<Book> = { ...updates };
+    delete changes.copiasDisponibles;
+    delete changes.estado;
+
+    if (updates.isbn !== undefined) {
+      changes.isbn = normalizeIsbn(updates.isbn);
+      this.assertUniqueIsbn(changes.isbn, book.id);
+    }
+
+    if (updates.contribuyentes !== undefined || updates.autor !== undefined) {
+      changes.contribuyentes = resolveContributors(updates, book.contribuyentes);
+      changes.autor = formatAuthors(changes.contribuyentes);
+    }
+
+    if (updates.categoria !== undefined) {
+      changes.categoria = this.classification.toCode(updates.categoria);
+    }
+
+    if (updates.etiquetas !== undefined) {
+      changes.etiquetas = this.canonicalTags(updates.etiquetas, book.id);
+    }
+
+    if (updates.signatura !== undefined) {
+      changes.signatura = normalizeCallNumber(updates.signatura);
+    }
+
+    if (updates.tipo !== undefined || updates.licencia !== undefined || (isDigital(book) && updates.copias !== undefined)) {
+      Object.assign(changes, resolveMaterial(updates, book));
+    }
+
+    if (changes.copias !== undefined && changes.copias !== book.copias) {
+      this.copies.setCopyCount(book.id, changes.copias);
+    }
+    return changes;
   }
 
   /**
-   * Decrementa copias disponibles (al realizar préstamo)
+   * Elimina un libro por ID
    */
-  public decreaseAvailableCopies(bookId: string): boolean {
-    const book = this.findBookById(bookId);
-    if (!book || book.copiasDisponibles <= 0) return false;
+  public deleteBook(id: string): boolean {
+    const removed = this.books.removeBy(book => book.id === id);
+    if (removed === null) return false;
 
-    book.copiasDisponibles--;
-    if (book.copiasDisponibles === 0) {
-      book.estado = 'prestado';
-    }
+    this.persist();
+    this.events.append('BookDeleted', { bookId: id });
+    this.copies.removeBookCopies(id);
     return true;
   }
 
   /**
-   * Incrementa copias disponibles (al devolver libro)
+   * Recalcula copias, copias disponibles y estado desde los ejemplares
+   * Se invoca al cambiar un ejemplar; no emite eventos
    */
-  public increaseAvailableCopies(bookId: string): boolean {
+  public refreshAvailability(bookId: string): boolean {
     const book = this.findBookById(bookId);
     if (!book) return false;
 
-    book.copiasDisponibles++;
-    if (book.copiasDisponibles > 0) {
-      book.estado = 'disponible';
-    }
+    Object.assign(book, this.copies.getAvailability(bookId));
+    this.persist();
     return true;
   }
 
   /**
    * Obtiene estadísticas de libros
    */
-  public getStats() {
+  public getStats(): BookStats {
     const allBooks = this.getAllBooks();
     return {
       total: allBooks.length,
@@ -209,7 +443,7 @@ export class BookService {
   }
 
   /**
-   * Agrupa libros por categoría
+   * Agrupa libros por clase, acumulando los conteos en el árbol
    */
   private getBooksByCategory() {
     const allBooks = this.getAllBooks();
@@ -219,7 +453,20 @@ export class BookService {
       grouped[book.categoria] = (grouped[book.categoria] || 0) + 1;
     });
 
-    return grouped;
+    // Cada clase suma también los libros de sus subclases
+    return this.classification.rollUp(grouped);
+  }
+
+  /**
+   * Información de rendimiento de la estructura lineal
+   */
+  public getPerformanceInfo(): RepositoryPerformanceInfo {
+    return {
+      totalBooks: this.books.size(),
+      estructura: 'LinkedList',
+      expectedSearchTimeISBN: `O(${this.books.size()})`,
+      expectedSearchTimeTitle: 'O(n) donde n = número de libros',
+    };
   }
 
   /**
@@ -227,5 +474,6 @@ export class BookService {
    */
   public clear(): void {
     this.books.clear();
+    this.persist();
   }
 }
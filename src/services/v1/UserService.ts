@@ -4,25 +4,43 @@
  */
 
 import { LinkedList } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
 import type { User, CreateUserDTO } from '@/types';
+import type { EventLogService } from '../core/EventLogService';
+import type {
+  UserRepository,
+  UserLoanCounters,
+  UserStats,
+  RepositoryPerformanceInfo,
+} from '../repositories';
+
+export interface UserServiceDeps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  clock?: Clock;
+}
 
-export class UserService {
+export class UserService implements UserRepository {
   private users: LinkedList<User>;
-  private static instance: UserService;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private clock: Clock;
 
-  private constructor() {
+  constructor(deps: UserServiceDeps) {
     this.users = new LinkedList<User>();
-    this.initializeSampleData();
-  }
-
-  /**
-   * Patrón Singleton
-   */
-  public static getInstance(): UserService {
-    if (!UserService.instance) {
-      UserService.instance = new UserService();
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedUsers = this.storage.load<User[]>('users');
+    if (storedUsers) {
+      this.restore(storedUsers);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+      this.getAllUsers().forEach(user => this.events.append('UserAdded', { user }));
     }
-    return UserService.instance;
   }
 
   /**
@@ -46,7 +64,7 @@ export class UserService {
       },
     ];
 
-    sampleUsers.forEach(user => this.addUser(user));
+    sampleUsers.forEach(user => this.users.append(this.buildUser(user)));
   }
 
   /**
@@ -57,24 +75,64 @@ export class UserService {
   }
 
   /**
-   * Agrega un nuevo usuario
+   * Guarda todos los usuarios en el adaptador de persistencia
    */
-  public addUser(data: CreateUserDTO): User {
-    const existingUser = this.findByEmail(data.email);
-    if (existingUser) {
-      throw new Error('Ya existe un usuario con este email');
-    }
+  private persist(): void {
+    this.storage.save('users', this.exportState());
+  }
+
+  /**
+   * Reemplaza la lista enlazada con los usuarios indicados
+   */
+  private restore(users: User[]): void {
+    this.users.clear();
+    users.forEach(user => this.users.append({ ...user, version: user.version ?? 1 }));
+  }
+
+  /**
+   * Exporta los usuarios en orden de inserción
+   */
+  public exportState(): User[] {
+    return this.getAllUsers();
+  }
+
+  /**
+   * Reemplaza todos los usuarios
+   */
+  public importState(users: User[]): void {
+    this.restore(users);
+    this.persist();
+  }
 
-    const newUser: User = {
+  /**
+   * Construye un usuario nuevo a partir del DTO
+   */
+  private buildUser(data: CreateUserDTO): User {
+    return {
       id: this.generateId(),
       ...data,
-      fechaRegistro: new Date(),
+      fechaRegistro: this.clock.now(),
       activo: true,
       prestamosActivos: 0,
       historialPrestamos: 0,
+      version: 1,
     };
+  }
+
+  /**
+   * Agrega un nuevo usuario
+   */
+  public addUser(data: CreateUserDTO): User {
+    const existingUser = this.findByEmail(data.email);
+    if (existingUser) {
+      throw new Error('Ya existe un usuario con este email');
+    }
+
+    const newUser = this.buildUser(data);
 
     this.users.append(newUser);
+    this.persist();
+    this.events.append('UserAdded', { user: newUser });
     return newUser;
   }
 
@@ -85,6 +143,18 @@ export class UserService {
     return this.users.toArray();
   }
 
+  /**
+   * Obtiene todos los usuarios ordenados por email
+   * Complejidad: O(n log n)
+   */
+  public getAllUsersSorted(): User[] {
+    return this.getAllUsers().sort((a, b) => {
+      const emailA = a.email.toLowerCase();
+      const emailB = b.email.toLowerCase();
+      return emailA < emailB ? -1 : emailA > emailB ? 1 : 0;
+    });
+  }
+
   /**
    * Busca un usuario por ID
    */
@@ -110,6 +180,16 @@ export class UserService {
     );
   }
 
+  /**
+   * Autocompleta nombres completos que empiezan por el prefijo
+   */
+  public autocompleteNames(prefix: string, limit: number = 10): User[] {
+    const lowerPrefix = prefix.toLowerCase();
+    return this.users
+      .filter(user => `${user.nombre} ${user.apellido}`.toLowerCase().startsWith(lowerPrefix))
+      .slice(0, limit);
+  }
+
   /**
    * Obtiene usuarios activos
    */
@@ -139,7 +219,11 @@ export class UserService {
       }
     }
 
-    Object.assign(user, updates);
+    // La versión la controla el servidor; cada edición la incrementa
+    const version = user.version + 1;
+    Object.assign(user, updates, { version });
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { ...updates, version } });
     return user;
   }
 
@@ -151,6 +235,9 @@ export class UserService {
     if (!user) return false;
 
     user.activo = false;
+    user.version++;
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { activo: false, version: user.version } });
     return true;
   }
 
@@ -162,6 +249,9 @@ export class UserService {
     if (!user) return false;
 
     user.activo = true;
+    user.version++;
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { activo: true, version: user.version } });
     return true;
   }
 
@@ -178,7 +268,11 @@ export class UserService {
     }
 
     const removed = this.users.removeBy(u => u.id === id);
-    return removed !== null;
+    if (removed === null) return false;
+
+    this.persist();
+    this.events.append('UserDeleted', { userId: id });
+    return true;
   }
 
   /**
@@ -190,6 +284,7 @@ export class UserService {
 
     user.prestamosActivos++;
     user.historialPrestamos++;
+    this.persist();
     return true;
   }
 
@@ -201,6 +296,21 @@ export class UserService {
     if (!user || user.prestamosActivos <= 0) return false;
 
     user.prestamosActivos--;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Restaura los contadores de préstamos capturados previamente
+   * Lo usan las compensaciones de la unidad de trabajo; no emite eventos
+   */
+  public restoreLoanCounters(userId: string, counters: UserLoanCounters): boolean {
+    const user = this.findUserById(userId);
+    if (!user) return false;
+
+    user.prestamosActivos = counters.prestamosActivos;
+    user.historialPrestamos = counters.historialPrestamos;
+    this.persist();
     return true;
   }
 
@@ -217,7 +327,7 @@ export class UserService {
   /**
    * Obtiene estadísticas de usuarios
    */
-  public getStats() {
+  public getStats(): UserStats {
     const allUsers = this.getAllUsers();
     return {
       total: allUsers.length,
@@ -227,10 +337,23 @@ export class UserService {
     };
   }
 
+  /**
+   * Información de rendimiento de la estructura lineal
+   */
+  public getPerformanceInfo(): RepositoryPerformanceInfo {
+    return {
+      totalUsers: this.users.size(),
+      estructura: 'LinkedList',
+      expectedSearchTimeEmail: `O(${this.users.size()})`,
+      expectedSearchTimeName: 'O(n) donde n = número de usuarios',
+    };
+  }
+
   /**
    * Limpia todos los usuarios
    */
   public clear(): void {
     this.users.clear();
+    this.persist();
   }
 }
@@ -4,28 +4,73 @@
  */
 
 import { LinkedList, AVLTree, Trie } from '@/lib/data-structures';
-import type { Book, CreateBookDTO, BookCategory } from '@/types';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
+import { formatAuthors, resolveContributors, withContributors } from '@/lib/contributors';
+import { isbn13CheckDigit, normalizeIsbn, toIsbnKey } from '@/lib/isbn';
+import { isDigital, resolveMaterial } from '@/lib/licenses';
+import { byCallNumber, normalizeCallNumber } from '@/lib/callNumbers';
+import { normalizeTags, sortTagCounts } from '@/lib/tags';
+import type { Book, CreateBookDTO, BookCategory, Contributor, TagCount, TagMatch } from '@/types';
+import type { EventLogService } from '../core/EventLogService';
+import type { CopyService } from '../core/CopyService';
+import type { ClassificationService } from '../core/ClassificationService';
+import type { BookRepository, BookSortOrder, RepositoryPerformanceInfo } from '../repositories';
+
+export interface BookServiceV2Deps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  copies: CopyService;
+  classification: ClassificationService;
+  clock?: Clock;
+}
+
+// Libros de una etiqueta; la etiqueta se guarda con la forma de su primer uso
+interface TagBucket {
+  etiqueta: string;
+  libros: Book[];
+}
 
-export class BookServiceV2 {
+const toTagCount = ({ etiqueta, libros }: TagBucket): TagCount => ({ etiqueta, libros: libros.length });
+
+export class BookServiceV2 implements BookRepository {
   private booksByISBN: AVLTree<Book>;
   private booksByTitle: Trie<Book>;
-  private booksByAuthor: Trie<Book>;
+  private booksByAuthor: Trie<Book[]>; // nombre de cada contribuyente -> sus libros
+  private booksByTag: Trie<TagBucket>; // etiqueta -> sus libros (autocompletado y nube)
   private insertionOrder: LinkedList<Book>;
-  private static instance: BookServiceV2;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private copies: CopyService;
+  private classification: ClassificationService;
+  private clock: Clock;
 
-  private constructor() {
+  constructor(deps: BookServiceV2Deps) {
     this.booksByISBN = new AVLTree<Book>();
     this.booksByTitle = new Trie<Book>();
-    this.booksByAuthor = new Trie<Book>();
+    this.booksByAuthor = new Trie<Book[]>();
+    this.booksByTag = new Trie<TagBucket>();
     this.insertionOrder = new LinkedList<Book>();
-    this.initializeSampleData();
-  }
-
-  public static getInstance(): BookServiceV2 {
-    if (!BookServiceV2.instance) {
-      BookServiceV2.instance = new BookServiceV2();
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.copies = deps.copies;
+    this.classification = deps.classification;
+    this.clock = deps.clock ?? systemClock;
+
+    // copias y copiasDisponibles se recalculan cada vez que cambia un ejemplar
+    this.copies.onAvailabilityChange(bookId => this.refreshAvailability(bookId));
+
+    const storedBooks = this.storage.load<Book[]>('books');
+    if (storedBooks) {
+      this.restore(storedBooks);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+      this.getAllBooks().forEach(book => {
+        this.events.append('BookAdded', { book });
+        this.copies.addCopies(book.id, book.copias);
+      });
     }
-    return BookServiceV2.instance;
   }
 
   private initializeSampleData(): void {
@@ -33,13 +78,15 @@ export class BookServiceV2 {
     const temas = ['Programación', 'Matemáticas', 'Física', 'Química', 'Biología', 'Historia', 'Filosofía', 'Literatura', 'Arte', 'Música', 'Arquitectura', 'Medicina', 'Psicología', 'Sociología', 'Economía', 'Derecho', 'Ingeniería', 'Astronomía', 'Geografía', 'Política'];
     const autores = ['García López', 'Martínez Silva', 'Rodríguez Pérez', 'Fernández Torres', 'González Ruiz', 'López Sánchez', 'Hernández Castro', 'Jiménez Morales', 'Díaz Romero', 'Muñoz Navarro', 'Álvarez Gutiérrez', 'Romero Ortiz', 'Sánchez Delgado', 'Torres Ramírez', 'Ramírez Vega', 'Flores Mendoza', 'Castro Herrera', 'Morales Reyes', 'Ortiz Medina', 'Gutiérrez Vargas'];
     const nombres = ['Ana', 'Carlos', 'María', 'José', 'Laura', 'Miguel', 'Carmen', 'David', 'Isabel', 'Francisco', 'Elena', 'Antonio', 'Sofía', 'Manuel', 'Patricia', 'Juan', 'Rosa', 'Pedro', 'Lucía', 'Diego'];
-    const categorias: BookCategory[] = ['Ficción', 'Ciencia', 'Historia', 'Tecnología', 'Arte', 'Biografía', 'Filosofía', 'Otro'];
+    // Clase Dewey de cada tema
+    const clases: BookCategory[] = ['005', '510', '530', '540', '570', '900', '100', '800', '700', '780', '720', '610', '150', '300', '330', '340', '620', '520', '910', '320'];
+    const etiquetas = ['lectura obligatoria', 'club de lectura', 'premio Nobel', 'divulgación', 'bibliografía básica'];
     const editoriales = ['Editorial Académica', 'Publicaciones Científicas', 'Editorial Universitaria', 'Casa del Libro', 'Ediciones Culturales', 'Editorial Moderna', 'Libros del Siglo', 'Editorial Continental', 'Publicaciones Técnicas', 'Editorial Nacional'];
 
     const sampleBooks: CreateBookDTO[] = [];
 
     for (let i = 0; i < 200; i++) {
-      const categoria = categorias[i % categorias.length];
+      const categoria = clases[i % clases.length];
       const titulo = i < 50
         ? `${titulos[i % titulos.length]} ${temas[i % temas.length]}`
         : i < 100
@@ -48,15 +95,21 @@ export class BookServiceV2 {
         ? `${temas[i % temas.length]} Avanzada`
         : `Compendio de ${temas[i % temas.length]}`;
 
-      const isbn = `978-${String(Math.floor(Math.random() * 10)).padStart(1, '0')}${String(100000000 + i).padStart(9, '0')}`;
+      const isbnPrefix = `978${100000000 + i}`;
+      const isbn = isbnPrefix + isbn13CheckDigit(isbnPrefix);
       const autor = `${nombres[i % nombres.length]} ${autores[i % autores.length]}`;
+      // Algunas obras en coautoría o traducidas
+      const segundo = `${nombres[(i + 7) % nombres.length]} ${autores[(i + 3) % autores.length]}`;
+      const contribuyentes: Contributor[] = [{ nombre: autor, rol: 'autor' }];
+      if (i % 10 === 3) contribuyentes.push({ nombre: segundo, rol: 'autor' });
+      if (i % 10 === 7) contribuyentes.push({ nombre: segundo, rol: 'traductor' });
       const anio = 1950 + (i % 75);
       const paginas = 100 + (i % 20) * 50;
       const copias = 1 + (i % 5);
 
       sampleBooks.push({
         titulo,
-        autor,
+        contribuyentes,
         isbn,
         categoria,
         anioPublicacion: anio,
@@ -64,29 +117,175 @@ export class BookServiceV2 {
         numeroPaginas: paginas,
         copias,
         descripcion: `Obra sobre ${temas[i % temas.length].toLowerCase()}`,
+        // Unos pocos libros etiquetados, con frecuencias distintas para la nube
+        etiquetas: etiquetas.filter((_, j) => i % (3 + j * 4) === 0),
       });
     }
 
-    sampleBooks.forEach(book => this.addBook(book));
+    sampleBooks.forEach(book => this.indexBook(this.buildBook(book)));
   }
 
   private generateId(): string {
     return `BK-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  public addBook(data: CreateBookDTO): Book {
-    const newBook: Book = {
+  /**
+   * Guarda el catálogo completo en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('books', this.exportState());
+  }
+
+  /**
+   * Reconstruye los índices AVL y Trie a partir de una lista de libros
+   */
+  private restore(books: Book[]): void {
+    this.booksByISBN.clear();
+    this.booksByTitle.clear();
+    this.booksByAuthor.clear();
+    this.booksByTag.clear();
+    this.insertionOrder.clear();
+    books.forEach(book => this.indexBook(
+      this.withCopyAvailability(withContributors({ ...book, version: book.version ?? 1 }))
+    ));
+  }
+
+  /**
+   * Aplica la disponibilidad calculada desde los ejemplares
+   * Los libros sin ejemplares (datos anteriores) conservan sus contadores
+   */
+  private withCopyAvailability(book: Book): Book {
+    return this.copies.hasCopies(book.id)
+      ? Object.assign(book, this.copies.getAvailability(book.id))
+      : book;
+  }
+
+  /**
+   * Exporta el catálogo en orden de inserción
+   */
+  public exportState(): Book[] {
+    return this.getAllBooks();
+  }
+
+  /**
+   * Reemplaza el catálogo completo y reconstruye los índices
+   */
+  public importState(books: Book[]): void {
+    this.restore(books);
+    this.persist();
+  }
+
+  private buildBook(data: CreateBookDTO): Book {
+    const contribuyentes = resolveContributors(data);
+    // Un libro digital tiene tantas copias como plazas su licencia
+    const material = resolveMaterial(data);
+    const copias = material.copias ?? data.copias;
+
+    return {
       id: this.generateId(),
       ...data,
+      ...material,
+      copias,
+      isbn: normalizeIsbn(data.isbn),
+      categoria: this.classification.toCode(data.categoria),
+      autor: formatAuthors(contribuyentes),
+      contribuyentes,
+      etiquetas: this.canonicalTags(data.etiquetas ?? []),
+      signatura: normalizeCallNumber(data.signatura) ?? undefined,
       estado: 'disponible',
-      copiasDisponibles: data.copias,
-      fechaRegistro: new Date(),
+      copiasDisponibles: copias,
+      fechaRegistro: this.clock.now(),
+      version: 1,
     };
+  }
+
+  private indexBook(book: Book): void {
+    this.booksByISBN.insert(toIsbnKey(book.isbn), book);
+    this.booksByTitle.insert(book.titulo, book);
+    this.indexContributors(book);
+    this.indexTags(book);
+    this.insertionOrder.append(book);
+  }
+
+  /**
+   * Indexa el libro bajo el nombre de cada contribuyente
+   * Varios libros pueden compartir un nombre, por eso cada clave guarda una lista
+   */
+  private indexContributors(book: Book): void {
+    book.contribuyentes.forEach(({ nombre }) => {
+      const bucket = this.booksByAuthor.search(nombre);
+      if (!bucket) {
+        this.booksByAuthor.insert(nombre, [book]);
+      } else if (!bucket.includes(book)) {
+        bucket.push(book);
+      }
+    });
+  }
+
+  private unindexContributors(book: Book): void {
+    book.contribuyentes.forEach(({ nombre }) => {
+      const bucket = this.booksByAuthor.search(nombre);
+      if (!bucket) return;
+
+      const rest = bucket.filter(b => b.id !== book.id);
+      if (rest.length > 0) {
+        this.booksByAuthor.insert(nombre, rest);
+      } else {
+        this.booksByAuthor.delete(nombre);
+      }
+    });
+  }
+
+  private indexTags(book: Book): void {
+    (book.etiquetas ?? []).forEach(etiqueta => {
+      const bucket = this.booksByTag.search(etiqueta);
+      if (!bucket) {
+        this.booksByTag.insert(etiqueta, { etiqueta, libros: [book] });
+      } else if (!bucket.libros.includes(book)) {
+        bucket.libros.push(book);
+      }
+    });
+  }
+
+  private unindexTags(book: Book): void {
+    (book.etiquetas ?? []).forEach(etiqueta => {
+      const bucket = this.booksByTag.search(etiqueta);
+      if (!bucket) return;
+
+      bucket.libros = bucket.libros.filter(b => b.id !== book.id);
+      if (bucket.libros.length === 0) {
+        this.booksByTag.delete(etiqueta);
+      }
+    });
+  }
+
+  /**
+   * Escribe cada etiqueta como ya figura en otros libros del catálogo, si alguna coincide
+   * Complejidad: O(m) por etiqueta
+   */
+  private canonicalTags(etiquetas: string[], currentId?: string): string[] {
+    return normalizeTags(etiquetas).map(etiqueta => {
+      const bucket = this.booksByTag.search(etiqueta);
+      return bucket && bucket.libros.some(b => b.id !== currentId) ? bucket.etiqueta : etiqueta;
+    });
+  }
 
-    this.booksByISBN.insert(newBook.isbn, newBook);
-    this.booksByTitle.insert(newBook.titulo, newBook);
-    this.booksByAuthor.insert(newBook.autor, newBook);
-    this.insertionOrder.append(newBook);
+  /**
+   * Libros de los contribuyentes que empiezan por el prefijo, sin repetir
+   */
+  private searchContributors(prefix: string): Book[] {
+    const results = new Map<string, Book>();
+    this.booksByAuthor.searchByPrefix(prefix).flat().forEach(book => results.set(book.id, book));
+    return Array.from(results.values());
+  }
+
+  public addBook(data: CreateBookDTO): Book {
+    const newBook = this.buildBook(data);
+    this.assertUniqueIsbn(newBook.isbn);
+    this.indexBook(newBook);
+    this.persist();
+    this.events.append('BookAdded', { book: newBook });
+    this.copies.addCopies(newBook.id, newBook.copias);
 
     return newBook;
   }
@@ -95,16 +294,35 @@ export class BookServiceV2 {
     return this.insertionOrder.toArray();
   }
 
-  public getAllBooksSorted(): Book[] {
-    return this.booksByISBN.inOrderTraversal();
+  /**
+   * Por ISBN es el recorrido en orden del AVL; el orden de estantería se ordena
+   * al pedirlo porque la signatura cambia con la clase, el autor y el título
+   */
+  public getAllBooksSorted(order: BookSortOrder = 'isbn'): Book[] {
+    return order === 'signatura'
+      ? this.getAllBooks().sort(byCallNumber)
+      : this.booksByISBN.inOrderTraversal();
   }
 
   public findBookById(id: string): Book | null {
     return this.insertionOrder.find(book => book.id === id);
   }
 
+  /**
+   * Busca por ISBN-10 o ISBN-13, con o sin guiones: la clave del AVL es el ISBN-13 canónico
+   */
   public searchByISBN(isbn: string): Book | null {
-    return this.booksByISBN.search(isbn);
+    return this.booksByISBN.search(toIsbnKey(isbn));
+  }
+
+  /**
+   * Impide dos libros con el mismo ISBN (en cualquier formato)
+   */
+  private assertUniqueIsbn(isbn: string, currentId?: string): void {
+    const existing = this.searchByISBN(isbn);
+    if (existing && existing.id !== currentId) {
+      throw new Error(`Ya existe un libro con el ISBN ${isbn}: ${existing.titulo}`);
+    }
   }
 
   public searchByTitleExact(title: string): Book | null {
@@ -120,11 +338,11 @@ export class BookServiceV2 {
   }
 
   public searchByAuthor(query: string): Book[] {
-    return this.booksByAuthor.searchByPrefix(query);
+    return this.searchContributors(query);
   }
 
   public autocompleteAuthors(prefix: string, limit: number = 10): Book[] {
-    return this.booksByAuthor.autocomplete(prefix, limit);
+    return this.searchContributors(prefix).slice(0, limit);
   }
 
   public smartSearch(query: string): Book[] {
@@ -133,10 +351,10 @@ export class BookServiceV2 {
     const titleResults = this.booksByTitle.searchByPrefix(query);
     titleResults.forEach(book => results.set(book.isbn, book));
 
-    const authorResults = this.booksByAuthor.searchByPrefix(query);
+    const authorResults = this.searchContributors(query);
     authorResults.forEach(book => results.set(book.isbn, book));
 
-    if (/^[\d-]+$/.test(query)) {
+    if (/^[\dXx\s-]+$/.test(query)) {
       const isbnResult = this.searchByISBN(query);
       if (isbnResult) results.set(isbnResult.isbn, isbnResult);
     }
@@ -144,8 +362,43 @@ export class BookServiceV2 {
     return Array.from(results.values());
   }
 
+  /**
+   * Libros de una clase y de todas sus subclases
+   */
   public filterByCategory(category: BookCategory): Book[] {
-    return this.insertionOrder.filter(book => book.categoria === category);
+    const codes = new Set(this.classification.getSubtreeCodes(category));
+    return this.insertionOrder.filter(book => codes.has(book.categoria));
+  }
+
+  /**
+   * Libros con todas las etiquetas (all) o con alguna de ellas (any)
+   * Complejidad: O(m) por etiqueta más el tamaño de sus listas
+   */
+  public filterByTags(etiquetas: string[], match: TagMatch = 'all'): Book[] {
+    const buckets = etiquetas.map(etiqueta => this.booksByTag.search(etiqueta)?.libros ?? []);
+    if (buckets.length === 0) return [];
+
+    if (match === 'any') {
+      const results = new Map<string, Book>();
+      buckets.flat().forEach(book => results.set(book.id, book));
+      return Array.from(results.values());
+    }
+
+    // Se parte de la lista más corta y se conservan los libros presentes en todas
+    const [smallest, ...rest] = [...buckets].sort((a, b) => a.length - b.length);
+    const others = rest.map(bucket => new Set(bucket.map(book => book.id)));
+    return smallest.filter(book => others.every(ids => ids.has(book.id)));
+  }
+
+  public getTagCounts(): TagCount[] {
+    return sortTagCounts(this.booksByTag.getAllWords().map(toTagCount));
+  }
+
+  /**
+   * Etiquetas que empiezan por el prefijo (Trie), las más usadas primero
+   */
+  public autocompleteTags(prefix: string, limit: number = 10): TagCount[] {
+    return sortTagCounts(this.booksByTag.searchByPrefix(prefix).map(toTagCount)).slice(0, limit);
   }
 
   public getAvailableBooks(): Book[] {
@@ -158,9 +411,11 @@ export class BookServiceV2 {
     const book = this.findBookById(id);
     if (!book) return null;
 
-    if (updates.isbn && updates.isbn !== book.isbn) {
-      this.booksByISBN.delete(book.isbn);
-      this.booksByISBN.insert(updates.isbn, book);
+    const changes = this.prepareChanges(book, updates);
+
+    if (changes.isbn && changes.isbn !== book.isbn) {
+      this.booksByISBN.delete(toIsbnKey(book.isbn));
+      this.booksByISBN.insert(changes.isbn, book);
     }
 
     if (updates.titulo && updates.titulo !== book.titulo) {
@@ -168,42 +423,98 @@ export class BookServiceV2 {
       this.booksByTitle.insert(updates.titulo, book);
     }
 
-    if (updates.autor && updates.autor !== book.autor) {
-      this.booksByAuthor.delete(book.autor);
-      this.booksByAuthor.insert(updates.autor, book);
+    if (changes.contribuyentes) {
+      this.unindexContributors(book);
+    }
+
+    if (changes.etiquetas) {
+      this.unindexTags(book);
+    }
+
+    // La versión la controla el servidor; cada edición la incrementa
+    const version = book.version + 1;
+    Object.assign(book, changes, { version });
+
+    if (changes.contribuyentes) {
+      this.indexContributors(book);
     }
 
-    Object.assign(book, updates);
+    if (changes.etiquetas) {
+      this.indexTags(book);
+    }
+    this.persist();
+    this.events.append('BookUpdated', { bookId: id, changes: { ...changes, version } });
     return book;
   }
 
+  /**
+   * Prepara los cambios de una edición
+   * autor se deriva de los contribuyentes; copiasDisponibles y estado, de los ejemplares
+   * Si cambia el campo copias (o la licencia de un libro digital) se ajustan los ejemplares
+   */
+  private prepareChanges(book: Book, updates: Partial<Book>): Partial<Book> {
+    const changes: Partial<Book> = { ...updates };
+    delete changes.copiasDisponibles;
+    delete changes.estado;
+
+    if (updates.isbn !== undefined) {
+      changes.isbn = normalizeIsbn(updates.isbn);
+      this.assertUniqueIsbn(changes.isbn, book.id);
+    }
+
+    if (updates.contribuyentes !== undefined || updates.autor !== undefined) {
+      changes.contribuyentes = resolveContributors(updates, book.contribuyentes);
+      changes.autor = formatAuthors(changes.contribuyentes);
+    }
+
+    if (updates.categoria !== undefined) {
+      changes.categoria = this.classification.toCode(updates.categoria);
+    }
+
+    if (updates.etiquetas !== undefined) {
+      changes.etiquetas = this.canonicalTags(updates.etiquetas, book.id);
+    }
+
+    if (updates.signatura !== undefined) {
+      changes.signatura = normalizeCallNumber(updates.signatura);
+    }
+
+    if (updates.tipo !== undefined || updates.licencia !== undefined || (isDigital(book) && updates.copias !== undefined)) {
+      Object.assign(changes, resolveMaterial(updates, book));
+    }
+
+    if (changes.copias !== undefined && changes.copias !== book.copias) {
+      this.copies.setCopyCount(book.id, changes.copias);
+    }
+    return changes;
+  }
+
   public deleteBook(id: string): boolean {
     const book = this.findBookById(id);
     if (!book) return false;
 
-    this.booksByISBN.delete(book.isbn);
+    this.booksByISBN.delete(toIsbnKey(book.isbn));
     this.booksByTitle.delete(book.titulo);
-    this.booksByAuthor.delete(book.autor);
+    this.unindexContributors(book);
+    this.unindexTags(book);
     this.insertionOrder.removeBy(b => b.id === id);
+    this.persist();
+    this.events.append('BookDeleted', { bookId: id });
+    this.copies.removeBookCopies(id);
 
     return true;
   }
 
-  public decreaseAvailableCopies(bookId: string): boolean {
-    const book = this.findBookById(bookId);
-    if (!book || book.copiasDisponibles <= 0) return false;
-
-    book.copiasDisponibles--;
-    if (book.copiasDisponibles === 0) book.estado = 'prestado';
-    return true;
-  }
-
-  public increaseAvailableCopies(bookId: string): boolean {
+  /**
+   * Recalcula copias, copias disponibles y estado desde los ejemplares
+   * Se invoca al cambiar un ejemplar; no emite eventos
+   */
+  public refreshAvailability(bookId: string): boolean {
     const book = this.findBookById(bookId);
     if (!book) return false;
 
-    book.copiasDisponibles++;
-    if (book.copiasDisponibles > 0) book.estado = 'disponible';
+    Object.assign(book, this.copies.getAvailability(bookId));
+    this.persist();
     return true;
   }
 
@@ -227,23 +538,27 @@ export class BookServiceV2 {
       grouped[book.categoria] = (grouped[book.categoria] || 0) + 1;
     });
 
-    return grouped;
+    // Cada clase suma también los libros de sus subclases
+    return this.classification.rollUp(grouped);
   }
 
   public clear(): void {
     this.booksByISBN.clear();
     this.booksByTitle.clear();
     this.booksByAuthor.clear();
+    this.booksByTag.clear();
     this.insertionOrder.clear();
+    this.persist();
   }
 
-  public getPerformanceInfo() {
+  public getPerformanceInfo(): RepositoryPerformanceInfo {
     return {
       totalBooks: this.insertionOrder.size(),
       avlTreeHeight: this.booksByISBN.getTreeHeight(),
       avlTreeBalanced: this.booksByISBN.isBalanced(),
       trieWordsTitle: this.booksByTitle.size(),
       trieWordsAuthor: this.booksByAuthor.size(),
+      trieWordsTag: this.booksByTag.size(),
       expectedSearchTimeISBN: `O(log ${this.insertionOrder.size()})`,
       expectedSearchTimeTitle: 'O(m) donde m = longitud del término',
     };
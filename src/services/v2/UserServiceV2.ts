@@ -4,26 +4,42 @@
  */
 
 import { LinkedList, AVLTree, Trie } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import { systemClock, type Clock } from '@/lib/clock';
 import type { User, CreateUserDTO } from '@/types';
+import type { EventLogService } from '../core/EventLogService';
+import type { UserRepository, UserLoanCounters, RepositoryPerformanceInfo } from '../repositories';
 
-export class UserServiceV2 {
+export interface UserServiceV2Deps {
+  storage: StorageAdapter;
+  events: EventLogService;
+  clock?: Clock;
+}
+
+export class UserServiceV2 implements UserRepository {
   private usersByEmail: AVLTree<User>;
   private usersByName: Trie<User>;
   private insertionOrder: LinkedList<User>;
-  private static instance: UserServiceV2;
+  private storage: StorageAdapter;
+  private events: EventLogService;
+  private clock: Clock;
 
-  private constructor() {
+  constructor(deps: UserServiceV2Deps) {
     this.usersByEmail = new AVLTree<User>();
     this.usersByName = new Trie<User>();
     this.insertionOrder = new LinkedList<User>();
-    this.initializeSampleData();
-  }
-
-  public static getInstance(): UserServiceV2 {
-    if (!UserServiceV2.instance) {
-      UserServiceV2.instance = new UserServiceV2();
+    this.storage = deps.storage;
+    this.events = deps.events;
+    this.clock = deps.clock ?? systemClock;
+
+    const storedUsers = this.storage.load<User[]>('users');
+    if (storedUsers) {
+      this.restore(storedUsers);
+    } else {
+      this.initializeSampleData();
+      this.persist();
+      this.getAllUsers().forEach(user => this.events.append('UserAdded', { user }));
     }
-    return UserServiceV2.instance;
   }
 
   private initializeSampleData(): void {
@@ -50,7 +66,7 @@ export class UserServiceV2 {
       });
     }
 
-    sampleUsers.forEach(user => this.addUser(user));
+    sampleUsers.forEach(user => this.indexUser(this.buildUser(user)));
   }
 
   private generateId(): string {
@@ -61,24 +77,66 @@ export class UserServiceV2 {
     return `${user.nombre} ${user.apellido}`;
   }
 
-  public addUser(data: CreateUserDTO): User {
-    const existingUser = this.findByEmail(data.email);
-    if (existingUser) {
-      throw new Error('Ya existe un usuario con este email');
-    }
+  /**
+   * Guarda todos los usuarios en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('users', this.exportState());
+  }
 
-    const newUser: User = {
+  /**
+   * Reconstruye los índices AVL y Trie a partir de una lista de usuarios
+   */
+  private restore(users: User[]): void {
+    this.usersByEmail.clear();
+    this.usersByName.clear();
+    this.insertionOrder.clear();
+    users.forEach(user => this.indexUser({ ...user, version: user.version ?? 1 }));
+  }
+
+  /**
+   * Exporta los usuarios en orden de inserción
+   */
+  public exportState(): User[] {
+    return this.getAllUsers();
+  }
+
+  /**
+   * Reemplaza todos los usuarios y reconstruye los índices
+   */
+  public importState(users: User[]): void {
+    this.restore(users);
+    this.persist();
+  }
+
+  private buildUser(data: CreateUserDTO): User {
+    return {
       id: this.generateId(),
       ...data,
-      fechaRegistro: new Date(),
+      fechaRegistro: this.clock.now(),
       activo: true,
       prestamosActivos: 0,
       historialPrestamos: 0,
+      version: 1,
     };
+  }
 
-    this.usersByEmail.insert(data.email.toLowerCase(), newUser);
-    this.usersByName.insert(this.getFullName(newUser), newUser);
-    this.insertionOrder.append(newUser);
+  private indexUser(user: User): void {
+    this.usersByEmail.insert(user.email.toLowerCase(), user);
+    this.usersByName.insert(this.getFullName(user), user);
+    this.insertionOrder.append(user);
+  }
+
+  public addUser(data: CreateUserDTO): User {
+    const existingUser = this.findByEmail(data.email);
+    if (existingUser) {
+      throw new Error('Ya existe un usuario con este email');
+    }
+
+    const newUser = this.buildUser(data);
+    this.indexUser(newUser);
+    this.persist();
+    this.events.append('UserAdded', { user: newUser });
 
     return newUser;
   }
@@ -146,7 +204,11 @@ export class UserServiceV2 {
       this.usersByName.insert(this.getFullName(user), user);
     }
 
-    Object.assign(user, updates);
+    // La versión la controla el servidor; cada edición la incrementa
+    const version = user.version + 1;
+    Object.assign(user, updates, { version });
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { ...updates, version } });
     return user;
   }
 
@@ -155,6 +217,9 @@ export class UserServiceV2 {
     if (!user) return false;
 
     user.activo = false;
+    user.version++;
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { activo: false, version: user.version } });
     return true;
   }
 
@@ -163,6 +228,9 @@ export class UserServiceV2 {
     if (!user) return false;
 
     user.activo = true;
+    user.version++;
+    this.persist();
+    this.events.append('UserUpdated', { userId: id, changes: { activo: true, version: user.version } });
     return true;
   }
 
@@ -177,6 +245,8 @@ export class UserServiceV2 {
     this.usersByEmail.delete(user.email.toLowerCase());
     this.usersByName.delete(this.getFullName(user));
     this.insertionOrder.removeBy(u => u.id === id);
+    this.persist();
+    this.events.append('UserDeleted', { userId: id });
 
     return true;
   }
@@ -187,6 +257,7 @@ export class UserServiceV2 {
 
     user.prestamosActivos++;
     user.historialPrestamos++;
+    this.persist();
     return true;
   }
 
@@ -195,6 +266,21 @@ export class UserServiceV2 {
     if (!user || user.prestamosActivos <= 0) return false;
 
     user.prestamosActivos--;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Restaura los contadores de préstamos capturados previamente
+   * Lo usan las compensaciones de la unidad de trabajo; no emite eventos
+   */
+  public restoreLoanCounters(userId: string, counters: UserLoanCounters): boolean {
+    const user = this.findUserById(userId);
+    if (!user) return false;
+
+    user.prestamosActivos = counters.prestamosActivos;
+    user.historialPrestamos = counters.historialPrestamos;
+    this.persist();
     return true;
   }
 
@@ -221,9 +307,10 @@ export class UserServiceV2 {
     this.usersByEmail.clear();
     this.usersByName.clear();
     this.insertionOrder.clear();
+    this.persist();
   }
 
-  public getPerformanceInfo() {
+  public getPerformanceInfo(): RepositoryPerformanceInfo {
     return {
       totalUsers: this.insertionOrder.size(),
       avlTreeHeight: this.usersByEmail.getTreeHeight(),
@@ -4,6 +4,8 @@
  */
 
 import { Graph, jaccardIndex } from '@/lib/data-structures';
+import type { StorageAdapter } from '@/lib/persistence';
+import type { GraphState } from '@/types';
 
 // Tipos de nodos en el sistema
 type NodeType = 'user' | 'book';
@@ -13,6 +15,10 @@ interface NodeData {
   entityId: string;
 }
 
+export interface GraphServiceDeps {
+  storage: StorageAdapter;
+}
+
 export class GraphService {
   // Grafo bipartito Usuario-Libro (dirigido, ponderado)
   private userBookGraph: Graph<NodeData>;
@@ -27,9 +33,9 @@ export class GraphService {
   private userBooks: Map<string, Set<string>>; // userId -> Set<bookId>
   private bookUsers: Map<string, Set<string>>; // bookId -> Set<userId>
 
-  private static instance: GraphService;
+  private storage: StorageAdapter;
 
-  private constructor() {
+  constructor(deps: GraphServiceDeps) {
     // Grafo dirigido: usuario -> libro (préstamo)
     this.userBookGraph = new Graph<NodeData>(true, true);
     
@@ -40,41 +46,141 @@ export class GraphService {
     // Índices auxiliares
     this.userBooks = new Map();
     this.bookUsers = new Map();
+
+    this.storage = deps.storage;
+    const storedGraph = this.storage.load<GraphState>('graph');
+    if (storedGraph) {
+      this.restore(storedGraph);
+    }
+  }
+
+  /**
+   * Guarda nodos y préstamos en el adaptador de persistencia
+   */
+  private persist(): void {
+    this.storage.save('graph', this.exportState());
   }
 
-  public static getInstance(): GraphService {
-    if (!GraphService.instance) {
-      GraphService.instance = new GraphService();
+  /**
+   * Reconstruye las listas de adyacencia a partir de nodos y préstamos
+   * Los grafos de similitud se recalculan al final
+   */
+  private restore(storedGraph: GraphState): void {
+    this.userBookGraph.clear();
+    this.bookSimilarityGraph.clear();
+    this.userSimilarityGraph.clear();
+    this.userBooks.clear();
+    this.bookUsers.clear();
+
+    storedGraph.users.forEach(userId => this.registerUser(userId));
+    storedGraph.books.forEach(bookId => this.registerBook(bookId));
+
+    for (const { userId, bookId, weight } of storedGraph.loans) {
+      this.registerUser(userId);
+      this.registerBook(bookId);
+      this.userBookGraph.addEdge(userId, bookId, weight);
+      this.userBooks.get(userId)!.add(bookId);
+      this.bookUsers.get(bookId)!.add(userId);
     }
-    return GraphService.instance;
+
+    this.rebuildSimilarityGraphs();
   }
 
   /**
-   * Registra un usuario en los grafos
+   * Exporta nodos y aristas usuario -> libro
    */
-  public addUser(userId: string): void {
+  public exportState(): GraphState {
+    return {
+      users: Array.from(this.userBooks.keys()),
+      books: Array.from(this.bookUsers.keys()),
+      loans: this.userBookGraph.getAllEdges().map(edge => ({
+        userId: edge.source,
+        bookId: edge.target,
+        weight: edge.weight,
+      })),
+    };
+  }
+
+  /**
+   * Reemplaza el grafo completo y recalcula similitudes
+   */
+  public importState(state: GraphState): void {
+    this.restore(state);
+    this.persist();
+  }
+
+  /**
+   * Agrega el nodo de usuario; retorna true si no existía
+   */
+  private registerUser(userId: string): boolean {
     const nodeData: NodeData = { type: 'user', entityId: userId };
     
     this.userBookGraph.addNode(userId, nodeData);
     this.userSimilarityGraph.addNode(userId, nodeData);
     
-    if (!this.userBooks.has(userId)) {
-      this.userBooks.set(userId, new Set());
-    }
+    if (this.userBooks.has(userId)) return false;
+    this.userBooks.set(userId, new Set());
+    return true;
   }
 
   /**
-   * Registra un libro en los grafos
+   * Agrega el nodo de libro; retorna true si no existía
    */
-  public addBook(bookId: string): void {
+  private registerBook(bookId: string): boolean {
     const nodeData: NodeData = { type: 'book', entityId: bookId };
     
     this.userBookGraph.addNode(bookId, nodeData);
     this.bookSimilarityGraph.addNode(bookId, nodeData);
     
-    if (!this.bookUsers.has(bookId)) {
-      this.bookUsers.set(bookId, new Set());
-    }
+    if (this.bookUsers.has(bookId)) return false;
+    this.bookUsers.set(bookId, new Set());
+    return true;
+  }
+
+  /**
+   * Registra un usuario en los grafos
+   */
+  public addUser(userId: string): void {
+    if (this.registerUser(userId)) this.persist();
+  }
+
+  /**
+   * Registra un libro en los grafos
+   */
+  public addBook(bookId: string): void {
+    if (this.registerBook(bookId)) this.persist();
+  }
+
+  /**
+   * Fusiona el nodo de un libro en otro (duplicados)
+   * Las aristas usuario -> libro pasan al libro que se conserva sumando pesos,
+   * el nodo fusionado desaparece y las similitudes se recalculan
+   * Complejidad: O(L² + U²) por la reconstrucción de similitudes
+   */
+  public mergeBooks(fromBookId: string, toBookId: string): void {
+    const state = this.exportState();
+    const loans = new Map<string, GraphState['loans'][number]>();
+
+    state.loans.forEach(edge => {
+      const bookId = edge.bookId === fromBookId ? toBookId : edge.bookId;
+      const key = `${edge.userId}->${bookId}`;
+      const existing = loans.get(key);
+
+      if (existing) {
+        existing.weight += edge.weight;
+      } else {
+        loans.set(key, { ...edge, bookId });
+      }
+    });
+
+    this.restore({
+      users: state.users,
+      books: state.books.filter(bookId => bookId !== fromBookId).concat(
+        state.books.includes(toBookId) ? [] : [toBookId]
+      ),
+      loans: Array.from(loans.values()),
+    });
+    this.persist();
   }
 
   /**
@@ -83,8 +189,8 @@ export class GraphService {
    */
   public recordLoan(userId: string, bookId: string): void {
     // Asegurar que los nodos existen
-    this.addUser(userId);
-    this.addBook(bookId);
+    this.registerUser(userId);
+    this.registerBook(bookId);
 
     // Incrementar peso de la arista (número de préstamos)
     const currentWeight = this.userBookGraph.getEdgeWeight(userId, bookId) ?? 0;
@@ -97,6 +203,8 @@ export class GraphService {
     // Actualizar similitudes (puede ser costoso, considerar hacerlo en batch)
     this.updateBookSimilarities(bookId);
     this.updateUserSimilarities(userId);
+
+    this.persist();
   }
 
   /**
@@ -459,5 +567,6 @@ export class GraphService {
     this.userSimilarityGraph.clear();
     this.userBooks.clear();
     this.bookUsers.clear();
+    this.persist();
   }
 }
@@ -3,9 +3,10 @@
  * Proporciona recomendaciones de libros y análisis de relaciones
  */
 
-import { GraphService } from './GraphService';
-import { BookServiceV2 } from '../v2/BookServiceV2';
-import { UserServiceV2 } from '../v2/UserServiceV2';
+import type { GraphService } from './GraphService';
+import type { BookRepository, UserRepository } from '../repositories';
+import type { SeriesService } from '../core/SeriesService';
+import type { WorkService } from '../core/WorkService';
 import type { Book, User } from '@/types';
 
 export interface BookRecommendation {
@@ -31,57 +32,105 @@ export interface PathResult {
   distance: number;
 }
 
+export interface RecommendationServiceDeps {
+  graphService: GraphService;
+  bookService: BookRepository;
+  userService: UserRepository;
+  seriesService: SeriesService;
+  workService: WorkService;
+}
+
 export class RecommendationService {
   private graphService: GraphService;
-  private bookService: BookServiceV2;
-  private userService: UserServiceV2;
-  private static instance: RecommendationService;
+  private bookService: BookRepository;
+  private userService: UserRepository;
+  private seriesService: SeriesService;
+  private workService: WorkService;
 
-  private constructor() {
-    this.graphService = GraphService.getInstance();
-    this.bookService = BookServiceV2.getInstance();
-    this.userService = UserServiceV2.getInstance();
+  constructor(deps: RecommendationServiceDeps) {
+    this.graphService = deps.graphService;
+    this.bookService = deps.bookService;
+    this.userService = deps.userService;
+    this.seriesService = deps.seriesService;
+    this.workService = deps.workService;
   }
 
-  public static getInstance(): RecommendationService {
-    if (!RecommendationService.instance) {
-      RecommendationService.instance = new RecommendationService();
-    }
-    return RecommendationService.instance;
+  /**
+   * Deja una sola edición por obra (la primera de la lista, que llega ordenada)
+   * y quita las obras de excludeKeys
+   * El grafo guarda cada edición como un libro distinto
+   */
+  private collapseEditions<T extends { book: Book }>(items: T[], excludeKeys: Set<string> = new Set()): T[] {
+    const seen = new Set(excludeKeys);
+    return items.filter(item => {
+      const key = this.workService.getWorkKey(item.book.id);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
   }
 
   /**
    * Obtiene recomendaciones personalizadas para un usuario
+   * El siguiente volumen sin leer de cada serie que el usuario está leyendo va
+   * primero, con una puntuación mayor que la de cualquier recomendación del grafo
+   * Las ediciones de una misma obra suman sus puntuaciones y se recomiendan una
+   * sola vez; las obras de las que el usuario ya leyó alguna edición no se recomiendan
    * Complejidad: O(k × m) donde k = usuarios similares, m = libros por usuario
    */
   public getRecommendationsForUser(
     userId: string,
     limit: number = 10
   ): BookRecommendation[] {
-    const recommendations = this.graphService.getBookRecommendations(userId, limit);
+    const readBooks = this.graphService.getUserBooks(userId);
+    const readWorks = new Set(readBooks.map(bookId => this.workService.getWorkKey(bookId)));
+
+    // Se piden todas: al agrupar ediciones la lista se acorta
+    const recommendations = this.graphService.getBookRecommendations(userId, Number.MAX_SAFE_INTEGER);
+    const scoreByWork = new Map<string, number>();
+    recommendations.forEach(rec => {
+      const key = this.workService.getWorkKey(rec.bookId);
+      scoreByWork.set(key, (scoreByWork.get(key) ?? 0) + rec.score);
+    });
     
-    return recommendations
+    const fromGraph = recommendations
       .map(rec => {
         const book = this.bookService.findBookById(rec.bookId);
         if (!book) return null;
         
         return {
           book,
-          score: rec.score,
+          score: scoreByWork.get(this.workService.getWorkKey(book.id))!,
           reason: rec.reason
         };
       })
       .filter((rec): rec is BookRecommendation => rec !== null);
+
+    const collapsed = this.collapseEditions(fromGraph, readWorks)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const topScore = Math.max(1, ...collapsed.map(rec => rec.score));
+    const nextVolumes: BookRecommendation[] = this.seriesService
+      .getNextUnreadVolumes(readBooks)
+      .map(({ serie, libro }) => ({
+        book: libro,
+        score: topScore + 1,
+        reason: `Siguiente volumen de "${serie.titulo}" (vol. ${libro.serie!.volumen})`
+      }));
+
+    return this.collapseEditions([...nextVolumes, ...collapsed]).slice(0, limit);
   }
 
   /**
    * Obtiene libros relacionados ("otros también leyeron...")
+   * Sin otras ediciones de la misma obra y con una sola edición por obra
    * Complejidad: O(u × b)
    */
   public getRelatedBooks(bookId: string, limit: number = 10): RelatedBook[] {
-    const related = this.graphService.getRelatedBooks(bookId, limit);
+    const related = this.graphService.getRelatedBooks(bookId, Number.MAX_SAFE_INTEGER);
     
-    return related
+    const books = related
       .map(rel => {
         const book = this.bookService.findBookById(rel.bookId);
         if (!book) return null;
@@ -93,19 +142,22 @@ export class RecommendationService {
         };
       })
       .filter((rel): rel is RelatedBook => rel !== null);
+
+    return this.collapseEditions(books, new Set([this.workService.getWorkKey(bookId)])).slice(0, limit);
   }
 
   /**
    * Obtiene libros similares basados en lectores comunes
+   * Sin otras ediciones de la misma obra y con una sola edición por obra
    * Complejidad: O(k log k)
    */
   public getSimilarBooks(
     bookId: string,
     limit: number = 10
   ): Array<{ book: Book; similarity: number }> {
-    const similar = this.graphService.getSimilarBooks(bookId, limit);
+    const similar = this.graphService.getSimilarBooks(bookId, Number.MAX_SAFE_INTEGER);
     
-    return similar
+    const books = similar
       .map(sim => {
         const book = this.bookService.findBookById(sim.bookId);
         if (!book) return null;
@@ -116,6 +168,8 @@ export class RecommendationService {
         };
       })
       .filter((sim): sim is { book: Book; similarity: number } => sim !== null);
+
+    return this.collapseEditions(books, new Set([this.workService.getWorkKey(bookId)])).slice(0, limit);
   }
 
   /**
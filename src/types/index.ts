@@ -2,20 +2,36 @@
  * Tipos de datos para el Sistema de Gestión de Biblioteca
  */
 
-// Categorías de libros
-export type BookCategory = 
-  | 'Ficción'
-  | 'Ciencia'
-  | 'Historia'
-  | 'Tecnología'
-  | 'Arte'
-  | 'Biografía'
-  | 'Filosofía'
-  | 'Otro';
+// Categoría de un libro: código de un nodo de la clasificación ('510', '821.134.2'...)
+export type BookCategory = string;
 
 // Estado del libro
 export type BookStatus = 'disponible' | 'prestado' | 'reservado' | 'mantenimiento';
 
+// Tipo de material: libro impreso (ejemplares físicos) o digital (licencia)
+export type MaterialType = 'impreso' | 'digital';
+
+// Estado de la licencia de un libro digital
+export type LicenseStatus = 'vigente' | 'agotada' | 'vencida';
+
+// Nivel de un lugar de la biblioteca: sucursal > sala > estantería
+export type LocationLevel = 'sucursal' | 'sala' | 'estanteria';
+
+// Rol de una persona en la obra
+export type ContributorRole = 'autor' | 'traductor' | 'editor' | 'ilustrador';
+
+// Estado de un ejemplar físico
+export type CopyStatus = 'disponible' | 'prestado' | 'apartado' | 'mantenimiento' | 'baja';
+
+// Condición física de un ejemplar
+export type CopyCondition = 'nuevo' | 'bueno' | 'regular' | 'deteriorado';
+
+// Etapa de una reparación: en cola del taller, en el taller o cerrada
+export type RepairStatus = 'pendiente' | 'en_reparacion' | 'cerrada';
+
+// Resultado de una reparación cerrada
+export type RepairOutcome = 'reparado' | 'baja';
+
 // Estado del préstamo
 export type LoanStatus = 'activo' | 'devuelto' | 'vencido';
 
@@ -30,7 +46,159 @@ export type OperationType =
   | 'realizar_prestamo'
   | 'devolver_libro'
   | 'agregar_reserva'
-  | 'cancelar_reserva';
+  | 'cancelar_reserva'
+  | 'importar_libros'
+  | 'importar_usuarios'
+  | 'fusionar_libros'
+  | 'enviar_reparacion'
+  | 'iniciar_reparacion'
+  | 'cerrar_reparacion'
+  | 'etiquetar_libros'
+  | 'desetiquetar_libros'
+  | 'finalizar_prestamo_digital';
+
+/**
+ * Persona que participó en un libro
+ */
+export interface Contributor {
+  nombre: string;
+  rol: ContributorRole;
+}
+
+/**
+ * Nodo de la clasificación temática (Dewey, CDU...)
+ * padre es null en las clases principales
+ */
+export interface ClassificationNode {
+  codigo: string;
+  etiqueta: string;
+  padre: string | null;
+}
+
+/**
+ * Clasificación configurada en una biblioteca
+ */
+export interface ClassificationScheme {
+  sistema: string;
+  nodos: ClassificationNode[];
+}
+
+/**
+ * Nodo con sus subclases y la cantidad de libros de todo su subárbol
+ */
+export interface ClassificationTreeNode extends ClassificationNode {
+  total: number;
+  hijos: ClassificationTreeNode[];
+}
+
+/**
+ * Serie o obra en varios volúmenes (enciclopedias, colecciones numeradas...)
+ */
+export interface Series {
+  id: string;
+  titulo: string;
+  descripcion?: string;
+  fechaCreacion: Date;
+}
+
+/**
+ * Pertenencia de un libro a una serie; el número de volumen es único en la serie
+ */
+export interface BookSeriesEntry {
+  serieId: string;
+  volumen: number;
+}
+
+/**
+ * Serie con sus libros en orden de volumen
+ */
+export interface SeriesWithVolumes extends Series {
+  libros: Book[];
+}
+
+/**
+ * Datos para crear una serie
+ */
+export interface CreateSeriesDTO {
+  titulo: string;
+  descripcion?: string;
+}
+
+/**
+ * Obra (nivel FRBR): agrupa las ediciones y traducciones de un mismo texto,
+ * cada una con su propio ISBN
+ */
+export interface Work {
+  id: string;
+  titulo: string;
+  autor: string;
+  descripcion?: string;
+  fechaCreacion: Date;
+}
+
+/**
+ * Obra con sus ediciones ordenadas por año de publicación
+ */
+export interface WorkWithEditions extends Work {
+  ediciones: Book[];
+}
+
+/**
+ * Datos para crear una obra
+ */
+export interface CreateWorkDTO {
+  titulo: string;
+  autor?: string;
+  descripcion?: string;
+}
+
+/**
+ * Número de libros con una etiqueta (nube de etiquetas)
+ */
+export interface TagCount {
+  etiqueta: string;
+  libros: number;
+}
+
+/**
+ * Filtro por varias etiquetas: libros con todas (all) o con alguna (any)
+ */
+export type TagMatch = 'all' | 'any';
+
+/**
+ * Operación en bloque sobre las etiquetas: agregar (tag) o quitar (untag)
+ */
+export type BulkTagAction = 'tag' | 'untag';
+
+/**
+ * Resultado de etiquetar o desetiquetar libros en bloque
+ */
+export interface BulkTagResult {
+  etiquetas: string[];
+  modificados: Book[]; // libros que cambiaron (los que ya estaban así se omiten)
+}
+
+/**
+ * Condiciones de la licencia de un libro digital
+ * prestamosTotales y fechaVencimiento son null cuando la licencia no tiene ese límite
+ */
+export interface DigitalLicense {
+  usuariosSimultaneos: number;
+  prestamosTotales: number | null;
+  fechaVencimiento: Date | null;
+}
+
+/**
+ * Uso de la licencia de un libro digital
+ * prestamosRestantes es null si la licencia no limita los préstamos totales
+ */
+export interface LicenseUsage {
+  licencia: DigitalLicense;
+  estado: LicenseStatus;
+  prestamosRealizados: number;
+  prestamosRestantes: number | null;
+  prestamosActivos: number;
+}
 
 /**
  * Interfaz de Libro
@@ -38,7 +206,8 @@ export type OperationType =
 export interface Book {
   id: string;
   titulo: string;
-  autor: string;
+  autor: string; // autores separados por "; " (derivado de contribuyentes)
+  contribuyentes: Contributor[];
   isbn: string;
   categoria: BookCategory;
   anioPublicacion: number;
@@ -49,7 +218,149 @@ export interface Book {
   copiasDisponibles: number;
   fechaRegistro: Date;
   descripcion?: string;
-  portada?: string;
+  portada?: string | null; // URL de la portada (/api/books/[id]/cover); null al quitarla
+  etiquetas?: string[]; // etiquetas libres ("lectura obligatoria", "premio Nobel"...)
+  signatura?: string | null; // signatura fijada a mano; sin ella se genera (callNumberOf)
+  tipo?: MaterialType; // ausente en los libros anteriores a los digitales: impreso
+  licencia?: DigitalLicense | null; // solo los digitales; copias = usuarios simultáneos
+  serie?: BookSeriesEntry | null; // null al quitarlo de su serie
+  obraId?: string | null; // null al quitarlo de su obra
+  version: number;
+}
+
+/**
+ * Ejemplar físico de un libro
+ * copias y copiasDisponibles del libro se calculan a partir de sus ejemplares
+ * En un libro digital cada ejemplar es una plaza de la licencia (un lector a la vez)
+ */
+export interface Copy {
+  id: string;
+  libroId: string;
+  codigoBarras: string;
+  estado: CopyStatus;
+  condicion: CopyCondition;
+  ubicacion: string; // detalle libre ("balda 3", "mostrador")
+  estanteriaId?: string | null; // sin estantería asignada, la que cubre su signatura
+  fechaAlta: Date;
+  notas?: string;
+}
+
+/**
+ * Lugar de la biblioteca: una sucursal, una sala de una sucursal o una
+ * estantería de una sala
+ * Una estantería puede declarar el rango de clases que guarda ("800" a "899")
+ */
+export interface LibraryLocation {
+  id: string;
+  nivel: LocationLevel;
+  nombre: string;
+  padreId: string | null; // sucursal de una sala, sala de una estantería; null en las sucursales
+  desde?: string;
+  hasta?: string; // incluye sus subdivisiones
+}
+
+/**
+ * Datos para crear un lugar
+ */
+export interface CreateLocationDTO {
+  nivel: LocationLevel;
+  nombre: string;
+  padreId?: string | null;
+  desde?: string;
+  hasta?: string;
+}
+
+/**
+ * Sucursal, sala y estantería de un ejemplar
+ */
+export interface ShelfPath {
+  sucursal: LibraryLocation;
+  sala: LibraryLocation;
+  estanteria: LibraryLocation;
+  etiqueta: string; // "Biblioteca Central · Sala General · A1"
+}
+
+/**
+ * Ubicación de un ejemplar; asignada es false si se deduce del rango de la estantería
+ */
+export interface CopyLocation {
+  copiaId: string;
+  codigoBarras: string;
+  estado: CopyStatus;
+  ubicacion: ShelfPath | null;
+  detalle: string; // ubicacion libre del ejemplar
+  asignada: boolean;
+}
+
+/**
+ * Signatura de un libro y ubicación de cada uno de sus ejemplares
+ */
+export interface BookLocation {
+  libroId: string;
+  signatura: string;
+  ejemplares: CopyLocation[];
+}
+
+/**
+ * Libro de una estantería con sus ejemplares en ella (lectura de estantes)
+ */
+export interface ShelfEntry {
+  libro: Book;
+  signatura: string;
+  ejemplares: Copy[];
+}
+
+/**
+ * Papeleta de un préstamo: lo que se entrega al lector y lo que usa el personal
+ * para localizar el ejemplar
+ */
+export interface LoanSlip {
+  prestamoId: string;
+  usuario: string;
+  titulo: string;
+  autor: string;
+  signatura: string;
+  codigoBarras: string | null;
+  ubicacion: string | null;
+  fechaPrestamo: Date;
+  fechaDevolucionEstimada: Date;
+  digital: boolean;
+}
+
+/**
+ * Paso del ciclo de una reparación (apertura, entrada al taller, cierre)
+ */
+export interface RepairStep {
+  estado: RepairStatus;
+  fecha: Date;
+  nota?: string;
+}
+
+/**
+ * Orden de reparación de un ejemplar
+ * Mientras está abierta el ejemplar queda en mantenimiento: no se presta
+ * ni se aparta para reservas
+ */
+export interface RepairTicket {
+  id: string;
+  copiaId: string;
+  libroId: string;
+  motivo: string;
+  estado: RepairStatus;
+  pasos: RepairStep[];
+  fechaApertura: Date;
+  fechaCierre?: Date;
+  resultado?: RepairOutcome;
+  prestamoId?: string; // préstamo cuya devolución envió el ejemplar a reparar
+}
+
+/**
+ * Entrada de la cola de mantenimiento: la orden con los datos del ejemplar
+ */
+export interface RepairQueueItem extends RepairTicket {
+  titulo: string;
+  codigoBarras: string;
+  diasAbierta: number;
 }
 
 /**
@@ -66,6 +377,7 @@ export interface User {
   activo: boolean;
   prestamosActivos: number;
   historialPrestamos: number;
+  version: number;
 }
 
 /**
@@ -75,25 +387,44 @@ export interface Loan {
   id: string;
   libroId: string;
   usuarioId: string;
+  copiaId?: string; // ausente en préstamos anteriores al control de ejemplares
   fechaPrestamo: Date;
   fechaDevolucionEstimada: Date;
   fechaDevolucionReal?: Date;
   estado: LoanStatus;
   multa: number;
+  digital?: boolean; // termina solo en su fecha de devolución, sin multa
   notas?: string;
 }
 
 /**
  * Interfaz de Reserva (para la cola de espera)
+ * Con obraId la reserva es de "cualquier edición": espera en la cola de la obra
+ * y libroId es la edición desde la que se pidió
  */
 export interface Reservation {
   id: string;
   libroId: string;
+  obraId?: string;
   usuarioId: string;
   fechaReserva: Date;
   activa: boolean;
 }
 
+/**
+ * Ejemplar apartado para el primero de la cola tras una devolución
+ * Si no se retira antes de fechaLimite, el apartado expira y pasa al siguiente
+ */
+export interface Hold {
+  id: string;
+  reservationId: string;
+  libroId: string;
+  usuarioId: string;
+  copiaId?: string;
+  fechaAviso: Date;
+  fechaLimite: Date;
+}
+
 /**
  * Interfaz de Operación (para el historial)
  */
@@ -112,7 +443,8 @@ export interface Operation {
  */
 export interface CreateBookDTO {
   titulo: string;
-  autor: string;
+  autor?: string; // atajo para un único autor
+  contribuyentes?: Contributor[];
   isbn: string;
   categoria: BookCategory;
   anioPublicacion: number;
@@ -121,6 +453,12 @@ export interface CreateBookDTO {
   copias: number;
   descripcion?: string;
   portada?: string;
+  etiquetas?: string[];
+  signatura?: string;
+  tipo?: MaterialType;
+  licencia?: DigitalLicense | null;
+  serie?: BookSeriesEntry;
+  obraId?: string;
 }
 
 /**
@@ -134,6 +472,27 @@ export interface CreateUserDTO {
   direccion: string;
 }
 
+/**
+ * Datos para crear un nuevo ejemplar
+ */
+export interface CreateCopyDTO {
+  codigoBarras?: string; // se genera si no se indica
+  condicion?: CopyCondition;
+  ubicacion?: string;
+  estanteriaId?: string | null;
+  estado?: CopyStatus;
+  notas?: string;
+}
+
+/**
+ * Datos para cerrar una reparación
+ */
+export interface CloseRepairDTO {
+  resultado: RepairOutcome;
+  condicion?: CopyCondition; // condición del ejemplar tras la reparación
+  nota?: string;
+}
+
 /**
  * Datos para crear un préstamo
  */
@@ -141,8 +500,179 @@ export interface CreateLoanDTO {
   libroId: string;
   usuarioId: string;
   diasPrestamo: number;
+  copiaId?: string; // si no se indica se presta el primer ejemplar disponible
+}
+
+// Formatos de intercambio de registros bibliográficos
+export type MarcFormat = 'marc21' | 'marcxml';
+
+/**
+ * Registro MARC que no se pudo importar
+ * registro es la posición en el archivo (desde 1)
+ */
+export interface MarcImportError {
+  registro: number;
+  titulo?: string;
+  isbn?: string;
+  error: string;
+}
+
+/**
+ * Resultado de una importación MARC: libros creados y errores por registro
+ */
+export interface MarcImportReport {
+  formato: MarcFormat;
+  total: number;
+  importados: Book[];
+  errores: MarcImportError[];
+}
+
+// Columna del CSV que corresponde a cada campo (campo -> cabecera)
+export type CsvColumnMapping = Record<string, string>;
+
+// Resultado de una fila importada
+export type CsvRowOutcome = 'creado' | 'duplicado' | 'error';
+
+/**
+ * Fila de un CSV importado
+ * fila es la línea de datos (la cabecera es la 1); clave es el ISBN o el email
+ */
+export interface CsvRowResult {
+  fila: number;
+  resultado: CsvRowOutcome;
+  id?: string;
+  clave?: string;
+  descripcion?: string;
+  error?: string;
+}
+
+/**
+ * Resultado de una importación CSV agrupado por resultado
+ * En simulación nada se guarda: creados son las filas que se crearían
+ */
+export interface CsvImportReport {
+  entidad: 'libros' | 'usuarios';
+  simulacion: boolean;
+  total: number;
+  creados: CsvRowResult[];
+  duplicados: CsvRowResult[];
+  errores: CsvRowResult[];
 }
 
+/**
+ * Par de libros que probablemente son la misma obra
+ * confianza va de 0 a 1; motivos explica las coincidencias encontradas
+ */
+export interface DuplicateCandidate {
+  libroA: Book;
+  libroB: Book;
+  confianza: number;
+  motivos: string[];
+}
+
+/**
+ * Resultado de fusionar un libro duplicado en el que se conserva
+ */
+export interface BookMergeResult {
+  libro: Book;
+  fusionadoId: string;
+  ejemplares: number;
+  prestamos: number;
+  reservas: number;
+  reservasDescartadas: number;
+  apartados: number;
+}
+
+/**
+ * Aristas usuario -> libro del grafo de préstamos
+ * Los grafos de similitud se derivan de ellas
+ */
+export interface GraphState {
+  users: string[];
+  books: string[];
+  loans: Array<{ userId: string; bookId: string; weight: number }>;
+}
+
+/**
+ * Estado completo de la biblioteca
+ */
+export interface LibraryState {
+  books: Book[];
+  users: User[];
+  loans: Loan[];
+  copies: Copy[];
+  reservations: Record<string, Reservation[]>; // bookId u obraId -> cola en orden FIFO
+  holds: Hold[];
+  history: Operation[]; // del más reciente al más antiguo
+  graph: GraphState;
+}
+
+/**
+ * Archivo versionado con el estado completo de la biblioteca
+ */
+export interface LibrarySnapshot extends LibraryState {
+  schemaVersion: number;
+  exportedAt: Date;
+  classification: ClassificationScheme;
+  series: Series[];
+  works: Work[];
+  repairs: RepairTicket[];
+  locations: LibraryLocation[];
+}
+
+/**
+ * Eventos de dominio del registro de operaciones (fuente de verdad)
+ * Cada evento describe un hecho; los contadores derivados
+ * (copias, préstamos activos, aristas del grafo) se recalculan al reproducirlos
+ */
+export interface DomainEventPayloads {
+  BookAdded: { book: Book };
+  BookUpdated: { bookId: string; changes: Partial<Book> };
+  BookDeleted: { bookId: string };
+  UserAdded: { user: User };
+  UserUpdated: { userId: string; changes: Partial<User> };
+  UserDeleted: { userId: string };
+  LoanCreated: { loan: Loan };
+  BookReturned: {
+    loanId: string;
+    fechaDevolucionReal: Date;
+    estado: LoanStatus;
+    multa: number;
+    copiaId?: string;
+  };
+  CopyAdded: { copy: Copy };
+  CopyUpdated: { copyId: string; changes: Partial<Copy> };
+  CopyRemoved: { copyId: string };
+  LoanCopyAssigned: { loanId: string; copiaId: string };
+  HoldCopyAssigned: { holdId: string; copiaId: string };
+  ReservationQueued: { reservation: Reservation };
+  ReservationCancelled: { bookId: string; userId: string; workId?: string };
+  ReservationFulfilled: { bookId: string; reservationId: string; workId?: string };
+  HoldPlaced: { hold: Hold };
+  HoldReleased: { holdId: string; motivo: 'retirado' | 'expirado'; copiaId?: string };
+  LoanMarkedOverdue: { loanId: string };
+  BooksMerged: { sourceId: string; targetId: string };
+  CopySentToRepair: { copiaId: string; ticketId: string; motivo: string };
+  CopyReturnedFromRepair: {
+    copiaId: string;
+    ticketId: string;
+    estado: 'disponible' | 'baja';
+    condicion?: CopyCondition;
+  };
+  SnapshotImported: { snapshot: LibrarySnapshot };
+}
+
+export type DomainEventType = keyof DomainEventPayloads;
+
+export type DomainEvent = {
+  [K in DomainEventType]: {
+    sequence: number;
+    type: K;
+    timestamp: Date;
+    payload: DomainEventPayloads[K];
+  };
+}[DomainEventType];
+
 /**
  * Estadísticas del sistema
  */